@@ -4,10 +4,11 @@
  * Uses Zod schema field names directly throughout
  */
 
-import { fetchThaiVTTContent, injectNetflixSubtitleScript } from './services/netflixVTTExtractor';
+import { fetchEnglishVTTContent, fetchThaiVTTContent, injectNetflixSubtitleScript } from './services/netflixVTTExtractor';
 import { extractEpisodeFromNetflixPage } from './services/netflixMetadataExtractor';
-import { saveEpisode, saveSubtitlesBatch } from './services/supabaseClient';
-import { parseVTTFile } from '@/services/vtt/vttParser';
+import { saveEpisode, saveSubtitlesBatch, saveEnglishSubtitles, enqueueEpisodeProcessingJob } from './services/supabaseClient';
+import { parseEnglishSubtitleFile, parseSubtitleFile } from '@/services/vtt/subtitleFormat';
+import { recordEvent } from '@/services/telemetry/telemetry';
 
 let isExtracting = false;
 
@@ -32,9 +33,7 @@ async function initialize() {
  * @returns {Promise<void>} Resolves when video is ready, rejects on timeout
  */
 async function waitForVideoReady(): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Function entry',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('content.ts:waitForVideoReady', 'Function entry');
   
   const maxWaitTime = 30000; // 30 seconds max wait
   const startTime = Date.now();
@@ -42,27 +41,21 @@ async function waitForVideoReady(): Promise<void> {
   // Wait for video element to exist
   while (!document.querySelector('video')) {
     if (Date.now() - startTime > maxWaitTime) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Video element timeout',data:{elapsed:Date.now()-startTime},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-      // #endregion
+      recordEvent('content.ts:waitForVideoReady', 'Video element timeout', {elapsed:Date.now()-startTime});
       throw new Error('Video element not found after 30 seconds');
     }
     await new Promise(resolve => setTimeout(resolve, 100));
   }
   
   const video = document.querySelector('video') as HTMLVideoElement;
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Video element found',data:{readyState:video.readyState,paused:video.paused},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('content.ts:waitForVideoReady', 'Video element found', {readyState:video.readyState,paused:video.paused});
   
   // Wait for video readyState >= 2 (loadedmetadata)
   if (video.readyState < 2) {
     await new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
         video.removeEventListener('loadedmetadata', checkReady);
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Metadata load timeout',data:{readyState:video.readyState},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('content.ts:waitForVideoReady', 'Metadata load timeout', {readyState:video.readyState});
         if (video.readyState < 2) {
           reject(new Error('Video metadata not loaded after 10 seconds'));
         } else {
@@ -74,9 +67,7 @@ async function waitForVideoReady(): Promise<void> {
         if (video.readyState >= 2) {
           clearTimeout(timeout);
           video.removeEventListener('loadedmetadata', checkReady);
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Metadata loaded',data:{readyState:video.readyState},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-          // #endregion
+          recordEvent('content.ts:waitForVideoReady', 'Metadata loaded', {readyState:video.readyState});
           resolve();
         }
       };
@@ -90,9 +81,7 @@ async function waitForVideoReady(): Promise<void> {
   await new Promise(resolve => setTimeout(resolve, 2000));
   
   console.log('[SmarterSubs] Video ready - readyState:', video.readyState);
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:waitForVideoReady',message:'Function exit - video ready',data:{readyState:video.readyState},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('content.ts:waitForVideoReady', 'Function exit - video ready', {readyState:video.readyState});
 }
 
 async function extractAndSave() {
@@ -114,21 +103,15 @@ async function extractAndSave() {
     }
 
     console.log('[SmarterSubs] Extracted episode:', episode);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:extractAndSave',message:'Episode extracted, about to wait for video',data:{mediaId:episode.media_id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H3,H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('content.ts:extractAndSave', 'Episode extracted, about to wait for video', {mediaId:episode.media_id});
 
     // Wait for video to be ready before attempting VTT extraction
     await waitForVideoReady();
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:extractAndSave',message:'Video ready, about to fetch VTT',data:{mediaId:episode.media_id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H3'})}).catch(()=>{});
-    // #endregion
+    recordEvent('content.ts:extractAndSave', 'Video ready, about to fetch VTT', {mediaId:episode.media_id});
 
     // Extract Thai VTT file
     const thaiVTT = await fetchThaiVTTContent(episode.media_id);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'content.ts:extractAndSave',message:'VTT fetch completed',data:{hasThai:!!thaiVTT,thaiLength:thaiVTT?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1,H2,H3,H4,H5'})}).catch(()=>{});
-    // #endregion
+    recordEvent('content.ts:extractAndSave', 'VTT fetch completed', {hasThai:!!thaiVTT,thaiLength:thaiVTT?.length||0});
     
     if (!thaiVTT) {
       throw new Error('Could not extract Thai VTT files - extraction failed');
@@ -136,8 +119,8 @@ async function extractAndSave() {
 
     console.log('[SmarterSubs] Extracted Thai VTT file');
 
-    // Parse Thai VTT file (returns SubtitleTh[] with Zod field names directly)
-    const subtitles = await parseVTTFile(
+    // Parse Thai subtitle file - WebVTT, or DFXP when Netflix has no WebVTT (returns SubtitleTh[] with Zod field names directly)
+    const subtitles = await parseSubtitleFile(
       thaiVTT,
       episode.media_id
     );
@@ -152,6 +135,32 @@ async function extractAndSave() {
     await saveSubtitlesBatch(subtitles, true);
     console.log('[SmarterSubs] Saved subtitles:', subtitles.length);
 
+    // Save the official English track (subtitles_en) - optional, the Thai extraction succeeded without it
+    let englishCount = 0;
+    try {
+      const englishVTT = await fetchEnglishVTTContent(episode.media_id);
+      recordEvent('content.ts:extractAndSave', 'English VTT fetch completed', {hasEnglish:!!englishVTT,englishLength:englishVTT?.length||0});
+
+      if (englishVTT) {
+        const englishSubtitles = await parseEnglishSubtitleFile(englishVTT, episode.media_id);
+        await saveEnglishSubtitles(episode.media_id, englishSubtitles);
+        englishCount = englishSubtitles.length;
+        console.log('[SmarterSubs] Saved English subtitles:', englishCount);
+      } else {
+        console.warn('[SmarterSubs] No English track available');
+      }
+    } catch (error) {
+      console.warn('[SmarterSubs] Failed to extract English subtitles:', error);
+    }
+
+    // Queue processing for pipeline workers - the extraction itself succeeded even if this fails
+    try {
+      const queued = await enqueueEpisodeProcessingJob(episode.media_id);
+      console.log(queued ? '[SmarterSubs] Queued processing job' : '[SmarterSubs] Processing job already pending');
+    } catch (error) {
+      console.warn('[SmarterSubs] Failed to queue processing job:', error);
+    }
+
     // Notify background script
     chrome.runtime.sendMessage({
       type: 'EXTRACT_COMPLETE',
@@ -159,6 +168,7 @@ async function extractAndSave() {
         mediaId: episode.media_id,
         episodeCount: 1,
         subtitleCount: subtitles.length,
+        englishSubtitleCount: englishCount,
       },
     }).catch(() => {});
 
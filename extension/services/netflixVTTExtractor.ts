@@ -3,6 +3,8 @@
  * Simplified approach based on SmartSubs - intercepts JSON.parse to capture subtitle URLs
  */
 
+import { recordEvent } from '@/services/telemetry/telemetry';
+
 
 /**
  * Netflix API access code - embedded as string to inject into page context
@@ -25,6 +27,10 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
   if (!window.__SMARTSUBS_JSON_PARSE_INTERCEPTED) {
     window.__SMARTSUBS_JSON_PARSE_INTERCEPTED = true;
     window.__SMARTSUBS_CAPTURED_URLS = window.__SMARTSUBS_CAPTURED_URLS || {};
+    window.__SMARTSUBS_CAPTURED_TTML_URLS = window.__SMARTSUBS_CAPTURED_TTML_URLS || {};
+
+    // TTML downloadable profiles, in order of preference - fallback when a track has no usable webvtt-lssdh-ios8 downloadable
+    const TTML_PROFILES = ['dfxp-ls-sdh', 'simplesdh', 'imsc1.1'];
     
     const originalJSONParse = JSON.parse;
     JSON.parse = function(...args) {
@@ -34,46 +40,52 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
       if (value && value.result && value.result.timedtexttracks && Array.isArray(value.result.timedtexttracks)) {
         console.log('[INJECTED] JSON.parse intercepted timedtexttracks:', value.result.timedtexttracks.length);
         
-        // Extract VTT URLs from each track
+        // Extract subtitle URLs from each track
         for (const track of value.result.timedtexttracks) {
           // Skip forced narrative and none tracks
           if (track.isForcedNarrative || track.isNoneTrack) {
             continue;
           }
           
-          // Check for webvtt downloadables
-          if (track.ttDownloadables && track.ttDownloadables['webvtt-lssdh-ios8']) {
-            const webvttDL = track.ttDownloadables['webvtt-lssdh-ios8'];
-            if (webvttDL && webvttDL.urls) {
-              const allUrls = Object.values(webvttDL.urls);
-              const urlObj = allUrls[0];
-              
-              if (urlObj && urlObj.url) {
-                const url = urlObj.url;
-                const langCode = track.language || track.bcp47 || null;
-                
-                console.log('[INJECTED] Found VTT URL:', { langCode, url: url.substring(0, 100) });
-                
-                // Store URL by language code
-                if (langCode) {
-                  const langCodeLower = langCode.toLowerCase();
-                  let targetLang = null;
-                  if (langCodeLower.includes('th') || langCodeLower.includes('thai')) {
-                    targetLang = 'th';
-                  } else if (langCodeLower.includes('en') || langCodeLower.includes('english')) {
-                    targetLang = 'en';
-                  }
-                  
-                  if (targetLang) {
-                    if (!window.__SMARTSUBS_CAPTURED_URLS[targetLang]) {
-                      window.__SMARTSUBS_CAPTURED_URLS[targetLang] = [];
-                    }
-                    // Avoid duplicates
-                    if (!window.__SMARTSUBS_CAPTURED_URLS[targetLang].includes(url)) {
-                      window.__SMARTSUBS_CAPTURED_URLS[targetLang].push(url);
-                      console.log('[INJECTED] Stored URL for', targetLang + ':', window.__SMARTSUBS_CAPTURED_URLS[targetLang].length);
-                    }
-                  }
+          // WebVTT downloadable, plus the first TTML (DFXP / IMSC) downloadable as fallback for tracks without WebVTT
+          const downloadables = track.ttDownloadables || {};
+          const firstUrl = (profile) => {
+            const dl = downloadables[profile];
+            const urlObj = dl && dl.urls ? Object.values(dl.urls).find(urlObj => urlObj && urlObj.url) : null;
+            return urlObj ? urlObj.url : null;
+          };
+          const vttUrl = firstUrl('webvtt-lssdh-ios8');
+          const ttmlProfile = TTML_PROFILES.find(profile => firstUrl(profile));
+          const ttmlUrl = ttmlProfile ? firstUrl(ttmlProfile) : null;
+          if (!vttUrl && !ttmlUrl) {
+            continue;
+          }
+          const langCode = track.language || track.bcp47 || null;
+
+          console.log('[INJECTED] Found subtitle URLs:', { langCode, vttUrl: vttUrl ? vttUrl.substring(0, 100) : null, ttmlProfile, ttmlUrl: ttmlUrl ? ttmlUrl.substring(0, 100) : null });
+
+          // Store URLs by language code - WebVTT in __SMARTSUBS_CAPTURED_URLS, TTML in __SMARTSUBS_CAPTURED_TTML_URLS
+          if (langCode) {
+            const langCodeLower = langCode.toLowerCase();
+            let targetLang = null;
+            if (langCodeLower.includes('th') || langCodeLower.includes('thai')) {
+              targetLang = 'th';
+            } else if (langCodeLower.includes('en') || langCodeLower.includes('english')) {
+              targetLang = 'en';
+            }
+
+            if (targetLang) {
+              for (const [store, url] of [[window.__SMARTSUBS_CAPTURED_URLS, vttUrl], [window.__SMARTSUBS_CAPTURED_TTML_URLS, ttmlUrl]]) {
+                if (!url) {
+                  continue;
+                }
+                if (!store[targetLang]) {
+                  store[targetLang] = [];
+                }
+                // Avoid duplicates
+                if (!store[targetLang].includes(url)) {
+                  store[targetLang].push(url);
+                  console.log('[INJECTED] Stored', url === vttUrl ? 'VTT' : 'TTML', 'URL for', targetLang + ':', store[targetLang].length);
                 }
               }
             }
@@ -84,8 +96,8 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
       return value;
     };
     
-    // Optional: Modify JSON.stringify to request webvtt-lssdh-ios8 profile
-    // This ensures Netflix includes VTT URLs in API responses
+    // Optional: Modify JSON.stringify to request webvtt-lssdh-ios8 and the TTML fallback profiles
+    // This ensures Netflix includes VTT (and DFXP) URLs in API responses
     const originalJSONStringify = JSON.stringify;
     JSON.stringify = function(value) {
       const orig = originalJSONStringify.apply(this, arguments);
@@ -94,9 +106,10 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
       try {
         const data = originalJSONParse(orig);
         if (data && data.params && data.params.profiles && Array.isArray(data.params.profiles)) {
-          // Add webvtt-lssdh-ios8 to profiles if not already present
-          if (!data.params.profiles.includes('webvtt-lssdh-ios8')) {
-            data.params.profiles.unshift('webvtt-lssdh-ios8');
+          // Add webvtt-lssdh-ios8 and the TTML profiles if not already present
+          const missingProfiles = ['webvtt-lssdh-ios8'].concat(TTML_PROFILES).filter(name => !data.params.profiles.includes(name));
+          if (missingProfiles.length > 0) {
+            data.params.profiles.unshift(...missingProfiles);
             return originalJSONStringify(data);
           }
         }
@@ -289,6 +302,9 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
       if (!window.__SMARTSUBS_CAPTURED_URLS[langCode]) {
         window.__SMARTSUBS_CAPTURED_URLS[langCode] = [];
       }
+      if (!window.__SMARTSUBS_CAPTURED_TTML_URLS) {
+        window.__SMARTSUBS_CAPTURED_TTML_URLS = {};
+      }
       
       // Activate tracks to trigger Netflix to fetch VTT files
       const activationPromises = filteredTracks.map(async (track) => {
@@ -341,23 +357,26 @@ const NETFLIX_SUBTITLE_INJECT_CODE = `
       
       // Retrieve captured URLs
       const capturedUrls = window.__SMARTSUBS_CAPTURED_URLS[langCode] || [];
-      console.log('[INJECTED] Captured URLs for', langCode + ':', capturedUrls.length, capturedUrls);
+      const capturedTTMLUrls = window.__SMARTSUBS_CAPTURED_TTML_URLS[langCode] || [];
+      console.log('[INJECTED] Captured URLs for', langCode + ':', capturedUrls.length, capturedUrls, 'TTML:', capturedTTMLUrls.length);
       console.log('[INJECTED] All captured URLs:', Object.keys(window.__SMARTSUBS_CAPTURED_URLS || {}));
       
-      // Format tracks - Use captured URLs from JSON.parse interception
+      // Format tracks - Use captured URLs from JSON.parse interception (ttmlUrl: DFXP fallback when WebVTT is missing or fails)
       const formattedTracks = filteredTracks.map((track) => {
         const url = capturedUrls.length > 0 ? capturedUrls[0] : null;
+        const ttmlUrl = capturedTTMLUrls.length > 0 ? capturedTTMLUrls[0] : null;
         
         return {
           langCode: track.bcp47 || track.language || track.langCode || track.lang || '',
           lang: track.displayName || track.languageName || track.langName || track.language || '',
           url: url,
+          ttmlUrl: ttmlUrl,
           isCC: track.isCC || track.closedCaptions || false,
           track: track
         };
       });
 
-      console.log('[INJECTED] Formatted tracks:', formattedTracks.length, formattedTracks.map(t => ({ langCode: t.langCode, hasUrl: !!t.url, isCC: t.isCC })));
+      console.log('[INJECTED] Formatted tracks:', formattedTracks.length, formattedTracks.map(t => ({ langCode: t.langCode, hasUrl: !!t.url, hasTTMLUrl: !!t.ttmlUrl, isCC: t.isCC })));
       window.postMessage({ type: 'SMARTSUBS_SUBTITLES_RESPONSE', tracks: formattedTracks, requestId }, '*');
       console.log('[INJECTED] Response sent');
       
@@ -383,22 +402,16 @@ let subtitleScriptInjected = false;
 let subtitleScriptInjectionPromise: Promise<void> | null = null;
 
 export async function injectNetflixSubtitleScript(): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Function entry',data:{alreadyInjected:subtitleScriptInjected},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-  // #endregion
+  recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Function entry', {alreadyInjected:subtitleScriptInjected});
   
   if (subtitleScriptInjected) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Already injected, returning',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-    // #endregion
+    recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Already injected, returning');
     return;
   }
 
   // If injection is already in progress, wait for it
   if (subtitleScriptInjectionPromise) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Injection in progress, waiting',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-    // #endregion
+    recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Injection in progress, waiting');
     return subtitleScriptInjectionPromise;
   }
 
@@ -406,15 +419,11 @@ export async function injectNetflixSubtitleScript(): Promise<void> {
     try {
       // Check if Chrome extension APIs are available
       if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.sendMessage) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Chrome runtime not available',data:{hasChrome:typeof chrome!=='undefined'},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-        // #endregion
+        recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Chrome runtime not available', {hasChrome:typeof chrome!=='undefined'});
         throw new Error('Chrome extension runtime is not available. Make sure the extension is loaded and background script is running.');
       }
       
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Sending injection message to background',data:{codeLength:NETFLIX_SUBTITLE_INJECT_CODE.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-      // #endregion
+      recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Sending injection message to background', {codeLength:NETFLIX_SUBTITLE_INJECT_CODE.length});
       
       // Content scripts can't access chrome.tabs directly
       // Ask background script to handle injection (it has chrome.tabs access)
@@ -422,33 +431,25 @@ export async function injectNetflixSubtitleScript(): Promise<void> {
         type: 'INJECT_NETFLIX_SUBTITLE_SCRIPT',
         code: NETFLIX_SUBTITLE_INJECT_CODE
       });
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Received response from background',data:{success:response?.success,error:response?.error},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-      // #endregion
+      recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Received response from background', {success:response?.success,error:response?.error});
 
       if (response && response.success) {
         subtitleScriptInjected = true;
         subtitleScriptInjectionPromise = null;
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Injection successful',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-        // #endregion
+        recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Injection successful');
       } else {
         const errorMsg = response?.error || 'Unknown error';
         subtitleScriptInjected = false;
         subtitleScriptInjectionPromise = null;
         console.error('[injectNetflixSubtitleScript] Script injection failed:', errorMsg);
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Injection failed',data:{error:errorMsg},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-        // #endregion
+        recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Injection failed', {error:errorMsg}, 'warn');
         throw new Error(`Failed to inject Netflix subtitle script: ${errorMsg}`);
       }
     } catch (error) {
       subtitleScriptInjected = false;
       subtitleScriptInjectionPromise = null;
       console.error('[injectNetflixSubtitleScript] Script injection error:', error);
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:injectNetflixSubtitleScript',message:'Injection error caught',data:{error:error instanceof Error?error.message:String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H1'})}).catch(()=>{});
-      // #endregion
+      recordEvent('netflixVTTExtractor.ts:injectNetflixSubtitleScript', 'Injection error caught', {error:error instanceof Error?error.message:String(error)}, 'warn');
       throw error;
     }
   })();
@@ -457,15 +458,56 @@ export async function injectNetflixSubtitleScript(): Promise<void> {
 }
 
 /**
- * THAI: Fetch Thai VTT from Netflix
- * Only fetches Thai subtitles (no fallback)
+ * Fetch subtitle file content from a captured Netflix URL
+ * @param {string} url - Subtitle file URL
+ * @param {string} kind - "VTT" or "TTML" (logging only)
+ * @returns {Promise<string|null>} File content, or null if the fetch failed or returned nothing
+ */
+async function fetchSubtitleContent(url: string, kind: 'VTT' | 'TTML'): Promise<string | null> {
+  recordEvent('netflixVTTExtractor.ts:fetchSubtitleContent', `Fetching ${kind}`, {url:url.substring(0,100)});
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.warn(`[fetchSubtitleContent] ${kind} fetch failed:`, response.status, response.statusText);
+      recordEvent('netflixVTTExtractor.ts:fetchSubtitleContent', `${kind} fetch failed`, {status:response.status,statusText:response.statusText}, 'warn');
+      return null;
+    }
+    const content = await response.text();
+    if (!content) {
+      console.warn(`[fetchSubtitleContent] ${kind} fetch returned empty content`);
+      recordEvent('netflixVTTExtractor.ts:fetchSubtitleContent', `${kind} fetch returned empty`);
+      return null;
+    }
+    recordEvent('netflixVTTExtractor.ts:fetchSubtitleContent', `${kind} content fetched successfully`, {contentLength:content.length});
+    return content;
+  } catch (error) {
+    console.error(`[fetchSubtitleContent] ${kind} fetch error:`, error);
+    recordEvent('netflixVTTExtractor.ts:fetchSubtitleContent', `${kind} fetch error`, {error:error instanceof Error?error.message:String(error)}, 'warn');
+    return null;
+  }
+}
+
+/**
+ * Subtitle track languages fetched from Netflix
+ * - excludeCC: Only accept a track without closed captions (Thai); otherwise a non-CC track is preferred and a
+ *   CC track (English SDH - often the only English track) is accepted
+ */
+const TRACK_LANGUAGES = {
+  th: { name: 'Thai', excludeCC: true },
+  en: { name: 'English', excludeCC: false },
+} as const;
+
+/**
+ * Fetch one subtitle track of the current video from Netflix
+ * WebVTT is preferred; the track's DFXP (TTML) file is used when it has no WebVTT URL or the WebVTT fetch fails
  * @param {string} mediaId - Media ID
- * @returns {Promise<string|null>} VTT content string or null if Thai not available
+ * @param {'th' | 'en'} langCode - Track language
+ * @returns {Promise<string|null>} VTT or TTML content string or null if the track is not available
  */
-export async function fetchThaiVTTContent(mediaId: string): Promise<string | null> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Function entry',data:{mediaId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2,H3,H4,H5'})}).catch(()=>{});
-  // #endregion
+async function fetchTrackContent(mediaId: string, langCode: keyof typeof TRACK_LANGUAGES): Promise<string | null> {
+  const { name, excludeCC } = TRACK_LANGUAGES[langCode];
+  const logPrefix = `[fetch${name}VTTContent]`;
+  recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Function entry', {mediaId,langCode});
   
   if (!mediaId) {
     throw new Error('Could not identify video - mediaId required');
@@ -473,18 +515,14 @@ export async function fetchThaiVTTContent(mediaId: string): Promise<string | nul
   
   // Ensure subtitle script is injected
   await injectNetflixSubtitleScript();
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Script injected, setting up message handler',data:{mediaId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2'})}).catch(()=>{});
-  // #endregion
+  recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Script injected, setting up message handler', {mediaId,langCode});
   
   // Set up promise to receive subtitle tracks
   return new Promise((resolve) => {
-    const requestId = `thai-${Date.now()}-${Math.random()}`;
+    const requestId = `${langCode}-${Date.now()}-${Math.random()}`;
     const timeout = setTimeout(() => {
-      console.warn('[fetchThaiVTTContent] Timeout waiting for subtitle tracks response (10s)');
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Timeout waiting for response',data:{mediaId,requestId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2,H3'})}).catch(()=>{});
-      // #endregion
+      console.warn(`${logPrefix} Timeout waiting for subtitle tracks response (10s)`);
+      recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Timeout waiting for response', {mediaId,langCode,requestId});
       window.removeEventListener('message', messageHandler);
       resolve(null);
     }, 10000);
@@ -494,9 +532,7 @@ export async function fetchThaiVTTContent(mediaId: string): Promise<string | nul
         return;
       }
       
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Received SMARTSUBS_SUBTITLES_RESPONSE',data:{hasError:!!event.data.error,tracksLength:event.data.tracks?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2,H3,H4,H5'})}).catch(()=>{});
-      // #endregion
+      recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Received SMARTSUBS_SUBTITLES_RESPONSE', {langCode,hasError:!!event.data.error,tracksLength:event.data.tracks?.length||0});
       
       clearTimeout(timeout);
       window.removeEventListener('message', messageHandler);
@@ -504,117 +540,95 @@ export async function fetchThaiVTTContent(mediaId: string): Promise<string | nul
       const tracks = event.data.tracks || [];
       
       if (event.data.error) {
-        console.error('[fetchThaiVTTContent] Error from injected script:', event.data.error);
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Error from injected script',data:{error:event.data.error},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H3'})}).catch(()=>{});
-        // #endregion
+        console.error(`${logPrefix} Error from injected script:`, event.data.error);
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Error from injected script', {langCode,error:event.data.error}, 'warn');
       }
       
       // Log all tracks for debugging
       if (tracks.length > 0) {
-        console.log('[fetchThaiVTTContent] All tracks returned:', tracks.map((t: any) => ({
+        console.log(`${logPrefix} All tracks returned:`, tracks.map((t: any) => ({
           langCode: t.langCode,
           lang: t.lang,
           isCC: t.isCC,
-          hasUrl: !!t.url
+          hasUrl: !!t.url,
+          hasTTMLUrl: !!t.ttmlUrl
         })));
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'All tracks returned',data:{tracks:tracks.map((t:any)=>({langCode:t.langCode,lang:t.lang,isCC:t.isCC,hasUrl:!!t.url}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4,H5'})}).catch(()=>{});
-        // #endregion
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'All tracks returned', {langCode,tracks:tracks.map((t:any)=>({langCode:t.langCode,lang:t.lang,isCC:t.isCC,hasUrl:!!t.url,hasTTMLUrl:!!t.ttmlUrl}))});
       } else {
-        console.warn('[fetchThaiVTTContent] No tracks returned from injected script');
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'No tracks returned',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H3,H4'})}).catch(()=>{});
-        // #endregion
+        console.warn(`${logPrefix} No tracks returned from injected script`);
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'No tracks returned', {langCode});
       }
       
-      // Filter for Thai ('th') language, exclude CC
-      const thaiTrack = tracks.find((track: any) => {
-        const langLower = (track.langCode || '').toLowerCase();
-        return langLower.includes('th') && !track.isCC;
-      });
+      // Filter for the requested language - a non-CC track first, a CC track only when CC is allowed
+      const languageTracks = tracks.filter((track: any) => (track.langCode || '').toLowerCase().includes(langCode));
+      const track = languageTracks.find((t: any) => !t.isCC) ?? (excludeCC ? undefined : languageTracks[0]);
       
-      if (!thaiTrack) {
-        const thaiTracksWithCC = tracks.filter((t: any) => {
-          const langLower = (t.langCode || '').toLowerCase();
-          return langLower.includes('th');
-        });
-        console.warn('[fetchThaiVTTContent] No Thai track found (excluding CC). Found Thai tracks with CC:', thaiTracksWithCC.length);
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'No Thai track found (excluding CC)',data:{totalTracks:tracks.length,thaiTracksWithCC:thaiTracksWithCC.length,allTracks:tracks.map((t:any)=>({langCode:t.langCode,isCC:t.isCC}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H5'})}).catch(()=>{});
-        // #endregion
+      if (!track) {
+        console.warn(`${logPrefix} No ${name} track found${excludeCC ? ' (excluding CC)' : ''}. Found ${name} tracks with CC:`, languageTracks.length);
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'No track found', {langCode,excludeCC,totalTracks:tracks.length,tracksWithCC:languageTracks.length,allTracks:tracks.map((t:any)=>({langCode:t.langCode,isCC:t.isCC}))});
         resolve(null);
         return;
       }
       
-      if (!thaiTrack.url) {
-        console.warn('[fetchThaiVTTContent] Thai track found but has no URL. Track details:', {
-          langCode: thaiTrack.langCode,
-          lang: thaiTrack.lang,
-          isCC: thaiTrack.isCC
+      if (!track.url && !track.ttmlUrl) {
+        console.warn(`${logPrefix} ${name} track found but has no URL. Track details:`, {
+          langCode: track.langCode,
+          lang: track.lang,
+          isCC: track.isCC
         });
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Thai track found but no URL',data:{langCode:thaiTrack.langCode,lang:thaiTrack.lang,isCC:thaiTrack.isCC},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-        // #endregion
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Track found but no URL', {langCode:track.langCode,lang:track.lang,isCC:track.isCC});
         resolve(null);
         return;
       }
       
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Thai track found with URL, fetching',data:{url:thaiTrack.url.substring(0,100)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-      // #endregion
+      recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Track found with URL, fetching', {langCode,isCC:!!track.isCC,hasUrl:!!track.url,hasTTMLUrl:!!track.ttmlUrl});
       
-      // Fetch VTT content from URL
-      fetch(thaiTrack.url)
-        .then(response => {
-          if (!response.ok) {
-            console.warn('[fetchThaiVTTContent] VTT fetch failed:', response.status, response.statusText);
-            // #region agent log
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'VTT fetch failed',data:{status:response.status,statusText:response.statusText},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-            // #endregion
-            resolve(null);
-            return;
-          }
-          return response.text();
-        })
-        .then(content => {
-          if (content) {
-            // #region agent log
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'VTT content fetched successfully',data:{contentLength:content.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-            // #endregion
-            resolve(content);
-          } else {
-            console.warn('[fetchThaiVTTContent] VTT fetch returned empty content');
-            // #region agent log
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'VTT fetch returned empty',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-            // #endregion
-            resolve(null);
-          }
-        })
-        .catch((error) => {
-          console.error('[fetchThaiVTTContent] VTT fetch error:', error);
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'VTT fetch error',data:{error:error instanceof Error?error.message:String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H4'})}).catch(()=>{});
-          // #endregion
-          resolve(null);
-        });
+      // Fetch VTT content from URL - fall back to the DFXP (TTML) file
+      (async () => {
+        const vttContent = track.url ? await fetchSubtitleContent(track.url, 'VTT') : null;
+        if (vttContent || !track.ttmlUrl) {
+          resolve(vttContent);
+          return;
+        }
+        console.log(`${logPrefix} No WebVTT content - falling back to DFXP`);
+        recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Falling back to DFXP', {langCode,hadVTTUrl:!!track.url});
+        resolve(await fetchSubtitleContent(track.ttmlUrl, 'TTML'));
+      })();
     };
     
     window.addEventListener('message', messageHandler);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'Message handler added, sending postMessage',data:{mediaId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2'})}).catch(()=>{});
-    // #endregion
+    recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'Message handler added, sending postMessage', {mediaId,langCode});
     
     // Request subtitle tracks from injected script
     window.postMessage({
       type: 'SMARTSUBS_GET_SUBTITLES_PAGE',
-      langCode: 'th',
-      excludeCC: true,
+      langCode,
+      excludeCC,
       requestId: requestId
     }, '*');
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'netflixVTTExtractor.ts:fetchThaiVTTContent',message:'postMessage sent',data:{langCode:'th',excludeCC:true},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H2'})}).catch(()=>{});
-    // #endregion
+    recordEvent('netflixVTTExtractor.ts:fetchTrackContent', 'postMessage sent', {langCode,excludeCC});
   });
 }
 
+/**
+ * THAI: Fetch Thai subtitles from Netflix
+ * Only accepts a Thai track without closed captions - parse the result with parseSubtitleFile
+ * (src/services/vtt/subtitleFormat.ts), which detects the format (WebVTT, or DFXP as fallback)
+ * @param {string} mediaId - Media ID
+ * @returns {Promise<string|null>} VTT or TTML content string or null if Thai not available
+ */
+export async function fetchThaiVTTContent(mediaId: string): Promise<string | null> {
+  return fetchTrackContent(mediaId, 'th');
+}
+
+/**
+ * ENGLISH: Fetch the official English subtitles from Netflix
+ * Prefers a track without closed captions, accepts the CC (SDH) track otherwise - parse the result with
+ * parseEnglishSubtitleFile (src/services/vtt/subtitleFormat.ts)
+ * Activates the English track in the player, so fetch it after the Thai track has been saved
+ * @param {string} mediaId - Media ID
+ * @returns {Promise<string|null>} VTT or TTML content string or null if English not available
+ */
+export async function fetchEnglishVTTContent(mediaId: string): Promise<string | null> {
+  return fetchTrackContent(mediaId, 'en');
+}
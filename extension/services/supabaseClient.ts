@@ -6,6 +6,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { episodeSchema, type Episode } from '@/schemas/episodeSchema';
 import { subtitleThSchema, type SubtitleTh } from '@/schemas/subtitleThSchema';
+import { subtitleEnSchema, type SubtitleEn } from '@/schemas/subtitleEnSchema';
+import { buildPipelineJob, processEpisodeJobRequest } from '@/schemas/pipelineJobSchema';
 
 // Get Supabase config from environment variables (injected by Vite)
 function getSupabaseConfig() {
@@ -160,3 +162,58 @@ export async function saveSubtitlesBatch(
     throw new Error(`Failed to save subtitles batch: ${error.message}`);
   }
 }
+
+/**
+ * Replace the English track of an episode in subtitles_en
+ * Validates with subtitleEnSchema; upserts first and then deletes the previous cues missing from the new track, so a failed save keeps the old one
+ */
+export async function saveEnglishSubtitles(mediaId: string, subtitles: SubtitleEn[]): Promise<void> {
+  const validatedSubtitles = subtitles.map(sub => subtitleEnSchema.parse(sub));
+  const supabase = getSupabaseClient();
+
+  if (validatedSubtitles.length > 0) {
+    const { error } = await supabase
+      .from('subtitles_en')
+      .upsert(validatedSubtitles, { onConflict: 'id' });
+
+    if (error) {
+      throw new Error(`Failed to save English subtitles: ${error.message}`);
+    }
+  }
+
+  let staleQuery = supabase
+    .from('subtitles_en')
+    .delete()
+    .eq('media_id', mediaId);
+  if (validatedSubtitles.length > 0) {
+    staleQuery = staleQuery.not('id', 'in', `(${validatedSubtitles.map(subtitle => `"${subtitle.id}"`).join(',')})`);
+  }
+  const { error: deleteError } = await staleQuery;
+
+  if (deleteError) {
+    throw new Error(`Failed to clear English subtitles: ${deleteError.message}`);
+  }
+}
+
+/**
+ * Enqueue a processing job for an episode (picked up by pipeline workers: scripts/pipeline-cli.ts worker)
+ * A queued or running job for the same episode is left as is
+ * @returns true if a job was queued, false if one was already pending
+ */
+export async function enqueueEpisodeProcessingJob(mediaId: string): Promise<boolean> {
+  const job = buildPipelineJob(processEpisodeJobRequest({ mediaId }));
+  const supabase = getSupabaseClient();
+
+  const { error } = await supabase
+    .from('pipeline_jobs')
+    .insert(job);
+
+  if (error) {
+    // 23505: unique violation on dedupe_key - the episode already has a pending job
+    if (error.code === '23505') {
+      return false;
+    }
+    throw new Error(`Failed to enqueue processing job: ${error.message}`);
+  }
+  return true;
+}
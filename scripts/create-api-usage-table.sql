@@ -0,0 +1,28 @@
+-- Create api_usage table
+-- Run this in Supabase Dashboard → SQL Editor
+-- api_usage stores one row per external API call (AI4Thai tokenizer/G2P, ORST, OpenAI) with tokens,
+-- latency and the pipeline run / episode that made it - usage budgets are checked against these rows
+
+CREATE TABLE IF NOT EXISTS api_usage (
+  id UUID PRIMARY KEY,
+  run_id UUID REFERENCES pipeline_runs(id) ON DELETE SET NULL,
+  media_id TEXT,
+  service TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  model TEXT,
+  tokens_in INTEGER NOT NULL DEFAULT 0,
+  tokens_out INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for per-run and per-episode usage totals
+CREATE INDEX IF NOT EXISTS idx_api_usage_run_id ON api_usage(run_id);
+CREATE INDEX IF NOT EXISTS idx_api_usage_media_id ON api_usage(media_id, service);
+
+-- Disable RLS to allow unrestricted access
+ALTER TABLE api_usage DISABLE ROW LEVEL SECURITY;
+
+-- Grant permissions to anon role for read/write access
+GRANT ALL ON api_usage TO anon;
@@ -0,0 +1,78 @@
+-- Create pipeline_jobs table and claim_pipeline_job function
+-- Run this in Supabase Dashboard → SQL Editor (after create-pipeline-runs-table.sql)
+-- pipeline_jobs is the work queue for pipeline workers (scripts/pipeline-cli.ts worker)
+-- claim_pipeline_job atomically leases the next due job to a worker (FOR UPDATE SKIP LOCKED), so any
+-- number of workers can poll the same table without claiming a job twice
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id UUID PRIMARY KEY,
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued',
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  dedupe_key TEXT,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one queued/running job per dedupe_key (enqueueing a duplicate fails with 23505)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_jobs_active_dedupe_key
+  ON pipeline_jobs(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+-- Create index for claiming the next due job
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_claim ON pipeline_jobs(status, priority DESC, run_after);
+
+-- Claim the next due job for a worker
+-- Due: queued with run_after <= NOW(), or running with an expired lease (the worker holding it died)
+-- Jobs whose lease expired on their final attempt are marked failed instead of being claimed again
+CREATE OR REPLACE FUNCTION claim_pipeline_job(p_worker_id TEXT, p_lease_seconds INTEGER, p_kinds TEXT[] DEFAULT NULL)
+RETURNS SETOF pipeline_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE pipeline_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Lease expired on the final attempt'),
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+  WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE pipeline_jobs AS job
+  SET status = 'running',
+      attempts = job.attempts + 1,
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      updated_at = NOW()
+  WHERE job.id = (
+    SELECT candidate.id
+    FROM pipeline_jobs AS candidate
+    WHERE ((candidate.status = 'queued' AND candidate.run_after <= NOW())
+        OR (candidate.status = 'running' AND candidate.lease_expires_at < NOW()))
+      AND (p_kinds IS NULL OR candidate.kind = ANY(p_kinds))
+    ORDER BY candidate.priority DESC, candidate.run_after, candidate.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$;
+
+-- Disable RLS to allow unrestricted access
+ALTER TABLE pipeline_jobs DISABLE ROW LEVEL SECURITY;
+
+-- Grant permissions to anon role for read/write access
+GRANT ALL ON pipeline_jobs TO anon;
+GRANT EXECUTE ON FUNCTION claim_pipeline_job(TEXT, INTEGER, TEXT[]) TO anon;
@@ -0,0 +1,36 @@
+-- Create pipeline_runs and pipeline_run_checkpoints tables
+-- Run this in Supabase Dashboard → SQL Editor
+-- pipeline_runs stores one row per processing run (episode + workflow)
+-- pipeline_run_checkpoints stores per-subject (subtitle or word) step status and last context snapshot
+-- so an interrupted run can be resumed without re-calling AI4Thai/GPT for finished work
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id UUID PRIMARY KEY,
+  media_id TEXT NOT NULL,
+  workflow_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_run_checkpoints (
+  run_id UUID NOT NULL REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+  subject_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress',
+  step_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  context JSONB,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, subject_key)
+);
+
+-- Create index on media_id for finding the latest run of an episode
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_media_id ON pipeline_runs(media_id, created_at DESC);
+
+-- Disable RLS to allow unrestricted access
+ALTER TABLE pipeline_runs DISABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_run_checkpoints DISABLE ROW LEVEL SECURITY;
+
+-- Grant permissions to anon role for read/write access
+GRANT ALL ON pipeline_runs TO anon;
+GRANT ALL ON pipeline_run_checkpoints TO anon;
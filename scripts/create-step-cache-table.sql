@@ -0,0 +1,24 @@
+-- Create step_cache table
+-- Run this in Supabase Dashboard → SQL Editor
+-- step_cache stores validated step outputs keyed by (step function name, step version, hash of declared inputs)
+-- so identical inputs (same sentence, same word) don't hit AI4Thai/ORST again across episodes
+-- Bumping a step's version changes its keys - old entries are simply never read again
+
+CREATE TABLE IF NOT EXISTS step_cache (
+  cache_key TEXT PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  step_version INTEGER NOT NULL,
+  input_hash TEXT NOT NULL,
+  output JSONB,
+  patch JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on function_name + step_version for purging entries of old step versions
+CREATE INDEX IF NOT EXISTS idx_step_cache_function_version ON step_cache(function_name, step_version);
+
+-- Disable RLS to allow unrestricted access
+ALTER TABLE step_cache DISABLE ROW LEVEL SECURITY;
+
+-- Grant permissions to anon role for read/write access
+GRANT ALL ON step_cache TO anon;
@@ -0,0 +1,23 @@
+-- Create subtitles_en table
+-- Run this in Supabase Dashboard → SQL Editor
+-- subtitles_en stores the official English subtitle track of an episode (saved by the extension next to
+-- subtitles_th, or imported with scripts/pipeline-cli.ts import-subtitles --language en)
+-- English cues keep their own timing - they are paired with Thai cues by time overlap when read
+-- (src/services/alignment/subtitleAlignment.ts), never by id
+
+CREATE TABLE IF NOT EXISTS subtitles_en (
+  id TEXT PRIMARY KEY,
+  media_id TEXT NOT NULL,
+  english TEXT NOT NULL,
+  start_sec_eng NUMERIC NOT NULL,
+  end_sec_eng NUMERIC NOT NULL
+);
+
+-- Create index on media_id + start time for fetching an episode's track in order
+CREATE INDEX IF NOT EXISTS idx_subtitles_en_media_start ON subtitles_en(media_id, start_sec_eng);
+
+-- Disable RLS to allow unrestricted access
+ALTER TABLE subtitles_en DISABLE ROW LEVEL SECURITY;
+
+-- Grant permissions to anon role for read/write access
+GRANT ALL ON subtitles_en TO anon;
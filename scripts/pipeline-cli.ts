@@ -0,0 +1,849 @@
+/**
+ * Processing Pipeline CLI
+ *
+ * Runs the processing pipeline headless (same code paths as the Supabase Inspector buttons)
+ *
+ * Usage:
+ *   npx tsx scripts/pipeline-cli.ts process <mediaId...> [--workflow name] [--resume | --resume-run <runId>]
+ *                                   [--max-calls openai=200,ai4thai-g2p=1000] [--max-tokens N] [--cache supabase] [--quiet]
+ *   npx tsx scripts/pipeline-cli.ts process-word <word> [--workflow name] [--save] [--cache supabase] [--quiet]
+ *   npx tsx scripts/pipeline-cli.ts process-batch <mediaId...> [--workflow name] [--batch-size N] [--all] [--single-prompts]
+ *                                         [--max-calls ...] [--max-tokens N]
+ *   npx tsx scripts/pipeline-cli.ts import-subtitles <file> <mediaId> [--format vtt|srt|ttml] [--language th|en] [--lenient]
+ *   npx tsx scripts/pipeline-cli.ts align <mediaId> [--json]
+ *   npx tsx scripts/pipeline-cli.ts resync <mediaId> (--shift S | --stretch FROM=TO,FROM=TO | --reference en|<file>) [--write] [--json]
+ *   npx tsx scripts/pipeline-cli.ts export-vtt <mediaId> [--layers thai,phonetic,gloss] [--out file.vtt]
+ *   npx tsx scripts/pipeline-cli.ts export-ass <mediaId> [--romanization] [--no-tone-colours] [--out file.ass]
+ *   npx tsx scripts/pipeline-cli.ts plan <mediaId> [--workflow name] [--json]
+ *   npx tsx scripts/pipeline-cli.ts status <mediaId> [--json]
+ *   npx tsx scripts/pipeline-cli.ts enqueue <mediaId...> [--workflow name] [--priority N]
+ *   npx tsx scripts/pipeline-cli.ts enqueue-word <word...> [--workflow name] [--priority N]
+ *   npx tsx scripts/pipeline-cli.ts enqueue-v3 <word...> [--priority N]
+ *   npx tsx scripts/pipeline-cli.ts worker [--kinds process_episode,process_word] [--once] [--worker-id id] [--poll-ms N] [--lease-ms N]
+ *   npx tsx scripts/pipeline-cli.ts jobs [--status queued] [--kind process_episode] [--json]
+ *
+ * Common flags: --quiet, --cache supabase, --rate-limit service=RPS[:CONCURRENT],... (e.g. openai=4:4,orst=1),
+ *               --record-http <dir> [--record-http-errors] | --replay-http <dir> (record external responses as fixtures /
+ *               serve them offline - non-2xx responses are only recorded with --record-http-errors),
+ *               --fake-providers <lexicon.json> (deterministic offline tokenizer, G2P, dictionary and LLM)
+ *
+ * Exit codes: 0 success, 1 failure or contract violation (failed run, failed word, unacceptable step failure,
+ * budget exceeded, failed job with worker --once), 2 invalid arguments, 130 cancelled with Ctrl+C (the run
+ * stays resumable with --resume)
+ * worker runs until Ctrl+C (the running job goes back to the queue); with --once it exits when no job is due
+ */
+
+import * as dotenv from 'dotenv';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { processSubtitlesForEpisode, processWord, TOKENIZE_STEP_NAME, type ProcessWordResult } from '../src/services/processingPipeline';
+import { planSubtitlesForEpisode } from '../src/services/pipeline/executionPlan';
+import { getWorkflow, getWorkflowNames } from '../src/services/pipeline/workflows';
+import { DEFAULT_WORD_BATCH_SIZE, processEpisodesInBatches, type EpisodeBatchSummary } from '../src/services/batch/batchProcessing';
+import { createMemoryStepCache, createSupabaseStepCache, createTieredStepCache, setDefaultStepCache } from '../src/services/pipeline/stepCache';
+import { activateUsageLedger, createUsageLedger, isBudgetExceededError, summarizeUsage, type UsageSummary } from '../src/services/usage/usageLedger';
+import { getTelemetrySinks, setTelemetrySinks, summarizeValue } from '../src/services/telemetry/telemetry';
+import { serviceNameSchema, usageBudgetSchema, type ServiceName, type UsageBudget } from '../src/schemas/apiUsageSchema';
+import { rateLimitsSchema, type RateLimits } from '../src/schemas/rateLimitSchema';
+import { configureRateLimits, getRateLimitStats } from '../src/services/rateLimit/rateLimiter';
+import { configureHttpTransport } from '../src/services/http/httpTransport';
+import { createFileFixtureStore } from '../src/services/http/fileFixtureStore';
+import { describeProviders, getProviders, setProviders } from '../src/services/providers/providers';
+import { createFakeProviders } from '../src/services/providers/fakeProviders';
+import { fakeLexiconSchema, type FakeLexicon } from '../src/schemas/fakeLexiconSchema';
+import { fetchLatestPipelineRun, fetchPipelineCheckpoints } from '../src/supabase/pipelineRuns';
+import { fetchUsageForEpisode } from '../src/supabase/apiUsage';
+import { isAbortError } from '../src/utils/abort';
+import { saveSubtitlesBatch } from '../src/supabase/index';
+import { parseEnglishSubtitleFile, parseSubtitleFile } from '../src/services/vtt/subtitleFormat';
+import { fetchEnglishSubtitles, replaceEnglishSubtitles } from '../src/supabase/subtitlesEn';
+import { resyncEpisodeSubtitles } from '../src/services/alignment/subtitleResync';
+import type { ReferenceCue, SubtitleResyncOperationInput } from '../src/schemas/subtitleResyncSchema';
+import { alignEpisodeSubtitles } from '../src/services/alignment/subtitleAlignment';
+import { subtitleLanguageSchema } from '../src/schemas/subtitleEnSchema';
+import { subtitleAnnotationLayerSchema, subtitleFormatSchema } from '../src/schemas/subtitleThSchema';
+import { exportEpisodeAnnotatedVTT } from '../src/services/vtt/annotatedVTTExport';
+import { exportEpisodeKaraokeASS } from '../src/services/vtt/assKaraokeExport';
+import { enqueuePipelineJob, fetchPipelineJobs } from '../src/supabase/pipelineJobs';
+import { enrichWordV3JobRequest, pipelineJobStatusSchema, processEpisodeJobRequest, processWordJobRequest, type PipelineJobRequest } from '../src/schemas/pipelineJobSchema';
+import { createJobWorker, type JobWorkerOptions } from '../src/services/jobs/jobWorker';
+
+dotenv.config();
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_CANCELLED = 130;
+
+interface CliArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+const BOOLEAN_FLAGS = new Set(['resume', 'save', 'json', 'quiet', 'once', 'all', 'single-prompts', 'lenient', 'romanization', 'no-tone-colours', 'write', 'record-http-errors']);
+
+function parseArgs(argv: string[]): CliArgs {
+  const [command, ...rest] = argv;
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === undefined) {
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    const value = rest[i + 1];
+    if (BOOLEAN_FLAGS.has(name) || value === undefined || value.startsWith('--')) {
+      flags.set(name, true);
+    } else {
+      flags.set(name, value);
+      i++;
+    }
+  }
+  return { command, positionals, flags };
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function stringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  if (value === true) {
+    throw new UsageError(`--${name} requires a value`);
+  }
+  return value;
+}
+
+/**
+ * CLI output - written to stdout directly so --quiet (which silences the pipeline's console.log) keeps it
+ */
+function print(line = ''): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function printUsage(summary: UsageSummary): void {
+  const entries = Object.entries(summary);
+  if (entries.length === 0) {
+    print('  (no external calls)');
+    return;
+  }
+  for (const [service, totals] of entries) {
+    print(`  ${service}: ${totals.calls} call(s), ${totals.tokens_in} tokens in / ${totals.tokens_out} out, ${totals.latency_ms}ms`);
+  }
+}
+
+function numberFlag(args: CliArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new UsageError(`--${name} must be an integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Run budget from --max-calls service=N,... and --max-tokens N
+ */
+function parseBudget(args: CliArgs): UsageBudget | undefined {
+  const maxCalls = stringFlag(args, 'max-calls');
+  const maxTokens = stringFlag(args, 'max-tokens');
+  if (maxCalls === undefined && maxTokens === undefined) {
+    return undefined;
+  }
+  const perRun: Record<string, unknown> = {};
+  if (maxCalls !== undefined) {
+    perRun.maxCalls = Object.fromEntries(maxCalls.split(',').map(entry => {
+      const [service, limit] = entry.split('=');
+      return [service?.trim(), Number(limit)];
+    }));
+  }
+  if (maxTokens !== undefined) {
+    perRun.maxTokens = Number(maxTokens);
+  }
+  const validation = usageBudgetSchema.safeParse({ perRun });
+  if (!validation.success) {
+    throw new UsageError(`Invalid budget: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
+  }
+  return validation.data;
+}
+
+/**
+ * Rate limits from --rate-limit service=RPS[:CONCURRENT],... (e.g. openai=4:4,orst=1)
+ */
+function parseRateLimits(args: CliArgs): RateLimits | undefined {
+  const value = stringFlag(args, 'rate-limit');
+  if (value === undefined) {
+    return undefined;
+  }
+  const limits: Record<string, unknown> = {};
+  for (const entry of value.split(',')) {
+    const [service, limit] = entry.split('=');
+    const [requestsPerSecond, maxConcurrent] = (limit ?? '').split(':');
+    const key = service?.trim() ?? '';
+    const current = serviceNameSchema.safeParse(key).success ? getRateLimitStats()[key as ServiceName].config : undefined;
+    limits[key] = {
+      requestsPerSecond: Number(requestsPerSecond),
+      maxConcurrent: maxConcurrent !== undefined ? Number(maxConcurrent) : (current?.maxConcurrent ?? 1),
+    };
+  }
+  const validation = rateLimitsSchema.safeParse(limits);
+  if (!validation.success) {
+    throw new UsageError(`Invalid rate limit: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
+  }
+  return validation.data;
+}
+
+function configureRuntime(args: CliArgs): void {
+  const rateLimits = parseRateLimits(args);
+  const recordDir = stringFlag(args, 'record-http');
+  const replayDir = stringFlag(args, 'replay-http');
+  if (recordDir !== undefined && replayDir !== undefined) {
+    throw new UsageError('--record-http and --replay-http cannot be combined');
+  }
+  const lexiconPath = stringFlag(args, 'fake-providers');
+  const lexicon = lexiconPath !== undefined ? loadFakeLexicon(lexiconPath) : undefined;
+  if (args.flags.has('quiet')) {
+    console.log = () => {};
+  }
+  if (rateLimits) {
+    configureRateLimits(rateLimits);
+  }
+  const cache = stringFlag(args, 'cache');
+  if (cache === 'supabase') {
+    setDefaultStepCache(createTieredStepCache([createMemoryStepCache(), createSupabaseStepCache()]));
+  } else if (cache !== undefined && cache !== 'memory') {
+    throw new UsageError(`Unknown --cache "${cache}" (expected memory or supabase)`);
+  }
+  if (recordDir !== undefined) {
+    configureHttpTransport({ mode: 'record', store: createFileFixtureStore(recordDir), recordErrors: args.flags.has('record-http-errors') });
+  } else if (replayDir !== undefined) {
+    configureHttpTransport({ mode: 'replay', store: createFileFixtureStore(replayDir) });
+  }
+  if (lexicon) {
+    setProviders(createFakeProviders(lexicon));
+    print(`Providers: ${describeProviders(getProviders())} (step cache bypassed)`);
+  }
+}
+
+/**
+ * Fake provider lexicon from --fake-providers <file> (fakeLexiconSchema)
+ */
+function loadFakeLexicon(path: string): FakeLexicon {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read --fake-providers lexicon ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const validation = fakeLexiconSchema.safeParse(json);
+  if (!validation.success) {
+    throw new UsageError(`Invalid --fake-providers lexicon ${path}: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
+  }
+  return validation.data;
+}
+
+/**
+ * Abort controller wired to Ctrl+C - a second Ctrl+C exits immediately
+ */
+function createInterruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    print('\nCancelling - waiting for running steps to stop (press Ctrl+C again to exit immediately)');
+    controller.abort();
+    process.once('SIGINT', () => process.exit(EXIT_CANCELLED));
+  });
+  return controller.signal;
+}
+
+async function processCommand(args: CliArgs): Promise<number> {
+  if (args.positionals.length === 0) {
+    throw new UsageError('process requires at least one mediaId');
+  }
+  const workflowName = stringFlag(args, 'workflow');
+  const resumeRunId = stringFlag(args, 'resume-run');
+  if (resumeRunId && args.positionals.length > 1) {
+    throw new UsageError('--resume-run can only be used with a single mediaId');
+  }
+  const budget = parseBudget(args);
+  configureRuntime(args);
+  const signal = createInterruptSignal();
+
+  // Word spans (telemetry) drive the progress output and the failed-word count
+  let wordCount = 0;
+  const failedWords: string[] = [];
+  setTelemetrySinks([...getTelemetrySinks(), {
+    name: 'cli-progress',
+    emit(event) {
+      if (event.type !== 'span_end' || event.name !== 'word') {
+        return;
+      }
+      wordCount++;
+      const word = String(event.attributes.word_th ?? '');
+      if (event.outcome === 'error') {
+        failedWords.push(word);
+        print(`  ✗ ${word} (${event.durationMs}ms) ${String(event.attributes.error ?? '')}`);
+      } else if (event.outcome === 'ok') {
+        const failedSteps = Array.isArray(event.attributes.failedSteps) && event.attributes.failedSteps.length > 0
+          ? ` [acceptable failures: ${event.attributes.failedSteps.join(', ')}]`
+          : '';
+        print(`  ✓ ${word} (${event.durationMs}ms)${event.attributes.saved === false ? ' - no meanings, not saved' : ''}${failedSteps}`);
+      }
+    },
+  }]);
+
+  const failedEpisodes: string[] = [];
+  for (const mediaId of args.positionals) {
+    print(`\n▶ ${mediaId}${workflowName ? ` (workflow "${workflowName}")` : ''}`);
+    wordCount = 0;
+    const failedBefore = failedWords.length;
+    try {
+      const runId = await processSubtitlesForEpisode(mediaId, {
+        ...(workflowName ? { workflowName } : {}),
+        ...(resumeRunId ? { resumeRunId } : {}),
+        ...(args.flags.has('resume') ? { resumeLatest: true } : {}),
+        ...(budget ? { budget } : {}),
+        signal,
+      });
+      const episodeFailures = failedWords.length - failedBefore;
+      print(`${episodeFailures > 0 ? '✗' : '✓'} ${mediaId}: run ${runId}, ${wordCount} word(s) processed, ${episodeFailures} failed`);
+      if (episodeFailures > 0) {
+        failedEpisodes.push(mediaId);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        print(`⏹ ${mediaId}: cancelled - resume with: process ${mediaId} --resume`);
+        return EXIT_CANCELLED;
+      }
+      print(`✗ ${mediaId}: ${error instanceof Error ? error.message : String(error)}`);
+      failedEpisodes.push(mediaId);
+      if (isBudgetExceededError(error)) {
+        // The budget covers the whole batch - later episodes would stop immediately too
+        break;
+      }
+    }
+  }
+
+  if (failedWords.length > 0) {
+    print(`\nFailed words (${failedWords.length}): ${failedWords.join(', ')}`);
+  }
+  if (failedEpisodes.length > 0) {
+    print(`Failed episodes (${failedEpisodes.length}): ${failedEpisodes.join(', ')}`);
+    return EXIT_FAILED;
+  }
+  return EXIT_OK;
+}
+
+async function processWordCommand(args: CliArgs): Promise<number> {
+  const word = args.positionals[0]?.trim();
+  if (!word) {
+    throw new UsageError('process-word requires a word');
+  }
+  const workflow = getWorkflow(stringFlag(args, 'workflow'));
+  const wordStepNames = workflow.steps.filter(s => s.name !== TOKENIZE_STEP_NAME).map(s => s.name);
+  if (wordStepNames.length === 0) {
+    throw new UsageError(`Workflow "${workflow.name}" has no word steps`);
+  }
+  configureRuntime(args);
+  const signal = createInterruptSignal();
+
+  const ledger = createUsageLedger();
+  const deactivateLedger = activateUsageLedger(ledger);
+  let processed: ProcessWordResult;
+  try {
+    processed = await processWord(word, { workflowName: workflow.name, save: args.flags.has('save'), signal, ledger });
+  } catch (error) {
+    if (isAbortError(error)) {
+      print('⏹ Cancelled');
+      return EXIT_CANCELLED;
+    }
+    print(`✗ [PROCESSING CONTRACT VIOLATION] "${word}": ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_FAILED;
+  } finally {
+    deactivateLedger();
+  }
+
+  const { results, provenance, wordData, saved } = processed;
+  print(`Word "${word}" - workflow "${workflow.name}"`);
+  for (const result of results) {
+    const detail = result.skipReason ?? result.error?.message ?? (result.cached ? 'cached' : '');
+    print(`  ${result.status === 'succeeded' ? '✓' : result.status === 'skipped' ? '⏭' : '✗'} ${result.stepName}${detail ? ` - ${detail}` : ''}`);
+    for (const change of result.diff ?? []) {
+      print(`      ${change.change} ${change.field}: ${String(summarizeValue(change.before) ?? '∅')} → ${String(summarizeValue(change.after) ?? '∅')}`);
+    }
+  }
+  print('Provenance:');
+  for (const [field, source] of Object.entries(provenance)) {
+    print(`  ${field} ← ${source.stepName} (${source.service ?? 'local'}${source.cached ? ', cached' : ''})`);
+  }
+  print('Usage:');
+  printUsage(ledger.summary('run'));
+
+  if (args.flags.has('save')) {
+    print(saved ? `✓ Saved "${word}" (${wordData.senses.length} sense(s))` : `⚠ No meanings found for "${word}" - not saved`);
+  }
+  return EXIT_OK;
+}
+
+async function processBatchCommand(args: CliArgs): Promise<number> {
+  if (args.positionals.length === 0) {
+    throw new UsageError('process-batch requires at least one mediaId');
+  }
+  const workflow = getWorkflow(stringFlag(args, 'workflow'));
+  if (!workflow.steps.some(s => s.name !== TOKENIZE_STEP_NAME)) {
+    throw new UsageError(`Workflow "${workflow.name}" has no word steps`);
+  }
+  const batchSize = numberFlag(args, 'batch-size') ?? DEFAULT_WORD_BATCH_SIZE;
+  if (batchSize < 1) {
+    throw new UsageError('--batch-size must be at least 1');
+  }
+  const budget = parseBudget(args);
+  configureRuntime(args);
+  const signal = createInterruptSignal();
+
+  print(`▶ ${args.positionals.join(', ')} - workflow "${workflow.name}", batches of ${batchSize}`);
+  let summary: EpisodeBatchSummary;
+  try {
+    summary = await processEpisodesInBatches(args.positionals, {
+      workflowName: workflow.name,
+      batchSize,
+      skipComplete: !args.flags.has('all'),
+      batchPrompts: !args.flags.has('single-prompts'),
+      ...(budget ? { budget } : {}),
+      signal,
+      onWordSettled(outcome) {
+        if (outcome.status === 'failed') {
+          print(`  ✗ ${outcome.word} ${outcome.error}`);
+          return;
+        }
+        const failedSteps = outcome.failedSteps.length > 0 ? ` [acceptable failures: ${outcome.failedSteps.join(', ')}]` : '';
+        print(`  ✓ ${outcome.word}${outcome.status === 'not_saved' ? ' - no meanings, not saved' : ''}${failedSteps}`);
+      },
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      print('⏹ Cancelled - saved words are skipped when the batch is run again');
+      return EXIT_CANCELLED;
+    }
+    throw error;
+  }
+
+  if (summary.tokenizedEpisodes.length > 0) {
+    print(`Tokenized: ${summary.tokenizedEpisodes.join(', ')}`);
+  }
+  print(`${summary.uniqueWords} unique word(s): ${summary.alreadyComplete} already complete, ${summary.processed} processed in ${summary.batches} batch(es)`);
+  print(`  ${summary.saved} saved, ${summary.notSaved} without meanings, ${summary.failed.length} failed`);
+  if (summary.untokenizedSubtitles > 0) {
+    print(`⚠ ${summary.untokenizedSubtitles} subtitle(s) without tokens were not included`);
+  }
+  if (summary.usage) {
+    print('Usage:');
+    printUsage(summary.usage);
+  }
+  if (summary.failed.length > 0) {
+    print(`\nFailed words (${summary.failed.length}): ${summary.failed.map(f => f.word).join(', ')}`);
+    return EXIT_FAILED;
+  }
+  return EXIT_OK;
+}
+
+async function importSubtitlesCommand(args: CliArgs): Promise<number> {
+  const [path, mediaId] = args.positionals;
+  if (!path || !mediaId) {
+    throw new UsageError('import-subtitles requires a file and a mediaId');
+  }
+  const formatFlag = stringFlag(args, 'format');
+  const format = formatFlag === undefined ? undefined : subtitleFormatSchema.safeParse(formatFlag);
+  if (format && !format.success) {
+    throw new UsageError(`Unknown --format "${formatFlag}" (expected ${subtitleFormatSchema.options.join(', ')})`);
+  }
+  const languageFlag = stringFlag(args, 'language') ?? 'th';
+  const language = subtitleLanguageSchema.safeParse(languageFlag);
+  if (!language.success) {
+    throw new UsageError(`Unknown --language "${languageFlag}" (expected ${subtitleLanguageSchema.options.join(', ')})`);
+  }
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parseOptions = {
+    ...(format ? { format: format.data } : {}),
+    lenient: args.flags.has('lenient'),
+  };
+
+  if (language.data === 'en') {
+    const englishSubtitles = await parseEnglishSubtitleFile(content, mediaId, parseOptions);
+    await replaceEnglishSubtitles(mediaId, englishSubtitles);
+    print(`✓ Imported ${englishSubtitles.length} English subtitle(s) for ${mediaId} - check the pairing with: align ${mediaId}`);
+    return EXIT_OK;
+  }
+
+  const subtitles = await parseSubtitleFile(content, mediaId, parseOptions);
+  // Parsed subtitles carry no tokens - re-imported subtitles get tokens_th reset and are tokenized again
+  await saveSubtitlesBatch(subtitles.map(({ id, thai, start_sec_th, end_sec_th }) => ({ id, thai, start_sec_th, end_sec_th })));
+  print(`✓ Imported ${subtitles.length} subtitle(s) for ${mediaId} - process them with: process ${mediaId}`);
+  return EXIT_OK;
+}
+
+async function alignCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('align requires a mediaId');
+  }
+  const groups = await alignEpisodeSubtitles(mediaId);
+
+  if (args.flags.has('json')) {
+    print(JSON.stringify(groups, null, 2));
+    return EXIT_OK;
+  }
+  if (!groups.some(group => group.englishIds.length > 0)) {
+    print(`No English subtitles for ${mediaId} - import them with: import-subtitles <file> ${mediaId} --language en`);
+    return EXIT_OK;
+  }
+  for (const group of groups) {
+    print(`[${group.start_sec.toFixed(2)}-${group.end_sec.toFixed(2)}] ${group.kind.padEnd(12)} ${group.thaiIds.join(', ') || '-'} → ${group.english || '-'}`);
+  }
+  const counts = new Map<string, number>();
+  for (const group of groups) {
+    counts.set(group.kind, (counts.get(group.kind) ?? 0) + 1);
+  }
+  print(`Groups: ${Array.from(counts, ([kind, count]) => `${kind} ${count}`).join(', ')}`);
+  return EXIT_OK;
+}
+
+/**
+ * Seconds from a flag value ("1.5", "-0.25")
+ */
+function parseSeconds(name: string, value: string): number {
+  const seconds = Number(value);
+  if (value.trim() === '' || !Number.isFinite(seconds)) {
+    throw new UsageError(`--${name} expects seconds, got "${value}"`);
+  }
+  return seconds;
+}
+
+/**
+ * Timing operation from --shift, --stretch or --reference (exactly one)
+ */
+async function parseResyncOperation(args: CliArgs, mediaId: string): Promise<SubtitleResyncOperationInput> {
+  const shift = stringFlag(args, 'shift');
+  const stretch = stringFlag(args, 'stretch');
+  const reference = stringFlag(args, 'reference');
+  if ([shift, stretch, reference].filter(value => value !== undefined).length !== 1) {
+    throw new UsageError('resync requires exactly one of --shift, --stretch or --reference');
+  }
+
+  if (shift !== undefined) {
+    return { kind: 'shift', offset_sec: parseSeconds('shift', shift) };
+  }
+  if (stretch !== undefined) {
+    const anchors = stretch.split(',').map(anchor => {
+      const [from, to, ...rest] = anchor.split('=');
+      if (from === undefined || to === undefined || rest.length > 0) {
+        throw new UsageError(`Invalid --stretch anchor "${anchor}" (expected FROM=TO in seconds)`);
+      }
+      return { from_sec: parseSeconds('stretch', from), to_sec: parseSeconds('stretch', to) };
+    });
+    const [first, second] = anchors;
+    if (anchors.length !== 2 || !first || !second) {
+      throw new UsageError('--stretch requires two anchors: FROM=TO,FROM=TO');
+    }
+    return { kind: 'stretch', anchors: [first, second] };
+  }
+
+  let cues: ReferenceCue[];
+  if (reference === 'en') {
+    cues = (await fetchEnglishSubtitles(mediaId)).map(cue => ({ start_sec: cue.start_sec_eng, end_sec: cue.end_sec_eng }));
+    if (cues.length === 0) {
+      throw new UsageError(`${mediaId} has no English subtitles - import them with: import-subtitles <file> ${mediaId} --language en`);
+    }
+  } else {
+    let content: string;
+    try {
+      content = readFileSync(reference as string, 'utf8');
+    } catch (error) {
+      throw new UsageError(`Cannot read ${reference}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    cues = (await parseSubtitleFile(content, mediaId, { lenient: true })).map(cue => ({ start_sec: cue.start_sec_th, end_sec: cue.end_sec_th }));
+  }
+  return { kind: 'reference', cues };
+}
+
+async function resyncCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('resync requires a mediaId');
+  }
+  const operation = await parseResyncOperation(args, mediaId);
+  const write = args.flags.has('write');
+  const result = await resyncEpisodeSubtitles(mediaId, operation, { write });
+
+  if (args.flags.has('json')) {
+    print(JSON.stringify({ ...result, subtitles: undefined, written: write && result.changes.length > 0 }, null, 2));
+    return EXIT_OK;
+  }
+  const delta = (after: number, before: number) => `${after - before >= 0 ? '+' : ''}${(after - before).toFixed(3)}`;
+  for (const change of result.changes) {
+    print(`${change.id.padEnd(24)} ${change.start_before.toFixed(3)} → ${change.start_after.toFixed(3)} (${delta(change.start_after, change.start_before)})  `
+      + `${change.end_before.toFixed(3)} → ${change.end_after.toFixed(3)} (${delta(change.end_after, change.end_before)})  ${change.thai.replace(/\s+/g, ' ').substring(0, 40)}`);
+  }
+  print(`Transform: time × ${result.scale.toFixed(6)} ${result.offset_sec >= 0 ? '+' : '-'} ${Math.abs(result.offset_sec).toFixed(3)}s`
+    + (result.reference ? ` - ${result.reference.matched} subtitle(s) matched the reference, ${result.reference.snapped} boundary(ies) snapped` : ''));
+  if (result.changes.length === 0) {
+    print(`✓ No timing changes for ${mediaId}`);
+  } else if (write) {
+    print(`✓ Saved ${result.changes.length} retimed subtitle(s) for ${mediaId}`);
+  } else {
+    print(`Preview only: ${result.changes.length} of ${result.subtitles.length} subtitle(s) would change - rerun with --write to save`);
+  }
+  return EXIT_OK;
+}
+
+async function exportVTTCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('export-vtt requires a mediaId');
+  }
+  const layersFlag = stringFlag(args, 'layers');
+  const layers = layersFlag === undefined ? undefined : subtitleAnnotationLayerSchema.array().min(1).safeParse(layersFlag.split(',').map(layer => layer.trim()).filter(Boolean));
+  if (layers && !layers.success) {
+    throw new UsageError(`Invalid --layers "${layersFlag}" (expected a comma-separated list of ${subtitleAnnotationLayerSchema.options.join(', ')})`);
+  }
+  const out = stringFlag(args, 'out');
+
+  const vtt = await exportEpisodeAnnotatedVTT(mediaId, { title: mediaId, ...(layers ? { layers: layers.data } : {}) });
+  if (!out) {
+    process.stdout.write(vtt);
+    return EXIT_OK;
+  }
+  writeFileSync(out, vtt, 'utf8');
+  print(`✓ Wrote annotated subtitles for ${mediaId} to ${out}`);
+  return EXIT_OK;
+}
+
+async function exportASSCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('export-ass requires a mediaId');
+  }
+  const out = stringFlag(args, 'out');
+
+  const ass = await exportEpisodeKaraokeASS(mediaId, {
+    title: mediaId,
+    romanization: args.flags.has('romanization'),
+    toneColours: !args.flags.has('no-tone-colours'),
+  });
+  if (!out) {
+    process.stdout.write(ass);
+    return EXIT_OK;
+  }
+  writeFileSync(out, ass, 'utf8');
+  print(`✓ Wrote karaoke subtitles for ${mediaId} to ${out}`);
+  return EXIT_OK;
+}
+
+async function planCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('plan requires a mediaId');
+  }
+  const workflowName = stringFlag(args, 'workflow');
+  configureRuntime(args);
+  const plan = await planSubtitlesForEpisode(mediaId, workflowName ? { workflowName } : {});
+
+  if (args.flags.has('json')) {
+    print(JSON.stringify(plan, null, 2));
+    return EXIT_OK;
+  }
+  print(`Plan for ${plan.mediaId} - workflow "${plan.workflowName}"`);
+  print(`  Subtitles: ${plan.subtitleCount} (${plan.subtitlesMissingTokens.length} without tokens)`);
+  print(`  Unique tokens: ${plan.uniqueTokenCount}`);
+  print(`  Missing words: ${plan.missingWords.length}, missing G2P: ${plan.missingG2P.length}, missing phonetic: ${plan.missingPhonetic.length}`);
+  print(`  Need V2 enrichment: ${plan.needsV2.length}, need V3 enrichment: ${plan.needsV3.length}`);
+  print('Estimated external calls:');
+  for (const call of plan.calls) {
+    print(`  ${call.stepName} (${call.service}): ${call.min === call.max ? call.max : `${call.min}-${call.max}`}`);
+  }
+  print('Totals:');
+  for (const total of plan.totals) {
+    print(`  ${total.service}: ${total.min === total.max ? total.max : `${total.min}-${total.max}`}`);
+  }
+  return EXIT_OK;
+}
+
+async function statusCommand(args: CliArgs): Promise<number> {
+  const mediaId = args.positionals[0];
+  if (!mediaId) {
+    throw new UsageError('status requires a mediaId');
+  }
+  configureRuntime(args);
+  const run = await fetchLatestPipelineRun(mediaId);
+  const checkpoints = run ? await fetchPipelineCheckpoints(run.id) : [];
+  const usage = summarizeUsage(await fetchUsageForEpisode(mediaId));
+
+  const checkpointCounts: Record<string, number> = {};
+  for (const checkpoint of checkpoints) {
+    const kind = checkpoint.subject_key.split(':')[0] ?? 'unknown';
+    const key = `${kind}:${checkpoint.status}`;
+    checkpointCounts[key] = (checkpointCounts[key] ?? 0) + 1;
+  }
+
+  if (args.flags.has('json')) {
+    print(JSON.stringify({ mediaId, latestRun: run, checkpoints: checkpointCounts, usage }, null, 2));
+    return EXIT_OK;
+  }
+  print(`Status for ${mediaId}`);
+  if (!run) {
+    print('  No pipeline runs');
+  } else {
+    print(`  Latest run: ${run.id} (workflow "${run.workflow_name}") - ${run.status}${run.error ? `: ${run.error}` : ''}`);
+    print(`  Started ${run.created_at ?? '?'}, updated ${run.updated_at ?? '?'}`);
+    for (const [key, count] of Object.entries(checkpointCounts).sort()) {
+      print(`  ${key}: ${count}`);
+    }
+  }
+  print('Usage (all runs):');
+  printUsage(usage);
+  return EXIT_OK;
+}
+
+async function enqueueCommand(args: CliArgs, toRequest: (subject: string, workflowName?: string) => PipelineJobRequest): Promise<number> {
+  if (args.positionals.length === 0) {
+    throw new UsageError(`${args.command} requires at least one ${args.command === 'enqueue' ? 'mediaId' : 'word'}`);
+  }
+  const workflowName = stringFlag(args, 'workflow');
+  const priority = numberFlag(args, 'priority');
+  configureRuntime(args);
+
+  for (const subject of args.positionals) {
+    const request = toRequest(subject, workflowName);
+    const { job, created } = await enqueuePipelineJob(priority !== undefined ? { ...request, priority } : request);
+    print(`${created ? '✓ Queued' : '• Already pending'} ${job.kind} job ${job.id} (${subject}, ${job.status})`);
+  }
+  return EXIT_OK;
+}
+
+async function workerCommand(args: CliArgs): Promise<number> {
+  const kinds = stringFlag(args, 'kinds')?.split(',').map(kind => kind.trim()).filter(Boolean);
+  const workerId = stringFlag(args, 'worker-id');
+  const pollIntervalMs = numberFlag(args, 'poll-ms');
+  const leaseMs = numberFlag(args, 'lease-ms');
+  configureRuntime(args);
+  const signal = createInterruptSignal();
+
+  let failedJobs = 0;
+  const options: JobWorkerOptions = {
+    ...(kinds && kinds.length > 0 ? { kinds } : {}),
+    ...(workerId ? { workerId } : {}),
+    ...(pollIntervalMs !== undefined ? { pollIntervalMs } : {}),
+    ...(leaseMs !== undefined ? { leaseMs } : {}),
+    onJobSettled(job, outcome) {
+      if (outcome.status === 'failed') {
+        failedJobs++;
+      }
+      const detail = 'error' in outcome ? `: ${outcome.error}` : (outcome.status === 'completed' ? ` ${JSON.stringify(outcome.result)}` : '');
+      print(`${outcome.status === 'completed' ? '✓' : '✗'} ${job.kind} job ${job.id} ${outcome.status}${detail}`);
+    },
+  };
+  const worker = createJobWorker(options);
+
+  if (!args.flags.has('once')) {
+    print(`Worker ${worker.workerId} polling pipeline_jobs (Ctrl+C to stop)`);
+    await worker.run(signal);
+    return EXIT_OK;
+  }
+
+  // --once: drain the jobs that are due, then exit
+  while (!signal.aborted) {
+    if (await worker.runNext(signal) === null) {
+      break;
+    }
+  }
+  if (signal.aborted) {
+    return EXIT_CANCELLED;
+  }
+  print(failedJobs > 0 ? `✗ ${failedJobs} job(s) failed` : '✓ No jobs due');
+  return failedJobs > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+async function jobsCommand(args: CliArgs): Promise<number> {
+  const statusFlag = stringFlag(args, 'status');
+  const status = statusFlag !== undefined ? pipelineJobStatusSchema.safeParse(statusFlag) : undefined;
+  if (status && !status.success) {
+    throw new UsageError(`Unknown --status "${statusFlag}" (expected ${pipelineJobStatusSchema.options.join(', ')})`);
+  }
+  const kind = stringFlag(args, 'kind');
+  configureRuntime(args);
+  const jobs = await fetchPipelineJobs({
+    ...(status?.success ? { status: status.data } : {}),
+    ...(kind ? { kind } : {}),
+  });
+
+  if (args.flags.has('json')) {
+    print(JSON.stringify(jobs, null, 2));
+    return EXIT_OK;
+  }
+  if (jobs.length === 0) {
+    print('No jobs');
+  }
+  for (const job of jobs) {
+    const lease = job.status === 'running' && job.lease_owner ? ` - ${job.lease_owner} until ${job.lease_expires_at ?? '?'}` : '';
+    print(`${job.id} ${job.kind} ${job.status} (attempt ${job.attempts}/${job.max_attempts}, priority ${job.priority})${lease} ${JSON.stringify(job.payload)}`);
+    if (job.last_error) {
+      print(`    last error: ${job.last_error}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: CliArgs) => Promise<number>> = {
+  process: processCommand,
+  'process-word': processWordCommand,
+  'process-batch': processBatchCommand,
+  'import-subtitles': importSubtitlesCommand,
+  align: alignCommand,
+  resync: resyncCommand,
+  'export-vtt': exportVTTCommand,
+  'export-ass': exportASSCommand,
+  plan: planCommand,
+  status: statusCommand,
+  enqueue: (args) => enqueueCommand(args, (mediaId, workflowName) => processEpisodeJobRequest({ mediaId, ...(workflowName ? { workflowName } : {}) })),
+  'enqueue-word': (args) => enqueueCommand(args, (word_th, workflowName) => processWordJobRequest({ word_th, ...(workflowName ? { workflowName } : {}) })),
+  'enqueue-v3': (args) => enqueueCommand(args, (word_th) => enrichWordV3JobRequest({ word_th })),
+  worker: workerCommand,
+  jobs: jobsCommand,
+};
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const command = args.command ? COMMANDS[args.command] : undefined;
+  if (!command) {
+    print('Usage: npx tsx scripts/pipeline-cli.ts <process|process-word|process-batch|import-subtitles|align|resync|export-vtt|export-ass|plan|status|enqueue|enqueue-word|enqueue-v3|worker|jobs> [args]');
+    print(`Workflows: ${getWorkflowNames().join(', ')}`);
+    return args.command === undefined || args.command === 'help' || args.command === '--help' ? EXIT_OK : EXIT_USAGE;
+  }
+  try {
+    return await command(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      print(`✗ ${error.message}`);
+      return EXIT_USAGE;
+    }
+    print(`✗ ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_FAILED;
+  }
+}
+
+main().then(code => process.exit(code));
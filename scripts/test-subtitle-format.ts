@@ -0,0 +1,104 @@
+/**
+ * Test Subtitle Format Detection
+ *
+ * Checks that subtitle files are routed to the right parser and parse end to end (no database needed)
+ *
+ * Usage:
+ *   npx tsx scripts/test-subtitle-format.ts
+ */
+
+import assert from 'node:assert/strict';
+import { detectSubtitleFormat, parseEnglishSubtitleFile, parseSubtitleFile } from '../src/services/vtt/subtitleFormat';
+
+async function testDotSeparatorSRT() {
+  console.log('Testing SRT with "." before the milliseconds...');
+
+  const content = '1\n00:00:01.000 --> 00:00:02.500\nสวัสดีครับ\n\n2\n00:00:03.000 --> 00:00:04.000\nครับ &amp; ค่ะ {\\an8}<i>จ้ะ</i>\n';
+  assert.equal(detectSubtitleFormat(content), 'srt');
+  console.log('  ✓ Detected as srt');
+
+  const subtitles = await parseSubtitleFile(content, 'test-media');
+  assert.deepEqual(subtitles, [
+    { id: 'test-media_1', thai: 'สวัสดีครับ', start_sec_th: 1, end_sec_th: 2.5 },
+    { id: 'test-media_2', thai: 'ครับ & ค่ะ จ้ะ', start_sec_th: 3, end_sec_th: 4 },
+  ]);
+  console.log('  ✓ Parsed 2 subtitles (tags stripped, character references decoded)');
+}
+
+async function testWebVTTSignature() {
+  console.log('Testing WEBVTT signature...');
+
+  assert.equal(detectSubtitleFormat('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nสวัสดี\n'), 'vtt');
+  assert.equal(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nสวัสดี\n'), 'srt');
+  console.log('  ✓ Only the signature selects vtt');
+}
+
+async function testMalformedSRTBlock() {
+  console.log('Testing SRT with a zero-length cue...');
+
+  const content = '1\n00:00:01,000 --> 00:00:02,000\nสวัสดี\n\n2\n00:00:03,000 --> 00:00:03,000\nครับ\n\n3\n00:00:04,000 --> 00:00:05,000\nค่ะ\n';
+  await assert.rejects(parseSubtitleFile(content, 'test-media'), /Thai SRT block 2 \(index 2\) is invalid/);
+  console.log('  ✓ Strict mode names the failing block');
+
+  await assert.rejects(parseEnglishSubtitleFile(content, 'test-media'), /English SRT block 2 \(index 2\) is invalid/);
+  console.log('  ✓ English track errors name the English track');
+
+  const warnings: number[] = [];
+  const subtitles = await parseSubtitleFile(content, 'test-media', { lenient: true, onWarning: warning => warnings.push(warning.block) });
+  assert.deepEqual(subtitles.map(subtitle => subtitle.id), ['test-media_1', 'test-media_3']);
+  assert.deepEqual(warnings, [2]);
+  console.log('  ✓ Lenient mode skips the block with a warning');
+}
+
+async function testVTTCueOrder() {
+  console.log('Testing WebVTT with out-of-order and empty cues...');
+
+  const content = 'WEBVTT\n\n1\n00:00:05.000 --> 00:00:06.000\nครับ\n\n2\n00:00:01.000 --> 00:00:02.000\nสวัสดี\n\n3\n00:00:03.000 --> 00:00:04.000\n<i></i>\n';
+  const warnings: number[] = [];
+  const subtitles = await parseSubtitleFile(content, 'test-media', { lenient: true, onWarning: warning => warnings.push(warning.block) });
+  assert.deepEqual(subtitles.map(subtitle => subtitle.id), ['test-media_2', 'test-media_1']);
+  assert.deepEqual(warnings, [4]);
+  console.log('  ✓ Sorted by start time, the empty cue is skipped with a warning naming its block');
+}
+
+async function testInvalidCharacterReferences() {
+  console.log('Testing out-of-range character references...');
+
+  const srt = '1\n00:00:01,000 --> 00:00:02,000\nx &#99999999; y &#xD800; z &#x10FFFF;\n';
+  const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nx &#99999999; y &#xD800; z &#x10FFFF;\n';
+  const ttml = '<tt xmlns="http://www.w3.org/ns/ttml"><body><div><p begin="00:00:01.000" end="00:00:02.000">x &#99999999; y &#xD800; z &#x10FFFF;</p></div></body></tt>';
+  for (const [format, content] of [['srt', srt], ['vtt', vtt], ['ttml', ttml]] as const) {
+    const subtitles = await parseSubtitleFile(content, 'test-media');
+    assert.equal(detectSubtitleFormat(content), format);
+    assert.equal(subtitles[0]?.thai, 'x \uFFFD y \uFFFD z \u{10FFFF}');
+  }
+  console.log('  ✓ SRT, WebVTT and TTML replace them with U+FFFD');
+}
+
+async function testTTMLContainerBegin() {
+  console.log('Testing TTML begin on <body> / <div>...');
+
+  const content = '<tt xmlns="http://www.w3.org/ns/ttml"><body begin="10s"><div begin="00:00:05.000">'
+    + '<p begin="00:00:01.000" end="00:00:02.000">สวัสดี</p><p begin="3s" dur="1s">ครับ</p></div>'
+    + '<div><p begin="1s" end="2s">ค่ะ</p></div></body></tt>';
+  const subtitles = await parseSubtitleFile(content, 'test-media');
+  assert.deepEqual(subtitles.map(subtitle => [subtitle.start_sec_th, subtitle.end_sec_th]), [[16, 17], [18, 19], [11, 12]]);
+  console.log('  ✓ Ancestor begin offsets add up, closed <div>s stop applying');
+}
+
+async function main() {
+  try {
+    await testDotSeparatorSRT();
+    await testWebVTTSignature();
+    await testMalformedSRTBlock();
+    await testVTTCueOrder();
+    await testInvalidCharacterReferences();
+    await testTTMLContainerBegin();
+    console.log('\n✓ All subtitle format tests passed');
+  } catch (error) {
+    console.error('\n✗ Subtitle format test failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
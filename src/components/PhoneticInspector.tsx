@@ -37,6 +37,7 @@ import {
   type VowelData as ValidatedVowelData,
 } from '../schemas/phoneticInspectorSchema';
 import { wordThSchema } from '../schemas/wordThSchema';
+import { recordEvent } from '../services/telemetry/telemetry';
 
 interface VowelExample {
   word_th: string;
@@ -961,7 +962,6 @@ export function PhoneticInspector() {
         } else {
           // FAILURE: evidence exists but g2p_code not updated. Win condition = g2p_code saved and visible.
           console.warn(`[PhoneticInspector] FAILED: Evidence for "${seededRule.thai_vowel}" (ID ${seededRule.id}) but no g2p_code - rule stays SEED_`);
-          // #region agent log
           const sampleSyllables = matchingWordsWithG2P.slice(0, 5).map((w) => {
             const wordTh = w.word_th || '';
             const g2pStr = (w.g2p || '').trim();
@@ -972,8 +972,7 @@ export function PhoneticInspector() {
             const syllable = syllables[sylIdx] ?? '';
             return { word: wordTh, syllable, extracted: extractVowelPatternFromG2PSyllable(syllable) };
           });
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'PhoneticInspector.tsx:bestPattern_null', message: 'Evidence but no g2p_code', data: { id: seededRule.id, thai_vowel: seededRule.thai_vowel, matchingWords: matchingWords.length, matchingWithG2P: matchingWordsWithG2P.length, patternCounts: Object.fromEntries(patternCounts), sampleSyllables }, timestamp: Date.now(), hypothesisId: 'H1' }) }).catch(() => {});
-          // #endregion
+          recordEvent('PhoneticInspector.tsx:bestPattern_null', 'Evidence but no g2p_code', { id: seededRule.id, thai_vowel: seededRule.thai_vowel, matchingWords: matchingWords.length, matchingWithG2P: matchingWordsWithG2P.length, patternCounts: Object.fromEntries(patternCounts), sampleSyllables });
         }
       }
 
@@ -1099,9 +1098,7 @@ export function PhoneticInspector() {
                 } else {
                   const conflictSeedCode = `SEED_${String(existingWithG2p.id).padStart(2, '0')}`;
                   console.warn(`[PhoneticInspector] No fallback for either - reassigning ID ${existingWithG2p.id} to ${conflictSeedCode}`);
-                  // #region agent log
-                  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'PhoneticInspector.tsx:conflict_no_fallback', message: 'Conflict loser gets SEED_XX', data: { loserId: existingWithG2p.id, winnerId: rule.id, g2p_code: rule.g2p_code, loserInUpdates: !!loserUpdate, patternCandidates: loserUpdate?.patternCandidates ?? null, taken: [...taken] }, timestamp: Date.now(), hypothesisId: 'H2' }) }).catch(() => {});
-                  // #endregion
+                  recordEvent('PhoneticInspector.tsx:conflict_no_fallback', 'Conflict loser gets SEED_XX', { loserId: existingWithG2p.id, winnerId: rule.id, g2p_code: rule.g2p_code, loserInUpdates: !!loserUpdate, patternCandidates: loserUpdate?.patternCandidates ?? null, taken: [...taken] });
                   await supabase
                     .from('phonetic_g2p_rules')
                     .update({ g2p_code: conflictSeedCode })
@@ -1238,12 +1235,10 @@ export function PhoneticInspector() {
             sampleLoaded: persistedSample,
             refetchMismatches: refetchMismatches.length ? refetchMismatches.map(u => ({ id: u.id, expected: u.g2p_code, got: afterRefetch.find(r => r.id === u.id)?.g2p_code })) : 'none',
           });
-          // #region agent log
           const evidenceNoG2p = afterRefetch.filter((r) => r.g2p_code?.startsWith('SEED_') && r.evidence && r.evidence !== '[]');
           if (evidenceNoG2p.length > 0) {
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ location: 'PhoneticInspector.tsx:final_state', message: 'Evidence with no g2p_code (SEED_)', data: { ids: evidenceNoG2p.map((r) => r.id), rules: evidenceNoG2p.map((r) => ({ id: r.id, g2p_code: r.g2p_code, evidenceLen: r.evidence?.length })) }, timestamp: Date.now(), hypothesisId: 'H4' }) }).catch(() => {});
+            recordEvent('PhoneticInspector.tsx:final_state', 'Evidence with no g2p_code (SEED_)', { ids: evidenceNoG2p.map((r) => r.id), rules: evidenceNoG2p.map((r) => ({ id: r.id, g2p_code: r.g2p_code, evidenceLen: r.evidence?.length })) });
           }
-          // #endregion
           // Force UI update - setAllRules so table reflects saved data immediately
           setAllRules(afterRefetch);
         }
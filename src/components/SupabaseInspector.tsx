@@ -10,16 +10,20 @@
  * This ensures data integrity checks always see the current database state.
  */
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import { supabase } from '../supabase';
 import { fetchSenses, fetchWord, saveWordData, saveWordOnly, saveSenses, saveSubtitlesBatch, wordExistsInWords, wordHasCompleteData } from '../supabase';
-import { fetchOrstMeanings } from '../services/meanings/fetchOrstMeanings';
-import { normalizeSensesWithGPT } from '../services/meanings/gptNormalizeSenses';
-import { createMeaningsWithGPT, type GPTMeaningContext } from '../services/meanings/gptMeaning';
+import type { GPTMeaningContext } from '../services/meanings/gptMeaning';
+import { getProviders } from '../services/providers/providers';
 import { enrichMeaningsWithGPT } from '../services/meanings/gptEnrichMeanings';
 import { enrichMeaningsWithGPTV3 } from '../services/meanings/gptEnrichMeaningsV3';
-import { getValidatedProcessingOrder, type PipelineContext, pipelineContextSchema } from '../schemas/processingOrderSchema';
-import { executeStepsFromSchema } from '../services/processingPipeline';
+import { type PipelineContext, pipelineContextSchema } from '../schemas/processingOrderSchema';
+import { DEFAULT_WORKFLOW_NAME, getValidatedProcessingOrder, getWorkflow, listWorkflows, resolveWorkflowName } from '../services/pipeline/workflows';
+import { executeStepsFromSchema, type StepResult } from '../services/processingPipeline';
+import type { ContextProvenance } from '../services/pipeline/contextDiff';
+import { toJsonSafe } from '../utils/jsonSafe';
+import { startPipelineRun, findResumablePipelineRun, getResumePoint, markSubjectCheckpoint, finishPipelineRun, wordSubjectKey, type PipelineRunHandle } from '../services/pipeline/runCheckpoints';
+import { isAbortError, throwIfAborted } from '../utils/abort';
 import { subtitleThSchema, type SubtitleTh } from '../schemas/subtitleThSchema';
 import { wordThSchema, type WordTh } from '../schemas/wordThSchema';
 import { meaningThSchema, type MeaningTh } from '../schemas/meaningThSchema';
@@ -27,6 +31,23 @@ import { meaningThSchemaV2, type MeaningThV2 } from '../schemas/meaningThSchemaV
 import { meaningThSchemaV3, type MeaningThV3 } from '../schemas/meaningThSchemaV3';
 import { validateCompleteWord, validateNormalizedSenses, validateCompleteToken, validateV2CompleteSenses, needsV2Enrichment, needsV3Enrichment } from '../schemas/integrityValidation';
 import { z } from 'zod';
+import { recordEvent, getTelemetrySinks, type TelemetryEvent } from '../services/telemetry/telemetry';
+import { getMemorySink } from '../services/telemetry/sinks';
+import { getRateLimitStats, subscribeRateLimitStats, type RateLimitStats } from '../services/rateLimit/rateLimiter';
+import { fetchEnglishSubtitles } from '../supabase/subtitlesEn';
+import { alignmentByThaiId, alignSubtitles, type SubtitleAlignmentGroup } from '../services/alignment/subtitleAlignment';
+
+// Inspector loads subtitles across all episodes - Process All runs are tracked under this scope instead of a mediaId
+const INSPECTOR_RUN_SCOPE = 'inspector:all';
+
+// Compact JSON for step diff values (bigints as strings) - long values are truncated
+function formatReportValue(value: unknown): string {
+  if (value === undefined) {
+    return '∅';
+  }
+  const json = JSON.stringify(toJsonSafe(value)) ?? String(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+}
 
 // Helper function to only log errors/problems, not successful operations
 function shouldLog(message: string): boolean {
@@ -47,22 +68,10 @@ function shouldLog(message: string): boolean {
          lowerMessage.includes('mismatch');
 }
 
-// Wrapper for debug logging - only sends if it's an error/problem
+// Wrapper for debug logging - only records if it's an error/problem
 function debugLog(location: string, message: string, data: any, hypothesisId?: string) {
   if (shouldLog(message)) {
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{
-      method:'POST',
-      headers:{'Content-Type':'application/json'},
-      body:JSON.stringify({
-        location,
-        message,
-        data,
-        timestamp:Date.now(),
-        sessionId:'debug-session',
-        runId:'run1',
-        hypothesisId: hypothesisId || 'ERROR'
-      })
-    }).catch(()=>{});
+    recordEvent(location, message, { ...data, hypothesisId: hypothesisId || 'ERROR' }, 'warn');
   }
 }
 
@@ -96,11 +105,17 @@ export function SupabaseInspector() {
   const [processingG2P, setProcessingG2P] = useState(false);
   const [processingPhonetic, setProcessingPhonetic] = useState(false);
   const [processingAll, setProcessingAll] = useState(false);
+  const [workflowName, setWorkflowName] = useState<string>(DEFAULT_WORKFLOW_NAME); // Workflow used by Process Current Sub / Process All
+  const [telemetryEvents, setTelemetryEvents] = useState<TelemetryEvent[]>([]); // Recent span_end events from the telemetry ring buffer
+  const [rateLimitStats, setRateLimitStats] = useState<RateLimitStats>(() => getRateLimitStats()); // Requests in flight / queued per external service
+  const [stepReport, setStepReport] = useState<{ token: string; results: StepResult[]; provenance: ContextProvenance } | null>(null); // Step diffs + field provenance of the last word run through the workflow
+  const processAllAbortRef = useRef<AbortController | null>(null); // Set while Process All runs - Stop aborts it
   const [refreshKey, setRefreshKey] = useState(0); // Force refresh counter
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [wordExistsMap, setWordExistsMap] = useState<Map<string, boolean>>(new Map());
   const [subtitleInputValue, setSubtitleInputValue] = useState<string>('');
+  const [englishAlignment, setEnglishAlignment] = useState<Map<string, SubtitleAlignmentGroup>>(new Map()); // Thai subtitle id -> aligned English cues (subtitles_en) of the current episode
 
   // Helper function to strip V2 fields from senses for V1 validation
   // This allows V1 validation to work even when V2 columns exist in the database
@@ -267,6 +282,50 @@ export function SupabaseInspector() {
     return validated;
   };
 
+  // Follow finished spans (run/word/step) while the in-memory telemetry sink is active
+  useEffect(() => {
+    const memorySink = getMemorySink();
+    if (!getTelemetrySinks().includes(memorySink)) {
+      return;
+    }
+    const spanEnds = (events: TelemetryEvent[]) => events.filter(event => event.type === 'span_end').slice(-50);
+    setTelemetryEvents(spanEnds(memorySink.getEvents()));
+    return memorySink.subscribe(event => {
+      if (event.type === 'span_end') {
+        setTelemetryEvents(previous => spanEnds([...previous, event]));
+      }
+    });
+  }, []);
+
+  // Follow external request queues (shared rate limiters) for the progress line
+  useEffect(() => subscribeRateLimitStats(setRateLimitStats), []);
+
+  // Official English translation of the current episode - subtitle ids are `${mediaId}_${index}`
+  const currentSubtitleId = subtitles[currentSubtitleIndex]?.id;
+  const currentMediaId = currentSubtitleId && currentSubtitleId.includes('_')
+    ? currentSubtitleId.substring(0, currentSubtitleId.lastIndexOf('_'))
+    : null;
+  useEffect(() => {
+    if (!currentMediaId) {
+      setEnglishAlignment(new Map());
+      return;
+    }
+    let cancelled = false;
+    fetchEnglishSubtitles(currentMediaId)
+      .then(englishSubtitles => {
+        if (cancelled) return;
+        const episodeSubtitles = subtitles.filter(subtitle => subtitle.id.startsWith(`${currentMediaId}_`));
+        setEnglishAlignment(alignmentByThaiId(alignSubtitles(episodeSubtitles, englishSubtitles)));
+      })
+      .catch(err => {
+        console.warn('[SupabaseInspector] Could not load English subtitles:', err);
+        if (!cancelled) setEnglishAlignment(new Map());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentMediaId, subtitles]);
+
   // Log component mount for debugging
   useEffect(() => {
     console.log('[DEBUG] SupabaseInspector component mounted');
@@ -532,8 +591,7 @@ export function SupabaseInspector() {
       // Now queries by BOTH deterministic IDs AND word_th_id
       
       const sensesData = await fetchSenses(selectedToken);
-      // #region agent log - FETCH SENSES RESULT
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:useEffect',message:'FETCH SENSES RESULT',data:{
+      recordEvent('SupabaseInspector.tsx:useEffect', 'FETCH SENSES RESULT', {
         selectedToken,
         sensesDataCount:sensesData?.length || 0,
         firstSense:sensesData?.[0] ? {
@@ -542,13 +600,11 @@ export function SupabaseInspector() {
           hasV2Fields:!!((sensesData[0] as any).pos_th || (sensesData[0] as any).pos_eng || (sensesData[0] as any).definition_eng),
           definitionThPreview:sensesData[0].definition_th?.substring(0, 30)
         } : null
-      },timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      });
       
       // Validate before setting state
       const validatedSenses = validateSenses(sensesData || []);
-      // #region agent log - VALIDATED SENSES
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:useEffect',message:'VALIDATED SENSES',data:{
+      recordEvent('SupabaseInspector.tsx:useEffect', 'VALIDATED SENSES', {
         selectedToken,
         validatedCount:validatedSenses.length,
         firstValidated:validatedSenses[0] ? {
@@ -557,19 +613,14 @@ export function SupabaseInspector() {
           hasV2Fields:!!((validatedSenses[0] as any).pos_th || (validatedSenses[0] as any).pos_eng || (validatedSenses[0] as any).definition_eng),
           definitionThPreview:validatedSenses[0].definition_th?.substring(0, 30)
         } : null
-      },timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      });
       
       setSenses(validatedSenses);
-      // #region agent log - SENSES SET TO STATE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:useEffect',message:'SENSES SET TO STATE',data:{selectedToken,sensesCount:validatedSenses.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:useEffect', 'SENSES SET TO STATE', {selectedToken,sensesCount:validatedSenses.length});
       
-      // #region agent log - RENDERING SENSES (after state update)
       if (validatedSenses.length > 0) {
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:useEffect',message:'RENDERING SENSES',data:{sensesLength:validatedSenses.length,selectedToken,firstSenseHasDefinition:!!validatedSenses[0]?.definition_th},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
+        recordEvent('SupabaseInspector.tsx:useEffect', 'RENDERING SENSES', {sensesLength:validatedSenses.length,selectedToken,firstSenseHasDefinition:!!validatedSenses[0]?.definition_th});
       }
-      // #endregion
     }
 
     loadWordData();
@@ -589,7 +640,7 @@ export function SupabaseInspector() {
     try {
       // Fetch meanings from ORST (returns Zod schema format)
       
-      const meanings = await fetchOrstMeanings(selectedToken);
+      const meanings = await getProviders().dictionary.lookup(selectedToken);
       
       
       if (meanings.length === 0) {
@@ -649,7 +700,7 @@ export function SupabaseInspector() {
 
     try {
       // Normalize senses using GPT
-      const normalizedSenses = await normalizeSensesWithGPT(senses, {
+      const normalizedSenses = await getProviders().llm.normalizeSenses(senses, {
         textTh: selectedToken
       });
 
@@ -801,10 +852,12 @@ export function SupabaseInspector() {
       onSkip?: (reason: string) => void,
       onProcess?: () => void,
       skipReasons?: Record<string, number>,
-      logPrefix?: string
+      logPrefix?: string,
+      signal?: AbortSignal
     } = {}
   ): Promise<{ processed: boolean; skipped: boolean }> => {
     const logPrefix = options.logPrefix || '[Process]';
+    const signal = options.signal;
     const subtitle = subtitleContext?.subtitle;
     const subtitleIndex = subtitleContext?.subtitleIndex;
     
@@ -836,9 +889,7 @@ export function SupabaseInspector() {
         // V3 will be checked naturally in the pipeline after V2
       }
       
-      // #region agent log - PROCESS SINGLE TOKEN NOT SKIPPING
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'PROCESS SINGLE TOKEN NOT SKIPPING',data:{token,tokenContractValidationPassed:tokenContractValidation.passed,hasSenses,hasOrstSenses,needsEnrichment,willProcess:true},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:processSingleToken', 'PROCESS SINGLE TOKEN NOT SKIPPING', {token,tokenContractValidationPassed:tokenContractValidation.passed,hasSenses,hasOrstSenses,needsEnrichment,willProcess:true});
       
       // ⚠️ CRITICAL: Use Zod contract validation to determine what needs processing
       // NO manual checks - ALL decisions based on Zod contracts from integrityCheck.ts
@@ -970,8 +1021,9 @@ export function SupabaseInspector() {
           throw new Error(`Invalid context for token "${token}": ${validatedContext.error.message}`);
         }
 
-        const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, stepsToProcess);
+        const { results, finalContext, provenance } = await executeStepsFromSchema(workflow, validatedContext.data, stepsToProcess, signal ? { signal } : {});
         workflowResults = results;
+        setStepReport({ token, results, provenance });
         
         // Validate final context
         validatedFinalContext = pipelineContextSchema.safeParse(finalContext);
@@ -979,8 +1031,14 @@ export function SupabaseInspector() {
           throw new Error(`Workflow produced invalid final context for "${token}": ${validatedFinalContext.error.message}`);
         }
 
+        // Steps whose runIf was false did not run - report why
+        for (const skippedStep of results.filter(r => r.status === 'skipped')) {
+          console.log(`${logPrefix} ⏭ Step "${skippedStep.stepName}" skipped for "${token}": ${skippedStep.skipReason}`);
+          options.skipReasons && (options.skipReasons[`step_${skippedStep.stepName}_run_if`] = (options.skipReasons[`step_${skippedStep.stepName}_run_if`] || 0) + 1);
+        }
+
         // Check results - throw on unacceptable failures (strict contract enforcement)
-        const failedSteps = results.filter(r => !r.success);
+        const failedSteps = results.filter(r => r.status === 'failed');
         if (failedSteps.length > 0) {
           // Filter out acceptable failures (only ORST can fail)
           const unacceptableFailures = failedSteps.filter(f => {
@@ -1033,14 +1091,10 @@ export function SupabaseInspector() {
       // Only enrich if meanings are already normalized (not ORST)
       // This check runs even if workflow was skipped (stepsToProcess.length === 0)
       const v2EnrichmentNeeded = meanings.length > 0 && needsV2Enrichment(meanings);
-      // #region agent log - V2 ENRICHMENT CHECK
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V2 ENRICHMENT CHECK',data:{token,meaningsCount:meanings.length,v2EnrichmentNeeded,meaningsSample:meanings.slice(0,2).map((m:any)=>({id:m.id?.toString(),hasV2Fields:!!(m.pos_th || m.pos_eng || m.definition_eng),source:m.source}))},timestamp:Date.now(),runId:'run1',hypothesisId:'V2_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:processSingleToken', 'V2 ENRICHMENT CHECK', {token,meaningsCount:meanings.length,v2EnrichmentNeeded,meaningsSample:meanings.slice(0,2).map((m:any)=>({id:m.id?.toString(),hasV2Fields:!!(m.pos_th || m.pos_eng || m.definition_eng),source:m.source}))});
       if (v2EnrichmentNeeded) {
         console.log(`${logPrefix} Enriching meanings with V2 fields (pos_th, pos_eng, definition_eng) for "${token}"...`);
-        // #region agent log - V2 ENRICHMENT START
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V2 ENRICHMENT START',data:{token,meaningsCount:meanings.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V2_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:processSingleToken', 'V2 ENRICHMENT START', {token,meaningsCount:meanings.length});
         
         try {
           const enrichedMeanings = await enrichMeaningsWithGPT(meanings, {
@@ -1048,7 +1102,7 @@ export function SupabaseInspector() {
             fullThaiText: subtitle?.thai || undefined,
             g2p: finalG2P || undefined,
             phonetic_en: finalPhonetic || undefined,
-          });
+          }, signal);
           
           if (enrichedMeanings && enrichedMeanings.length > 0) {
             console.log(`${logPrefix} ✓ Enriched ${enrichedMeanings.length} meaning(s) with V2 fields for "${token}"`);
@@ -1088,6 +1142,9 @@ export function SupabaseInspector() {
             throw new Error(`V2 enrichment returned empty for "${token}". V2 is a required gate stage and must complete before proceeding.`);
           }
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error; // Stopped by user - not an enrichment failure
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           console.error(`${logPrefix} ✗ V2 enrichment failed for "${token}":`, error);
           // ⚠️ CRITICAL: V2 is a strict gate stage - if enrichment fails, we cannot proceed
@@ -1101,17 +1158,13 @@ export function SupabaseInspector() {
       const v2EnrichmentStillNeeded = meanings.length > 0 && needsV2Enrichment(meanings);
       const needsV3Check = !v2EnrichmentStillNeeded && meanings.length > 0 && needsV3Enrichment(meanings as MeaningThV2[]);
       
-      // #region agent log - V3 ENRICHMENT DECISION (natural pipeline evolution)
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 ENRICHMENT DECISION',data:{token,meaningsCount:meanings.length,needsV3Check,v2Complete:!v2EnrichmentStillNeeded,meaningsSample:meanings.slice(0,2).map((m:any)=>({id:m.id?.toString(),hasLabelEng:!!m.label_eng,hasV2Fields:!!(m.pos_th || m.pos_eng || m.definition_eng)})),finalG2P:!!finalG2P,finalPhonetic:!!finalPhonetic},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 ENRICHMENT DECISION', {token,meaningsCount:meanings.length,needsV3Check,v2Complete:!v2EnrichmentStillNeeded,meaningsSample:meanings.slice(0,2).map((m:any)=>({id:m.id?.toString(),hasLabelEng:!!m.label_eng,hasV2Fields:!!(m.pos_th || m.pos_eng || m.definition_eng)})),finalG2P:!!finalG2P,finalPhonetic:!!finalPhonetic});
       
       // Natural pipeline evolution: V3 happens after V2 completes
       if (needsV3Check) {
         console.log(`${logPrefix} Pipeline evolution: enriching meanings to V3 (label_eng) for "${token}"...`);
         
-        // #region agent log - V3 ENRICHMENT START (natural pipeline evolution)
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 ENRICHMENT START',data:{token,meaningsCount:meanings.length,meaningsToEnrich:meanings.map((m:any)=>({id:m.id?.toString(),definitionTh:m.definition_th?.substring(0,30),posTh:m.pos_th,posEng:m.pos_eng,definitionEng:m.definition_eng?.substring(0,30),hasLabelEng:!!m.label_eng})),context:{textTh:token,fullThaiText:subtitle?.thai?.substring(0,50),hasG2P:!!finalG2P,hasPhonetic:!!finalPhonetic}},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 ENRICHMENT START', {token,meaningsCount:meanings.length,meaningsToEnrich:meanings.map((m:any)=>({id:m.id?.toString(),definitionTh:m.definition_th?.substring(0,30),posTh:m.pos_th,posEng:m.pos_eng,definitionEng:m.definition_eng?.substring(0,30),hasLabelEng:!!m.label_eng})),context:{textTh:token,fullThaiText:subtitle?.thai?.substring(0,50),hasG2P:!!finalG2P,hasPhonetic:!!finalPhonetic}});
         
         try {
           const enrichedMeaningsV3 = await enrichMeaningsWithGPTV3(meanings as MeaningThV2[], {
@@ -1119,43 +1172,34 @@ export function SupabaseInspector() {
             fullThaiText: subtitle?.thai || undefined,
             g2p: finalG2P || undefined,
             phonetic_en: finalPhonetic || undefined,
-          });
+          }, signal);
           
-          // #region agent log - V3 ENRICHMENT RESULT
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 ENRICHMENT RESULT',data:{token,enrichedCount:enrichedMeaningsV3?.length || 0,enrichedMeanings:enrichedMeaningsV3?.map((m:any)=>({id:m.id?.toString(),labelEng:m.label_eng,hasLabelEng:!!m.label_eng,definitionTh:m.definition_th?.substring(0,30)})),success:!!(enrichedMeaningsV3 && enrichedMeaningsV3.length > 0)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 ENRICHMENT RESULT', {token,enrichedCount:enrichedMeaningsV3?.length || 0,enrichedMeanings:enrichedMeaningsV3?.map((m:any)=>({id:m.id?.toString(),labelEng:m.label_eng,hasLabelEng:!!m.label_eng,definitionTh:m.definition_th?.substring(0,30)})),success:!!(enrichedMeaningsV3 && enrichedMeaningsV3.length > 0)});
           
           if (enrichedMeaningsV3 && enrichedMeaningsV3.length > 0) {
             console.log(`${logPrefix} ✓ Enriched ${enrichedMeaningsV3.length} meaning(s) with V3 fields for "${token}"`);
             meanings = enrichedMeaningsV3; // Use enriched meanings
             
-            // #region agent log - V3 MEANINGS UPDATED
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 MEANINGS UPDATED',data:{token,meaningsCount:meanings.length,meaningsWithLabelEng:meanings.filter((m:any)=>!!m.label_eng).length,selectedTokenMatches:selectedToken === token},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-            // #endregion
+            recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 MEANINGS UPDATED', {token,meaningsCount:meanings.length,meaningsWithLabelEng:meanings.filter((m:any)=>!!m.label_eng).length,selectedTokenMatches:selectedToken === token});
             
             // ⚠️ CRITICAL: Update UI immediately if this is the currently selected token
             if (selectedToken === token) {
-              // #region agent log - V3 UI UPDATE START
-              fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 UI UPDATE START',data:{token,selectedToken},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-              // #endregion
+              recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 UI UPDATE START', {token,selectedToken});
               const refreshedSenses = await fetchSenses(token);
               const validatedRefreshedSenses = validateSenses(refreshedSenses);
               setSenses(validatedRefreshedSenses);
-              // #region agent log - V3 UI UPDATE COMPLETE
-              fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 UI UPDATE COMPLETE',data:{token,refreshedSensesCount:refreshedSenses?.length || 0,validatedSensesCount:validatedRefreshedSenses.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-              // #endregion
+              recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 UI UPDATE COMPLETE', {token,refreshedSensesCount:refreshedSenses?.length || 0,validatedSensesCount:validatedRefreshedSenses.length});
               console.log(`${logPrefix} ✓ UI updated with V3 enriched senses for "${token}"`);
             }
           } else {
-            // #region agent log - V3 ENRICHMENT EMPTY RESULT
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 ENRICHMENT EMPTY RESULT',data:{token,enrichedMeaningsV3:enrichedMeaningsV3?.length || 0},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-            // #endregion
+            recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 ENRICHMENT EMPTY RESULT', {token,enrichedMeaningsV3:enrichedMeaningsV3?.length || 0});
             console.warn(`${logPrefix} ⚠ V3 enrichment returned empty for "${token}"`);
           }
         } catch (error) {
-          // #region agent log - V3 ENRICHMENT ERROR
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 ENRICHMENT ERROR',data:{token,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,200) : undefined},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          if (isAbortError(error)) {
+            throw error; // Stopped by user - don't continue with the rest of the token
+          }
+          recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 ENRICHMENT ERROR', {token,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,200) : undefined}, 'warn');
           console.warn(`${logPrefix} ⚠ V3 enrichment failed for "${token}":`, error);
           // Continue with existing meanings - don't stop processing
         }
@@ -1195,7 +1239,7 @@ export function SupabaseInspector() {
           };
           
           try {
-            const gptMeanings = await createMeaningsWithGPT(token, gptContext);
+            const gptMeanings = await getProviders().llm.createMeanings(token, gptContext, signal);
             
             if (gptMeanings && gptMeanings.length > 0) {
               // CRITICAL: Validate GPT-meaning results have word_th_id set correctly
@@ -1219,6 +1263,9 @@ export function SupabaseInspector() {
               console.warn(`${logPrefix} ⚠ GPT-meaning returned empty for "${token}"`);
             }
           } catch (error) {
+            if (isAbortError(error)) {
+              throw error; // Stopped by user - don't save a word without its meanings
+            }
             // GPT-meaning failure is acceptable (similar to ORST) - log but continue
             console.warn(`${logPrefix} ⚠ GPT-meaning failed for "${token}":`, error);
             // Continue with empty meanings - don't stop processing
@@ -1275,7 +1322,6 @@ export function SupabaseInspector() {
           };
         });
         
-        // #region agent log - V3 SAVE SENSES
         const sensesWithLabelEngCount = sensesToSave.filter((s: any) => !!s.label_eng).length;
         const sensesToSaveSample = sensesToSave.slice(0, 3).map((s: any) => ({
           id: s.id?.toString(),
@@ -1283,14 +1329,11 @@ export function SupabaseInspector() {
           labelEng: s.label_eng,
           hasV2Fields: !!(s.pos_th || s.pos_eng || s.definition_eng)
         }));
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 SAVE SENSES',data:{token,sensesToSaveCount:sensesToSave.length,sensesWithLabelEngCount,sensesToSaveSample},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 SAVE SENSES', {token,sensesToSaveCount:sensesToSave.length,sensesWithLabelEngCount,sensesToSaveSample});
         
         await saveSenses(sensesToSave, token);
         
-        // #region agent log - V3 SAVE SENSES COMPLETE
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:processSingleToken',message:'V3 SAVE SENSES COMPLETE',data:{token,savedCount:sensesToSave.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:processSingleToken', 'V3 SAVE SENSES COMPLETE', {token,savedCount:sensesToSave.length});
         console.log(`${logPrefix} ✓ Saved ${sensesToSave.length} senses for "${token}"`);
         
         // ⚠️ CRITICAL: Update UI immediately after saving if this is the currently selected token
@@ -1360,7 +1403,7 @@ export function SupabaseInspector() {
             fullThaiText: subtitle?.thai || undefined,
             g2p: finalG2P || undefined,
             phonetic_en: finalPhonetic || undefined,
-          });
+          }, signal);
           
           if (enrichedMeaningsV2 && enrichedMeaningsV2.length > 0) {
             const sensesToSaveV2 = enrichedMeaningsV2.map((meaning) => {
@@ -1384,6 +1427,9 @@ export function SupabaseInspector() {
             throw new Error(`V2 enrichment returned empty for "${token}" before final validation. V2 is a required gate stage and must complete before proceeding.`);
           }
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error; // Stopped by user - not an enrichment failure
+          }
           const errorMessage = error instanceof Error ? error.message : String(error);
           console.error(`${logPrefix} ✗ V2 enrichment failed before final validation for "${token}":`, error);
           // ⚠️ CRITICAL: V2 is a strict gate stage - if enrichment fails, we cannot proceed
@@ -1464,7 +1510,7 @@ export function SupabaseInspector() {
     setProcessingAll(true);
 
     try {
-      const workflow = getValidatedProcessingOrder();
+      const workflow = getWorkflow(workflowName);
       
       // Helper to clean token - remove punctuation
       const cleanToken = (token: string): string => {
@@ -1532,22 +1578,18 @@ export function SupabaseInspector() {
               }
               
               tokenMigrations.push({oldToken: trimmedToken, newToken: cleanedToken});
-              // #region agent log
               debugLog('SupabaseInspector.tsx:handleProcessCurrentSubtitle','Token cleaned and migrated',{
                 oldToken:trimmedToken,
                 newToken:cleanedToken,
                 hadWord:!!oldWord,
                 hadSenses:oldSenses?.length || 0
               },'TOKEN_CLEAN');
-              // #endregion
             }
             
             cleanedTokens.push({ t: cleanedToken, meaning_id: meaningId });
           } else {
             console.warn(`[Process Current Sub] Token "${trimmedToken}" cleaned to empty string - skipping`);
-            // #region agent log
             debugLog('SupabaseInspector.tsx:handleProcessCurrentSubtitle','Token cleaned to empty - skipping',{oldToken:trimmedToken},'TOKEN_CLEAN');
-            // #endregion
           }
         } else {
           cleanedTokens.push({ t: trimmedToken, meaning_id: meaningId });
@@ -2171,43 +2213,43 @@ export function SupabaseInspector() {
   const handleProcessAll = async () => {
     setError(null); // Clear previous errors
     
-    // #region agent log - PROCESS ALL ENTRY
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL ENTRY',data:{processingSubtitle,processingG2P,processingPhonetic,processingAll,subtitlesLength:subtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-    // #endregion
+    recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL ENTRY', {processingSubtitle,processingG2P,processingPhonetic,processingAll,subtitlesLength:subtitles.length});
     
     if (processingSubtitle || processingG2P || processingPhonetic || processingAll || subtitles.length === 0) {
-      // #region agent log - PROCESS ALL BLOCKED
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL BLOCKED',data:{processingSubtitle,processingG2P,processingPhonetic,processingAll,subtitlesLength:subtitles.length,reason:processingSubtitle ? 'processingSubtitle' : processingG2P ? 'processingG2P' : processingPhonetic ? 'processingPhonetic' : processingAll ? 'processingAll' : 'no_subtitles'},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL BLOCKED', {processingSubtitle,processingG2P,processingPhonetic,processingAll,subtitlesLength:subtitles.length,reason:processingSubtitle ? 'processingSubtitle' : processingG2P ? 'processingG2P' : processingPhonetic ? 'processingPhonetic' : processingAll ? 'processingAll' : 'no_subtitles'});
       return;
     }
 
     setProcessingAll(true);
-    // #region agent log - PROCESS ALL STARTING
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL STARTING',data:{subtitlesLength:subtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-    // #endregion
+    const abortController = new AbortController();
+    processAllAbortRef.current = abortController;
+    const { signal } = abortController;
+    recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL STARTING', {subtitlesLength:subtitles.length});
     console.log('[Process All] ===== STARTING COMPLETE PROCESSING WORKFLOW =====');
     console.log('[Process All] Subtitles to process:', subtitles.length);
 
+    let pipelineRun: PipelineRunHandle | null = null;
     try {
-      // #region agent log - PROCESS ALL TRY BLOCK ENTERED
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TRY BLOCK ENTERED',data:{},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
-      // #region agent log - PROCESS ALL GETTING WORKFLOW
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL GETTING WORKFLOW',data:{},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TRY BLOCK ENTERED');
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL GETTING WORKFLOW');
       let workflow;
       try {
-        workflow = getValidatedProcessingOrder();
+        workflow = getWorkflow(workflowName);
       } catch (workflowError) {
-        // #region agent log - PROCESS ALL WORKFLOW ERROR
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL WORKFLOW ERROR',data:{errorMessage:workflowError instanceof Error ? workflowError.message : String(workflowError),errorStack:workflowError instanceof Error ? workflowError.stack?.substring(0,500) : undefined},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL WORKFLOW ERROR', {errorMessage:workflowError instanceof Error ? workflowError.message : String(workflowError),errorStack:workflowError instanceof Error ? workflowError.stack?.substring(0,500) : undefined}, 'warn');
         throw workflowError;
       }
-      // #region agent log - PROCESS ALL WORKFLOW RETRIEVED
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL WORKFLOW RETRIEVED',data:{workflowSteps:workflow.steps?.map((s:any)=>s.name) || []},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL WORKFLOW RETRIEVED', {workflowSteps:workflow.steps?.map((s:any)=>s.name) || []});
+      // Resume the last unfinished Process All run (tokens it completed are skipped), or start a new one
+      // Runs of a different workflow are not resumed - their completed tokens may still need this workflow's steps
+      const latestRun = await findResumablePipelineRun(INSPECTOR_RUN_SCOPE);
+      const resumableRun = latestRun && resolveWorkflowName(latestRun.workflow_name) === workflow.name ? latestRun : null;
+      pipelineRun = await startPipelineRun(INSPECTOR_RUN_SCOPE, workflow.name, resumableRun?.id);
+      const activeRun = pipelineRun;
+      if (resumableRun) {
+        console.log(`[Process All] Resuming run ${resumableRun.id}`);
+      }
+
       let processedSubtitleCount = 0;
       let skippedSubtitleCount = 0;
       let processedTokenCount = 0;
@@ -2215,16 +2257,14 @@ export function SupabaseInspector() {
       const skipReasons: Record<string, number> = {};
 
       // STEP 1: Process all subtitles (tokenize)
-      // #region agent log - PROCESS ALL STEP 1 START
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL STEP 1 START',data:{subtitlesToProcess:subtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL STEP 1 START', {subtitlesToProcess:subtitles.length});
       console.log('[Process All] === STEP 1: Tokenizing Subtitles ===');
 
+      const workflowTokenizes = workflow.steps.some(s => s.name === 'tokenize');
       const processedSubtitles: SubtitleTh[] = [];
       for (let i = 0; i < subtitles.length; i++) {
-        // #region agent log - PROCESS ALL PROCESSING SUBTITLE
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL PROCESSING SUBTITLE',data:{subtitleIndex:i,subtitleId:subtitles[i]?.id,totalSubtitles:subtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-        // #endregion
+        throwIfAborted(signal);
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL PROCESSING SUBTITLE', {subtitleIndex:i,subtitleId:subtitles[i]?.id,totalSubtitles:subtitles.length});
         const subtitle = subtitles[i];
         setCurrentSubtitleIndex(i);
         
@@ -2245,6 +2285,13 @@ export function SupabaseInspector() {
           }
         }
 
+        if (!workflowTokenizes) {
+          // Selected workflow has no tokenize step - untokenized subtitles contribute no tokens
+          skippedSubtitleCount++;
+          skipReasons['subtitle_tokenize_not_in_workflow'] = (skipReasons['subtitle_tokenize_not_in_workflow'] || 0) + 1;
+          continue;
+        }
+
         // Tokenize using workflow
         try {
           const context: PipelineContext = {
@@ -2258,7 +2305,7 @@ export function SupabaseInspector() {
             throw new Error(`Invalid context for subtitle ${subtitle.id}: ${validatedContext.error.message}`);
           }
 
-          const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, ['tokenize']);
+          const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, ['tokenize'], { signal });
           
 
           // Validate final context
@@ -2282,32 +2329,29 @@ export function SupabaseInspector() {
           if (validationResult.success) {
             processedSubtitles.push(validationResult.data);
             processedSubtitleCount++;
-            // #region agent log
             debugLog('SupabaseInspector.tsx:handleProcessAll','Subtitle tokenized successfully',{subtitleId:subtitle.id,tokenCount:finalContext.tokens_th?.tokens?.length || 0},'H1');
-            // #endregion
           } else {
             console.error(`[STRICT PIPELINE]   Validation: FAIL`);
             console.error(`[STRICT PIPELINE]   Errors:`, validationResult.error.errors);
             console.error(`[Process All] ✗ Subtitle ${subtitle.id} validation failed after tokenization:`, validationResult.error.errors);
           }
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error; // Stopped by user - tokenized subtitles are not saved, next run re-tokenizes them
+          }
           console.error(`[Process All] ✗ Error tokenizing subtitle ${subtitle.id}:`, error);
         }
       }
 
       // Save updated subtitles
-      // #region agent log - PROCESS ALL AFTER SUBTITLE LOOP
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL AFTER SUBTITLE LOOP',data:{processedSubtitleCount,skippedSubtitleCount,processedSubtitlesLength:processedSubtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL AFTER SUBTITLE LOOP', {processedSubtitleCount,skippedSubtitleCount,processedSubtitlesLength:processedSubtitles.length});
       if (processedSubtitleCount > 0) {
         await saveSubtitlesBatch(processedSubtitles);
         console.log(`[Process All] Saved ${processedSubtitleCount} tokenized subtitles`);
       }
 
       // STEP 2: Extract unique tokens and validate them
-      // #region agent log - PROCESS ALL STEP 2 START
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL STEP 2 START',data:{processedSubtitlesLength:processedSubtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL STEP 2 START', {processedSubtitlesLength:processedSubtitles.length});
       const uniqueTokens = new Set<string>();
       const invalidTokens: Array<{token: string, reason: string}> = [];
       
@@ -2320,19 +2364,13 @@ export function SupabaseInspector() {
       // Track tokens per subtitle for sync debugging
       const tokensBySubtitle = new Map<string, Array<{t: string, meaning_id?: bigint}>>(); // subtitleId -> tokens[]
       
-      // #region agent log - PROCESS ALL TOKEN EXTRACTION LOOP START
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION LOOP START',data:{processedSubtitlesLength:processedSubtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION LOOP START', {processedSubtitlesLength:processedSubtitles.length});
       try {
         for (const subtitle of processedSubtitles) {
-        // #region agent log - PROCESS ALL TOKEN EXTRACTION LOOP ITERATION
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION LOOP ITERATION',data:{subtitleId:subtitle.id,hasTokensTh:!!subtitle.tokens_th,hasTokens:!!subtitle.tokens_th?.tokens,tokensLength:subtitle.tokens_th?.tokens?.length || 0},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION LOOP ITERATION', {subtitleId:subtitle.id,hasTokensTh:!!subtitle.tokens_th,hasTokens:!!subtitle.tokens_th?.tokens,tokensLength:subtitle.tokens_th?.tokens?.length || 0});
         if (subtitle.tokens_th?.tokens) {
           const subtitleTokens: Array<{t: string, meaning_id?: bigint}> = [];
-          // #region agent log - PROCESS ALL TOKEN EXTRACTION INNER LOOP START
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION INNER LOOP START',data:{subtitleId:subtitle.id,tokensCount:subtitle.tokens_th.tokens.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-          // #endregion
+          recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION INNER LOOP START', {subtitleId:subtitle.id,tokensCount:subtitle.tokens_th.tokens.length});
           for (const tokenItem of subtitle.tokens_th.tokens) {
             try {
               const tokenText = getTokenText(tokenItem);
@@ -2345,40 +2383,32 @@ export function SupabaseInspector() {
             // Validate token - reject if it contains punctuation
             if (hasInvalidPunctuation(tokenText)) {
               invalidTokens.push({token: tokenText, reason: 'contains_punctuation', subtitleId: subtitle.id});
-              // #region agent log - TOKEN SYNC
               const subtitleTokensForLog = subtitle.tokens_th.tokens.map((t: any) => {
                 if (typeof t === 'string') return t;
                 if (t && typeof t === 'object') return { t: t.t, meaning_id: t.meaning_id?.toString() };
                 return t;
               });
-              fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Invalid token skipped',data:{token:tokenText,subtitleId:subtitle.id,reason:'contains_punctuation',subtitleTokens:subtitleTokensForLog},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-              // #endregion
+              recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Invalid token skipped', {token:tokenText,subtitleId:subtitle.id,reason:'contains_punctuation',subtitleTokens:subtitleTokensForLog}, 'warn');
               console.warn(`[Process All] ⚠ Invalid token detected: "${tokenText}" contains punctuation - skipping`);
               continue; // Skip invalid tokens
             }
             uniqueTokens.add(tokenText);
             subtitleTokens.push({ t: tokenText, meaning_id: meaningId });
             } catch (tokenItemError) {
-              // #region agent log - PROCESS ALL TOKEN EXTRACTION TOKEN ITEM ERROR
-              fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION TOKEN ITEM ERROR',data:{subtitleId:subtitle.id,tokenItem,tokenItemType:typeof tokenItem,errorMessage:tokenItemError instanceof Error ? tokenItemError.message : String(tokenItemError)},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-              // #endregion
+              recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION TOKEN ITEM ERROR', {subtitleId:subtitle.id,tokenItem,tokenItemType:typeof tokenItem,errorMessage:tokenItemError instanceof Error ? tokenItemError.message : String(tokenItemError)}, 'warn');
               console.error(`[Process All] Error processing token item in subtitle ${subtitle.id}:`, tokenItemError);
               continue; // Skip this token item and continue
             }
           }
           if (subtitleTokens.length > 0) {
             tokensBySubtitle.set(subtitle.id, subtitleTokens);
-            // #region agent log - TOKEN SYNC
             const tokensForLog = subtitleTokens.map(t => ({ t: t.t, meaning_id: t.meaning_id?.toString() }));
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Subtitle tokens extracted',data:{subtitleId:subtitle.id,tokenCount:subtitleTokens.length,tokens:tokensForLog,originalTokensCount:subtitle.tokens_th.tokens.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-            // #endregion
+            recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Subtitle tokens extracted', {subtitleId:subtitle.id,tokenCount:subtitleTokens.length,tokens:tokensForLog,originalTokensCount:subtitle.tokens_th.tokens.length});
           }
         }
       }
       } catch (tokenExtractionError) {
-        // #region agent log - PROCESS ALL TOKEN EXTRACTION ERROR
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION ERROR',data:{errorMessage:tokenExtractionError instanceof Error ? tokenExtractionError.message : String(tokenExtractionError),errorStack:tokenExtractionError instanceof Error ? tokenExtractionError.stack?.substring(0,500) : undefined},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION ERROR', {errorMessage:tokenExtractionError instanceof Error ? tokenExtractionError.message : String(tokenExtractionError),errorStack:tokenExtractionError instanceof Error ? tokenExtractionError.stack?.substring(0,500) : undefined}, 'warn');
         throw tokenExtractionError;
       }
       
@@ -2387,20 +2417,14 @@ export function SupabaseInspector() {
         console.warn(`[Process All] Invalid tokens:`, invalidTokens.map(t => t.token));
       }
       
-      // #region agent log - PROCESS ALL TOKEN EXTRACTION COMPLETE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL TOKEN EXTRACTION COMPLETE',data:{uniqueTokensCount:uniqueTokens.size,invalidTokensCount:invalidTokens.length,processedSubtitlesLength:processedSubtitles.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL TOKEN EXTRACTION COMPLETE', {uniqueTokensCount:uniqueTokens.size,invalidTokensCount:invalidTokens.length,processedSubtitlesLength:processedSubtitles.length});
       console.log(`[Process All] === STEP 2: Processing ${uniqueTokens.size} Unique Tokens ===`);
 
       // STEP 3: Process each token (G2P → phonetic → ORST → GPT normalize)
       const tokensArray = Array.from(uniqueTokens);
-      // #region agent log - PROCESS ALL STEP 3 START
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL STEP 3 START',data:{tokensArrayLength:tokensArray.length},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL STEP 3 START', {tokensArrayLength:tokensArray.length});
       
-      // #region agent log - TOKEN SYNC
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Starting token processing',data:{totalUniqueTokens:tokensArray.length,tokensArray:tokensArray.slice(0,20),subtitleCount:processedSubtitles.length,tokensBySubtitleCount:tokensBySubtitle.size},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Starting token processing', {totalUniqueTokens:tokensArray.length,tokensArray:tokensArray.slice(0,20),subtitleCount:processedSubtitles.length,tokensBySubtitleCount:tokensBySubtitle.size});
       
       for (let i = 0; i < tokensArray.length; i++) {
         const token = tokensArray[i];
@@ -2416,22 +2440,26 @@ export function SupabaseInspector() {
           sub.tokens_th?.tokens?.includes(token)
         ).map(sub => ({id: sub.id, index: subtitles.findIndex(s => s.id === sub.id)}));
         
-        // #region agent log - TOKEN SYNC
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Processing token',data:{token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,foundInSubtitles:containingSubtitles.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-        // #endregion
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Processing token', {token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,foundInSubtitles:containingSubtitles.length});
         
         if (subtitleIndex >= 0) {
           setCurrentSubtitleIndex(subtitleIndex);
         }
         setSelectedToken(token);
 
+        throwIfAborted(signal);
+        const tokenKey = wordSubjectKey(token ?? '');
+        if (getResumePoint(activeRun, tokenKey, []).completed) {
+          skippedTokenCount++;
+          skipReasons['completed_in_previous_run'] = (skipReasons['completed_in_previous_run'] || 0) + 1;
+          continue;
+        }
+
         try {
           // Use shared token processing logic - same as Process Current Sub
           const currentSubtitle = subtitleIndex >= 0 ? processedSubtitles.find(sub => subtitles.findIndex(s => s.id === sub.id) === subtitleIndex) : null;
           
-          // #region agent log - V3 PROCESS ALL CALLING PROCESS SINGLE TOKEN
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'V3 PROCESS ALL CALLING PROCESS SINGLE TOKEN',data:{token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,hasCurrentSubtitle:!!currentSubtitle},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('SupabaseInspector.tsx:handleProcessAll', 'V3 PROCESS ALL CALLING PROCESS SINGLE TOKEN', {token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,hasCurrentSubtitle:!!currentSubtitle});
           
           const result = await processSingleToken(
             token,
@@ -2440,10 +2468,9 @@ export function SupabaseInspector() {
             {
               logPrefix: '[Process All]',
               skipReasons,
+              signal,
               onSkip: (reason) => {
-                // #region agent log - TOKEN SYNC
-                fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Token skipped',data:{token,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,skipReason:reason},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-                // #endregion
+                recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Token skipped', {token,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,skipReason:reason});
               },
               onProcess: () => {
                 // Callback called after successful processing
@@ -2451,20 +2478,17 @@ export function SupabaseInspector() {
             }
           );
           
-          // #region agent log - V3 PROCESS ALL PROCESS SINGLE TOKEN RESULT
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'V3 PROCESS ALL PROCESS SINGLE TOKEN RESULT',data:{token,tokenIndex:i+1,totalTokens:tokensArray.length,resultProcessed:result.processed,resultSkipped:result.skipped},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('SupabaseInspector.tsx:handleProcessAll', 'V3 PROCESS ALL PROCESS SINGLE TOKEN RESULT', {token,tokenIndex:i+1,totalTokens:tokensArray.length,resultProcessed:result.processed,resultSkipped:result.skipped});
 
           if (result.skipped) {
             skippedTokenCount++;
           } else if (result.processed) {
-            // #region agent log - TOKEN SYNC
             const finalWord = await fetchWord(token);
             const finalSenses = await fetchSenses(token);
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Token processing completed successfully',data:{token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,hasFinalWord:!!finalWord,hasFinalSenses:!!finalSenses,finalSenseCount:finalSenses?.length || 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-            // #endregion
+            recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Token processing completed successfully', {token,tokenIndex:i+1,totalTokens:tokensArray.length,subtitleIndex:subtitleIndex >= 0 ? subtitleIndex : null,containingSubtitles,hasFinalWord:!!finalWord,hasFinalSenses:!!finalSenses,finalSenseCount:finalSenses?.length || 0});
             processedTokenCount++;
           }
+          await markSubjectCheckpoint(activeRun, tokenKey, 'completed');
 
           // Small delay for visual feedback
           await new Promise(resolve => setTimeout(resolve, 50));
@@ -2472,28 +2496,27 @@ export function SupabaseInspector() {
           // Small delay for visual feedback
           await new Promise(resolve => setTimeout(resolve, 50));
         } catch (error) {
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'EJECT - Error processing token, stopping Process All',data:{token,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,500) : undefined,processedTokens:processedTokenCount,skippedTokens:skippedTokenCount,currentTokenIndex:i+1,totalTokens:tokensArray.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-          // #endregion
-          console.error(`[Process All] ✗ Error processing token "${token}":`, error);
+          recordEvent('SupabaseInspector.tsx:handleProcessAll', 'EJECT - Error processing token, stopping Process All', {token,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,500) : undefined,processedTokens:processedTokenCount,skippedTokens:skippedTokenCount,currentTokenIndex:i+1,totalTokens:tokensArray.length}, 'warn');
+          if (!isAbortError(error)) {
+            console.error(`[Process All] ✗ Error processing token "${token}":`, error);
+          }
           // ⚠️ PROCESSING CONTRACT: Re-throw to stop processing on any error
           throw error;
         }
       }
 
+      await finishPipelineRun(activeRun, 'completed');
+
       // Final summary with detailed skip statistics
       const totalTokens = processedTokenCount + skippedTokenCount;
       const skipRate = totalTokens > 0 ? ((skippedTokenCount / totalTokens) * 100).toFixed(1) : '0';
-      // #region agent log - PROCESS ALL COMPLETE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL COMPLETE',data:{processedSubtitleCount,skippedSubtitleCount,processedTokenCount,skippedTokenCount,totalTokens,skipRate,skipReasons},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL COMPLETE', {processedSubtitleCount,skippedSubtitleCount,processedTokenCount,skippedTokenCount,totalTokens,skipRate,skipReasons});
       console.log('[Process All] ===== PROCESSING COMPLETE =====');
       console.log(`[Process All] Subtitles: ${processedSubtitleCount} processed, ${skippedSubtitleCount} skipped`);
       console.log(`[Process All] Tokens: ${processedTokenCount} processed, ${skippedTokenCount} skipped (${skipRate}% skip rate)`);
       console.log('[Process All] Skip reasons:', skipReasons);
       
       // TOKEN SYNC VERIFICATION: Compare subtitle tokens vs words in database
-      // #region agent log - TOKEN SYNC
       const syncVerification: any[] = [];
       const syncErrors: any[] = [];
       let syncVerificationCount = 0;
@@ -2501,9 +2524,7 @@ export function SupabaseInspector() {
       
       for (const subtitle of processedSubtitles) {
         if (syncVerificationCount >= maxSyncChecks) {
-          // #region agent log - TOKEN SYNC
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Sync verification limited',data:{maxSyncChecks,checkedSubtitles:syncVerificationCount,totalSubtitles:processedSubtitles.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-          // #endregion
+          recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Sync verification limited', {maxSyncChecks,checkedSubtitles:syncVerificationCount,totalSubtitles:processedSubtitles.length});
           break; // Stop verification to prevent timeout
         }
         
@@ -2534,9 +2555,7 @@ export function SupabaseInspector() {
             } catch (e) {
               const errorMsg = e instanceof Error ? e.message : String(e);
               fetchErrors.push(`${token}: ${errorMsg}`);
-              // #region agent log - TOKEN SYNC
-              fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Sync verification fetchWord error',data:{subtitleId:subtitle.id,token,error:errorMsg},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
-              // #endregion
+              recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Sync verification fetchWord error', {subtitleId:subtitle.id,token,error:errorMsg}, 'warn');
             }
           }
           
@@ -2560,14 +2579,11 @@ export function SupabaseInspector() {
       }
       
       if (syncVerification.length > 0) {
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - Sync verification complete',data:{outOfSyncSubtitles:syncVerification.length,totalSubtitles:processedSubtitles.length,checkedSubtitles:syncVerificationCount,syncVerification},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - Sync verification complete', {outOfSyncSubtitles:syncVerification.length,totalSubtitles:processedSubtitles.length,checkedSubtitles:syncVerificationCount,syncVerification});
       } else {
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'TOKEN SYNC - All checked subtitles in sync',data:{totalSubtitles:processedSubtitles.length,checkedSubtitles:syncVerificationCount,allInSync:true},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'TOKEN_SYNC'})}).catch(()=>{});
+        recordEvent('SupabaseInspector.tsx:handleProcessAll', 'TOKEN SYNC - All checked subtitles in sync', {totalSubtitles:processedSubtitles.length,checkedSubtitles:syncVerificationCount,allInSync:true});
       }
-      // #endregion
-      // #region agent log
       // Skip logging - successful completion
-      // #endregion
 
       // Refresh UI - fetch fresh data from database (source of truth)
       const refreshedSubtitles = await fetchSubtitles();
@@ -2596,21 +2612,35 @@ export function SupabaseInspector() {
       // Refresh word data completeness for all tokens (after subtitle index is set)
       await refreshWordDataCompleteness();
     } catch (err) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'EJECT - FATAL ERROR, Process All stopped',data:{errorMessage:err instanceof Error ? err.message : String(err),errorStack:err instanceof Error ? err.stack?.substring(0,500) : undefined,processedSubtitles:processedSubtitleCount,skippedSubtitles:skippedSubtitleCount,processedTokens:processedTokenCount,skippedTokens:skippedTokenCount,skipReasons},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'EJECT - FATAL ERROR, Process All stopped', {errorMessage:err instanceof Error ? err.message : String(err),errorStack:err instanceof Error ? err.stack?.substring(0,500) : undefined,processedSubtitles:processedSubtitleCount,skippedSubtitles:skippedSubtitleCount,processedTokens:processedTokenCount,skippedTokens:skippedTokenCount,skipReasons}, 'warn');
+      const cancelled = isAbortError(err);
+      if (pipelineRun && pipelineRun.run.status === 'running') {
+        // Keep checkpoints - the next Process All resumes after the last completed token
+        await finishPipelineRun(pipelineRun, cancelled ? 'cancelled' : 'failed', err).catch(runError => {
+          console.error('[Process All] ✗ Failed to record run failure:', runError);
+        });
+      }
+      if (cancelled) {
+        // Stopped by user - the interrupted token was not saved, completed tokens are kept
+        console.log('[Process All] ===== STOPPED BY USER =====');
+        setError('Process All stopped. Run it again to resume after the last completed token.');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : String(err);
       console.error('[Process All] ✗ Fatal error:', err);
       setError(`Process All failed: ${errorMessage}`);
       alert(`Process All failed: ${errorMessage}`);
     } finally {
-      // #region agent log - PROCESS ALL FINALLY BLOCK
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'SupabaseInspector.tsx:handleProcessAll',message:'PROCESS ALL FINALLY BLOCK',data:{},timestamp:Date.now(),runId:'run1',hypothesisId:'PROCESS_ALL'})}).catch(()=>{});
-      // #endregion
+      recordEvent('SupabaseInspector.tsx:handleProcessAll', 'PROCESS ALL FINALLY BLOCK');
+      processAllAbortRef.current = null;
       setProcessingAll(false);
     }
   };
 
+  const handleStopProcessAll = () => {
+    processAllAbortRef.current?.abort();
+  };
+
 
   return (
     <div className="min-h-screen bg-gray-100 p-8">
@@ -2748,7 +2778,76 @@ export function SupabaseInspector() {
                   >
                     {processingAll ? 'Processing All...' : 'Process All'}
                   </button>
+                  <select
+                    value={workflowName}
+                    onChange={(e) => setWorkflowName(e.target.value)}
+                    disabled={processingAll}
+                    title="Workflow used by Process Current Sub and Process All"
+                    className="px-2 py-2 border border-gray-300 rounded"
+                  >
+                    {listWorkflows().map(w => (
+                      <option key={w.name} value={w.name} title={w.description}>{w.name}</option>
+                    ))}
+                  </select>
+                  {processingAll && (
+                    <button
+                      onClick={handleStopProcessAll}
+                      className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 font-bold"
+                    >
+                      Stop
+                    </button>
+                  )}
                 </div>
+                {Object.values(rateLimitStats).some(stats => stats.active > 0 || stats.queued > 0) && (
+                  <div className="mt-2 text-xs text-gray-600 font-mono" title="Requests in flight / waiting for the service's rate limit">
+                    {Object.values(rateLimitStats)
+                      .filter(stats => stats.active > 0 || stats.queued > 0)
+                      .map(stats => `${stats.service}: ${stats.active}/${stats.config.maxConcurrent} running, ${stats.queued} queued`)
+                      .join(' · ')}
+                  </div>
+                )}
+                {telemetryEvents.length > 0 && (
+                  <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer text-gray-600">Telemetry ({telemetryEvents.length} recent spans)</summary>
+                    <ul className="mt-1 max-h-48 overflow-y-auto font-mono">
+                      {[...telemetryEvents].reverse().map(event => (
+                        <li key={event.spanId} className={event.outcome === 'error' ? 'text-red-600' : event.outcome === 'cancelled' || event.outcome === 'skipped' ? 'text-gray-400' : 'text-gray-700'}>
+                          {event.name} {String(event.attributes.stepName ?? event.attributes.word_th ?? event.attributes.mediaId ?? '')} · {event.outcome} · {event.durationMs}ms
+                          {event.attributes.cached === true ? ' · cached' : ''}
+                          {typeof event.attributes.skipReason === 'string' ? ` · ${event.attributes.skipReason}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {stepReport && (
+                  <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer text-gray-600">Step changes for "{stepReport.token}"</summary>
+                    <ul className="mt-1 max-h-48 overflow-y-auto font-mono">
+                      {stepReport.results.map(result => (
+                        <li key={result.stepName} className={result.status === 'failed' ? 'text-red-600' : result.status === 'skipped' ? 'text-gray-400' : 'text-gray-700'}>
+                          {result.stepName} · {result.status}
+                          {result.cached ? ' · cached' : ''}
+                          {result.skipReason ? ` · ${result.skipReason}` : ''}
+                          {result.error ? ` · ${result.error.message}` : ''}
+                          {result.diff?.map(change => (
+                            <div key={change.field} className="pl-4">
+                              {change.change} {change.field}: {formatReportValue(change.before)} → {formatReportValue(change.after)}
+                            </div>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-1 text-gray-600">Provenance</div>
+                    <ul className="font-mono">
+                      {Object.entries(stepReport.provenance).map(([field, source]) => (
+                        <li key={field} className="text-gray-700">
+                          {field} ← {source.stepName} ({source.service ?? 'local'}{source.cached ? ', cached' : ''}) {new Date(source.settledAt).toLocaleTimeString()}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
             )}
           </div>
@@ -2776,9 +2875,8 @@ export function SupabaseInspector() {
               {(() => {
                 const subtitle = subtitles[currentSubtitleIndex];
                 const subtitleTokens = subtitle?.tokens_th?.tokens || [];
-                // #region agent log
+                const englishGroup = subtitle ? englishAlignment.get(subtitle.id) : undefined;
                 // Skip logging - routine render operation
-                // #endregion
                 const allTokensComplete = subtitleTokens.length > 0 && subtitleTokens.every((token: string) => {
                   return wordExistsMap.get(token) === true;
                 });
@@ -2803,6 +2901,14 @@ export function SupabaseInspector() {
                         <p className="text-sm mt-1 text-gray-800">{subtitle.thai}</p>
                       </div>
                     )}
+                    {englishGroup?.english && (
+                      <div>
+                        <span className="text-xs font-medium text-gray-600">
+                          English{englishGroup.kind !== '1:1' ? ` (${englishGroup.kind})` : ''}:
+                        </span>
+                        <p className="text-sm mt-1 text-gray-800">{englishGroup.english}</p>
+                      </div>
+                    )}
                     {subtitle.start_sec_th !== undefined && subtitle.end_sec_th !== undefined && (
                       <div>
                         <span className="text-xs font-medium text-gray-600">Time:</span>
@@ -2860,9 +2966,7 @@ export function SupabaseInspector() {
               }
             }
             
-            // #region agent log
             // Skip logging - tokens computed correctly from subtitle source of truth
-            // #endregion
             
             return (
               <>
@@ -3036,7 +3140,6 @@ export function SupabaseInspector() {
                       const isV3Complete = isV2Complete && hasLabelEng;
                       const isSelected = selectedMeaning === sense;
                       
-                      // #region agent log - V2/V3 UI DISPLAY
                       debugLog('SupabaseInspector.tsx:render','V2/V3 UI DISPLAY',{
                         senseIndex:senseIdx,
                         hasPosTh,
@@ -3052,7 +3155,6 @@ export function SupabaseInspector() {
                         labelEngValue:senseV2V3.label_eng,
                         wordThId:sense.word_th_id
                       },'V3_ENRICH');
-                      // #endregion
                       
                       return (
                         <div 
@@ -6,6 +6,8 @@ import {
   fetchWord,
   fetchSenses,
 } from '../supabase';
+import { fetchEnglishSubtitles } from '../supabase/subtitlesEn';
+import { alignmentByThaiId, alignSubtitles } from '../services/alignment/subtitleAlignment';
 import { wordThSchema } from '../schemas/wordThSchema';
 
 interface EpisodeLookup {
@@ -101,6 +103,8 @@ async function loadWordsAndSenses(subtitleData: any): Promise<any> {
             senseId: sense.id,
             definition_th: sense.definition_th,
             source: sense.source,
+            // V3 field - English gloss (annotated VTT export); fetchSenses returns V3 rows typed as MeaningTh
+            label_eng: 'label_eng' in sense && typeof sense.label_eng === 'string' ? sense.label_eng : undefined,
           };
           return senseObj;
         });
@@ -177,6 +181,21 @@ async function fetchFullEpisodeData(episodeLookup: EpisodeLookup): Promise<FullE
         return result;
       })
     );
+
+    // Official English translation of each Thai line (subtitles_en aligned by time) - optional, episodes
+    // extracted before the English track was saved have none
+    try {
+      const englishSubtitles = await fetchEnglishSubtitles(mediaIdForSubtitles);
+      if (englishSubtitles.length > 0) {
+        const alignment = alignmentByThaiId(alignSubtitles(result.subtitles, englishSubtitles));
+        result.subtitles = result.subtitles.map(subtitle => {
+          const group = alignment.get(subtitle.id);
+          return group?.english ? { ...subtitle, english: group.english, englishAlignment: group.kind } : subtitle;
+        });
+      }
+    } catch (err) {
+      console.warn('[useEpisodes] Could not load English subtitles:', err);
+    }
     
     console.log('[DEBUG] Completed loading all subtitles for episode:', {
       mediaId: episodeLookup.mediaId,
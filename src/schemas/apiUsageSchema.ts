@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * API Usage Schemas - match ACTUAL database column names (snake_case)
+ * Database table: api_usage
+ * Created by: scripts/create-api-usage-table.sql
+ *
+ * One row per external API call (AI4Thai tokenizer/G2P, ORST scrape, OpenAI), attributed to the
+ * pipeline run and episode that caused it. Budgets cap calls and tokens per run and per episode.
+ */
+
+export const serviceNameSchema = z.enum(['ai4thai-tokenizer', 'ai4thai-g2p', 'orst', 'openai']);
+
+export type ServiceName = z.infer<typeof serviceNameSchema>;
+
+export const usageRecordSchema = z.object({
+  id: z.string().uuid(),
+  run_id: z.string().uuid().nullable().optional(),
+  media_id: z.string().min(1).nullable().optional(),
+  service: serviceNameSchema,
+  operation: z.string().min(1, 'operation is required'), // Calling function, e.g. "getG2P", "callGPTAPI"
+  model: z.string().nullable().optional(), // OpenAI model - null for non-LLM services
+  tokens_in: z.number().int().nonnegative(),
+  tokens_out: z.number().int().nonnegative(),
+  latency_ms: z.number().int().nonnegative(),
+  success: z.boolean(), // false when the service responded with an error status
+  created_at: z.string().datetime({ offset: true }),
+}).strict();
+
+export type UsageRecord = z.infer<typeof usageRecordSchema>;
+
+/**
+ * Aggregated usage for one service
+ */
+export const usageTotalsSchema = z.object({
+  calls: z.number().int().nonnegative(),
+  tokens_in: z.number().int().nonnegative(),
+  tokens_out: z.number().int().nonnegative(),
+  latency_ms: z.number().int().nonnegative(),
+});
+
+export type UsageTotals = z.infer<typeof usageTotalsSchema>;
+
+/**
+ * Limits for one scope (run or episode)
+ * - maxCalls: Per-service call limits (services not listed are unlimited)
+ * - maxTokens: Limit on tokens_in + tokens_out across all services
+ */
+export const usageLimitsSchema = z.object({
+  maxCalls: z.object({
+    'ai4thai-tokenizer': z.number().int().nonnegative(),
+    'ai4thai-g2p': z.number().int().nonnegative(),
+    orst: z.number().int().nonnegative(),
+    openai: z.number().int().nonnegative(),
+  }).partial().strict().optional(),
+  maxTokens: z.number().int().nonnegative().optional(),
+}).strict();
+
+export type UsageLimits = z.infer<typeof usageLimitsSchema>;
+
+/**
+ * Budget for processSubtitlesForEpisode
+ * - perRun: Usage of the current run only
+ * - perEpisode: Usage of every run recorded for the episode (api_usage rows with its media_id)
+ */
+export const usageBudgetSchema = z.object({
+  perRun: usageLimitsSchema.optional(),
+  perEpisode: usageLimitsSchema.optional(),
+}).strict();
+
+export type UsageBudget = z.infer<typeof usageBudgetSchema>;
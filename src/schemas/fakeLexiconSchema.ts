@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { meaningThSchema } from './meaningThSchema';
+
+/**
+ * Fake Lexicon Schema - data behind the fake providers (src/services/providers/fakeProviders.ts)
+ *
+ * Keyed by Thai word; every key is also a word the fake tokenizer recognizes
+ * - g2p: What the fake G2P returns (words without g2p fail the getG2P step, like the live API)
+ * - senses: What the fake dictionary (ORST stand-in) returns
+ * - gptMeanings: What the fake LLM's createMeanings returns
+ * Meaning ids may be strings in JSON files (bigintCoerce)
+ */
+
+export const fakeLexiconEntrySchema = z.object({
+  g2p: z.string().min(1).optional(),
+  senses: z.array(meaningThSchema).optional(),
+  gptMeanings: z.array(meaningThSchema).optional(),
+}).strict();
+
+export type FakeLexiconEntry = z.infer<typeof fakeLexiconEntrySchema>;
+
+export const fakeLexiconSchema = z.record(z.string().trim().min(1), fakeLexiconEntrySchema);
+
+export type FakeLexicon = z.infer<typeof fakeLexiconSchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { serviceNameSchema } from './apiUsageSchema';
+
+/**
+ * HTTP Fixture Schema - one recorded request/response pair of an external service
+ * Written in "record" mode and served in "replay" mode by src/services/http/httpTransport.ts
+ *
+ * - key: SHA-256 of service, method, url and body - headers are not part of the key (API keys never end up
+ *   in fixtures, and a replay works with any key)
+ * - response.body: Raw response text (JSON or HTML) - the call site parses and validates it as usual
+ */
+
+export const httpFixtureSchema = z.object({
+  key: z.string().regex(/^[0-9a-f]{64}$/, 'key must be a SHA-256 hex digest'),
+  service: serviceNameSchema,
+  request: z.object({
+    method: z.string().min(1),
+    url: z.string().min(1),
+    body: z.string(),
+  }).strict(),
+  response: z.object({
+    status: z.number().int().min(100).max(599),
+    statusText: z.string(),
+    headers: z.record(z.string()),
+    body: z.string(),
+  }).strict(),
+  recorded_at: z.string().datetime({ offset: true }),
+}).strict();
+
+export type HttpFixture = z.infer<typeof httpFixtureSchema>;
+
+export const httpTransportModeSchema = z.enum(['live', 'record', 'replay']);
+
+export type HttpTransportMode = z.infer<typeof httpTransportModeSchema>;
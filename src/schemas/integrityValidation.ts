@@ -24,6 +24,7 @@ import {
   ContractValidationResult,
 } from './completenessSchemas';
 import { enforceContract } from './validationEnforcement';
+import { recordEvent } from '../services/telemetry/telemetry';
 
 export interface SubtitleIntegrityResult {
   subtitleId: string;
@@ -82,17 +83,13 @@ export interface EpisodeIntegrityResult {
  * Returns validation result with errors if completeness validation is violated
  */
 export function validateCompleteWord(word: unknown): CompletenessValidationResult {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteWord',message:'COMPLETENESS VALIDATION START - validateCompleteWord',data:{hasWord:!!word},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateCompleteWord', 'COMPLETENESS VALIDATION START - validateCompleteWord', {hasWord:!!word});
 
   // ⚠️ CRITICAL: Validate with base schema first - word must be unknown until validated
   const baseValidation = wordThSchema.strict().safeParse(word);
   if (!baseValidation.success) {
     const errors = analyzeValidationErrors(word, baseValidation, 'word');
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteWord',message:'COMPLETENESS VIOLATION - Word fails base wordThSchema',data:{errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:validateCompleteWord', 'COMPLETENESS VIOLATION - Word fails base wordThSchema', {errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
     return {
       passed: false,
       errors,
@@ -102,9 +99,7 @@ export function validateCompleteWord(word: unknown): CompletenessValidationResul
   const validatedWord = baseValidation.data;
 
   if (!validatedWord) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteWord',message:'COMPLETENESS VIOLATION - Word is null/undefined',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:validateCompleteWord', 'COMPLETENESS VIOLATION - Word is null/undefined', {}, 'warn');
     return {
       passed: false,
       errors: [{
@@ -122,18 +117,14 @@ export function validateCompleteWord(word: unknown): CompletenessValidationResul
   const validation = completeWordThSchema.safeParse(validatedWord);
   if (!validation.success) {
     const errors = analyzeValidationErrors(validatedWord, validation, 'word');
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteWord',message:'COMPLETENESS VIOLATION - Word fails completeWordThSchema',data:{textTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:validateCompleteWord', 'COMPLETENESS VIOLATION - Word fails completeWordThSchema', {textTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
     return {
       passed: false,
       errors,
     };
   }
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteWord',message:'COMPLETENESS PASSED - Word matches completeWordThSchema',data:{textTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateCompleteWord', 'COMPLETENESS PASSED - Word matches completeWordThSchema', {textTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en});
   return {
     passed: true,
     errors: [],
@@ -156,7 +147,7 @@ function stripV2Fields(sense: unknown): unknown {
  * Strip V3 fields from a sense object for V2 validation
  * This allows V2 validation to work even when V3 columns exist in the database
  */
-function stripV3Fields(sense: unknown): unknown {
+export function stripV3Fields(sense: unknown): unknown {
   if (!sense || typeof sense !== 'object') {
     return sense;
   }
@@ -178,9 +169,7 @@ function stripV3Fields(sense: unknown): unknown {
  * even when V2 columns exist in the database. This enables the workflow: "V1 is good, upgrade to V2"
  */
 export function validateNormalizedSenses(senses: unknown[]): CompletenessValidationResult {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS VALIDATION START - validateNormalizedSenses',data:{senseCount:senses?.length || 0,hasSenses:!!senses && senses.length > 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS VALIDATION START - validateNormalizedSenses', {senseCount:senses?.length || 0,hasSenses:!!senses && senses.length > 0});
 
   // ⚠️ CRITICAL: Validate each sense with schema first - senses must be unknown until validated
   // ⚠️ V1/V2/V3 COMPATIBILITY: Check V3 first, then V2, then V1 to support all schema versions
@@ -197,9 +186,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
         senseValidation = meaningThSchema.strict().safeParse(v1Sense);
         if (!senseValidation.success) {
           const errors = analyzeValidationErrors(sense, senseValidation, 'sense');
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS VIOLATION - Sense fails base meaningThSchema (V1/V2/V3)',data:{errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-          // #endregion
+          recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS VIOLATION - Sense fails base meaningThSchema (V1/V2/V3)', {errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
           return {
             passed: false,
             errors,
@@ -211,9 +198,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
   }
 
   if (!validatedSenses || validatedSenses.length === 0) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS PASSED - No senses (optional)',data:{senseCount:0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS PASSED - No senses (optional)', {senseCount:0});
     return {
       passed: true, // No senses is valid (senses are optional)
       errors: [],
@@ -223,9 +208,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
   const errors: IntegrityError[] = [];
   const senseSources = validatedSenses.map((s) => s?.source || 'undefined');
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS CHECK - Validating senses for normalization',data:{senseCount:validatedSenses.length,senseSources},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS CHECK - Validating senses for normalization', {senseCount:validatedSenses.length,senseSources});
   
   validatedSenses.forEach((sense, idx: number) => {
     if (!sense) {
@@ -248,9 +231,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
         present: false,
         expected: 'Normalized source (not "orst" or "ORST")',
       });
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS VIOLATION - Sense missing source',data:{senseIndex:idx},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS VIOLATION - Sense missing source', {senseIndex:idx}, 'warn');
       return;
     }
     
@@ -261,9 +242,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
         present: true,
         expected: 'Normalized source (not "orst" or "ORST")',
       });
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:'COMPLETENESS VIOLATION - Sense not normalized',data:{senseIndex:idx,senseSource:source},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', 'COMPLETENESS VIOLATION - Sense not normalized', {senseIndex:idx,senseSource:source}, 'warn');
     }
   });
 
@@ -272,9 +251,7 @@ export function validateNormalizedSenses(senses: unknown[]): CompletenessValidat
     errors,
   };
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateNormalizedSenses',message:result.passed ? 'COMPLETENESS PASSED - All senses normalized' : 'COMPLETENESS VIOLATION - Some senses not normalized',data:{senseCount:senses.length,passed:result.passed,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateNormalizedSenses', result.passed ? 'COMPLETENESS PASSED - All senses normalized' : 'COMPLETENESS VIOLATION - Some senses not normalized', {senseCount:senses.length,passed:result.passed,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
 
   return result;
 }
@@ -432,14 +409,10 @@ export function validateV3CompleteSenses(senses: unknown[]): CompletenessValidat
  * Returns true if meanings are V2-complete but missing V3 fields
  */
 export function needsV3Enrichment(senses: unknown[]): boolean {
-  // #region agent log - V3 NEEDS ENRICHMENT CHECK START
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT CHECK START',data:{sensesCount:senses?.length || 0,hasSenses:!!(senses && senses.length > 0)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT CHECK START', {sensesCount:senses?.length || 0,hasSenses:!!(senses && senses.length > 0)});
   
   if (!senses || senses.length === 0) {
-    // #region agent log - V3 NEEDS ENRICHMENT NO SENSES
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT NO SENSES',data:{},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT NO SENSES');
     return false;
   }
 
@@ -453,9 +426,7 @@ export function needsV3Enrichment(senses: unknown[]): boolean {
     const v2Validation = completeMeaningThSchemaV2.safeParse(v2Sense);
     if (!v2Validation.success) {
       // Not V2-complete - cannot enrich V3
-      // #region agent log - V3 NEEDS ENRICHMENT NOT V2 COMPLETE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT NOT V2 COMPLETE',data:{senseIndex:idx,v2ValidationErrors:v2Validation.error?.errors?.map((e:any)=>({path:e.path,message:e.message}))},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT NOT V2 COMPLETE', {senseIndex:idx,v2ValidationErrors:v2Validation.error?.errors?.map((e:any)=>({path:e.path,message:e.message}))});
       return false;
     }
 
@@ -463,20 +434,14 @@ export function needsV3Enrichment(senses: unknown[]): boolean {
     const v3Validation = completeMeaningThSchemaV3.safeParse(sense);
     if (!v3Validation.success) {
       // V2-complete but V3 incomplete - needs enrichment
-      // #region agent log - V3 NEEDS ENRICHMENT V2 COMPLETE BUT V3 INCOMPLETE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT V2 COMPLETE BUT V3 INCOMPLETE',data:{senseIndex:idx,v3ValidationErrors:v3Validation.error?.errors?.map((e:any)=>({path:e.path,message:e.message})),senseData:(sense as any)?.label_eng ? 'has_label_eng' : 'no_label_eng'},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT V2 COMPLETE BUT V3 INCOMPLETE', {senseIndex:idx,v3ValidationErrors:v3Validation.error?.errors?.map((e:any)=>({path:e.path,message:e.message})),senseData:(sense as any)?.label_eng ? 'has_label_eng' : 'no_label_eng'});
       needsEnrichment = true;
     } else {
-      // #region agent log - V3 NEEDS ENRICHMENT V3 COMPLETE
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT V3 COMPLETE',data:{senseIndex:idx,hasLabelEng:!!(sense as any)?.label_eng},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT V3 COMPLETE', {senseIndex:idx,hasLabelEng:!!(sense as any)?.label_eng});
     }
   }
 
-  // #region agent log - V3 NEEDS ENRICHMENT CHECK RESULT
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:needsV3Enrichment',message:'V3 NEEDS ENRICHMENT CHECK RESULT',data:{sensesCount:senses.length,needsEnrichment},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:needsV3Enrichment', 'V3 NEEDS ENRICHMENT CHECK RESULT', {sensesCount:senses.length,needsEnrichment});
 
   return needsEnrichment;
 }
@@ -492,9 +457,7 @@ export function needsV3Enrichment(senses: unknown[]): boolean {
  * Returns validation result with errors if token doesn't match complete completeness validation
  */
 export function validateCompleteToken(token: string, word: unknown, senses?: unknown[]): CompletenessValidationResult {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:'COMPLETENESS VALIDATION START - validateCompleteToken',data:{token,hasWord:!!word,hasSenses:!!senses,senseCount:senses?.length || 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateCompleteToken', 'COMPLETENESS VALIDATION START - validateCompleteToken', {token,hasWord:!!word,hasSenses:!!senses,senseCount:senses?.length || 0});
 
   const errors: IntegrityError[] = [];
 
@@ -502,9 +465,7 @@ export function validateCompleteToken(token: string, word: unknown, senses?: unk
   const wordValidation = validateCompleteWord(word);
   if (!wordValidation.passed) {
     errors.push(...wordValidation.errors);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:'COMPLETENESS VIOLATION - Word validation failed',data:{token,wordErrorCount:wordValidation.errors.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('schemas/integrityValidation.ts:validateCompleteToken', 'COMPLETENESS VIOLATION - Word validation failed', {token,wordErrorCount:wordValidation.errors.length}, 'warn');
   }
 
   // Validate senses if they exist (senses is unknown[] - must be validated)
@@ -517,18 +478,14 @@ export function validateCompleteToken(token: string, word: unknown, senses?: unk
       if (!v2SensesValidation.passed) {
         // V2 incomplete - this is an error (V2 must be complete before V3)
         errors.push(...v2SensesValidation.errors);
-        // #region agent log - V2 COMPLETENESS VIOLATION
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:'V2 COMPLETENESS VIOLATION - Senses not V2 complete (V2 required before V3)',data:{token,senseErrorCount:v2SensesValidation.errors.length,errors:v2SensesValidation.errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V2_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('schemas/integrityValidation.ts:validateCompleteToken', 'V2 COMPLETENESS VIOLATION - Senses not V2 complete (V2 required before V3)', {token,senseErrorCount:v2SensesValidation.errors.length,errors:v2SensesValidation.errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
       } else {
         // V2 complete but V3 incomplete - acceptable (V3 is optional)
         // Still check normalization
         const sensesValidation = validateNormalizedSenses(senses);
         if (!sensesValidation.passed) {
           errors.push(...sensesValidation.errors);
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:'COMPLETENESS VIOLATION - Senses validation failed',data:{token,senseErrorCount:sensesValidation.errors.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-          // #endregion
+          recordEvent('schemas/integrityValidation.ts:validateCompleteToken', 'COMPLETENESS VIOLATION - Senses validation failed', {token,senseErrorCount:sensesValidation.errors.length}, 'warn');
         }
       }
     } else {
@@ -536,9 +493,7 @@ export function validateCompleteToken(token: string, word: unknown, senses?: unk
       const sensesValidation = validateNormalizedSenses(senses);
       if (!sensesValidation.passed) {
         errors.push(...sensesValidation.errors);
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:'COMPLETENESS VIOLATION - Senses validation failed',data:{token,senseErrorCount:sensesValidation.errors.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-        // #endregion
+        recordEvent('schemas/integrityValidation.ts:validateCompleteToken', 'COMPLETENESS VIOLATION - Senses validation failed', {token,senseErrorCount:sensesValidation.errors.length}, 'warn');
       }
     }
   }
@@ -563,10 +518,8 @@ export function validateCompleteToken(token: string, word: unknown, senses?: unk
       // V2 validation failed - this is an error (V2 is REQUIRED)
       const tokenErrors = analyzeValidationErrors(v2TokenData, v2TokenValidation, 'token');
       errors.push(...tokenErrors);
-      // #region agent log - V2 COMPLETENESS VIOLATION
       const hasV2Errors = tokenErrors.some(e => e.message.includes('V2') || e.field.includes('pos_th') || e.field.includes('pos_eng') || e.field.includes('definition_eng'));
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:hasV2Errors ? 'V2 COMPLETENESS VIOLATION - Token V2 completeness validation failed (V2 required before V3)' : 'COMPLETENESS VIOLATION - Token completeness validation failed',data:{token,tokenErrorCount:tokenErrors.length,errors:tokenErrors.map(e=>({field:e.field,message:e.message})),hasV2Errors},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:hasV2Errors ? 'V2_ENRICH' : 'COMPLETENESS'})}).catch(()=>{});
-      // #endregion
+      recordEvent('schemas/integrityValidation.ts:validateCompleteToken', hasV2Errors ? 'V2 COMPLETENESS VIOLATION - Token V2 completeness validation failed (V2 required before V3)' : 'COMPLETENESS VIOLATION - Token completeness validation failed', {token,tokenErrorCount:tokenErrors.length,errors:tokenErrors.map(e=>({field:e.field,message:e.message})),hasV2Errors}, 'warn');
     }
     // If V2 validation passed, token is V2-complete (V3 is optional)
   }
@@ -577,9 +530,7 @@ export function validateCompleteToken(token: string, word: unknown, senses?: unk
     errors,
   };
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'schemas/integrityValidation.ts:validateCompleteToken',message:result.passed ? 'COMPLETENESS PASSED - Token matches complete completeness validation' : 'COMPLETENESS VIOLATION - Token does not match complete completeness validation',data:{token,passed:result.passed,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'COMPLETENESS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('schemas/integrityValidation.ts:validateCompleteToken', result.passed ? 'COMPLETENESS PASSED - Token matches complete completeness validation' : 'COMPLETENESS VIOLATION - Token does not match complete completeness validation', {token,passed:result.passed,errorCount:errors.length,errors:errors.map(e=>({field:e.field,message:e.message}))}, 'warn');
 
   return result;
 }
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+
+/**
+ * Pipeline Job Schemas - match ACTUAL database column names (snake_case)
+ * Database table: pipeline_jobs
+ * Created by: scripts/create-pipeline-jobs-table.sql
+ *
+ * A job is a unit of queued work ("process episode X", "process word Y", "enrich word Y to V3") executed by a worker
+ * (src/services/jobs/jobWorker.ts) through the pipeline engine. Workers claim jobs atomically with
+ * the claim_pipeline_job RPC, which leases the job to one worker until lease_expires_at - a job whose
+ * lease expired (crashed worker) is claimed again by the next worker.
+ * - kind: Job handler name (src/services/jobs/jobHandlers.ts) - payload is validated by the handler
+ * - priority: Higher runs first
+ * - attempts: Claims so far (incremented by claim_pipeline_job) - failed jobs are re-queued with
+ *   backoff until attempts reaches max_attempts
+ * - run_after: Earliest time the job may be claimed (retry backoff, scheduled work)
+ * - dedupe_key: At most one queued/running job per key (unique partial index) - enqueueing a
+ *   duplicate returns the existing job
+ * - result: Handler result (e.g. { runId }) once completed
+ */
+
+export const pipelineJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+export type PipelineJobStatus = z.infer<typeof pipelineJobStatusSchema>;
+
+export const pipelineJobSchema = z.object({
+  id: z.string().uuid(),
+  kind: z.string().min(1, 'kind is required'),
+  payload: z.record(z.unknown()),
+  status: pipelineJobStatusSchema,
+  priority: z.number().int(),
+  attempts: z.number().int().nonnegative(),
+  max_attempts: z.number().int().min(1, 'max_attempts must be at least 1'),
+  run_after: z.string().datetime({ offset: true }),
+  lease_owner: z.string().nullable().optional(),
+  lease_expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+  dedupe_key: z.string().min(1).nullable().optional(),
+  last_error: z.string().nullable().optional(),
+  result: z.record(z.unknown()).nullable().optional(),
+  created_at: z.string().datetime({ offset: true }).optional(),
+  updated_at: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+export type PipelineJob = z.infer<typeof pipelineJobSchema>;
+
+/**
+ * Payload of a "process_episode" job - runs processSubtitlesForEpisode
+ * - resume: Resume the latest unfinished run of the episode (default true - a retried or reclaimed job
+ *   continues where the previous attempt stopped)
+ */
+export const processEpisodeJobPayloadSchema = z.object({
+  mediaId: z.string().min(1, 'mediaId is required'),
+  workflowName: z.string().min(1).optional(),
+  resume: z.boolean().optional(),
+}).strict();
+
+export type ProcessEpisodeJobPayload = z.infer<typeof processEpisodeJobPayloadSchema>;
+
+/**
+ * Payload of a "process_word" job - runs the workflow's word steps for one word and saves it
+ */
+export const processWordJobPayloadSchema = z.object({
+  word_th: z.string().trim().min(1, 'word_th is required'),
+  workflowName: z.string().min(1).optional(),
+}).strict();
+
+export type ProcessWordJobPayload = z.infer<typeof processWordJobPayloadSchema>;
+
+/**
+ * Payload of an "enrich_word_v3" job - adds the V3 field (label_eng) to a word's V2-complete meanings
+ * - sentence: Subtitle line the word appears in, passed to GPT as context (optional)
+ */
+export const enrichWordV3JobPayloadSchema = z.object({
+  word_th: z.string().trim().min(1, 'word_th is required'),
+  sentence: z.string().trim().min(1).optional(),
+}).strict();
+
+export type EnrichWordV3JobPayload = z.infer<typeof enrichWordV3JobPayloadSchema>;
+
+/**
+ * Request to enqueue a job
+ * - runAfter: ISO timestamp before which the job is not claimed (default: now)
+ */
+export const pipelineJobRequestSchema = z.object({
+  kind: z.string().min(1, 'kind is required'),
+  payload: z.record(z.unknown()),
+  priority: z.number().int().optional(),
+  maxAttempts: z.number().int().min(1).optional(),
+  runAfter: z.string().datetime({ offset: true }).optional(),
+  dedupeKey: z.string().min(1).optional(),
+}).strict();
+
+export type PipelineJobRequest = z.infer<typeof pipelineJobRequestSchema>;
+
+export const DEFAULT_JOB_MAX_ATTEMPTS = 3;
+
+/**
+ * Build a validated, queued job row from an enqueue request (shared by the app and the extension)
+ */
+export function buildPipelineJob(request: PipelineJobRequest): PipelineJob {
+  const validated = pipelineJobRequestSchema.parse(request);
+  const now = new Date().toISOString();
+  return pipelineJobSchema.parse({
+    id: crypto.randomUUID(),
+    kind: validated.kind,
+    payload: validated.payload,
+    status: 'queued',
+    priority: validated.priority ?? 0,
+    attempts: 0,
+    max_attempts: validated.maxAttempts ?? DEFAULT_JOB_MAX_ATTEMPTS,
+    run_after: validated.runAfter ?? now,
+    dedupe_key: validated.dedupeKey ?? null,
+    created_at: now,
+    updated_at: now,
+  });
+}
+
+/**
+ * Job request that processes an episode - deduplicated per episode and workflow
+ */
+export function processEpisodeJobRequest(payload: ProcessEpisodeJobPayload, options: { priority?: number } = {}): PipelineJobRequest {
+  const validated = processEpisodeJobPayloadSchema.parse(payload);
+  return {
+    kind: 'process_episode',
+    payload: validated,
+    dedupeKey: `process_episode:${validated.mediaId}:${validated.workflowName ?? 'default'}`,
+    ...(options.priority !== undefined ? { priority: options.priority } : {}),
+  };
+}
+
+/**
+ * Job request that processes one word - deduplicated per word and workflow
+ */
+export function processWordJobRequest(payload: ProcessWordJobPayload, options: { priority?: number } = {}): PipelineJobRequest {
+  const validated = processWordJobPayloadSchema.parse(payload);
+  return {
+    kind: 'process_word',
+    payload: validated,
+    dedupeKey: `process_word:${validated.word_th}:${validated.workflowName ?? 'default'}`,
+    ...(options.priority !== undefined ? { priority: options.priority } : {}),
+  };
+}
+
+/**
+ * Job request that enriches one word's meanings to V3 - deduplicated per word
+ */
+export function enrichWordV3JobRequest(payload: EnrichWordV3JobPayload, options: { priority?: number } = {}): PipelineJobRequest {
+  const validated = enrichWordV3JobPayloadSchema.parse(payload);
+  return {
+    kind: 'enrich_word_v3',
+    payload: validated,
+    dedupeKey: `enrich_word_v3:${validated.word_th}`,
+    ...(options.priority !== undefined ? { priority: options.priority } : {}),
+  };
+}
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { pipelineContextSchema } from './processingOrderSchema';
+
+/**
+ * Pipeline Run Schemas - match ACTUAL database column names (snake_case)
+ * Database tables: pipeline_runs, pipeline_run_checkpoints
+ * Created by: scripts/create-pipeline-runs-table.sql
+ *
+ * A run records one pass of a workflow over an episode. Each subject processed by the run
+ * (a subtitle being tokenized, a word going through G2P/ORST/GPT) gets a checkpoint row with
+ * the status of every step that settled and the last validated context snapshot, so an
+ * interrupted run can resume exactly where it stopped.
+ */
+
+export const pipelineRunStatusSchema = z.enum(['running', 'completed', 'failed', 'cancelled']);
+
+export type PipelineRunStatus = z.infer<typeof pipelineRunStatusSchema>;
+
+export const pipelineRunSchema = z.object({
+  id: z.string().uuid(),
+  media_id: z.string().min(1, 'media_id is required'),
+  workflow_name: z.string().min(1, 'workflow_name is required'),
+  status: pipelineRunStatusSchema,
+  error: z.string().nullable().optional(),
+  created_at: z.string().datetime({ offset: true }).optional(),
+  updated_at: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+export type PipelineRun = z.infer<typeof pipelineRunSchema>;
+
+/**
+ * How a step settled - "skipped" means its runIf condition was false (the step never ran)
+ */
+export const stepStatusSchema = z.enum(['succeeded', 'failed', 'skipped']);
+
+export type StepStatus = z.infer<typeof stepStatusSchema>;
+
+/**
+ * Settled step status as stored in pipeline_run_checkpoints.step_results
+ * Mirrors StepResult (processingPipeline.ts) without the raw output - errors are stored as messages
+ * - status: Absent in checkpoints written before steps could be skipped (success tells succeeded/failed)
+ */
+export const stepCheckpointSchema = z.object({
+  stepName: z.string().min(1),
+  success: z.boolean(),
+  status: stepStatusSchema.optional(),
+  attempts: z.number().int().positive().optional(),
+  error: z.string().optional(),
+  skipReason: z.string().optional(),
+  settled_at: z.string().datetime({ offset: true }),
+}).strict();
+
+export type StepCheckpoint = z.infer<typeof stepCheckpointSchema>;
+
+export const pipelineCheckpointStatusSchema = z.enum(['in_progress', 'completed', 'failed']);
+
+export type PipelineCheckpointStatus = z.infer<typeof pipelineCheckpointStatusSchema>;
+
+export const pipelineCheckpointSchema = z.object({
+  run_id: z.string().uuid(),
+  subject_key: z.string().min(1, 'subject_key is required'),
+  status: pipelineCheckpointStatusSchema,
+  step_results: z.array(stepCheckpointSchema),
+  context: pipelineContextSchema.nullable().optional(), // bigintCoerce restores serialized meaning ids
+  updated_at: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+export type PipelineCheckpoint = z.infer<typeof pipelineCheckpointSchema>;
@@ -12,14 +12,18 @@ import { bigintCoerce } from './zodHelpers';
 import { wordThSchema } from './wordThSchema';
 import { meaningThSchema } from './meaningThSchema';
 import { subtitleThSchema } from './subtitleThSchema';
+import { retryPolicySchema } from './retryPolicySchema';
+import { stepConditionSchema, getStepConditionFields } from './stepConditionSchema';
 
 /**
  * Processing step definition
  * Each step defines:
  * - name: Unique identifier for the step
- * - functionName: Name of the function to call (must exist in workflowFunctions)
+ * - functionName: Name of the registered step function to call (must exist in the step registry)
  * - dependsOn: Array of step names that must complete before this step runs
  * - description: Human-readable description
+ * - retryPolicy: How transient failures are retried before the step counts as failed (default: no retry)
+ * - runIf: Condition over the step's input context - when false the step is skipped (StepResult status "skipped")
  * - inputSchema: Zod schema that input context must match (enforces step transition compatibility)
  * - outputSchema: Zod schema that output context must match (enforces step output shape)
  */
@@ -29,6 +33,8 @@ export const processingStepSchema = z.object({
   dependsOn: z.array(z.string()).default([]),
   description: z.string().optional(),
   acceptableFailure: z.boolean().optional().default(false), // Only ORST can fail (word not in dictionary)
+  retryPolicy: retryPolicySchema.optional(),
+  runIf: stepConditionSchema.optional(),
   // Input/output schema definitions - enforce step transition compatibility
   inputSchema: z.custom<z.ZodSchema>((val) => val instanceof z.ZodSchema, {
     message: 'inputSchema must be a Zod schema',
@@ -106,6 +112,16 @@ export const processingOrderSchema = z.object({
     message: 'Circular dependencies detected in processing order steps',
     path: ['steps'],
   }
+).refine(
+  (data) => {
+    // Validate that runIf conditions only read PipelineContext fields
+    const contextFields = new Set(Object.keys(pipelineContextSchema.shape));
+    return data.steps.every(step => !step.runIf || getStepConditionFields(step.runIf).every(field => contextFields.has(field)));
+  },
+  {
+    message: 'runIf conditions must reference PipelineContext fields',
+    path: ['steps'],
+  }
 );
 
 export type ProcessingOrder = z.infer<typeof processingOrderSchema>;
@@ -181,114 +197,65 @@ export function makeProcessedContext(data: unknown): ProcessedContext {
 }
 
 /**
- * Default processing order definition for episode processing
- * This is the central source of truth for processing order
- */
-export const defaultProcessingOrder: ProcessingOrder = {
-  name: 'episode_processing',
-  steps: [
-    {
-      name: 'tokenize',
-      functionName: 'buildThaiTokensFromText',
-      dependsOn: [],
-      description: 'Tokenize Thai subtitle text into word tokens',
-      inputSchema: z.object({ thaiText: z.string() }).strict(),
-      outputSchema: z.object({ 
-        tokens_th: z.object({ 
-          tokens: z.array(z.object({ 
-            t: z.string(), 
-            meaning_id: bigintCoerce.optional() 
-          })) 
-        }) 
-      }).strict(),
-    },
-    {
-      name: 'g2p',
-      functionName: 'getG2P',
-      dependsOn: [],
-      description: 'Convert Thai text to G2P phonetic representation',
-      inputSchema: z.object({ word_th: z.string() }).strict(),
-      outputSchema: z.object({ word_th: z.string(), g2p: z.string() }).strict(),
-    },
-    {
-      name: 'phonetic',
-      functionName: 'parsePhoneticToEnglish',
-      dependsOn: ['g2p'], // Must have G2P before phonetic
-      description: 'Parse G2P phonetic to readable English spelling',
-      inputSchema: z.object({ word_th: z.string(), g2p: z.string() }).strict(),
-      outputSchema: z.object({ word_th: z.string(), g2p: z.string(), phonetic_en: z.string() }).strict(),
-    },
-    {
-      name: 'orst',
-      functionName: 'fetchOrstMeanings',
-      dependsOn: [],
-      description: 'Fetch word meanings from ORST dictionary',
-      // ⚠️ LOW TOLERANCE: ORST is the ONLY acceptable failure point (word may not be in dictionary)
-      // All other steps (tokenize, g2p, phonetic) must succeed
-      acceptableFailure: true,
-      inputSchema: z.object({ word_th: z.string() }).strict(),
-      outputSchema: z.object({ 
-        word_th: z.string(), 
-        orstSenses: z.array(meaningThSchema).optional() 
-      }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en)
-    },
-    {
-      name: 'gpt-meaning',
-      functionName: 'createMeaningsWithGPT',
-      dependsOn: ['orst'], // Runs after ORST
-      description: 'Generate meanings using GPT when ORST returns empty',
-      acceptableFailure: true, // Similar to ORST (word may not be processable)
-      inputSchema: z.object({ 
-        word_th: z.string(), 
-        orstSenses: z.array(meaningThSchema).optional(),
-        fullThaiText: z.string().optional(),
-        allTokens: z.array(z.string()).optional(),
-        wordPosition: z.number().optional(),
-        g2p: z.string().optional(),
-        phonetic_en: z.string().optional(),
-      }).strict(),
-      outputSchema: z.object({ 
-        word_th: z.string(), 
-        gptMeanings: z.array(meaningThSchema).optional() 
-      }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en, orstSenses)
-    },
-    {
-      name: 'gpt_normalize',
-      functionName: 'normalizeSensesWithGPT',
-      dependsOn: ['orst', 'gpt-meaning'], // Can normalize either ORST senses OR GPT-meaning senses
-      description: 'Normalize and enhance senses with GPT (works with ORST or GPT-meaning output)',
-      inputSchema: z.object({ 
-        word_th: z.string(), 
-        orstSenses: z.array(meaningThSchema).optional(),
-        gptMeanings: z.array(meaningThSchema).optional(),
-      }).strict(),
-      outputSchema: z.object({ 
-        word_th: z.string(), 
-        normalizedSenses: z.array(meaningThSchema).optional() 
-      }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en, orstSenses)
-    },
-  ],
-};
-
-/**
- * Validate and return the default processing order
- * Throws if processing order is invalid (e.g., circular dependencies)
+ * Step I/O schemas - declared once per step function
+ * Keyed by functionName - built-in step definitions (src/services/pipeline/builtinSteps.ts) declare
+ * these contracts, and workflows loaded from JSON (src/workflows) take them from the step registry
  */
-export function getValidatedProcessingOrder(): ProcessingOrder {
-  console.log('[Processing Order Schema] Validating processing order with Zod schema...');
-  
-  try {
-    const validated = processingOrderSchema.parse(defaultProcessingOrder);
-    console.log('[Processing Order Schema] ✓ Processing order schema validation passed');
-    return validated;
-  } catch (error) {
-    console.error('[Processing Order Schema] ✗ Processing order schema validation failed:', error);
-    throw error;
-  }
-}
+export const stepIOSchemas = {
+  buildThaiTokensFromText: {
+    inputSchema: z.object({ thaiText: z.string() }).strict(),
+    outputSchema: z.object({ 
+      tokens_th: z.object({ 
+        tokens: z.array(z.object({ 
+          t: z.string(), 
+          meaning_id: bigintCoerce.optional() 
+        })) 
+      }) 
+    }).strict(),
+  },
+  getG2P: {
+    inputSchema: z.object({ word_th: z.string() }).strict(),
+    outputSchema: z.object({ word_th: z.string(), g2p: z.string() }).strict(),
+  },
+  parsePhoneticToEnglish: {
+    inputSchema: z.object({ word_th: z.string(), g2p: z.string() }).strict(),
+    outputSchema: z.object({ word_th: z.string(), g2p: z.string(), phonetic_en: z.string() }).strict(),
+  },
+  fetchOrstMeanings: {
+    inputSchema: z.object({ word_th: z.string() }).strict(),
+    outputSchema: z.object({ 
+      word_th: z.string(), 
+      orstSenses: z.array(meaningThSchema).optional() 
+    }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en)
+  },
+  createMeaningsWithGPT: {
+    inputSchema: z.object({ 
+      word_th: z.string(), 
+      orstSenses: z.array(meaningThSchema).optional(),
+      fullThaiText: z.string().optional(),
+      allTokens: z.array(z.string()).optional(),
+      wordPosition: z.number().optional(),
+      g2p: z.string().optional(),
+      phonetic_en: z.string().optional(),
+    }).strict(),
+    outputSchema: z.object({ 
+      word_th: z.string(), 
+      gptMeanings: z.array(meaningThSchema).optional() 
+    }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en, orstSenses)
+  },
+  normalizeSensesWithGPT: {
+    inputSchema: z.object({ 
+      word_th: z.string(), 
+      orstSenses: z.array(meaningThSchema).optional(),
+      gptMeanings: z.array(meaningThSchema).optional(),
+    }).strict(),
+    outputSchema: z.object({ 
+      word_th: z.string(), 
+      normalizedSenses: z.array(meaningThSchema).optional() 
+    }).passthrough(), // Allow additional fields from previous steps (e.g., g2p, phonetic_en, orstSenses)
+  },
+} satisfies Record<string, { inputSchema: z.ZodSchema; outputSchema: z.ZodSchema }>;
 
 // Legacy exports for backward compatibility during migration
 export const workflowSchema = processingOrderSchema;
 export type Workflow = ProcessingOrder;
-export const defaultWorkflow = defaultProcessingOrder;
-export const getValidatedWorkflow = getValidatedProcessingOrder;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/**
+ * Rate Limit Schemas - client-side limits for external services (src/services/rateLimit/rateLimiter.ts)
+ *
+ * Every call to AI4Thai (tokenizer, G2P), ORST and OpenAI waits for a slot from its service's limiter,
+ * so processing many words in parallel stays under provider rate limits instead of tripping 429s
+ * - requestsPerSecond: Token bucket refill rate
+ * - burst: Bucket capacity - requests that may start back-to-back after an idle period (default: ceil(requestsPerSecond))
+ * - maxConcurrent: Requests in flight at the same time
+ */
+
+export const rateLimitConfigSchema = z.object({
+  requestsPerSecond: z.number().positive('requestsPerSecond must be positive'),
+  burst: z.number().int().min(1, 'burst must be at least 1').optional(),
+  maxConcurrent: z.number().int().min(1, 'maxConcurrent must be at least 1'),
+}).strict();
+
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+/**
+ * Per-service overrides for configureRateLimits (services not listed keep their current limits)
+ */
+export const rateLimitsSchema = z.object({
+  'ai4thai-tokenizer': rateLimitConfigSchema,
+  'ai4thai-g2p': rateLimitConfigSchema,
+  orst: rateLimitConfigSchema,
+  openai: rateLimitConfigSchema,
+}).partial().strict();
+
+export type RateLimits = z.infer<typeof rateLimitsSchema>;
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/**
+ * Retry Policy Schema
+ * Declares how the pipeline engine retries a failing step
+ *
+ * Errors thrown by external services are classified (see src/services/serviceErrors.ts):
+ * - network: Connection failure, timeout or 5xx response - usually transient
+ * - rate_limit: 429 / quota response - transient, may carry a Retry-After hint
+ * - validation: Request or response was rejected/invalid (4xx, missing API key, unparseable body) - retrying won't help
+ * - not_found: The resource does not exist (404, word not in dictionary) - retrying won't help
+ * Errors that were not classified are never retried
+ */
+
+export const serviceErrorClassSchema = z.enum(['network', 'rate_limit', 'validation', 'not_found']);
+
+export type ServiceErrorClass = z.infer<typeof serviceErrorClassSchema>;
+
+/**
+ * Retry policy for a processing step
+ * - maxAttempts: Total attempts including the first one (1 = no retry)
+ * - initialDelayMs: Delay before the first retry
+ * - backoffMultiplier: Delay grows by this factor on every further retry (exponential backoff)
+ * - maxDelayMs: Upper bound for a single delay (also caps Retry-After hints)
+ * - jitter: Random spread as a ratio of the delay (0.2 = ±20%) so concurrent words don't retry in lockstep
+ * - retryableErrors: Error classes that are retried - everything else is fatal for the step
+ */
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1, 'maxAttempts must be at least 1'),
+  initialDelayMs: z.number().int().nonnegative(),
+  backoffMultiplier: z.number().min(1, 'backoffMultiplier must be at least 1'),
+  maxDelayMs: z.number().int().nonnegative(),
+  jitter: z.number().min(0).max(1),
+  retryableErrors: z.array(serviceErrorClassSchema),
+}).strict().refine(
+  (policy) => policy.maxDelayMs >= policy.initialDelayMs,
+  { message: 'maxDelayMs must be greater than or equal to initialDelayMs', path: ['maxDelayMs'] }
+);
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+/**
+ * Policy used for steps that don't declare one - a single attempt, no retries
+ */
+export const NO_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 0,
+  backoffMultiplier: 1,
+  maxDelayMs: 0,
+  jitter: 0,
+  retryableErrors: [],
+};
+
+/**
+ * Retry policy for AI4Thai and ORST calls - rate limits are common under Process All load
+ * (GPT meaning/normalize steps fall back to empty/original senses on API errors, so they don't retry)
+ */
+export const EXTERNAL_API_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 500,
+  backoffMultiplier: 2,
+  maxDelayMs: 8000,
+  jitter: 0.2,
+  retryableErrors: ['network', 'rate_limit'],
+};
+
+/**
+ * Named policies that JSON workflow definitions can reference instead of spelling out a policy
+ */
+export const RETRY_POLICY_PRESETS = {
+  none: NO_RETRY_POLICY,
+  external_api: EXTERNAL_API_RETRY_POLICY,
+} satisfies Record<string, RetryPolicy>;
+
+export const retryPolicyPresetSchema = z.enum(['none', 'external_api']);
+
+export type RetryPolicyPreset = z.infer<typeof retryPolicyPresetSchema>;
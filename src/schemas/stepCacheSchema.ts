@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { pipelineContextSchema } from './processingOrderSchema';
+
+/**
+ * Step Cache Schema - matches ACTUAL database column names (snake_case)
+ * Database table: step_cache
+ * Created by: scripts/create-step-cache-table.sql
+ *
+ * Same shape is used by every cache backend (memory, IndexedDB, Supabase) so entries can move between tiers
+ */
+
+export const stepCacheEntrySchema = z.object({
+  cache_key: z.string().min(1, 'cache_key is required'),
+  function_name: z.string().min(1, 'function_name is required'),
+  step_version: z.number().int().positive(),
+  input_hash: z.string().regex(/^[0-9a-f]{64}$/, 'input_hash must be a SHA-256 hex digest'),
+  output: z.unknown(), // JSON-safe raw step output - must be validated before use (like StepResult.output)
+  patch: pipelineContextSchema.partial().strict(), // bigintCoerce restores serialized meaning ids
+  created_at: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+export type StepCacheEntry = z.infer<typeof stepCacheEntrySchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * Step Condition Schema - declarative runIf predicates over PipelineContext
+ * Used by processingStepSchema.runIf and workflow definitions (src/workflows/*.json)
+ *
+ * A condition is JSON so workflow authors can express fallbacks without code, e.g.
+ * "GPT meanings only when ORST found nothing": { "field": "orstSenses", "is": "empty" }
+ *
+ * - { field, is }: empty (undefined, null, blank string or []), notEmpty, present (not undefined/null), absent
+ * - { field, equals }: Strict equality with a JSON primitive
+ * - { all } / { any } / { not }: Combinators
+ * Fields must be PipelineContext keys (checked by processingOrderSchema). The step sees only its
+ * dependencies' patches, so a condition should read fields produced by steps it depends on
+ */
+
+export const stepConditionCheckSchema = z.enum(['empty', 'notEmpty', 'present', 'absent']);
+
+export type StepConditionCheck = z.infer<typeof stepConditionCheckSchema>;
+
+export type StepCondition =
+  | { field: string; is: StepConditionCheck }
+  | { field: string; equals: string | number | boolean | null }
+  | { all: StepCondition[] }
+  | { any: StepCondition[] }
+  | { not: StepCondition };
+
+export const stepConditionSchema: z.ZodType<StepCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.string().min(1, 'Condition field is required'),
+    is: stepConditionCheckSchema,
+  }).strict(),
+  z.object({
+    field: z.string().min(1, 'Condition field is required'),
+    equals: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+  }).strict(),
+  z.object({ all: z.array(stepConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(stepConditionSchema).min(1) }).strict(),
+  z.object({ not: stepConditionSchema }).strict(),
+]));
+
+/**
+ * Every context field a condition reads
+ */
+export function getStepConditionFields(condition: StepCondition): string[] {
+  if ('all' in condition) {
+    return condition.all.flatMap(getStepConditionFields);
+  }
+  if ('any' in condition) {
+    return condition.any.flatMap(getStepConditionFields);
+  }
+  if ('not' in condition) {
+    return getStepConditionFields(condition.not);
+  }
+  return [condition.field];
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { numberCoerce } from './zodHelpers';
+
+/**
+ * Subtitle English Schema - matches ACTUAL database column names (snake_case)
+ * Database table: subtitles_en (created by scripts/create-subtitles-en-table.sql)
+ * Columns: id (text), media_id (text), english (text), start_sec_eng (numeric), end_sec_eng (numeric)
+ *
+ * The official English track of an episode, stored as extracted - English cues are not split or merged to
+ * match the Thai cues; src/services/alignment/subtitleAlignment.ts pairs them by time
+ * id is `${mediaId}_${index}` like subtitles_th ids, media_id is stored so a track is fetched with one filter
+ */
+export const subtitleEnSchema = z.object({
+  id: z.string()
+    .min(1, 'Subtitle id is required')
+    .refine(val => val.trim().length > 0, 'Subtitle id cannot be only whitespace'),
+  media_id: z.string()
+    .min(1, 'media_id is required')
+    .refine(val => val.trim().length > 0, 'media_id cannot be only whitespace'),
+  english: z.string()
+    .min(1, 'english is required')
+    .refine(val => val.trim().length > 0, 'english cannot be empty or only whitespace'),
+  start_sec_eng: numberCoerce
+    .refine(val => val >= 0, 'start_sec_eng cannot be negative')
+    .refine(val => val < 86400, 'start_sec_eng seems unreasonably large (over 24 hours)'),
+  end_sec_eng: numberCoerce
+    .refine(val => val >= 0, 'end_sec_eng cannot be negative')
+    .refine(val => val < 86400, 'end_sec_eng seems unreasonably large (over 24 hours)'),
+}).strict() // Reject unknown fields - must be called BEFORE .refine()
+.refine(
+  (data) => {
+    return data.end_sec_eng > data.start_sec_eng;
+  },
+  {
+    message: 'end_sec_eng must be greater than start_sec_eng',
+    path: ['end_sec_eng'],
+  }
+);
+
+export type SubtitleEn = z.infer<typeof subtitleEnSchema>;
+
+/**
+ * Subtitle track languages that can be imported (th → subtitles_th, en → subtitles_en)
+ */
+export const subtitleLanguageSchema = z.enum(['th', 'en']);
+
+export type SubtitleLanguage = z.infer<typeof subtitleLanguageSchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+/**
+ * Subtitle Resync Schemas
+ * Timing operations on an episode's subtitles_th rows (src/services/alignment/subtitleResync.ts)
+ *
+ * - shift: Add offset_sec to every start and end (negative moves subtitles earlier)
+ * - stretch: Linear map through two anchors - a subtitle at anchors[i].from_sec moves to anchors[i].to_sec and
+ *   every other time is interpolated (fixes drift from a frame rate mismatch, plus any offset)
+ * - reference: Fit the subtitles to a reference track's cue times (the English track, or a subtitle file of the
+ *   same video) - offset and drift are estimated from cues that start close together, then starts / ends within
+ *   snap_tolerance_sec of a reference boundary are snapped to it (never into a neighbouring subtitle)
+ */
+
+export const timingAnchorSchema = z.object({
+  from_sec: z.number().finite().nonnegative(),
+  to_sec: z.number().finite().nonnegative(),
+}).strict();
+
+export type TimingAnchor = z.infer<typeof timingAnchorSchema>;
+
+export const referenceCueSchema = z.object({
+  start_sec: z.number().finite().nonnegative(),
+  end_sec: z.number().finite().nonnegative(),
+}).strict().refine(cue => cue.end_sec > cue.start_sec, {
+  message: 'end_sec must be greater than start_sec',
+  path: ['end_sec'],
+});
+
+export type ReferenceCue = z.infer<typeof referenceCueSchema>;
+
+export const subtitleResyncOperationSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('shift'),
+    offset_sec: z.number().finite(),
+  }).strict(),
+  z.object({
+    kind: z.literal('stretch'),
+    anchors: z.tuple([timingAnchorSchema, timingAnchorSchema]),
+  }).strict(),
+  z.object({
+    kind: z.literal('reference'),
+    cues: z.array(referenceCueSchema).min(1, 'reference track has no cues'),
+    // Largest offset searched between the tracks
+    max_offset_sec: z.number().positive().default(10),
+    // Starts closer than this (after the offset) are matched for the drift fit
+    match_window_sec: z.number().positive().default(1),
+    snap_tolerance_sec: z.number().nonnegative().default(0.3),
+  }).strict(),
+]).superRefine((operation, ctx) => {
+  if (operation.kind !== 'stretch') {
+    return;
+  }
+  const [first, second] = operation.anchors;
+  if (first.from_sec === second.from_sec) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'stretch anchors must have different from_sec', path: ['anchors'] });
+  } else if ((second.to_sec - first.to_sec) / (second.from_sec - first.from_sec) <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'stretch anchors must keep the subtitle order (to_sec must increase with from_sec)', path: ['anchors'] });
+  }
+});
+
+export type SubtitleResyncOperation = z.infer<typeof subtitleResyncOperationSchema>;
+export type SubtitleResyncOperationInput = z.input<typeof subtitleResyncOperationSchema>;
@@ -3,7 +3,7 @@ import { numberCoerce } from './zodHelpers';
 
 /**
  * @deprecated This schema includes English fields that are no longer used.
- * Use subtitleThSchema instead for Thai-only subtitles.
+ * Use subtitleThSchema instead for Thai-only subtitles, and subtitleEnSchema (subtitles_en) for the English track.
  * 
  * Subtitle Schema - matches ACTUAL database column names (snake_case)
  * Database table: subtitles (deprecated - use subtitles_th)
@@ -39,3 +39,20 @@ export const subtitleThSchema = z.object({
 );
 
 export type SubtitleTh = z.infer<typeof subtitleThSchema>;
+
+/**
+ * Subtitle file formats that can be parsed into SubtitleTh[] (src/services/vtt/subtitleFormat.ts)
+ */
+export const subtitleFormatSchema = z.enum(['vtt', 'srt', 'ttml']);
+
+export type SubtitleFormat = z.infer<typeof subtitleFormatSchema>;
+
+/**
+ * Lines of an annotated subtitle export cue (src/services/vtt/annotatedVTTExport.ts)
+ * - thai: The subtitle line as stored
+ * - phonetic: words_th.phonetic_en of each token
+ * - gloss: meanings_th.label_eng of each token's sense
+ */
+export const subtitleAnnotationLayerSchema = z.enum(['thai', 'phonetic', 'gloss']);
+
+export type SubtitleAnnotationLayer = z.infer<typeof subtitleAnnotationLayerSchema>;
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/**
+ * WebVTT Cue Schema
+ * A cue as parsed from a WebVTT file (src/services/vtt/vttParser.ts) - the file-level view that keeps what
+ * subtitles_th has no columns for (identifier, cue settings, voices)
+ *
+ * - identifier: Optional cue identifier line (any text without "-->", e.g. "1" or "intro")
+ * - settings: Cue settings from the timing line (only the ones present)
+ * - voices: Speaker names of <v> spans in order of first appearance
+ * - text: Cue text with markup removed and character references decoded
+ */
+
+/**
+ * Cue settings - values are kept as written ("50%", "-1", "start", "line-left") because their meaning
+ * depends on the setting (percentages, line numbers, keywords)
+ */
+export const vttCueSettingsSchema = z.object({
+  vertical: z.enum(['rl', 'lr']).optional(),
+  line: z.string().min(1).optional(),
+  position: z.string().min(1).optional(),
+  size: z.string().min(1).optional(),
+  // "middle" is the pre-standard spelling of "center" - Netflix files still use it
+  align: z.enum(['start', 'center', 'middle', 'end', 'left', 'right']).optional(),
+  region: z.string().min(1).optional(),
+}).strict();
+
+export type VTTCueSettings = z.infer<typeof vttCueSettingsSchema>;
+
+export const vttCueSchema = z.object({
+  identifier: z.string().min(1).optional(),
+  start_sec: z.number().nonnegative(),
+  end_sec: z.number().nonnegative(),
+  text: z.string(),
+  settings: vttCueSettingsSchema.optional(),
+  voices: z.array(z.string().min(1)).optional(),
+}).strict()
+.refine(
+  (data) => data.end_sec > data.start_sec,
+  {
+    message: 'end_sec must be greater than start_sec',
+    path: ['end_sec'],
+  }
+);
+
+export type VTTCue = z.infer<typeof vttCueSchema>;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { retryPolicySchema, retryPolicyPresetSchema } from './retryPolicySchema';
+import { stepConditionSchema } from './stepConditionSchema';
+
+/**
+ * Workflow Definition Schema - JSON documents describing a processing order (src/workflows/*.json)
+ *
+ * A definition references registered step functions by name - it cannot carry Zod schemas, so each
+ * step's inputSchema/outputSchema come from its step registry definition when the workflow is loaded
+ * (src/services/pipeline/workflows.ts). The resolved workflow is then validated with processingOrderSchema,
+ * which rejects missing dependencies and cycles
+ */
+
+/**
+ * Step entry in a workflow definition
+ * - retryPolicy: Preset name (RETRY_POLICY_PRESETS) or a full policy object
+ * - runIf: Condition over PipelineContext (stepConditionSchema) - the step is skipped when it is false
+ */
+export const workflowStepDefinitionSchema = z.object({
+  name: z.string().min(1, 'Step name is required'),
+  functionName: z.string().min(1, 'Function name is required'),
+  dependsOn: z.array(z.string()).default([]),
+  description: z.string().optional(),
+  acceptableFailure: z.boolean().optional(),
+  retryPolicy: z.union([retryPolicyPresetSchema, retryPolicySchema]).optional(),
+  runIf: stepConditionSchema.optional(),
+}).strict();
+
+export type WorkflowStepDefinition = z.infer<typeof workflowStepDefinitionSchema>;
+
+export const workflowDefinitionSchema = z.object({
+  name: z.string().min(1, 'Workflow name is required'),
+  description: z.string().optional(),
+  steps: z.array(workflowStepDefinitionSchema).min(1, 'At least one step is required'),
+}).strict().refine(
+  (data) => new Set(data.steps.map(s => s.name)).size === data.steps.length,
+  { message: 'Step names must be unique within a workflow', path: ['steps'] }
+);
+
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
@@ -0,0 +1,155 @@
+/**
+ * Subtitle Alignment
+ * Pair the official English cues (subtitles_en) with the Thai cues (subtitles_th) of an episode by time overlap
+ *
+ * The tracks are cut independently, so cues don't correspond one to one:
+ * - 1:n - one long Thai line is translated by several short English cues
+ * - n:1 - several Thai lines share one English cue
+ * - n:m - chains of partial overlaps
+ * A Thai and an English cue are linked when they overlap by at least minOverlapRatio of the shorter cue
+ * (touching or barely overlapping neighbours are not linked); linked cues form one alignment group
+ *
+ * Pure functions - alignEpisodeSubtitles loads both tracks from Supabase
+ */
+
+import { fetchSubtitles } from '../../supabase/index';
+import { fetchEnglishSubtitles } from '../../supabase/subtitlesEn';
+import { subtitleThSchema } from '../../schemas/subtitleThSchema';
+import type { SubtitleEn } from '../../schemas/subtitleEnSchema';
+
+// Overlap needed to link two cues, as a fraction of the shorter cue's duration
+export const DEFAULT_MIN_OVERLAP_RATIO = 0.3;
+
+/**
+ * Shape of an alignment group
+ * - thai-only / english-only: a cue that overlaps nothing on the other track
+ */
+export type SubtitleAlignmentKind = '1:1' | '1:n' | 'n:1' | 'n:m' | 'thai-only' | 'english-only';
+
+/**
+ * Thai cue fields used for alignment (subtitleThSchema)
+ */
+export interface AlignableThaiSubtitle {
+  id: string;
+  start_sec_th: number;
+  end_sec_th: number;
+}
+
+/**
+ * Linked Thai and English cues
+ * - thaiIds / englishIds: subtitles_th / subtitles_en ids in start time order
+ * - english: Text of the English cues joined with spaces (empty for thai-only)
+ * - start_sec / end_sec: Span of all cues of the group
+ */
+export interface SubtitleAlignmentGroup {
+  kind: SubtitleAlignmentKind;
+  thaiIds: string[];
+  englishIds: string[];
+  english: string;
+  start_sec: number;
+  end_sec: number;
+}
+
+export interface SubtitleAlignmentOptions {
+  minOverlapRatio?: number;
+}
+
+function alignmentKind(thaiCount: number, englishCount: number): SubtitleAlignmentKind {
+  if (englishCount === 0) return 'thai-only';
+  if (thaiCount === 0) return 'english-only';
+  if (thaiCount === 1) return englishCount === 1 ? '1:1' : '1:n';
+  return englishCount === 1 ? 'n:1' : 'n:m';
+}
+
+/**
+ * Align the English track to the Thai track
+ * @returns {SubtitleAlignmentGroup[]} Groups in start time order - every Thai and every English cue is in exactly one group
+ * @throws {Error} If minOverlapRatio is not in (0, 1]
+ */
+export function alignSubtitles(
+  thai: AlignableThaiSubtitle[],
+  english: SubtitleEn[],
+  options: SubtitleAlignmentOptions = {}
+): SubtitleAlignmentGroup[] {
+  const minOverlapRatio = options.minOverlapRatio ?? DEFAULT_MIN_OVERLAP_RATIO;
+  if (!(minOverlapRatio > 0 && minOverlapRatio <= 1)) {
+    throw new Error(`minOverlapRatio must be in (0, 1], got ${minOverlapRatio}`);
+  }
+
+  const thaiCues = [...thai].sort((a, b) => a.start_sec_th - b.start_sec_th);
+  const englishCues = [...english].sort((a, b) => a.start_sec_eng - b.start_sec_eng);
+
+  // Union-find over Thai cues (0..n-1) and English cues (n..n+m-1)
+  const parent = Array.from({ length: thaiCues.length + englishCues.length }, (_, index) => index);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node] as number] as number;
+      node = parent[node] as number;
+    }
+    return node;
+  };
+
+  thaiCues.forEach((thaiCue, i) => {
+    for (let j = 0; j < englishCues.length; j++) {
+      const englishCue = englishCues[j] as SubtitleEn;
+      if (englishCue.start_sec_eng >= thaiCue.end_sec_th) break;
+      const overlap = Math.min(thaiCue.end_sec_th, englishCue.end_sec_eng) - Math.max(thaiCue.start_sec_th, englishCue.start_sec_eng);
+      if (overlap <= 0) continue;
+
+      const shorter = Math.min(thaiCue.end_sec_th - thaiCue.start_sec_th, englishCue.end_sec_eng - englishCue.start_sec_eng);
+      if (overlap >= shorter * minOverlapRatio) {
+        parent[find(i)] = find(thaiCues.length + j);
+      }
+    }
+  });
+
+  const components = new Map<number, { thai: AlignableThaiSubtitle[]; english: SubtitleEn[] }>();
+  const component = (node: number) => {
+    const root = find(node);
+    let entry = components.get(root);
+    if (!entry) {
+      entry = { thai: [], english: [] };
+      components.set(root, entry);
+    }
+    return entry;
+  };
+  thaiCues.forEach((thaiCue, i) => component(i).thai.push(thaiCue));
+  englishCues.forEach((englishCue, j) => component(thaiCues.length + j).english.push(englishCue));
+
+  return Array.from(components.values())
+    .map(({ thai: thaiGroup, english: englishGroup }): SubtitleAlignmentGroup => ({
+      kind: alignmentKind(thaiGroup.length, englishGroup.length),
+      thaiIds: thaiGroup.map(cue => cue.id),
+      englishIds: englishGroup.map(cue => cue.id),
+      english: englishGroup.map(cue => cue.english.replace(/\s+/g, ' ').trim()).join(' '),
+      start_sec: Math.min(...thaiGroup.map(cue => cue.start_sec_th), ...englishGroup.map(cue => cue.start_sec_eng)),
+      end_sec: Math.max(...thaiGroup.map(cue => cue.end_sec_th), ...englishGroup.map(cue => cue.end_sec_eng)),
+    }))
+    .sort((a, b) => a.start_sec - b.start_sec);
+}
+
+/**
+ * Alignment group of each Thai cue - the English translation shown next to a Thai line is its group's english
+ * (for n:1 and n:m groups the same text is shown next to every Thai line of the group)
+ */
+export function alignmentByThaiId(groups: SubtitleAlignmentGroup[]): Map<string, SubtitleAlignmentGroup> {
+  const byThaiId = new Map<string, SubtitleAlignmentGroup>();
+  for (const group of groups) {
+    for (const thaiId of group.thaiIds) {
+      byThaiId.set(thaiId, group);
+    }
+  }
+  return byThaiId;
+}
+
+/**
+ * Load both tracks of an episode and align them
+ * @returns {SubtitleAlignmentGroup[]} Groups in start time order - all thai-only when the episode has no English track
+ */
+export async function alignEpisodeSubtitles(mediaId: string, options: SubtitleAlignmentOptions = {}): Promise<SubtitleAlignmentGroup[]> {
+  const [thai, english] = await Promise.all([
+    fetchSubtitles(mediaId).then(rows => rows.map(row => subtitleThSchema.parse(row))),
+    fetchEnglishSubtitles(mediaId),
+  ]);
+  return alignSubtitles(thai, english, options);
+}
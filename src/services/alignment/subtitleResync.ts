@@ -0,0 +1,319 @@
+/**
+ * Subtitle Resync
+ * Fix the timing of an episode's subtitles_th rows when they are offset or drift relative to the video
+ *
+ * Operations (subtitleResyncOperationSchema):
+ * - shift: constant offset
+ * - stretch: linear map through two anchor points
+ * - reference: fit to a reference track's cue times - offset and drift voted from nearby cue starts, refined by
+ *   a least squares fit on the matched starts, then boundaries snapped to reference boundaries within a tolerance.
+ *   Snapping never creates an overlap the fitted times don't have (a snapped start stays after the previous
+ *   subtitle's end, a snapped end before the next subtitle's start)
+ *
+ * resyncSubtitles is pure and returns the transformed subtitles with a per-subtitle diff for preview;
+ * resyncEpisodeSubtitles loads an episode and only writes back (saveSubtitlesBatch) when asked to.
+ * Every transformed subtitle is validated with subtitleThSchema (end_sec_th > start_sec_th, no negative times) -
+ * an operation that breaks any subtitle is rejected as a whole
+ */
+
+import { fetchSubtitles, saveSubtitlesBatch } from '../../supabase/index';
+import { subtitleThSchema, type SubtitleTh } from '../../schemas/subtitleThSchema';
+import {
+  subtitleResyncOperationSchema,
+  type ReferenceCue,
+  type SubtitleResyncOperation,
+  type SubtitleResyncOperationInput,
+} from '../../schemas/subtitleResyncSchema';
+
+// Width of the offset histogram bins of reference alignment
+const OFFSET_BIN_SEC = 0.1;
+// Drift is only fitted over matches spanning at least this long, and only within these scale bounds
+// (25 fps ↔ 23.976 fps conversions are ~4%) - the coarse search tries scales SCALE_STEP apart
+const MIN_FIT_SPAN_SEC = 30;
+const MIN_SCALE = 0.95;
+const MAX_SCALE = 1.05;
+const SCALE_STEP = 0.0005;
+// Rematch / refit rounds of reference alignment (stops early once the matches stop growing)
+const MAX_FIT_ITERATIONS = 10;
+
+/**
+ * Timing change of one subtitle (only subtitles whose times change are listed)
+ */
+export interface SubtitleTimingChange {
+  id: string;
+  thai: string;
+  start_before: number;
+  end_before: number;
+  start_after: number;
+  end_after: number;
+}
+
+/**
+ * Resync result
+ * - subtitles: All subtitles with the new times (validated), in the input order
+ * - scale / offset_sec: Linear part of the transform (time → scale × time + offset_sec)
+ * - reference: Reference alignment only - subtitles matched for the fit, and boundaries snapped
+ */
+export interface SubtitleResyncResult {
+  operation: SubtitleResyncOperation;
+  subtitles: SubtitleTh[];
+  changes: SubtitleTimingChange[];
+  scale: number;
+  offset_sec: number;
+  reference?: { matched: number; snapped: number };
+}
+
+function roundMs(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] as number : ((sorted[middle - 1] as number) + (sorted[middle] as number)) / 2;
+}
+
+/**
+ * Value in a sorted array closest to target, if within tolerance
+ */
+function nearest(sorted: number[], target: number, tolerance: number): number | null {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((sorted[middle] as number) < target) low = middle + 1;
+    else high = middle;
+  }
+  let best: number | null = null;
+  for (const candidate of [sorted[low - 1], sorted[low]]) {
+    if (candidate !== undefined && Math.abs(candidate - target) <= tolerance && (best === null || Math.abs(candidate - target) < Math.abs(best - target))) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Most common start offset between the tracks at a given scale - every (subtitle, reference cue) pair whose
+ * start differs by at most maxOffset (after scaling) votes for its difference
+ * @returns Median of the winning bin and its neighbours, and the number of votes it won with
+ */
+function voteOffset(starts: number[], referenceStarts: number[], scale: number, maxOffset: number): { offset_sec: number; support: number } {
+  const votes = new Map<number, number[]>();
+  let first = 0;
+  for (const start of starts) {
+    const scaled = scale * start;
+    while (first < referenceStarts.length && (referenceStarts[first] as number) < scaled - maxOffset) first++;
+    for (let j = first; j < referenceStarts.length && (referenceStarts[j] as number) <= scaled + maxOffset; j++) {
+      const difference = (referenceStarts[j] as number) - scaled;
+      const bin = Math.round(difference / OFFSET_BIN_SEC);
+      const differences = votes.get(bin) ?? [];
+      differences.push(difference);
+      votes.set(bin, differences);
+    }
+  }
+  if (votes.size === 0) {
+    return { offset_sec: 0, support: 0 };
+  }
+
+  const support = (bin: number) => (votes.get(bin - 1)?.length ?? 0) + (votes.get(bin)?.length ?? 0) + (votes.get(bin + 1)?.length ?? 0);
+  // Ties go to the smallest offset
+  const bestBin = Array.from(votes.keys()).reduce((best, bin) =>
+    support(bin) > support(best) || (support(bin) === support(best) && Math.abs(bin) < Math.abs(best)) ? bin : best);
+  return {
+    offset_sec: median([...(votes.get(bestBin - 1) ?? []), ...(votes.get(bestBin) ?? []), ...(votes.get(bestBin + 1) ?? [])]),
+    support: support(bestBin),
+  };
+}
+
+/**
+ * Coarse transform: the offset vote repeated over a grid of scales - drift spreads the votes of a wrong scale
+ * over many bins, so the scale whose best offset collects the most votes wins (ties go to the scale closest to 1)
+ */
+function estimateTransform(starts: number[], referenceStarts: number[], maxOffset: number): { scale: number; offset_sec: number } {
+  const steps = Math.round((MAX_SCALE - MIN_SCALE) / SCALE_STEP);
+  const scales = Array.from({ length: steps + 1 }, (_, index) => MIN_SCALE + index * SCALE_STEP)
+    .sort((a, b) => Math.abs(a - 1) - Math.abs(b - 1));
+  let best = { scale: 1, offset_sec: 0, support: 0 };
+  for (const scale of scales) {
+    const vote = voteOffset(starts, referenceStarts, scale, maxOffset);
+    if (vote.support > best.support) {
+      best = { scale, ...vote };
+    }
+  }
+  return { scale: best.scale, offset_sec: best.offset_sec };
+}
+
+/**
+ * Least squares line y = scale × x + offset over the pairs, or null when the pairs span too little time
+ * or the scale is implausible
+ */
+function fitLine(pairs: Array<{ x: number; y: number }>): { scale: number; offset_sec: number } | null {
+  const xs = pairs.map(pair => pair.x);
+  if (pairs.length < 2 || Math.max(...xs) - Math.min(...xs) < MIN_FIT_SPAN_SEC) {
+    return null;
+  }
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, pair) => sum + pair.y, 0) / pairs.length;
+  const covariance = pairs.reduce((sum, pair) => sum + (pair.x - meanX) * (pair.y - meanY), 0);
+  const variance = pairs.reduce((sum, pair) => sum + (pair.x - meanX) ** 2, 0);
+  const scale = covariance / variance;
+  return scale >= MIN_SCALE && scale <= MAX_SCALE ? { scale, offset_sec: meanY - scale * meanX } : null;
+}
+
+/**
+ * Linear transform of reference alignment: coarse scale / offset vote, then subtitle starts are matched to the nearest
+ * reference start (within matchWindow) under the current transform and the line is refitted on the matches -
+ * repeated while the matches grow, so drift is followed from the voted region across the whole episode.
+ * Falls back to the median offset of the matches when no line can be fitted
+ */
+function fitReference(starts: number[], referenceStarts: number[], maxOffset: number, matchWindow: number): { scale: number; offset_sec: number; matched: number } {
+  let transform = estimateTransform(starts, referenceStarts, maxOffset);
+  let matched = 0;
+  for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+    const pairs = starts
+      .map(start => ({ x: start, y: nearest(referenceStarts, transform.scale * start + transform.offset_sec, matchWindow) }))
+      .filter((pair): pair is { x: number; y: number } => pair.y !== null);
+    if (pairs.length <= matched) {
+      break;
+    }
+    matched = pairs.length;
+    transform = fitLine(pairs) ?? { scale: 1, offset_sec: median(pairs.map(pair => pair.y - pair.x)) };
+  }
+  return { ...transform, matched };
+}
+
+/**
+ * Apply a timing operation to subtitles
+ * @param {SubtitleTh[]} subtitles - Subtitles of one episode
+ * @param {SubtitleResyncOperationInput} operation - Validated with subtitleResyncOperationSchema
+ * @returns {SubtitleResyncResult} New subtitles and the diff to preview - nothing is saved
+ * @throws {Error} If the operation is invalid or makes any subtitle invalid (e.g. shifted before 0)
+ */
+export function resyncSubtitles(subtitles: SubtitleTh[], operation: SubtitleResyncOperationInput): SubtitleResyncResult {
+  const parsedOperation = subtitleResyncOperationSchema.parse(operation);
+
+  let scale = 1;
+  let offset = 0;
+  let matched: number | null = null;
+  let snapped = 0;
+  // previousEnd: latest end of the subtitles before (final times), nextStart: fitted start of the next subtitle
+  let snap = (start: number, end: number, _neighbours: { previousEnd: number; nextStart: number }): { start: number; end: number } => ({ start, end });
+
+  if (parsedOperation.kind === 'shift') {
+    offset = parsedOperation.offset_sec;
+  } else if (parsedOperation.kind === 'stretch') {
+    const [first, second] = parsedOperation.anchors;
+    scale = (second.to_sec - first.to_sec) / (second.from_sec - first.from_sec);
+    offset = first.to_sec - scale * first.from_sec;
+  } else {
+    const cues: ReferenceCue[] = parsedOperation.cues;
+    const referenceStarts = cues.map(cue => cue.start_sec).sort((a, b) => a - b);
+    const referenceEnds = cues.map(cue => cue.end_sec).sort((a, b) => a - b);
+    const fit = fitReference(
+      subtitles.map(subtitle => subtitle.start_sec_th).sort((a, b) => a - b),
+      referenceStarts,
+      parsedOperation.max_offset_sec,
+      parsedOperation.match_window_sec
+    );
+    scale = fit.scale;
+    offset = fit.offset_sec;
+    matched = fit.matched;
+
+    const tolerance = parsedOperation.snap_tolerance_sec;
+    snap = (start, end, { previousEnd, nextStart }) => {
+      // Clamp towards the fitted time, so an overlap is only kept where the fitted times already overlap
+      const snappedStart = Math.max(nearest(referenceStarts, start, tolerance) ?? start, Math.min(start, previousEnd));
+      const snappedEnd = Math.min(nearest(referenceEnds, end, tolerance) ?? end, Math.max(end, nextStart));
+      // Snapping must not collapse a subtitle - keep the fitted times then
+      if (snappedEnd <= snappedStart) {
+        return { start, end };
+      }
+      snapped += (snappedStart !== start ? 1 : 0) + (snappedEnd !== end ? 1 : 0);
+      return { start: snappedStart, end: snappedEnd };
+    };
+  }
+
+  // Snapped in start time order (neighbours), returned in input order
+  const fitted = subtitles
+    .map((subtitle, index) => ({ index, start: scale * subtitle.start_sec_th + offset, end: scale * subtitle.end_sec_th + offset }))
+    .sort((a, b) => a.start - b.start);
+  const times: Array<{ start: number; end: number }> = [];
+  let previousEnd = -Infinity;
+  fitted.forEach((cue, position) => {
+    const snappedTimes = snap(cue.start, cue.end, { previousEnd, nextStart: fitted[position + 1]?.start ?? Infinity });
+    times[cue.index] = snappedTimes;
+    previousEnd = Math.max(previousEnd, snappedTimes.end);
+  });
+
+  const failures: string[] = [];
+  const resynced: SubtitleTh[] = [];
+  subtitles.forEach((subtitle, index) => {
+    const { start, end } = times[index] as { start: number; end: number };
+    const validation = subtitleThSchema.safeParse({ ...subtitle, start_sec_th: roundMs(start), end_sec_th: roundMs(end) });
+    if (validation.success) {
+      resynced.push(validation.data);
+    } else {
+      failures.push(`${subtitle.id} (${roundMs(start)} → ${roundMs(end)}): ${validation.error.errors.map(issue => issue.message).join(', ')}`);
+    }
+  });
+  if (failures.length > 0) {
+    throw new Error(`Resync would make ${failures.length} subtitle(s) invalid: ${failures.slice(0, 5).join('; ')}${failures.length > 5 ? '; ...' : ''}`);
+  }
+
+  return {
+    operation: parsedOperation,
+    subtitles: resynced,
+    changes: diffSubtitleTiming(subtitles, resynced),
+    scale,
+    offset_sec: offset,
+    ...(matched !== null ? { reference: { matched, snapped } } : {}),
+  };
+}
+
+/**
+ * Timing diff between two versions of the same subtitles (matched by id)
+ * @returns {SubtitleTimingChange[]} Subtitles whose start or end changed, in start time order
+ */
+export function diffSubtitleTiming(before: SubtitleTh[], after: SubtitleTh[]): SubtitleTimingChange[] {
+  const previous = new Map(before.map(subtitle => [subtitle.id, subtitle]));
+  const changes: SubtitleTimingChange[] = [];
+  for (const subtitle of after) {
+    const old = previous.get(subtitle.id);
+    if (!old || (old.start_sec_th === subtitle.start_sec_th && old.end_sec_th === subtitle.end_sec_th)) {
+      continue;
+    }
+    changes.push({
+      id: subtitle.id,
+      thai: subtitle.thai,
+      start_before: old.start_sec_th,
+      end_before: old.end_sec_th,
+      start_after: subtitle.start_sec_th,
+      end_after: subtitle.end_sec_th,
+    });
+  }
+  return changes.sort((a, b) => a.start_before - b.start_before);
+}
+
+/**
+ * Resync an episode's subtitles_th rows
+ * Without write the result is a preview; with write the changed subtitles are saved (tokens_th kept)
+ * @throws {Error} If the episode has no subtitles or the operation is rejected (see resyncSubtitles)
+ */
+export async function resyncEpisodeSubtitles(
+  mediaId: string,
+  operation: SubtitleResyncOperationInput,
+  options: { write?: boolean } = {}
+): Promise<SubtitleResyncResult> {
+  const subtitles = (await fetchSubtitles(mediaId)).map(subtitle => subtitleThSchema.parse(subtitle));
+  if (subtitles.length === 0) {
+    throw new Error(`No subtitles found for ${mediaId}`);
+  }
+
+  const result = resyncSubtitles(subtitles, operation);
+  if (options.write && result.changes.length > 0) {
+    const changed = new Set(result.changes.map(change => change.id));
+    await saveSubtitlesBatch(result.subtitles.filter(subtitle => changed.has(subtitle.id)));
+  }
+  return result;
+}
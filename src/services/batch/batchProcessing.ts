@@ -0,0 +1,233 @@
+/**
+ * Batch Word Processing
+ * Processes the unique words of one or many episodes in batches, instead of one episode and one word at a time
+ *
+ * 1. Tokenize episodes that still have untokenized subtitles (tokenize-only run per episode)
+ * 2. Collect the unique tokens of all episodes - a word shared by several episodes is processed once
+ * 3. Subtract words already complete in words_th / meanings_th with one bulk lookup (fetchCompleteWords)
+ * 4. Process the rest in batches of batchSize words: the words of a batch run concurrently through the
+ *    workflow's word steps (processWord) and their GPT calls are combined into many-words requests
+ *    (../providers/batchingLLM.ts)
+ *
+ * Words are saved as they finish and a failed word does not stop its batch. Cancellation and budget
+ * exhaustion stop processing once the running batch has settled - saved words are skipped by step 3 of the
+ * next run, so an interrupted batch run is resumed by running it again
+ */
+
+import type { UsageBudget } from '../../schemas/apiUsageSchema';
+import { fetchCompleteWords, fetchSubtitles } from '../../supabase/index';
+import {
+  MEANING_STEP_FUNCTIONS,
+  TOKENIZE_STEP_NAME,
+  extractUniqueTokens,
+  processSubtitlesForEpisode,
+  processWord,
+} from '../processingPipeline';
+import { getWorkflow } from '../pipeline/workflows';
+import { getProviders } from '../providers/providers';
+import { createBatchingLLM } from '../providers/batchingLLM';
+import { activateUsageLedger, createUsageLedger, getDefaultUsageBudget, isBudgetExceededError, type UsageSummary } from '../usage/usageLedger';
+import { startSpan } from '../telemetry/telemetry';
+import { isAbortError, throwIfAborted } from '../../utils/abort';
+
+export const DEFAULT_WORD_BATCH_SIZE = 25;
+
+/**
+ * Workflow used to tokenize episodes before their words are batched
+ */
+const TOKENIZE_WORKFLOW_NAME = 'tokenize-only';
+
+/**
+ * Batch processing options
+ * - workflowName: Workflow whose word steps run (default "full") - episodes are only tokenized when it has a tokenize step
+ * - batchSize: Words per batch (default DEFAULT_WORD_BATCH_SIZE) - also the most words per GPT request
+ * - skipComplete: Skip words already complete in words_th / meanings_th (default true)
+ * - batchPrompts: Combine the GPT calls of a batch into many-words requests (default true)
+ * - budget: Usage limits for the whole batch run (default getDefaultUsageBudget())
+ * - onWordSettled: Called as each word finishes
+ */
+export interface BatchProcessOptions {
+  workflowName?: string;
+  batchSize?: number;
+  skipComplete?: boolean;
+  batchPrompts?: boolean;
+  signal?: AbortSignal;
+  budget?: UsageBudget;
+  onWordSettled?: (outcome: BatchWordOutcome) => void;
+}
+
+/**
+ * How a word settled
+ * - not_saved: The workflow produces meanings and found none (same rule as processWord)
+ * - failedSteps: Steps that failed acceptably
+ */
+export type BatchWordOutcome =
+  | { word: string; status: 'saved' | 'not_saved'; failedSteps: string[] }
+  | { word: string; status: 'failed'; error: string };
+
+/**
+ * Batch run summary
+ * - uniqueWords: Distinct words requested (across all episodes)
+ * - alreadyComplete: Words skipped because they are complete in the database
+ * - usage: Service usage of the batch run
+ */
+export interface BatchProcessSummary {
+  workflowName: string;
+  uniqueWords: number;
+  alreadyComplete: number;
+  processed: number;
+  saved: number;
+  notSaved: number;
+  failed: Array<{ word: string; error: string }>;
+  batches: number;
+  usage: UsageSummary | null;
+}
+
+/**
+ * Summary of processEpisodesInBatches
+ * - tokenizedEpisodes: Episodes that had untokenized subtitles and were tokenized first
+ * - untokenizedSubtitles: Subtitles still without tokens (their words are not part of the batch run)
+ */
+export interface EpisodeBatchSummary extends BatchProcessSummary {
+  mediaIds: string[];
+  tokenizedEpisodes: string[];
+  untokenizedSubtitles: number;
+}
+
+const hasTokens = (subtitle: { tokens_th?: { tokens: unknown[] } | null | undefined }) =>
+  !!subtitle.tokens_th?.tokens && subtitle.tokens_th.tokens.length > 0;
+
+/**
+ * Process words in batches (steps 3 and 4)
+ * @throws AbortError / BudgetExceededError after the running batch settles; other errors are per word (summary.failed)
+ */
+export async function processWordsInBatches(words: Iterable<string>, options: BatchProcessOptions = {}): Promise<BatchProcessSummary> {
+  const workflow = getWorkflow(options.workflowName);
+  if (!workflow.steps.some(s => s.name !== TOKENIZE_STEP_NAME)) {
+    throw new Error(`Workflow "${workflow.name}" has no word steps`);
+  }
+  const producesMeanings = workflow.steps.some(s => MEANING_STEP_FUNCTIONS.has(s.functionName));
+  const batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_WORD_BATCH_SIZE));
+
+  const uniqueWords = Array.from(new Set(Array.from(words, word => word.trim()).filter(word => word.length > 0)));
+  const complete = options.skipComplete === false
+    ? new Set<string>()
+    : await fetchCompleteWords(uniqueWords, { requireMeanings: producesMeanings });
+  const remaining = uniqueWords.filter(word => !complete.has(word));
+  console.log(`[Batch Processing] ${uniqueWords.length} unique word(s), ${complete.size} already complete, ${remaining.length} to process in batches of ${batchSize}`);
+
+  const summary: BatchProcessSummary = {
+    workflowName: workflow.name,
+    uniqueWords: uniqueWords.length,
+    alreadyComplete: complete.size,
+    processed: 0,
+    saved: 0,
+    notSaved: 0,
+    failed: [],
+    batches: 0,
+    usage: null,
+  };
+
+  const budget = options.budget ?? getDefaultUsageBudget();
+  const ledger = createUsageLedger(budget ? { budget } : {});
+  const deactivateLedger = activateUsageLedger(ledger);
+  try {
+    for (let start = 0; start < remaining.length; start += batchSize) {
+      throwIfAborted(options.signal);
+      const batch = remaining.slice(start, start + batchSize);
+      summary.batches++;
+      const batchSpan = startSpan('batch', { workflowName: workflow.name, batch: summary.batches, words: batch.length });
+      const llm = options.batchPrompts === false
+        ? null
+        : createBatchingLLM(getProviders().llm, { maxBatchSize: batch.length, ...(options.signal ? { signal: options.signal } : {}) });
+
+      const settled = await Promise.allSettled(batch.map(async word => {
+        const result = await processWord(word, {
+          workflowName: workflow.name,
+          save: true,
+          ledger,
+          ...(options.signal ? { signal: options.signal } : {}),
+          ...(llm ? { providers: { llm } } : {}),
+        });
+        return { word, result };
+      }));
+
+      // Cancellation and budget exhaustion stop the run - every other error only fails its word
+      let stopError: unknown = null;
+      settled.forEach((outcome, index) => {
+        const word = batch[index] as string;
+        let wordOutcome: BatchWordOutcome;
+        if (outcome.status === 'fulfilled') {
+          const failedSteps = outcome.value.result.results.filter(r => r.status === 'failed').map(r => r.stepName);
+          wordOutcome = { word, status: outcome.value.result.saved ? 'saved' : 'not_saved', failedSteps };
+          summary.processed++;
+          if (outcome.value.result.saved) {
+            summary.saved++;
+          } else {
+            summary.notSaved++;
+          }
+        } else {
+          if (isAbortError(outcome.reason) || isBudgetExceededError(outcome.reason)) {
+            stopError ??= outcome.reason;
+            return;
+          }
+          const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          wordOutcome = { word, status: 'failed', error };
+          summary.processed++;
+          summary.failed.push({ word, error });
+          console.error(`[Batch Processing] ✗ "${word}": ${error}`);
+        }
+        options.onWordSettled?.(wordOutcome);
+      });
+
+      await ledger.flush();
+      if (stopError) {
+        batchSpan.end(isAbortError(stopError) ? 'cancelled' : 'error', { error: stopError instanceof Error ? stopError.message : String(stopError) });
+        throw stopError;
+      }
+      batchSpan.end('ok', { saved: summary.saved, failed: summary.failed.length, usage: ledger.summary('run') });
+    }
+    summary.usage = ledger.summary('run');
+  } finally {
+    deactivateLedger();
+    await ledger.flush();
+  }
+
+  console.log(`[Batch Processing] Done: ${summary.saved} saved, ${summary.notSaved} without meanings, ${summary.failed.length} failed (${summary.batches} batch(es))`);
+  return summary;
+}
+
+/**
+ * Process the words of one or many episodes in batches (steps 1-4)
+ */
+export async function processEpisodesInBatches(mediaIds: string[], options: BatchProcessOptions = {}): Promise<EpisodeBatchSummary> {
+  const workflow = getWorkflow(options.workflowName);
+  const tokenizes = workflow.steps.some(s => s.name === TOKENIZE_STEP_NAME);
+  const episodes = Array.from(new Set(mediaIds));
+
+  const tokenizedEpisodes: string[] = [];
+  const subtitles: Array<{ tokens_th?: { tokens: unknown[] } | null | undefined }> = [];
+  for (const mediaId of episodes) {
+    throwIfAborted(options.signal);
+    let episodeSubtitles = await fetchSubtitles(mediaId);
+    if (tokenizes && episodeSubtitles.some(subtitle => !hasTokens(subtitle))) {
+      console.log(`[Batch Processing] Tokenizing ${mediaId}`);
+      await processSubtitlesForEpisode(mediaId, {
+        workflowName: TOKENIZE_WORKFLOW_NAME,
+        ...(options.signal ? { signal: options.signal } : {}),
+        ...(options.budget ? { budget: options.budget } : {}),
+      });
+      tokenizedEpisodes.push(mediaId);
+      episodeSubtitles = await fetchSubtitles(mediaId);
+    }
+    subtitles.push(...episodeSubtitles);
+  }
+
+  const untokenizedSubtitles = subtitles.filter(subtitle => !hasTokens(subtitle)).length;
+  if (untokenizedSubtitles > 0) {
+    console.warn(`[Batch Processing] ⚠️ ${untokenizedSubtitles} subtitle(s) have no tokens - their words are not processed`);
+  }
+
+  const summary = await processWordsInBatches(extractUniqueTokens(subtitles), options);
+  return { ...summary, mediaIds: episodes, tokenizedEpisodes, untokenizedSubtitles };
+}
@@ -0,0 +1,42 @@
+/**
+ * File Fixture Store (Node only - CLI and scripts)
+ * Keeps HTTP fixtures as one JSON file per request: <dir>/<service>/<key>.json
+ *
+ * One file per fixture keeps recordings reviewable in diffs and lets runs add fixtures to an existing
+ * directory without rewriting it
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { httpFixtureSchema } from '../../schemas/httpFixtureSchema';
+import type { HttpFixtureStore } from './httpTransport';
+
+export function createFileFixtureStore(dir: string): HttpFixtureStore {
+  // Same layout as set() - the key is a hash that includes the service, so one path per fixture
+  const fixturePath = (service: string, key: string) => join(dir, service, `${key}.json`);
+
+  return {
+    name: `files:${dir}`,
+    async get(service, key) {
+      const path = fixturePath(service, key);
+      let text: string;
+      try {
+        text = await readFile(path, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+      const validation = httpFixtureSchema.safeParse(JSON.parse(text));
+      if (!validation.success) {
+        throw new Error(`Invalid HTTP fixture ${path}: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
+      }
+      return validation.data;
+    },
+    async set(fixture) {
+      await mkdir(join(dir, fixture.service), { recursive: true });
+      await writeFile(fixturePath(fixture.service, fixture.key), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    },
+  };
+}
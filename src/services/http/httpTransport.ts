@@ -0,0 +1,146 @@
+/**
+ * HTTP Transport
+ * Every external call (AI4Thai tokenizer/G2P, ORST, OpenAI) goes through httpFetch instead of fetch()
+ *
+ * Modes (configureHttpTransport):
+ * - live: Plain fetch() (default)
+ * - record: fetch() and write the request/response pair to the fixture store - non-2xx responses are passed
+ *   through unrecorded unless recordErrors is set (a replay then fails loudly instead of replaying an outage)
+ * - replay: Serve responses from the fixture store without network access - a request that was never
+ *   recorded throws a validation ServiceError (not retried)
+ *
+ * Replay is deterministic: a fixture is looked up by service, method, url and body only, so a recorded run
+ * replays offline with the same step outputs - the call sites still validate every response (Zod), which
+ * makes replayed runs regression tests of executeStepsFromSchema against real captured data
+ */
+
+import { httpFixtureSchema, httpTransportModeSchema, type HttpFixture, type HttpTransportMode } from '../../schemas/httpFixtureSchema';
+import type { ServiceName } from '../../schemas/apiUsageSchema';
+import { ServiceError } from '../serviceErrors';
+import { throwIfAborted } from '../../utils/abort';
+
+export interface HttpFixtureStore {
+  name: string;
+  get(service: ServiceName, key: string): Promise<HttpFixture | null>;
+  set(fixture: HttpFixture): Promise<void>;
+}
+
+/**
+ * Request options accepted by httpFetch - the body must be a string so it can be part of the fixture key
+ */
+export type HttpRequestInit = Omit<RequestInit, 'body'> & { body?: string };
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+let mode: HttpTransportMode = 'live';
+let store: HttpFixtureStore | null = null;
+let recordErrors = false;
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fixture key of a request (headers excluded)
+ */
+export function computeHttpFixtureKey(service: ServiceName, method: string, url: string, body: string): Promise<string> {
+  return sha256Hex(JSON.stringify([service, method.toUpperCase(), url, body]));
+}
+
+function toResponse(fixture: HttpFixture): Response {
+  const { status, statusText, headers, body } = fixture.response;
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : body, { status, statusText, headers });
+}
+
+/**
+ * In-memory fixture store - e.g. fixtures loaded from JSON in a browser or a test harness
+ */
+export function createMemoryFixtureStore(fixtures: HttpFixture[] = []): HttpFixtureStore & { list(): HttpFixture[] } {
+  const entries = new Map<string, HttpFixture>();
+  for (const fixture of fixtures) {
+    const validated = httpFixtureSchema.parse(fixture);
+    entries.set(validated.key, validated);
+  }
+  return {
+    name: 'memory',
+    async get(_service, key) {
+      return entries.get(key) ?? null;
+    },
+    async set(fixture) {
+      entries.set(fixture.key, fixture);
+    },
+    list() {
+      return Array.from(entries.values());
+    },
+  };
+}
+
+/**
+ * Switch the transport mode (record and replay need a fixture store)
+ * - recordErrors: Record mode also saves non-2xx responses (default false)
+ */
+export function configureHttpTransport(options: { mode: HttpTransportMode; store?: HttpFixtureStore; recordErrors?: boolean }): void {
+  const nextMode = httpTransportModeSchema.parse(options.mode);
+  if (nextMode !== 'live' && !options.store) {
+    throw new Error(`HTTP transport mode "${nextMode}" requires a fixture store`);
+  }
+  mode = nextMode;
+  store = options.store ?? null;
+  recordErrors = options.recordErrors ?? false;
+}
+
+export function getHttpTransportMode(): HttpTransportMode {
+  return mode;
+}
+
+/**
+ * fetch() for external services - live, recorded or replayed depending on the transport mode
+ * Network errors and aborts reject exactly like fetch() so call sites classify them with toNetworkError
+ */
+export async function httpFetch(service: ServiceName, url: string, init: HttpRequestInit = {}): Promise<Response> {
+  if (mode === 'live' || !store) {
+    return fetch(url, init);
+  }
+
+  const method = (init.method ?? 'GET').toUpperCase();
+  const body = init.body ?? '';
+  const key = await computeHttpFixtureKey(service, method, url, body);
+
+  if (mode === 'replay') {
+    throwIfAborted(init.signal ?? undefined);
+    const fixture = await store.get(service, key);
+    if (!fixture) {
+      throw new ServiceError(service, 'validation', `[HTTP Replay] No recorded response for ${service} ${method} ${url} (fixture ${key.slice(0, 12)}, store ${store.name})`);
+    }
+    return toResponse(fixture);
+  }
+
+  const response = await fetch(url, init);
+  if (!response.ok && !recordErrors) {
+    console.warn(`[HTTP Transport] Not recording ${service} ${method} ${url}: HTTP ${response.status}`);
+    return response;
+  }
+  const responseBody = await response.text();
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie') {
+      headers[name] = value;
+    }
+  });
+  const fixture = httpFixtureSchema.parse({
+    key,
+    service,
+    request: { method, url, body },
+    response: { status: response.status, statusText: response.statusText, headers, body: responseBody },
+    recorded_at: new Date().toISOString(),
+  });
+  try {
+    await store.set(fixture);
+  } catch (error) {
+    // A failed write only costs the fixture - the live response is still returned
+    console.warn(`[HTTP Transport] ✗ Failed to record ${service} ${method} ${url} in ${store.name}:`, error);
+  }
+  return toResponse(fixture);
+}
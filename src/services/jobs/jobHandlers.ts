@@ -0,0 +1,169 @@
+/**
+ * Job Handlers
+ * Maps pipeline_jobs.kind to the code that executes the job (src/schemas/pipelineJobSchema.ts)
+ *
+ * - process_episode: processSubtitlesForEpisode (resumes the latest unfinished run by default)
+ * - process_word: The workflow's word steps for one word, saved to words_th / meanings_th
+ * - enrich_word_v3: enrichMeaningsWithGPTV3 on a word's V2-complete meanings (adds label_eng), saved to meanings_th
+ * Further kinds are added with registerJobHandler - workers only claim kinds that have a handler
+ */
+
+import { z } from 'zod';
+import {
+  enrichWordV3JobPayloadSchema,
+  processEpisodeJobPayloadSchema,
+  processWordJobPayloadSchema,
+  type PipelineJob,
+} from '../../schemas/pipelineJobSchema';
+import { meaningThSchemaV2 } from '../../schemas/meaningThSchemaV2';
+import { needsV2Enrichment, needsV3Enrichment, stripV3Fields } from '../../schemas/integrityValidation';
+import { fetchSenses, fetchWord, saveSenses } from '../../supabase/index';
+import { processSubtitlesForEpisode, processWord } from '../processingPipeline';
+import { enrichMeaningsWithGPTV3 } from '../meanings/gptEnrichMeaningsV3';
+import { activateUsageLedger, createUsageLedger, getDefaultUsageBudget } from '../usage/usageLedger';
+
+/**
+ * Context passed to a job handler
+ * - signal: Aborted when the worker shuts down or loses the job's lease - handlers must stop promptly
+ */
+export interface JobExecutionContext {
+  job: PipelineJob;
+  signal: AbortSignal;
+}
+
+/**
+ * Job handler
+ * - payloadSchema: Validates pipeline_jobs.payload before run is called (invalid payloads fail the job)
+ * - run: Executes the job - the returned object is stored as pipeline_jobs.result
+ */
+export interface JobHandler<TPayload = unknown> {
+  kind: string;
+  description?: string;
+  payloadSchema: z.ZodType<TPayload>;
+  run: (payload: TPayload, context: JobExecutionContext) => Promise<Record<string, unknown>>;
+}
+
+// Handlers are stored untyped - each one parses its payload with its own schema before running
+const handlers = new Map<string, JobHandler<unknown>>();
+
+/**
+ * Register a job handler
+ * Throws if the kind is already registered (unless replace is set)
+ */
+export function registerJobHandler<TPayload>(handler: JobHandler<TPayload>, options: { replace?: boolean } = {}): void {
+  if (!handler.kind.trim()) {
+    throw new Error('Job handler kind is required');
+  }
+  if (handlers.has(handler.kind) && !options.replace) {
+    throw new Error(`Job handler "${handler.kind}" is already registered`);
+  }
+  handlers.set(handler.kind, {
+    ...handler,
+    run: async (payload, context) => handler.run(handler.payloadSchema.parse(payload), context),
+  });
+}
+
+/**
+ * Look up the handler of a job kind
+ */
+export function getJobHandler(kind: string): JobHandler<unknown> | undefined {
+  return handlers.get(kind);
+}
+
+/**
+ * List all job kinds that have a handler
+ */
+export function getJobHandlerKinds(): string[] {
+  return Array.from(handlers.keys());
+}
+
+// Built-in handlers are always available
+registerJobHandler({
+  kind: 'process_episode',
+  description: 'Tokenize an episode\'s subtitles and process its words (processSubtitlesForEpisode)',
+  payloadSchema: processEpisodeJobPayloadSchema,
+  run: async (payload, { signal }) => {
+    const runId = await processSubtitlesForEpisode(payload.mediaId, {
+      ...(payload.workflowName ? { workflowName: payload.workflowName } : {}),
+      resumeLatest: payload.resume ?? true,
+      signal,
+    });
+    return { runId };
+  },
+});
+
+registerJobHandler({
+  kind: 'process_word',
+  description: 'Run the workflow\'s word steps for one word and save it',
+  payloadSchema: processWordJobPayloadSchema,
+  run: async (payload, { signal }) => {
+    const budget = getDefaultUsageBudget();
+    const ledger = createUsageLedger(budget ? { budget } : {});
+    const deactivateLedger = activateUsageLedger(ledger);
+    try {
+      const result = await processWord(payload.word_th, {
+        ...(payload.workflowName ? { workflowName: payload.workflowName } : {}),
+        save: true,
+        signal,
+        ledger,
+      });
+      return {
+        word_th: result.wordData.word_th,
+        workflowName: result.workflowName,
+        saved: result.saved,
+        senses: result.wordData.senses.length,
+        failedSteps: result.results.filter(r => r.status === 'failed').map(r => r.stepName),
+      };
+    } finally {
+      deactivateLedger();
+      await ledger.flush();
+    }
+  },
+});
+
+registerJobHandler({
+  kind: 'enrich_word_v3',
+  description: 'Add label_eng (V3) to a word\'s V2-complete meanings and save them',
+  payloadSchema: enrichWordV3JobPayloadSchema,
+  run: async (payload, { signal }) => {
+    const senses = await fetchSenses(payload.word_th);
+    if (senses.length === 0) {
+      throw new Error(`"${payload.word_th}" has no meanings in meanings_th - process the word first (process_word)`);
+    }
+    // V3 only follows a completed V2 pass (same order as the Inspector pipeline)
+    if (needsV2Enrichment(senses)) {
+      throw new Error(`"${payload.word_th}" meanings are not V2-complete - process the word first (process_word)`);
+    }
+    // Every sense is relabelled - existing labels are dropped so the strict V2 schema applies
+    const v2Senses = z.array(meaningThSchemaV2).safeParse(senses.map(stripV3Fields));
+    if (!v2Senses.success) {
+      const issues = v2Senses.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`"${payload.word_th}" meanings do not match the V2 schema - ${issues}`);
+    }
+    if (!needsV3Enrichment(senses)) {
+      return { word_th: payload.word_th, enriched: 0 };
+    }
+
+    const word = await fetchWord(payload.word_th);
+    const budget = getDefaultUsageBudget();
+    const ledger = createUsageLedger(budget ? { budget } : {});
+    const deactivateLedger = activateUsageLedger(ledger);
+    try {
+      const enriched = await enrichMeaningsWithGPTV3(v2Senses.data, {
+        textTh: payload.word_th,
+        ...(payload.sentence ? { fullThaiText: payload.sentence } : {}),
+        ...(word?.g2p ? { g2p: word.g2p } : {}),
+        ...(word?.phonetic_en ? { phonetic_en: word.phonetic_en } : {}),
+      }, signal);
+      await saveSenses(enriched, payload.word_th);
+      return {
+        word_th: payload.word_th,
+        enriched: enriched.length,
+        labels: enriched.map(sense => sense.label_eng ?? null),
+      };
+    } finally {
+      deactivateLedger();
+      await ledger.flush();
+    }
+  },
+});
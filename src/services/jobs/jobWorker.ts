@@ -0,0 +1,218 @@
+/**
+ * Job Worker
+ * Claims jobs from pipeline_jobs and executes them through their handler (./jobHandlers.ts)
+ *
+ * - Claims are atomic (claim_pipeline_job RPC) - any number of workers can share the queue
+ * - While a job runs, its lease is extended every heartbeatMs; if the lease is lost (the worker stalled
+ *   past lease expiry and another worker took the job) the handler is aborted and the result discarded
+ * - A failed job is re-queued with exponential backoff until it reaches max_attempts; budget
+ *   exhaustion, invalid payloads, schema errors and validation / not-found service errors fail it immediately
+ * - Stopping the worker (signal) aborts the running job and returns it to the queue without consuming
+ *   the attempt - episode jobs resume their run on the next claim
+ */
+
+import { ZodError } from 'zod';
+import type { PipelineJob } from '../../schemas/pipelineJobSchema';
+import type { RetryPolicy } from '../../schemas/retryPolicySchema';
+import {
+  claimPipelineJob,
+  completePipelineJob,
+  extendPipelineJobLease,
+  failPipelineJob,
+  releasePipelineJob,
+  retryPipelineJob,
+} from '../../supabase/pipelineJobs';
+import { computeRetryDelay } from '../pipeline/retry';
+import { getServiceErrorClass } from '../serviceErrors';
+import { isBudgetExceededError } from '../usage/usageLedger';
+import { startSpan } from '../telemetry/telemetry';
+import { abortableSleep, createAbortError, isAbortError } from '../../utils/abort';
+import { getJobHandler, getJobHandlerKinds } from './jobHandlers';
+
+/**
+ * Backoff between attempts of a failed job (the attempt limit is the job's max_attempts)
+ */
+export const JOB_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 30_000,
+  backoffMultiplier: 4,
+  maxDelayMs: 30 * 60_000,
+  jitter: 0.2,
+  retryableErrors: ['network', 'rate_limit'],
+};
+
+/**
+ * Worker options
+ * - workerId: Lease owner recorded on claimed jobs (default: random "worker-xxxxxxxx")
+ * - kinds: Job kinds to claim (default: every kind with a registered handler)
+ * - leaseMs: Lease duration of a claimed job (default 5 minutes)
+ * - heartbeatMs: Lease extension interval (default leaseMs / 3)
+ * - pollIntervalMs: Wait between claims when the queue is empty (default 5 seconds)
+ * - onJobSettled: Called after every job the worker claimed
+ */
+export interface JobWorkerOptions {
+  workerId?: string;
+  kinds?: string[];
+  leaseMs?: number;
+  heartbeatMs?: number;
+  pollIntervalMs?: number;
+  retryPolicy?: RetryPolicy;
+  onJobSettled?: (job: PipelineJob, outcome: JobOutcome) => void;
+}
+
+/**
+ * How a claimed job settled
+ * - retrying: Failed and re-queued until runAfter
+ * - released: Returned to the queue because the worker is stopping
+ * - lease_lost: Another worker owns the job now - nothing was recorded
+ */
+export type JobOutcome =
+  | { status: 'completed'; result: Record<string, unknown> }
+  | { status: 'retrying'; error: string; runAfter: string }
+  | { status: 'failed'; error: string }
+  | { status: 'released' }
+  | { status: 'lease_lost' };
+
+/**
+ * Worker
+ * - runNext: Claim and execute one job - null when no job is due
+ * - run: Process jobs until the signal aborts (polls while the queue is empty)
+ */
+export interface JobWorker {
+  workerId: string;
+  runNext(signal?: AbortSignal): Promise<JobOutcome | null>;
+  run(signal: AbortSignal): Promise<void>;
+}
+
+export const DEFAULT_JOB_LEASE_MS = 5 * 60_000;
+export const DEFAULT_JOB_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Errors that fail a job without further attempts
+ */
+function isPermanentJobError(error: unknown): boolean {
+  if (isBudgetExceededError(error) || error instanceof ZodError) {
+    return true;
+  }
+  const errorClass = getServiceErrorClass(error);
+  return errorClass === 'validation' || errorClass === 'not_found';
+}
+
+export function createJobWorker(options: JobWorkerOptions = {}): JobWorker {
+  const workerId = options.workerId ?? `worker-${crypto.randomUUID().slice(0, 8)}`;
+  const leaseMs = options.leaseMs ?? DEFAULT_JOB_LEASE_MS;
+  const heartbeatMs = options.heartbeatMs ?? Math.max(1000, Math.floor(leaseMs / 3));
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_JOB_POLL_INTERVAL_MS;
+  const retryPolicy = options.retryPolicy ?? JOB_RETRY_POLICY;
+
+  async function executeJob(job: PipelineJob, signal?: AbortSignal): Promise<JobOutcome> {
+    const handler = getJobHandler(job.kind);
+    if (!handler) {
+      const message = `No handler registered for job kind "${job.kind}"`;
+      return await failPipelineJob(job.id, workerId, message) ? { status: 'failed', error: message } : { status: 'lease_lost' };
+    }
+
+    const payload = handler.payloadSchema.safeParse(job.payload);
+    if (!payload.success) {
+      const message = `Invalid ${job.kind} payload: ${payload.error.errors.map(e => `${e.path.join('.') || 'payload'}: ${e.message}`).join('; ')}`;
+      return await failPipelineJob(job.id, workerId, message) ? { status: 'failed', error: message } : { status: 'lease_lost' };
+    }
+
+    // The handler stops when the worker stops or the lease is lost
+    const jobController = new AbortController();
+    const onWorkerAbort = () => jobController.abort(createAbortError('Worker stopped'));
+    if (signal?.aborted) {
+      onWorkerAbort();
+    } else {
+      signal?.addEventListener('abort', onWorkerAbort, { once: true });
+    }
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+      extendPipelineJobLease(job.id, workerId, leaseMs).then(held => {
+        if (!held && !leaseLost) {
+          leaseLost = true;
+          console.warn(`[Job Worker] Lost lease on job ${job.id} - aborting it`);
+          jobController.abort(createAbortError('Job lease lost'));
+        }
+      }).catch(error => {
+        // A failed heartbeat is retried on the next tick - the lease is only lost once it expires
+        console.warn(`[Job Worker] Failed to extend lease on job ${job.id}:`, error);
+      });
+    }, heartbeatMs);
+
+    try {
+      const result = await handler.run(payload.data, { job, signal: jobController.signal });
+      if (leaseLost) {
+        return { status: 'lease_lost' };
+      }
+      return await completePipelineJob(job.id, workerId, result) ? { status: 'completed', result } : { status: 'lease_lost' };
+    } catch (error) {
+      if (leaseLost) {
+        return { status: 'lease_lost' };
+      }
+      if (signal?.aborted && isAbortError(error)) {
+        return await releasePipelineJob(job, workerId) ? { status: 'released' } : { status: 'lease_lost' };
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (isPermanentJobError(error) || job.attempts >= job.max_attempts) {
+        return await failPipelineJob(job.id, workerId, message) ? { status: 'failed', error: message } : { status: 'lease_lost' };
+      }
+      const runAfter = new Date(Date.now() + computeRetryDelay(retryPolicy, job.attempts, error));
+      return await retryPipelineJob(job.id, workerId, message, runAfter)
+        ? { status: 'retrying', error: message, runAfter: runAfter.toISOString() }
+        : { status: 'lease_lost' };
+    } finally {
+      clearInterval(heartbeat);
+      signal?.removeEventListener('abort', onWorkerAbort);
+    }
+  }
+
+  const worker: JobWorker = {
+    workerId,
+    async runNext(signal) {
+      const job = await claimPipelineJob(workerId, leaseMs, options.kinds ?? getJobHandlerKinds());
+      if (!job) {
+        return null;
+      }
+
+      console.log(`[Job Worker] ${workerId} claimed ${job.kind} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+      const span = startSpan('job', { jobId: job.id, kind: job.kind, attempt: job.attempts, workerId });
+      const outcome = await executeJob(job, signal);
+      span.end(
+        outcome.status === 'completed' ? 'ok' : outcome.status === 'released' ? 'cancelled' : 'error',
+        { outcome: outcome.status, ...('error' in outcome ? { error: outcome.error } : {}) }
+      );
+      if (outcome.status === 'completed') {
+        console.log(`[Job Worker] ✓ ${job.kind} job ${job.id} completed`);
+      } else {
+        console.warn(`[Job Worker] ✗ ${job.kind} job ${job.id} ${outcome.status}${'error' in outcome ? `: ${outcome.error}` : ''}`);
+      }
+      options.onJobSettled?.(job, outcome);
+      return outcome;
+    },
+    async run(signal) {
+      console.log(`[Job Worker] ${workerId} started`);
+      while (!signal.aborted) {
+        let outcome: JobOutcome | null = null;
+        try {
+          outcome = await worker.runNext(signal);
+        } catch (error) {
+          // Queue unavailable (network, database) - keep polling, an unsettled job is reclaimed once its lease expires
+          console.error('[Job Worker] ✗ Queue error:', error);
+        }
+        if (outcome === null) {
+          try {
+            await abortableSleep(pollIntervalMs, signal);
+          } catch (error) {
+            if (!isAbortError(error)) {
+              throw error;
+            }
+          }
+        }
+      }
+      console.log(`[Job Worker] ${workerId} stopped`);
+    },
+  };
+  return worker;
+}
@@ -8,6 +8,14 @@
  */
 
 import { meaningThSchema } from '../../schemas/meaningThSchema';
+import { serviceErrorFromResponse, toNetworkError } from '../serviceErrors';
+import { recordEvent } from '../telemetry/telemetry';
+import { reportUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
+
+const ORST_PROXY_PATH = '/api/orst'; // Rewritten to ORST_LOOKUP_URL by the Vite dev server (vite.config.ts)
+const ORST_LOOKUP_URL = 'https://dictionary.orst.go.th/func_lookup.php';
 
 /**
  * Generate a deterministic numeric ID from a word and index
@@ -32,7 +40,7 @@ export function generateSenseId(wordTh: string, index: number): bigint {
  * Scrape ORST dictionary for a Thai word
  * Internal function - used by fetchOrstMeanings
  */
-async function scrapeOrstDictionary(word: string): Promise<any[]> {
+async function scrapeOrstDictionary(word: string, signal?: AbortSignal): Promise<any[]> {
   if (!word || !word.trim()) {
     return [];
   }
@@ -40,24 +48,38 @@ async function scrapeOrstDictionary(word: string): Promise<any[]> {
   const trimmedWord = word.trim();
 
   try {
-    // Use Vite proxy to bypass CORS (same approach as SmartSubs Chrome extension background script)
-    const searchUrl = '/api/orst';
+    // Browser: Vite proxy to bypass CORS (same approach as SmartSubs Chrome extension background script)
+    // Node (CLI): no CORS - call ORST directly
+    const searchUrl = typeof window !== 'undefined' ? ORST_PROXY_PATH : ORST_LOOKUP_URL;
     const formData = new URLSearchParams();
     formData.append('word', trimmedWord);
     formData.append('funcName', 'lookupWord');
     formData.append('status', 'lookup');
     
     
-    const response = await fetch(searchUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: formData.toString()
-    });
+    const releaseRateLimit = await acquireRateLimit('orst', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('orst', searchUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: formData.toString(),
+        ...(signal ? { signal } : {})
+      });
+    } catch (fetchError) {
+      throw toNetworkError('orst', fetchError);
+    } finally {
+      releaseRateLimit();
+    }
+
+    reportUsage({ service: 'orst', operation: 'scrapeOrstDictionary', latencyMs: Date.now() - startedAt, success: response.ok });
 
     if (!response.ok) {
-      throw new Error(`ORST scrape failed: ${response.status} ${response.statusText}`);
+      const errorText = await response.text().catch(() => '');
+      throw serviceErrorFromResponse('orst', response, errorText);
     }
 
     const html = await response.text();
@@ -374,7 +396,7 @@ function normalizeMeanings(entries: any[]): any[] {
   return deduped;
 }
 
-export async function fetchOrstMeanings(word: string): Promise<Array<{
+export async function fetchOrstMeanings(word: string, signal?: AbortSignal): Promise<Array<{
   id: bigint;
   definition_th: string;
   source?: string;
@@ -387,7 +409,7 @@ export async function fetchOrstMeanings(word: string): Promise<Array<{
   const trimmedWord = word.trim();
 
   // Fetch fresh data from ORST dictionary
-  const orstSenses = await scrapeOrstDictionary(trimmedWord);
+  const orstSenses = await scrapeOrstDictionary(trimmedWord, signal);
 
   if (!orstSenses || orstSenses.length === 0) {
     return [];
@@ -416,9 +438,7 @@ export async function fetchOrstMeanings(word: string): Promise<Array<{
       created_at: orstSense.created_at || new Date().toISOString(), // Zod: created_at (string)
       word_th_id: trimmedWord, // CRITICAL: Link to word - always set word_th_id
     };
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'fetchOrstMeanings.ts:fetchOrstMeanings',message:'Creating ORST sense with schema shape',data:{index,hasId:!!senseData.id,hasDefinition:!!senseData.definition_th,source:senseData.source,hasWordThId:!!senseData.word_th_id,schemaKeys:Object.keys(senseData)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SCHEMA_SHAPE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('fetchOrstMeanings.ts:fetchOrstMeanings', 'Creating ORST sense with schema shape', {index,hasId:!!senseData.id,hasDefinition:!!senseData.definition_th,source:senseData.source,hasWordThId:!!senseData.word_th_id,schemaKeys:Object.keys(senseData)});
 
     // Validate with Zod schema - strict mode ensures only schema fields (same shape as GPT-meaning and GPT-normalize)
     const validationResult = meaningThSchema.strict().safeParse(senseData);
@@ -0,0 +1,281 @@
+/**
+ * GPT Batch - Sense creation and normalization for many words in one request
+ * Used by the batching LLM provider (../providers/batchingLLM.ts) during batch processing
+ *
+ * Produces the same sense shape, ids and sources as the single-word functions (createMeaningsWithGPT,
+ * normalizeSensesWithGPT). Results are aligned with the input items - null marks an item the response
+ * left out (or answered with the wrong number of senses), which the caller re-runs with the single-word function
+ *
+ * Unlike the single-word functions, request and response failures throw (ServiceError) instead of
+ * returning an empty / original result, so the caller can fall back per word
+ *
+ * ⚠️ SCHEMA ENFORCEMENT: Every returned sense passes meaningThSchema.strict()
+ */
+
+import { z } from 'zod';
+import { getOpenAIApiKey } from '../../utils/gptConfig';
+import { meaningThSchema, type MeaningTh } from '../../schemas/meaningThSchema';
+import { generateSenseId } from './fetchOrstMeanings';
+import type { GPTMeaningContext } from './gptMeaning';
+import type { NormalizeSensesContext } from '../providers/providers';
+import { ServiceError, serviceErrorFromResponse, toNetworkError } from '../serviceErrors';
+import { reportUsage, extractOpenAIUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
+
+const BATCH_MODEL = 'gpt-4o';
+
+// Completion budget per word - capped so large batches stay within the model's output limit
+const MAX_COMPLETION_TOKENS_PER_ITEM = 400;
+const MAX_COMPLETION_TOKENS = 16000;
+
+/**
+ * Chat completion envelope - only the fields read here (the first choice's message content)
+ */
+const chatCompletionResponseSchema = z.object({
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullable() }).passthrough(),
+  }).passthrough()).min(1, 'choices is empty'),
+}).passthrough();
+
+/**
+ * Response shape both batch prompts ask for - items are matched back to the request by key
+ */
+const batchResponseSchema = z.object({
+  items: z.array(z.object({
+    key: z.string(),
+    senses: z.array(z.object({ definition_th: z.string() }).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+type BatchResponseItem = z.infer<typeof batchResponseSchema>['items'][number];
+
+export interface GPTMeaningBatchItem {
+  word: string;
+  context: GPTMeaningContext;
+}
+
+export interface NormalizeSensesBatchItem {
+  senses: MeaningTh[];
+  context: NormalizeSensesContext;
+}
+
+const itemKey = (index: number) => `w${index}`;
+
+/**
+ * Send one batch prompt and return the response items by key
+ * @throws {ServiceError} On missing API key, HTTP errors, network failures or a response that does not match batchResponseSchema
+ */
+async function requestBatch(
+  operation: string,
+  systemPrompt: string,
+  userPrompt: string,
+  itemCount: number,
+  signal?: AbortSignal
+): Promise<Map<string, BatchResponseItem>> {
+  const apiKey = getOpenAIApiKey();
+  if (!apiKey) {
+    throw new ServiceError('openai', 'validation', 'OpenAI API key not found. Set VITE_OPENAI_API_KEY in .env or localStorage.smartSubs_openaiApiKey');
+  }
+
+  const releaseRateLimit = await acquireRateLimit('openai', signal);
+  const startedAt = Date.now();
+  let response: Response;
+  try {
+    response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: BATCH_MODEL,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.2,
+        max_completion_tokens: Math.min(MAX_COMPLETION_TOKENS, MAX_COMPLETION_TOKENS_PER_ITEM * itemCount),
+        response_format: { type: 'json_object' }
+      }),
+      ...(signal ? { signal } : {})
+    });
+  } catch (fetchError) {
+    throw toNetworkError('openai', fetchError);
+  } finally {
+    releaseRateLimit();
+  }
+
+  if (!response.ok) {
+    reportUsage({ service: 'openai', operation, model: BATCH_MODEL, latencyMs: Date.now() - startedAt, success: false });
+    const errorText = await response.text().catch(() => '');
+    throw serviceErrorFromResponse('openai', response, errorText);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (parseError) {
+    throw new ServiceError('openai', 'validation', `${operation}: invalid JSON response`, { cause: parseError });
+  }
+  reportUsage({ service: 'openai', operation, model: BATCH_MODEL, ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
+
+  const completion = chatCompletionResponseSchema.safeParse(data);
+  if (!completion.success) {
+    throw new ServiceError('openai', 'validation', `${operation}: unexpected completion structure: ${completion.error.message}`);
+  }
+  const resultText = completion.data.choices[0]?.message.content?.trim() ?? '';
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(resultText);
+  } catch (parseError) {
+    throw new ServiceError('openai', 'validation', `${operation}: response content is not JSON`, { cause: parseError });
+  }
+  const validation = batchResponseSchema.safeParse(parsed);
+  if (!validation.success) {
+    throw new ServiceError('openai', 'validation', `${operation}: unexpected response structure: ${validation.error.message}`);
+  }
+
+  return new Map(validation.data.items.map(item => [item.key, item]));
+}
+
+/**
+ * Create senses for many words in one GPT request (batch version of createMeaningsWithGPT)
+ * @returns Senses per item (source "gpt", ids from generateSenseId) - null for items missing from the response
+ */
+export async function createMeaningsWithGPTBatch(items: GPTMeaningBatchItem[], signal?: AbortSignal): Promise<Array<MeaningTh[] | null>> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const systemPrompt = 'You are a Thai language expert helping to create dictionary sense entries for words that cannot be found in standard dictionaries and cannot be decomposed into dictionary sub-words.\n\nEach word might be a proper noun, a compound word, slang, a technical term, a dialect word or a newly coined word. Use the context given with each word (show name, episode, season, subtitle text, surrounding words, phonetics) to infer the most likely meaning(s).\n\nIMPORTANT: Return ONLY Thai text in definition_th fields. Do NOT add English translations.\n\nReturn ONLY valid JSON matching the exact structure provided. Do not include explanations or markdown formatting.';
+
+  const userPrompt = JSON.stringify({
+    words: items.map((item, index) => ({
+      key: itemKey(index),
+      word: item.word.trim(),
+      context: {
+        showName: item.context.showName || '',
+        episode: item.context.episode || null,
+        season: item.context.season || null,
+        fullThaiText: item.context.fullThaiText || '',
+        allTokens: item.context.allTokens || [],
+        wordPosition: item.context.wordPosition || null,
+        g2p: item.context.g2p || null,
+        phonetic_en: item.context.phonetic_en || null,
+      },
+    })),
+    requiredStructure: {
+      items: [
+        {
+          key: 'string (the key of the word, exactly as given)',
+          senses: [{ definition_th: 'string (Thai definition only - no English translations)' }]
+        }
+      ]
+    },
+    instructions: [
+      'Return a JSON object with an "items" array containing one entry per word, identified by its key',
+      'Each sense should have ONLY the definition_th field',
+      'definition_th should be in Thai only, explaining what the word means',
+      'If a word has multiple meanings, return multiple senses',
+      'If unsure, return at least one sense with your best guess based on context'
+    ]
+  });
+
+  const responseItems = await requestBatch('createMeaningsWithGPTBatch', systemPrompt, userPrompt, items.length, signal);
+
+  return items.map((item, itemIndex) => {
+    const responseItem = responseItems.get(itemKey(itemIndex));
+    if (!responseItem) {
+      return null;
+    }
+    const word = item.word.trim();
+    const meanings: MeaningTh[] = [];
+    const definitions = responseItem.senses.map(sense => sense.definition_th.trim()).filter(definition => definition.length > 0);
+    definitions.forEach((definition_th, index) => {
+      // Same ids, source and fields as createMeaningsWithGPT
+      const validation = meaningThSchema.strict().safeParse({
+        id: generateSenseId(word, index),
+        definition_th,
+        source: 'gpt',
+        created_at: new Date().toISOString(),
+        word_th_id: word,
+      });
+      if (validation.success) {
+        meanings.push(validation.data);
+      } else {
+        console.warn(`[GPT Batch] Skipping invalid sense ${index} for "${word}": ${validation.error.message}`);
+      }
+    });
+    return meanings;
+  });
+}
+
+/**
+ * Normalize the senses of many words in one GPT request (batch version of normalizeSensesWithGPT)
+ * @returns Normalized senses per item (same ids, source "gpt-normalized") - null for items missing from the
+ *   response or answered with a different number of senses
+ */
+export async function normalizeSensesWithGPTBatch(items: NormalizeSensesBatchItem[], signal?: AbortSignal): Promise<Array<MeaningTh[] | null>> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  // Same defensive cleanup as normalizeSensesWithGPT: comma-separated textTh → first word
+  const primaryWords = items.map(item => item.context.textTh.split(',')[0]?.trim() || item.context.textTh);
+
+  const systemPrompt = 'You are an expert Thai dictionary editor specializing in normalizing Thai dictionary entries. Your task is to clean and normalize Thai text only - do NOT add English translations. Return ONLY valid JSON matching the exact structure provided. Do not include explanations or markdown formatting.';
+
+  const userPrompt = JSON.stringify({
+    task: 'Normalize and clean dictionary senses of several Thai words - Thai text only',
+    words: items.map((item, index) => ({
+      key: itemKey(index),
+      thaiWord: primaryWords[index],
+      fullThaiText: item.context.fullThaiText || '',
+      showName: item.context.showName || null,
+      episode: item.context.episode || null,
+      season: item.context.season || null,
+      rawSenses: item.senses.map((sense, senseIndex) => ({
+        index: senseIndex,
+        definition: sense.definition_th || '',
+        source: sense.source || 'ORST'
+      })),
+    })),
+    requiredStructure: {
+      items: [
+        {
+          key: 'string (the key of the word, exactly as given)',
+          senses: [{ definition_th: 'string (Thai definition only - cleaned and normalized, no English)' }]
+        }
+      ]
+    },
+    instructions: [
+      'Return a JSON object with an "items" array containing one entry per word, identified by its key',
+      'Return exactly one normalized sense per raw sense, in the same order',
+      'Clean and normalize the Thai definition text - remove English translations and mixed-language content',
+      'Standardize formatting and remove inconsistencies while preserving the core meaning',
+      'Return ONLY the definition_th field for each sense'
+    ]
+  });
+
+  const responseItems = await requestBatch('normalizeSensesWithGPTBatch', systemPrompt, userPrompt, items.length, signal);
+
+  return items.map((item, itemIndex) => {
+    const responseItem = responseItems.get(itemKey(itemIndex));
+    if (!responseItem || responseItem.senses.length !== item.senses.length) {
+      return null;
+    }
+    return item.senses.map((originalSense, index) => {
+      const normalizedDefinition = responseItem.senses[index]?.definition_th.trim();
+      // Same fields as normalizeSensesWithGPT - only definition_th changes
+      const validation = meaningThSchema.strict().safeParse({
+        id: originalSense.id,
+        definition_th: normalizedDefinition || originalSense.definition_th,
+        source: 'gpt-normalized',
+        created_at: originalSense.created_at || new Date().toISOString(),
+        word_th_id: originalSense.word_th_id || item.context.textTh,
+      });
+      return validation.success ? validation.data : originalSense;
+    });
+  });
+}
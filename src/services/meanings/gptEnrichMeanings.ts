@@ -16,6 +16,10 @@
 import { getOpenAIApiKey } from '../../utils/gptConfig';
 import { meaningThSchemaV2, type MeaningThV2 } from '../../schemas/meaningThSchemaV2';
 import { meaningThSchema, type MeaningTh } from '../../schemas/meaningThSchema';
+import { recordEvent } from '../telemetry/telemetry';
+import { reportUsage, extractOpenAIUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 /**
  * Generate a deterministic numeric ID from a word and index
@@ -48,6 +52,7 @@ function generateSenseId(textTh: string, index: number): bigint {
  * @param context.fullThaiText - Full subtitle sentence for context (optional)
  * @param context.g2p - G2P transcription (optional)
  * @param context.phonetic_en - English phonetic (optional)
+ * @param signal - Cancels the GPT request (rejects with an AbortError)
  * @returns Array of enriched sense objects matching meaningThSchemaV2
  */
 export async function enrichMeaningsWithGPT(
@@ -57,7 +62,8 @@ export async function enrichMeaningsWithGPT(
     fullThaiText?: string;
     g2p?: string;
     phonetic_en?: string;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<MeaningThV2[]> {
   if (!senses || senses.length === 0) {
     return [];
@@ -115,35 +121,45 @@ Ensure:
 - Array length matches input meanings (${senses.length} meanings)`;
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a Thai-English dictionary expert. Return only valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      }),
-    });
+    const releaseRateLimit = await acquireRateLimit('openai', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: 'gpt-4o',
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a Thai-English dictionary expert. Return only valid JSON.',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: 0.3,
+          response_format: { type: 'json_object' },
+        }),
+        ...(signal ? { signal } : {}),
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'enrichMeaningsWithGPT', model: 'gpt-4o', latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
       throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
     }
 
     const data = await response.json();
+    reportUsage({ service: 'openai', operation: 'enrichMeaningsWithGPT', model: 'gpt-4o', ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     const content = data.choices[0]?.message?.content;
     if (!content) {
       throw new Error('No content in GPT response');
@@ -201,9 +217,7 @@ Ensure:
         // Explicitly exclude V3 fields (label_eng) - V2 schema is strict
       };
       
-      // #region agent log - V2 ENRICHMENT ID PRESERVATION
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeanings.ts:enrichMeaningsWithGPT',message:'V2 ENRICHMENT ID PRESERVED',data:{senseIndex:idx,originalId:sense.id?.toString(),originalIdType:typeof sense.id,enrichedId:v2Sense.id?.toString(),enrichedIdType:typeof v2Sense.id,idsMatch:sense.id?.toString() === v2Sense.id?.toString()},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V2_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('services/meanings/gptEnrichMeanings.ts:enrichMeaningsWithGPT', 'V2 ENRICHMENT ID PRESERVED', {senseIndex:idx,originalId:sense.id?.toString(),originalIdType:typeof sense.id,enrichedId:v2Sense.id?.toString(),enrichedIdType:typeof v2Sense.id,idsMatch:sense.id?.toString() === v2Sense.id?.toString()});
 
       // Validate with V2 schema (strict)
       const validated = meaningThSchemaV2.strict().safeParse(v2Sense);
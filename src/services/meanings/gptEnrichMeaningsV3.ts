@@ -20,6 +20,10 @@
 import { getOpenAIApiKey } from '../../utils/gptConfig';
 import { meaningThSchemaV3, type MeaningThV3 } from '../../schemas/meaningThSchemaV3';
 import { meaningThSchemaV2, type MeaningThV2 } from '../../schemas/meaningThSchemaV2';
+import { recordEvent } from '../telemetry/telemetry';
+import { reportUsage, extractOpenAIUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 /**
  * Validate and sanitize label_eng to ensure it's a single English word
@@ -78,6 +82,7 @@ function validateAndSanitizeLabel(label: string): string {
  * @param context.fullThaiText - Full subtitle sentence for context (optional)
  * @param context.g2p - G2P transcription (optional)
  * @param context.phonetic_en - English phonetic (optional)
+ * @param signal - Cancels the GPT request (rejects with an AbortError)
  * @returns Array of enriched sense objects matching meaningThSchemaV3
  */
 export async function enrichMeaningsWithGPTV3(
@@ -87,30 +92,25 @@ export async function enrichMeaningsWithGPTV3(
     fullThaiText?: string;
     g2p?: string;
     phonetic_en?: string;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<MeaningThV3[]> {
-  // #region agent log - V3 GPT ENRICHMENT FUNCTION ENTRY
   const sensesSample = senses.slice(0, 2).map((s: any) => ({
     id: s.id?.toString(),
     definitionTh: s.definition_th?.substring(0, 30),
     hasLabelEng: !!s.label_eng,
     hasV2Fields: !!(s.pos_th || s.pos_eng || s.definition_eng)
   }));
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT FUNCTION ENTRY',data:{textTh:context.textTh,sensesCount:senses?.length || 0,hasFullThaiText:!!context.fullThaiText,hasG2P:!!context.g2p,hasPhonetic:!!context.phonetic_en,sensesSample},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT FUNCTION ENTRY', {textTh:context.textTh,sensesCount:senses?.length || 0,hasFullThaiText:!!context.fullThaiText,hasG2P:!!context.g2p,hasPhonetic:!!context.phonetic_en,sensesSample});
   
   if (!senses || senses.length === 0) {
-    // #region agent log - V3 GPT ENRICHMENT NO SENSES
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT NO SENSES',data:{textTh:context.textTh},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT NO SENSES', {textTh:context.textTh});
     return [];
   }
 
   const apiKey = getOpenAIApiKey();
   if (!apiKey) {
-    // #region agent log - V3 GPT ENRICHMENT NO API KEY
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT NO API KEY',data:{textTh:context.textTh},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT NO API KEY', {textTh:context.textTh});
     throw new Error('OpenAI API key not configured');
   }
 
@@ -170,57 +170,57 @@ Ensure:
 - No Thai text, no explanations, no punctuation`;
 
   try {
-    // #region agent log - V3 GPT ENRICHMENT API CALL START
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT API CALL START',data:{textTh:context.textTh,sensesCount:senses.length,promptLength:prompt.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT API CALL START', {textTh:context.textTh,sensesCount:senses.length,promptLength:prompt.length});
     
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a Thai-English dictionary expert. Return only valid JSON with single English words. No Thai characters, no explanations, no punctuation.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      }),
-    });
+    const releaseRateLimit = await acquireRateLimit('openai', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: 'gpt-4o',
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a Thai-English dictionary expert. Return only valid JSON with single English words. No Thai characters, no explanations, no punctuation.',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: 0.3,
+          response_format: { type: 'json_object' },
+        }),
+        ...(signal ? { signal } : {}),
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
-    // #region agent log - V3 GPT ENRICHMENT API RESPONSE RECEIVED
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT API RESPONSE RECEIVED',data:{textTh:context.textTh,responseOk:response.ok,responseStatus:response.status},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT API RESPONSE RECEIVED', {textTh:context.textTh,responseOk:response.ok,responseStatus:response.status});
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'enrichMeaningsWithGPTV3', model: 'gpt-4o', latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
-      // #region agent log - V3 GPT ENRICHMENT API ERROR
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT API ERROR',data:{textTh:context.textTh,responseStatus:response.status,errorText:errorText.substring(0,200)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT API ERROR', {textTh:context.textTh,responseStatus:response.status,errorText:errorText.substring(0,200)}, 'warn');
       throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
     }
 
     const data = await response.json();
+    reportUsage({ service: 'openai', operation: 'enrichMeaningsWithGPTV3', model: 'gpt-4o', ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     const content = data.choices[0]?.message?.content;
     if (!content) {
-      // #region agent log - V3 GPT ENRICHMENT NO CONTENT
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT NO CONTENT',data:{textTh:context.textTh,dataKeys:Object.keys(data)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT NO CONTENT', {textTh:context.textTh,dataKeys:Object.keys(data)});
       throw new Error('No content in GPT response');
     }
     
-    // #region agent log - V3 GPT ENRICHMENT CONTENT RECEIVED
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT CONTENT RECEIVED',data:{textTh:context.textTh,contentLength:content.length,contentPreview:content.substring(0,200)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT CONTENT RECEIVED', {textTh:context.textTh,contentLength:content.length,contentPreview:content.substring(0,200)});
 
     // Parse JSON response
     let enrichedData: Array<{ label_eng: string }>;
@@ -247,14 +247,10 @@ Ensure:
       throw new Error(`Failed to parse GPT response as JSON: ${parseError}`);
     }
 
-    // #region agent log - V3 GPT ENRICHMENT PARSED DATA
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT PARSED DATA',data:{textTh:context.textTh,enrichedDataCount:enrichedData.length,expectedCount:senses.length,enrichedDataSample:enrichedData.slice(0,2).map((e:any)=>({hasLabelEng:!!e.label_eng,labelEng:e.label_eng}))},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT PARSED DATA', {textTh:context.textTh,enrichedDataCount:enrichedData.length,expectedCount:senses.length,enrichedDataSample:enrichedData.slice(0,2).map((e:any)=>({hasLabelEng:!!e.label_eng,labelEng:e.label_eng}))});
 
     if (enrichedData.length !== senses.length) {
-      // #region agent log - V3 GPT ENRICHMENT COUNT MISMATCH
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT COUNT MISMATCH',data:{textTh:context.textTh,enrichedDataCount:enrichedData.length,expectedCount:senses.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT COUNT MISMATCH', {textTh:context.textTh,enrichedDataCount:enrichedData.length,expectedCount:senses.length});
       throw new Error(`GPT returned ${enrichedData.length} meanings, expected ${senses.length}`);
     }
 
@@ -262,9 +258,7 @@ Ensure:
     const enrichedSenses: MeaningThV3[] = senses.map((sense, idx) => {
       const enriched = enrichedData[idx];
       if (!enriched) {
-        // #region agent log - V3 GPT ENRICHMENT MISSING DATA
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT MISSING DATA',data:{textTh:context.textTh,senseIndex:idx,enrichedDataLength:enrichedData.length},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT MISSING DATA', {textTh:context.textTh,senseIndex:idx,enrichedDataLength:enrichedData.length});
         throw new Error(`Missing enriched data for sense ${idx}`);
       }
 
@@ -272,17 +266,11 @@ Ensure:
       let labelEng: string | undefined;
       if (enriched.label_eng) {
         try {
-          // #region agent log - V3 GPT ENRICHMENT VALIDATING LABEL
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT VALIDATING LABEL',data:{textTh:context.textTh,senseIndex:idx,rawLabelEng:enriched.label_eng},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT VALIDATING LABEL', {textTh:context.textTh,senseIndex:idx,rawLabelEng:enriched.label_eng});
           labelEng = validateAndSanitizeLabel(enriched.label_eng);
-          // #region agent log - V3 GPT ENRICHMENT LABEL VALIDATED
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT LABEL VALIDATED',data:{textTh:context.textTh,senseIndex:idx,sanitizedLabelEng:labelEng},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT LABEL VALIDATED', {textTh:context.textTh,senseIndex:idx,sanitizedLabelEng:labelEng});
         } catch (validationError) {
-          // #region agent log - V3 GPT ENRICHMENT LABEL VALIDATION ERROR
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT LABEL VALIDATION ERROR',data:{textTh:context.textTh,senseIndex:idx,rawLabelEng:enriched.label_eng,errorMessage:validationError instanceof Error ? validationError.message : String(validationError)},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-          // #endregion
+          recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT LABEL VALIDATION ERROR', {textTh:context.textTh,senseIndex:idx,rawLabelEng:enriched.label_eng,errorMessage:validationError instanceof Error ? validationError.message : String(validationError)}, 'warn');
           throw new Error(`Invalid label_eng for sense ${idx}: ${validationError instanceof Error ? validationError.message : String(validationError)}`);
         }
       }
@@ -295,9 +283,7 @@ Ensure:
         label_eng: labelEng || undefined,
       };
       
-      // #region agent log - V3 ENRICHMENT ID PRESERVATION
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 ENRICHMENT ID PRESERVED',data:{senseIndex:idx,originalId:sense.id?.toString(),originalIdType:typeof sense.id,enrichedId:v3Sense.id?.toString(),enrichedIdType:typeof v3Sense.id,idsMatch:sense.id?.toString() === v3Sense.id?.toString(),labelEng},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 ENRICHMENT ID PRESERVED', {senseIndex:idx,originalId:sense.id?.toString(),originalIdType:typeof sense.id,enrichedId:v3Sense.id?.toString(),enrichedIdType:typeof v3Sense.id,idsMatch:sense.id?.toString() === v3Sense.id?.toString(),labelEng});
 
       // Validate with V3 schema (strict)
       const validated = meaningThSchemaV3.strict().safeParse(v3Sense);
@@ -308,15 +294,11 @@ Ensure:
       return validated.data;
     });
 
-    // #region agent log - V3 GPT ENRICHMENT FUNCTION EXIT SUCCESS
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT FUNCTION EXIT SUCCESS',data:{textTh:context.textTh,enrichedSensesCount:enrichedSenses.length,sensesWithLabelEng:enrichedSenses.filter(s=>!!s.label_eng).length,enrichedSensesSample:enrichedSenses.slice(0,2).map((s:any)=>({id:s.id?.toString(),labelEng:s.label_eng,hasLabelEng:!!s.label_eng}))},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT FUNCTION EXIT SUCCESS', {textTh:context.textTh,enrichedSensesCount:enrichedSenses.length,sensesWithLabelEng:enrichedSenses.filter(s=>!!s.label_eng).length,enrichedSensesSample:enrichedSenses.slice(0,2).map((s:any)=>({id:s.id?.toString(),labelEng:s.label_eng,hasLabelEng:!!s.label_eng}))});
 
     return enrichedSenses;
   } catch (error) {
-    // #region agent log - V3 GPT ENRICHMENT FUNCTION EXIT ERROR
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3',message:'V3 GPT ENRICHMENT FUNCTION EXIT ERROR',data:{textTh:context.textTh,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,300) : undefined},timestamp:Date.now(),runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('services/meanings/gptEnrichMeaningsV3.ts:enrichMeaningsWithGPTV3', 'V3 GPT ENRICHMENT FUNCTION EXIT ERROR', {textTh:context.textTh,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,300) : undefined}, 'warn');
     console.error('[GPT Enrich V3] Error enriching meanings:', error);
     throw error;
   }
@@ -16,6 +16,11 @@
 import { getOpenAIApiKey } from '../../utils/gptConfig';
 import { meaningThSchema, type MeaningTh } from '../../schemas/meaningThSchema';
 import { generateSenseId } from './fetchOrstMeanings';
+import { isAbortError } from '../../utils/abort';
+import { recordEvent } from '../telemetry/telemetry';
+import { reportUsage, extractOpenAIUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 export interface GPTMeaningContext {
   fullThaiText?: string;
@@ -32,11 +37,13 @@ export interface GPTMeaningContext {
  * Create sense object(s) for a Thai word using GPT with context
  * @param wordTh - Thai word to create sense for
  * @param context - Context object with subtitle text, tokens, show metadata, etc.
+ * @param signal - Cancels the GPT request (rejects with an AbortError instead of returning [])
  * @returns Array of MeaningTh objects matching meaningThSchema, or empty array on error
  */
 export async function createMeaningsWithGPT(
   wordTh: string,
-  context: GPTMeaningContext
+  context: GPTMeaningContext,
+  signal?: AbortSignal
 ): Promise<MeaningTh[]> {
   if (!wordTh || !wordTh.trim()) {
     return [];
@@ -90,31 +97,41 @@ export async function createMeaningsWithGPT(
   });
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3,
-        max_completion_tokens: 500,
-        response_format: { type: 'json_object' }
-      })
-    });
+    const releaseRateLimit = await acquireRateLimit('openai', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: 'gpt-4o',
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+          ],
+          temperature: 0.3,
+          max_completion_tokens: 500,
+          response_format: { type: 'json_object' }
+        }),
+        ...(signal ? { signal } : {})
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'createMeaningsWithGPT', model: 'gpt-4o', latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
       console.error('[GPT Meaning] API error:', response.status, errorText);
       return [];
     }
 
     const data = await response.json();
+    reportUsage({ service: 'openai', operation: 'createMeaningsWithGPT', model: 'gpt-4o', ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     const resultText = data.choices?.[0]?.message?.content?.trim() || '';
 
     if (!resultText) {
@@ -195,9 +212,7 @@ export async function createMeaningsWithGPT(
         created_at: new Date().toISOString(), // string (optional)
         word_th_id: trimmedWord, // string (optional) - link to word
       };
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptMeaning.ts:createMeaningsWithGPT',message:'Creating GPT-meaning sense with schema shape',data:{index,hasId:!!meaningData.id,hasDefinition:!!meaningData.definition_th,source:meaningData.source,hasWordThId:!!meaningData.word_th_id,schemaKeys:Object.keys(meaningData)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SCHEMA_SHAPE'})}).catch(()=>{});
-      // #endregion
+      recordEvent('gptMeaning.ts:createMeaningsWithGPT', 'Creating GPT-meaning sense with schema shape', {index,hasId:!!meaningData.id,hasDefinition:!!meaningData.definition_th,source:meaningData.source,hasWordThId:!!meaningData.word_th_id,schemaKeys:Object.keys(meaningData)});
 
       // Validate with Zod schema - strict mode ensures only schema fields
       try {
@@ -212,6 +227,9 @@ export async function createMeaningsWithGPT(
     console.log(`[GPT Meaning] Generated ${meanings.length} meaning(s) for "${trimmedWord}"`);
     return meanings;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error; // Cancelled - not a "no meanings" result
+    }
     console.error('[GPT Meaning] Error calling GPT API:', error);
     return [];
   }
@@ -15,6 +15,11 @@
 
 import { getOpenAIApiKey } from '../../utils/gptConfig';
 import { meaningThSchema, type MeaningTh } from '../../schemas/meaningThSchema';
+import { isAbortError } from '../../utils/abort';
+import { recordEvent } from '../telemetry/telemetry';
+import { reportUsage, extractOpenAIUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 /**
  * Generate a deterministic numeric ID from a word and index
@@ -50,6 +55,7 @@ function generateSenseId(textTh: string, index: number): bigint {
  * @param context.showName - Show name for context (optional)
  * @param context.episode - Episode number (optional)
  * @param context.season - Season number (optional)
+ * @param signal - Cancels the GPT request (rejects with an AbortError instead of returning the original senses)
  * @returns Array of normalized sense objects matching meaningThSchema (same shape, cleaner definition_th)
  */
 export async function normalizeSensesWithGPT(
@@ -60,12 +66,11 @@ export async function normalizeSensesWithGPT(
     showName?: string;
     episode?: number;
     season?: number;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<MeaningTh[]> {
-  // #region agent log
   const senseSources = senses.map(s => s.source || 'undefined');
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'GPT_NORMALIZE CALLED - Function entry',data:{textTh:context.textTh,senseCount:senses.length,senseSources,hasOrstSenses:senseSources.some(s=>s==='orst'||s==='ORST'),timestamp:Date.now()},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'NORMALIZE_CALLED'})}).catch(()=>{});
-  // #endregion
+  recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'GPT_NORMALIZE CALLED - Function entry', {textTh:context.textTh,senseCount:senses.length,senseSources,hasOrstSenses:senseSources.some(s=>s==='orst'||s==='ORST'),timestamp:Date.now()});
   
   // ⚠️ CRITICAL: Validate all senses with Zod schema before processing
   const validatedSenses: MeaningTh[] = [];
@@ -76,9 +81,7 @@ export async function normalizeSensesWithGPT(
     }
     validatedSenses.push(validation.data);
   }
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'NORMALIZE FUNCTION ENTRY',data:{textTh:context.textTh,senseCount:validatedSenses?.length || 0,hasSenses:!!validatedSenses && validatedSenses.length > 0,senseSources:validatedSenses?.map(s=>s.source) || []},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'NORMALIZE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'NORMALIZE FUNCTION ENTRY', {textTh:context.textTh,senseCount:validatedSenses?.length || 0,hasSenses:!!validatedSenses && validatedSenses.length > 0,senseSources:validatedSenses?.map(s=>s.source) || []});
 
   // Clean textTh: split on comma and take first word (defensive fix for comma-separated values)
   const rawTextTh = context.textTh || '';
@@ -91,9 +94,7 @@ export async function normalizeSensesWithGPT(
   const apiKey = getOpenAIApiKey();
 
   if (!apiKey) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'NORMALIZE FAILED - No API key found',data:{textTh:context.textTh,senseCount:senses.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'NORMALIZE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'NORMALIZE FAILED - No API key found', {textTh:context.textTh,senseCount:senses.length}, 'warn');
     // ⚠️ CRITICAL: Normalization is NOT an acceptable failure - throw error instead of silently returning original senses
     throw new Error(`[PROCESSING CONTRACT VIOLATION] GPT normalization failed: OpenAI API key not found. Set VITE_OPENAI_API_KEY in .env or localStorage.smartSubs_openaiApiKey. Processing stopped.`);
   }
@@ -150,22 +151,32 @@ export async function normalizeSensesWithGPT(
       response_format: { type: 'json_object' }
     };
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
+    const releaseRateLimit = await acquireRateLimit('openai', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        ...(signal ? { signal } : {})
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'normalizeSensesWithGPT', model: requestBody.model, latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
       console.warn('[WARN] GPT normalization API error:', response.status, errorText);
       return senses; // Return original senses on error
     }
 
     const data = await response.json();
+    reportUsage({ service: 'openai', operation: 'normalizeSensesWithGPT', model: requestBody.model, ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     const resultText = data.choices?.[0]?.message?.content?.trim() || '';
 
     if (!resultText) {
@@ -251,9 +262,7 @@ export async function normalizeSensesWithGPT(
         created_at: originalSense.created_at || new Date().toISOString(),
         word_th_id: originalSense.word_th_id || context.textTh, // Preserve original or use context
       };
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'Creating normalized sense with schema shape',data:{index,originalSource:originalSense.source,newSource:senseData.source,hasDefinition:!!senseData.definition_th,hasId:!!senseData.id,hasWordThId:!!senseData.word_th_id,schemaKeys:Object.keys(senseData)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SCHEMA_SHAPE'})}).catch(()=>{});
-      // #endregion
+      recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'Creating normalized sense with schema shape', {index,originalSource:originalSense.source,newSource:senseData.source,hasDefinition:!!senseData.definition_th,hasId:!!senseData.id,hasWordThId:!!senseData.word_th_id,schemaKeys:Object.keys(senseData)});
 
       // Validate with Zod schema - strict mode ensures only schema fields
       const validationResult = meaningThSchema.strict().safeParse(senseData);
@@ -274,14 +283,13 @@ export async function normalizeSensesWithGPT(
 
     // Return enhanced senses if we have any, otherwise return original
     const finalResult = enhancedSenses.length > 0 ? enhancedSenses : senses;
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'GPT normalization function returning',data:{textTh:context.textTh,enhancedCount:enhancedSenses.length,originalCount:senses.length,returningEnhanced:enhancedSenses.length > 0,returnSources:finalResult.map((s:any)=>s.source),allSourcesNormalized:finalResult.every((s:any)=>s.source === 'gpt-normalized')},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'NORMALIZE_SOURCE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'GPT normalization function returning', {textTh:context.textTh,enhancedCount:enhancedSenses.length,originalCount:senses.length,returningEnhanced:enhancedSenses.length > 0,returnSources:finalResult.map((s:any)=>s.source),allSourcesNormalized:finalResult.every((s:any)=>s.source === 'gpt-normalized')});
     return finalResult;
   } catch (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'gptNormalizeSenses.ts:normalizeSensesWithGPT',message:'GPT normalization EXCEPTION - Returning original senses',data:{textTh:context.textTh,senseCount:senses.length,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'NORMALIZE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('gptNormalizeSenses.ts:normalizeSensesWithGPT', 'GPT normalization EXCEPTION - Returning original senses', {textTh:context.textTh,senseCount:senses.length,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
+    if (isAbortError(error)) {
+      throw error; // Cancelled - not a normalization failure
+    }
     console.error('[ERROR] GPT normalization failed:', error);
     return senses; // Return original senses on error
   }
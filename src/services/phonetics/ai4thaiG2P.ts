@@ -5,13 +5,19 @@
 
 import { getAI4ThaiApiKey, AI4THAI_G2P_ENDPOINT } from '../../utils/ai4thaiConfig';
 import { sanitizeThaiText } from '../../utils/thaiTextSanitizer';
+import { ServiceError, serviceErrorFromResponse, toNetworkError } from '../serviceErrors';
+import { reportUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 /**
  * Get G2P (Grapheme-to-Phoneme) phonetic representation for Thai text
  * @param {string} textTh - Thai text to convert
- * @returns {Promise<string | null>} G2P phonetic string or null on error
+ * @param {AbortSignal} [signal] - Cancels the in-flight request (rejects with an AbortError)
+ * @returns {Promise<string | null>} G2P phonetic string or null if the input is empty or the API returned no phoneme
+ * @throws {ServiceError} On missing API key (validation), HTTP errors (classified by status) or network failures
  */
-export async function getG2P(textTh: string): Promise<string | null> {
+export async function getG2P(textTh: string, signal?: AbortSignal): Promise<string | null> {
   try {
     if (!textTh || !textTh.trim()) {
       return null;
@@ -26,8 +32,7 @@ export async function getG2P(textTh: string): Promise<string | null> {
     
     const apiKey = getAI4ThaiApiKey();
     if (!apiKey || !apiKey.trim()) {
-      console.warn('[G2P] API key is missing. Set it using: setAI4ThaiApiKey("your-key-here") or VITE_AI4THAI_API_KEY environment variable');
-      return null;
+      throw new ServiceError('ai4thai-g2p', 'validation', '[G2P] API key is missing. Set it using: setAI4ThaiApiKey("your-key-here") or VITE_AI4THAI_API_KEY environment variable');
     }
     
     const headers = {
@@ -40,12 +45,22 @@ export async function getG2P(textTh: string): Promise<string | null> {
       output_type: 'phoneme'
     });
     
-    const response = await fetch(AI4THAI_G2P_ENDPOINT, {
-      method: 'POST',
-      headers,
-      body: requestBody
-    });
+    const releaseRateLimit = await acquireRateLimit('ai4thai-g2p', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('ai4thai-g2p', AI4THAI_G2P_ENDPOINT, {
+        method: 'POST',
+        headers,
+        body: requestBody,
+        ...(signal ? { signal } : {})
+      });
+    } finally {
+      releaseRateLimit();
+    }
     
+    reportUsage({ service: 'ai4thai-g2p', operation: 'getG2P', latencyMs: Date.now() - startedAt, success: response.ok });
+
     if (!response.ok) {
       let errorText = '';
       try {
@@ -54,10 +69,15 @@ export async function getG2P(textTh: string): Promise<string | null> {
         errorText = 'Could not read error response body';
       }
       console.error(`[G2P] API error: ${response.status} ${response.statusText} - ${errorText.substring(0, 200)}`);
-      return null;
+      throw serviceErrorFromResponse('ai4thai-g2p', response, errorText);
     }
     
-    const data = await response.json();
+    let data;
+    try {
+      data = await response.json();
+    } catch (parseError) {
+      throw new ServiceError('ai4thai-g2p', 'validation', `[G2P] Invalid JSON response for "${cleanToken}"`, { cause: parseError });
+    }
     
     let phoneme = '';
     
@@ -72,6 +92,7 @@ export async function getG2P(textTh: string): Promise<string | null> {
     return phoneme.trim() || null;
   } catch (error) {
     console.error('[G2P] Error:', error);
-    return null;
+    // fetch() itself failed (offline, DNS, CORS) - classify as network
+    throw toNetworkError('ai4thai-g2p', error);
   }
 }
@@ -68,6 +68,34 @@ export async function parsePhoneticToEnglish(phonetic: string): Promise<string |
   }
 }
 
+/**
+ * Thai tones by AI4Thai tone digit (0 mid, 1 low, 2 falling, 3 high, 4 rising)
+ */
+export const THAI_TONES = ['mid', 'low', 'falling', 'high', 'rising'] as const;
+
+export type ThaiTone = typeof THAI_TONES[number];
+
+/**
+ * Split an AI4Thai G2P string into syllables and read each syllable's tone.
+ * Empty and '*' marker syllables are left out, so the result length is the syllable count.
+ *
+ * @param {string} phonetic - G2P phonetic string
+ * @returns {Array<ThaiTone | null>} Tone of each syllable in order (null when the syllable has no tone digit)
+ */
+export function parseG2PSyllableTones(phonetic: string): Array<ThaiTone | null> {
+  if (!phonetic || !phonetic.trim()) return [];
+
+  const tones: Array<ThaiTone | null> = [];
+  for (const raw of phonetic.trim().split('|')) {
+    const tokens = raw.split('-').map(t => t.trim()).filter(t => t && t !== '*');
+    if (!tokens.some(t => /[a-zA-Z@]/.test(t))) continue;
+
+    const digit = tokens.join('').match(/[0-4]/);
+    tones.push(digit ? THAI_TONES[Number(digit[0])] ?? null : null);
+  }
+  return tones;
+}
+
 /**
  * Convert beginning 'j' to 'y' sound.
  * In Thai phonetics, 'j' at the beginning of a syllable represents 'y' sound.
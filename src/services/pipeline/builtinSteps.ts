@@ -0,0 +1,198 @@
+/**
+ * Built-in Pipeline Steps
+ * Step definitions for the services shipped with SmarterSubs
+ * Registered automatically by the step registry
+ *
+ * Cacheable steps depend only on their declared inputs; the GPT steps also read
+ * context fields outside their inputSchema (word_th, g2p, phonetic_en...) and are never cached
+ * Service calls go through the run's providers (../providers/providers.ts) - live APIs unless fakes are injected
+ */
+
+import { meaningThSchema, type MeaningTh } from '../../schemas/meaningThSchema';
+import { stepIOSchemas } from '../../schemas/processingOrderSchema';
+import { parsePhoneticToEnglish } from '../phonetics/phoneticParser';
+import type { GPTMeaningContext } from '../meanings/gptMeaning';
+import { getProviders, type NormalizeSensesContext } from '../providers/providers';
+import type { StepDefinition } from './stepRegistry';
+
+/**
+ * Validate a step's meanings output - each element must match meaningThSchema
+ * Invalid elements are skipped with a warning (same tolerance as before the registry existed)
+ */
+function validateMeaningsOutput(output: unknown, label: string): MeaningTh[] {
+  if (!Array.isArray(output)) {
+    throw new Error(`Invalid ${label} output: expected array, got ${typeof output}`);
+  }
+
+  const validatedMeanings: MeaningTh[] = [];
+  for (const meaning of output) {
+    const validation = meaningThSchema.strict().safeParse(meaning);
+    if (validation.success) {
+      validatedMeanings.push(validation.data);
+    } else {
+      console.warn(`[Processing Pipeline] Skipping invalid ${label} meaning: ${validation.error.message}`);
+    }
+  }
+  return validatedMeanings;
+}
+
+export const builtinSteps: StepDefinition[] = [
+  {
+    functionName: 'buildThaiTokensFromText',
+    description: 'Tokenize Thai subtitle text into word tokens',
+    ...stepIOSchemas.buildThaiTokensFromText,
+    version: 1,
+    cacheable: true,
+    service: 'ai4thai-tokenizer',
+    execute: async (context, { signal, providers = getProviders() } = {}) => {
+      if (!context.thaiText) {
+        throw new Error('thaiText is required for tokenization');
+      }
+      const tokenStrings = await providers.tokenizer.tokenize(context.thaiText, signal);
+      const output: unknown = { tokens: tokenStrings.map(t => ({ t })) };
+      // Validate output matches expected schema: { tokens: string[] }
+      if (output && typeof output === 'object' && 'tokens' in output && Array.isArray((output as { tokens: unknown }).tokens)) {
+        return { output, patch: { tokens_th: output as { tokens: Array<{t: string, meaning_id?: bigint}> } } };
+      }
+      throw new Error(`Invalid tokenization output: expected { tokens: Array<{t: string, meaning_id?: bigint}> }, got ${typeof output}`);
+    },
+  },
+  {
+    functionName: 'getG2P',
+    description: 'Convert Thai text to G2P phonetic representation',
+    ...stepIOSchemas.getG2P,
+    version: 1,
+    cacheable: true,
+    service: 'ai4thai-g2p',
+    execute: async (context, { signal, providers = getProviders() } = {}) => {
+      if (!context.word_th) {
+        throw new Error('word_th is required for G2P');
+      }
+      const output: unknown = await providers.g2p.getG2P(context.word_th, signal);
+      // Validate output: G2P is required (not an acceptable failure)
+      // If getG2P returns null, throw error - G2P must succeed
+      if (typeof output === 'string' && output.trim().length > 0) {
+        return { output, patch: { g2p: output } };
+      }
+      throw new Error(`G2P failed for "${context.word_th}": API returned null or empty string. G2P is required and cannot be skipped.`);
+    },
+  },
+  {
+    functionName: 'parsePhoneticToEnglish',
+    description: 'Parse G2P phonetic to readable English spelling',
+    ...stepIOSchemas.parsePhoneticToEnglish,
+    // Bump when parsePhoneticToEnglish / phonetic mappings change output for the same G2P input
+    version: 1,
+    cacheable: true,
+    execute: async (context) => {
+      if (!context.g2p) {
+        throw new Error('g2p is required for phonetic parsing (dependency not satisfied)');
+      }
+      const output: unknown = await parsePhoneticToEnglish(context.g2p);
+      // Validate output: string | null -> string | undefined
+      if (typeof output === 'string') {
+        return { output, patch: { phonetic_en: output } };
+      }
+      if (output === null) {
+        return { output, patch: { phonetic_en: undefined } };
+      }
+      throw new Error(`Invalid phonetic output: expected string | null, got ${typeof output}`);
+    },
+  },
+  {
+    functionName: 'fetchOrstMeanings',
+    description: 'Fetch word meanings from ORST dictionary',
+    ...stepIOSchemas.fetchOrstMeanings,
+    version: 1,
+    cacheable: true,
+    service: 'orst',
+    execute: async (context, { signal, providers = getProviders() } = {}) => {
+      if (!context.word_th) {
+        throw new Error('word_th is required for ORST lookup');
+      }
+      const output: unknown = await providers.dictionary.lookup(context.word_th, signal);
+      return { output, patch: { orstSenses: validateMeaningsOutput(output, 'ORST') } };
+    },
+  },
+  {
+    functionName: 'normalizeSensesWithGPT',
+    description: 'Normalize and enhance senses with GPT (works with ORST or GPT-meaning output)',
+    ...stepIOSchemas.normalizeSensesWithGPT,
+    version: 1,
+    service: 'openai',
+    execute: async (context, { signal, providers = getProviders() } = {}) => {
+      // Normalize either ORST senses OR GPT-meaning senses (priority: ORST first, then GPT-meaning)
+      // Workflows gate this step with runIf so a word without senses shows up as skipped - the guard
+      // below only protects workflows that run it unconditionally
+      const sensesToNormalize = context.orstSenses && context.orstSenses.length > 0
+        ? context.orstSenses
+        : (context.gptMeanings && context.gptMeanings.length > 0
+          ? context.gptMeanings
+          : null);
+
+      if (!sensesToNormalize || sensesToNormalize.length === 0) {
+        return { output: [], patch: { normalizedSenses: [] } };
+      }
+      if (!context.word_th) {
+        throw new Error('word_th is required for GPT normalization');
+      }
+      const normalizeContext: NormalizeSensesContext = {
+        textTh: context.word_th,
+      };
+      if (context.fullThaiText !== undefined) {
+        normalizeContext.fullThaiText = context.fullThaiText;
+      }
+      if (context.showName !== undefined) {
+        normalizeContext.showName = context.showName;
+      }
+      if (context.episode !== undefined) {
+        normalizeContext.episode = context.episode;
+      }
+      if (context.season !== undefined) {
+        normalizeContext.season = context.season;
+      }
+      const output: unknown = await providers.llm.normalizeSenses(sensesToNormalize, normalizeContext, signal);
+      return { output, patch: { normalizedSenses: validateMeaningsOutput(output, 'normalized') } };
+    },
+  },
+  {
+    functionName: 'createMeaningsWithGPT',
+    description: 'Generate meanings using GPT (workflows gate it with runIf, e.g. only when ORST returns empty)',
+    ...stepIOSchemas.createMeaningsWithGPT,
+    // v2: No longer skips itself when orstSenses is set - the ORST fallback is the workflow's runIf
+    version: 2,
+    service: 'openai',
+    execute: async (context, { signal, providers = getProviders() } = {}) => {
+      if (!context.word_th) {
+        throw new Error('word_th is required for GPT-meaning');
+      }
+      const gptMeaningContext: GPTMeaningContext = {};
+      if (context.fullThaiText !== undefined) {
+        gptMeaningContext.fullThaiText = context.fullThaiText;
+      }
+      if (context.allTokens !== undefined) {
+        gptMeaningContext.allTokens = context.allTokens;
+      }
+      if (context.wordPosition !== undefined) {
+        gptMeaningContext.wordPosition = context.wordPosition;
+      }
+      if (context.showName !== undefined) {
+        gptMeaningContext.showName = context.showName;
+      }
+      if (context.episode !== undefined) {
+        gptMeaningContext.episode = context.episode;
+      }
+      if (context.season !== undefined) {
+        gptMeaningContext.season = context.season;
+      }
+      if (context.g2p !== undefined) {
+        gptMeaningContext.g2p = context.g2p;
+      }
+      if (context.phonetic_en !== undefined) {
+        gptMeaningContext.phonetic_en = context.phonetic_en;
+      }
+      const output: unknown = await providers.llm.createMeanings(context.word_th, gptMeaningContext, signal);
+      return { output, patch: { gptMeanings: validateMeaningsOutput(output, 'GPT') } };
+    },
+  },
+];
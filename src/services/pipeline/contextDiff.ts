@@ -0,0 +1,71 @@
+/**
+ * Context Diff and Provenance
+ * What each step changed in the PipelineContext, and which step produced each field of the final context
+ *
+ * - diffStepPatch: Fields a step added, changed or removed relative to the context it saw
+ * - ContextProvenance: field → the step (and external service) that last wrote it
+ * Values in diffs are the context values themselves (bigints included) - summarize before logging
+ */
+
+import type { PipelineContext } from '../../schemas/processingOrderSchema';
+import type { ServiceName } from '../../schemas/apiUsageSchema';
+
+export type ContextField = keyof PipelineContext;
+
+/**
+ * One field changed by a step
+ * - before: Value in the step's input context (absent when added)
+ * - after: Value in the step's patch (absent when removed)
+ */
+export interface ContextFieldChange {
+  field: ContextField;
+  change: 'added' | 'changed' | 'removed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Where a final context field came from
+ * - service: External service the step calls (StepDefinition.service) - absent for local steps
+ * - cached: The patch was reused from the step cache (the service was not called in this run)
+ * - settledAt: ISO timestamp of when the step settled
+ */
+export interface FieldProvenance {
+  stepName: string;
+  functionName: string;
+  service?: ServiceName;
+  cached: boolean;
+  settledAt: string;
+}
+
+export type ContextProvenance = Partial<Record<ContextField, FieldProvenance>>;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  const replacer = (_key: string, val: unknown) => (typeof val === 'bigint' ? val.toString() : val);
+  return JSON.stringify(a, replacer) === JSON.stringify(b, replacer);
+}
+
+/**
+ * Diff a step patch against the context the step received - unchanged fields are omitted
+ */
+export function diffStepPatch(input: PipelineContext, patch: Partial<PipelineContext>): ContextFieldChange[] {
+  const changes: ContextFieldChange[] = [];
+  for (const field of Object.keys(patch) as ContextField[]) {
+    const before = input[field];
+    const after = patch[field];
+    if (before === undefined && after === undefined) {
+      continue;
+    }
+    if (before === undefined) {
+      changes.push({ field, change: 'added', after });
+    } else if (after === undefined) {
+      changes.push({ field, change: 'removed', before });
+    } else if (!sameValue(before, after)) {
+      changes.push({ field, change: 'changed', before, after });
+    }
+  }
+  return changes;
+}
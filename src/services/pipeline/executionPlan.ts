@@ -0,0 +1,142 @@
+/**
+ * Execution Plan (dry run)
+ * Reports what processSubtitlesForEpisode would do for an episode - reads Supabase only,
+ * never calls AI4Thai, ORST or OpenAI
+ *
+ * Call estimates follow the selected workflow: each step's StepDefinition.service is the external service it calls.
+ * Steps with a runIf condition (GPT meanings when ORST is empty, normalize when there are senses)
+ * may be skipped, so they are reported as a min/max range. The step cache is not consulted, so estimates are upper bounds
+ */
+
+import { fetchSubtitles, fetchWord, fetchSenses } from '../../supabase/index';
+import { needsV2Enrichment, needsV3Enrichment } from '../../schemas/integrityValidation';
+import { extractUniqueTokens, MEANING_STEP_FUNCTIONS, TOKENIZE_STEP_NAME } from '../processingPipeline';
+import type { ServiceName } from '../serviceErrors';
+import { getWorkflow } from './workflows';
+import { getStepDefinition } from './stepRegistry';
+
+/**
+ * Estimated external calls for one step (or enrichment pass)
+ */
+export interface PlannedCalls {
+  stepName: string;
+  service: ServiceName;
+  min: number;
+  max: number;
+}
+
+/**
+ * Word-level findings for one unique token
+ */
+export interface PlannedWord {
+  word_th: string;
+  inWordsTh: boolean;
+  missingG2P: boolean;
+  missingPhonetic: boolean;
+  senseCount: number;
+  needsV2: boolean;
+  needsV3: boolean;
+}
+
+/**
+ * Dry-run report for an episode
+ * - subtitlesMissingTokens: Subtitle ids without tokens_th (their tokens are unknown until tokenized,
+ *   so they are NOT included in the word findings or word-step estimates)
+ * - missingWords / missingG2P / missingPhonetic / needsV2 / needsV3: word_th lists from the known tokens
+ * - calls: Per-step estimates; for workflows with meaning steps, the enrichment passes run by
+ *   Inspector Process All are listed as "enrich-v2"/"enrich-v3"
+ * - totals: calls summed per service
+ */
+export interface ExecutionPlan {
+  mediaId: string;
+  workflowName: string;
+  subtitleCount: number;
+  subtitlesMissingTokens: string[];
+  uniqueTokenCount: number;
+  words: PlannedWord[];
+  missingWords: string[];
+  missingG2P: string[];
+  missingPhonetic: string[];
+  needsV2: string[];
+  needsV3: string[];
+  calls: PlannedCalls[];
+  totals: Array<{ service: ServiceName; min: number; max: number }>;
+}
+
+/**
+ * Build the execution plan for an episode without calling any external service
+ * @param options.workflowName - Workflow to plan for (default "full")
+ */
+export async function planSubtitlesForEpisode(mediaId: string, options: { workflowName?: string } = {}): Promise<ExecutionPlan> {
+  const workflow = getWorkflow(options.workflowName);
+  console.log(`[Execution Plan] Planning workflow "${workflow.name}" for mediaId:`, mediaId);
+
+  const subtitles = await fetchSubtitles(mediaId);
+  const subtitlesMissingTokens = subtitles
+    .filter(subtitle => !subtitle.tokens_th?.tokens || subtitle.tokens_th.tokens.length === 0)
+    .map(subtitle => subtitle.id);
+  const uniqueTokens = extractUniqueTokens(subtitles);
+
+  const words: PlannedWord[] = [];
+  for (const token of uniqueTokens) {
+    const existingWord: unknown = await fetchWord(token);
+    const existingSenses = await fetchSenses(token);
+    const word = existingWord && typeof existingWord === 'object'
+      ? existingWord as { g2p?: string | null; phonetic_en?: string | null }
+      : null;
+    const hasSenses = existingSenses.length > 0;
+    const v2 = hasSenses && needsV2Enrichment(existingSenses);
+    words.push({
+      word_th: token,
+      inWordsTh: word !== null,
+      missingG2P: !word?.g2p || word.g2p.trim().length === 0,
+      missingPhonetic: !word?.phonetic_en || word.phonetic_en.trim().length === 0,
+      senseCount: existingSenses.length,
+      needsV2: v2,
+      // V3 enrichment only follows a completed V2 pass (same order as the Inspector pipeline)
+      needsV3: hasSenses && !v2 && needsV3Enrichment(existingSenses),
+    });
+  }
+
+  // processSubtitlesForEpisode runs every word step for every unique token - existing data is not skipped
+  const calls: PlannedCalls[] = [];
+  for (const step of workflow.steps) {
+    // Steps without a service (e.g. parsePhoneticToEnglish) run locally
+    const service = getStepDefinition(step.functionName)?.service;
+    if (!service) {
+      continue;
+    }
+    const count = step.name === TOKENIZE_STEP_NAME ? subtitlesMissingTokens.length : uniqueTokens.size;
+    calls.push({ stepName: step.name, service, min: step.runIf ? 0 : count, max: count });
+  }
+  if (workflow.steps.some(step => MEANING_STEP_FUNCTIONS.has(step.functionName))) {
+    const v2Count = words.filter(w => w.needsV2).length;
+    const v3Count = words.filter(w => w.needsV3).length;
+    calls.push({ stepName: 'enrich-v2', service: 'openai', min: v2Count, max: v2Count });
+    calls.push({ stepName: 'enrich-v3', service: 'openai', min: v3Count, max: v3Count });
+  }
+
+  const totals = new Map<ServiceName, { service: ServiceName; min: number; max: number }>();
+  for (const call of calls) {
+    const total = totals.get(call.service) ?? { service: call.service, min: 0, max: 0 };
+    total.min += call.min;
+    total.max += call.max;
+    totals.set(call.service, total);
+  }
+
+  return {
+    mediaId,
+    workflowName: workflow.name,
+    subtitleCount: subtitles.length,
+    subtitlesMissingTokens,
+    uniqueTokenCount: uniqueTokens.size,
+    words,
+    missingWords: words.filter(w => !w.inWordsTh).map(w => w.word_th),
+    missingG2P: words.filter(w => w.missingG2P).map(w => w.word_th),
+    missingPhonetic: words.filter(w => w.missingPhonetic).map(w => w.word_th),
+    needsV2: words.filter(w => w.needsV2).map(w => w.word_th),
+    needsV3: words.filter(w => w.needsV3).map(w => w.word_th),
+    calls,
+    totals: Array.from(totals.values()),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Step Retry Helpers
+ * Backoff and retryability decisions for step retry policies (src/schemas/retryPolicySchema.ts)
+ */
+
+import type { RetryPolicy } from '../../schemas/retryPolicySchema';
+import { ServiceError } from '../serviceErrors';
+
+/**
+ * Whether an error may be retried under a policy
+ * Only classified service errors whose class is listed in retryableErrors are retried
+ */
+export function isRetryableError(policy: RetryPolicy, error: unknown): boolean {
+  return error instanceof ServiceError && policy.retryableErrors.includes(error.errorClass);
+}
+
+/**
+ * Delay before the next attempt
+ * initialDelayMs * backoffMultiplier^(attempt - 1), capped at maxDelayMs, spread by ±jitter
+ * A Retry-After hint from a rate-limited service is honoured when it is longer (still capped)
+ * @param attempt - The attempt that just failed (1-based)
+ * @param random - Random source in [0, 1) (injectable for deterministic callers)
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  const spread = capped * policy.jitter * (random() * 2 - 1);
+  let delay = Math.max(0, capped + spread);
+
+  if (error instanceof ServiceError && error.retryAfterMs !== undefined) {
+    delay = Math.max(delay, Math.min(error.retryAfterMs, policy.maxDelayMs));
+  }
+
+  return Math.round(delay);
+}
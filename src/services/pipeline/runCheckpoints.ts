@@ -0,0 +1,184 @@
+/**
+ * Pipeline Run Checkpoints
+ * Tracks a processing run (episode + workflow) and the per-subject, per-step status of its work
+ * so an interrupted run can be resumed without re-calling AI4Thai/GPT for finished tokens
+ *
+ * Subjects are keyed as "subtitle:<id>" (tokenization) and "word:<word_th>" (word steps)
+ * Checkpoint writes for the same subject are serialized so concurrent step completions
+ * cannot overwrite each other out of order
+ */
+
+import {
+  createPipelineRun,
+  fetchPipelineRun,
+  fetchLatestPipelineRun,
+  fetchPipelineCheckpoints,
+  savePipelineCheckpoint,
+  updatePipelineRunStatus,
+} from '../../supabase/pipelineRuns';
+import type { PipelineRun, PipelineCheckpoint, PipelineCheckpointStatus, StepCheckpoint } from '../../schemas/pipelineRunSchema';
+import type { PipelineContext } from '../../schemas/processingOrderSchema';
+import type { StepResult } from '../processingPipeline';
+
+export interface PipelineRunHandle {
+  run: PipelineRun;
+  checkpoints: Map<string, PipelineCheckpoint>;
+  writeQueues: Map<string, Promise<void>>;
+}
+
+/**
+ * Where a subject stands in a (possibly resumed) run
+ * - completed: Subject finished in a previous attempt - skip it entirely
+ * - context: Last validated context snapshot (null if the subject never started)
+ * - remainingSteps: Requested steps that have not yet succeeded
+ */
+export interface ResumePoint {
+  completed: boolean;
+  context: PipelineContext | null;
+  remainingSteps: string[];
+}
+
+export function subtitleSubjectKey(subtitleId: string): string {
+  return `subtitle:${subtitleId}`;
+}
+
+export function wordSubjectKey(wordTh: string): string {
+  return `word:${wordTh}`;
+}
+
+/**
+ * Find the latest run for an episode that did not complete (failed, cancelled, or still "running" because the tab/process died)
+ */
+export async function findResumablePipelineRun(mediaId: string): Promise<PipelineRun | null> {
+  const latest = await fetchLatestPipelineRun(mediaId);
+  return latest && latest.status !== 'completed' ? latest : null;
+}
+
+/**
+ * Start a new run, or resume an existing one by id (loads its checkpoints)
+ * @throws {Error} If the run to resume does not exist or belongs to a different episode
+ */
+export async function startPipelineRun(mediaId: string, workflowName: string, resumeRunId?: string): Promise<PipelineRunHandle> {
+  if (!resumeRunId) {
+    const run = await createPipelineRun(mediaId, workflowName);
+    console.log(`[Pipeline Run] Started run ${run.id} for ${mediaId}`);
+    return { run, checkpoints: new Map(), writeQueues: new Map() };
+  }
+
+  const run = await fetchPipelineRun(resumeRunId);
+  if (!run) {
+    throw new Error(`Pipeline run ${resumeRunId} not found`);
+  }
+  if (run.media_id !== mediaId) {
+    throw new Error(`Pipeline run ${resumeRunId} belongs to "${run.media_id}", not "${mediaId}"`);
+  }
+
+  const checkpoints = await fetchPipelineCheckpoints(run.id);
+  await updatePipelineRunStatus(run.id, 'running');
+  console.log(`[Pipeline Run] Resuming run ${run.id} for ${mediaId} (${checkpoints.length} checkpoints)`);
+
+  return {
+    run: { ...run, status: 'running' },
+    checkpoints: new Map(checkpoints.map(c => [c.subject_key, c])),
+    writeQueues: new Map(),
+  };
+}
+
+/**
+ * Determine where a subject should resume
+ * Steps that failed (including acceptable failures) are retried on resume; skipped steps are settled
+ * (their runIf was evaluated against the same checkpointed context)
+ */
+export function getResumePoint(handle: PipelineRunHandle, subjectKey: string, stepNames: string[]): ResumePoint {
+  const checkpoint = handle.checkpoints.get(subjectKey);
+  if (!checkpoint) {
+    return { completed: false, context: null, remainingSteps: stepNames };
+  }
+
+  const settled = new Set(checkpoint.step_results.filter(r => r.success || r.status === 'skipped').map(r => r.stepName));
+  return {
+    completed: checkpoint.status === 'completed',
+    context: checkpoint.context ?? null,
+    remainingSteps: stepNames.filter(name => !settled.has(name)),
+  };
+}
+
+/**
+ * Queue a checkpoint write for a subject - writes for the same subject run strictly in order
+ */
+function queueCheckpointWrite(handle: PipelineRunHandle, checkpoint: PipelineCheckpoint): Promise<void> {
+  handle.checkpoints.set(checkpoint.subject_key, checkpoint);
+  const previous = handle.writeQueues.get(checkpoint.subject_key) ?? Promise.resolve();
+  const next = previous.then(() => savePipelineCheckpoint(checkpoint));
+  // Keep the queue alive after a failed write - the failure is reported to this caller only
+  handle.writeQueues.set(checkpoint.subject_key, next.catch(() => {}));
+  return next;
+}
+
+/**
+ * Record a settled step for a subject along with the subject's context snapshot after the step
+ */
+export function recordStepCheckpoint(
+  handle: PipelineRunHandle,
+  subjectKey: string,
+  result: StepResult,
+  context: PipelineContext
+): Promise<void> {
+  const existing = handle.checkpoints.get(subjectKey);
+  const stepCheckpoint: StepCheckpoint = {
+    stepName: result.stepName,
+    success: result.success,
+    status: result.status,
+    settled_at: new Date().toISOString(),
+  };
+  if (result.attempts > 0) {
+    stepCheckpoint.attempts = result.attempts;
+  }
+  if (result.error) {
+    stepCheckpoint.error = result.error.message;
+  }
+  if (result.skipReason) {
+    stepCheckpoint.skipReason = result.skipReason;
+  }
+
+  return queueCheckpointWrite(handle, {
+    run_id: handle.run.id,
+    subject_key: subjectKey,
+    status: 'in_progress',
+    step_results: [
+      ...(existing?.step_results ?? []).filter(r => r.stepName !== result.stepName),
+      stepCheckpoint,
+    ],
+    context,
+  });
+}
+
+/**
+ * Mark a subject as completed or failed (optionally replacing its context snapshot)
+ */
+export function markSubjectCheckpoint(
+  handle: PipelineRunHandle,
+  subjectKey: string,
+  status: PipelineCheckpointStatus,
+  context?: PipelineContext
+): Promise<void> {
+  const existing = handle.checkpoints.get(subjectKey);
+  return queueCheckpointWrite(handle, {
+    run_id: handle.run.id,
+    subject_key: subjectKey,
+    status,
+    step_results: existing?.step_results ?? [],
+    context: context ?? existing?.context ?? null,
+  });
+}
+
+/**
+ * Finish a run - waits for pending checkpoint writes before updating the run status
+ */
+export async function finishPipelineRun(handle: PipelineRunHandle, status: 'completed' | 'failed' | 'cancelled', error?: unknown): Promise<void> {
+  await Promise.all(handle.writeQueues.values());
+  const errorMessage = error === undefined ? undefined : (error instanceof Error ? error.message : String(error));
+  await updatePipelineRunStatus(handle.run.id, status, errorMessage);
+  handle.run = { ...handle.run, status };
+  console.log(`[Pipeline Run] Run ${handle.run.id} ${status}`);
+}
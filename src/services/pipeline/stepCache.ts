@@ -0,0 +1,235 @@
+/**
+ * Step Output Cache
+ * Content-addressed cache consulted by the pipeline engine before running a cacheable step
+ *
+ * Key: "<functionName>@v<version>:<sha256 of the step's declared inputs>"
+ * - Declared inputs are the keys of the step's inputSchema, read from the context the step would see
+ * - Bumping StepDefinition.version changes every key of that step only - its old entries are never read again
+ *
+ * Backends share one entry shape (stepCacheEntrySchema) and are stacked by createTieredStepCache:
+ * memory → IndexedDB (browser) → Supabase step_cache table
+ */
+
+import { z } from 'zod';
+import { stepCacheEntrySchema, type StepCacheEntry } from '../../schemas/stepCacheSchema';
+import type { PipelineContext } from '../../schemas/processingOrderSchema';
+import { fetchStepCacheEntry, saveStepCacheEntry } from '../../supabase/stepCache';
+import { toJsonSafe } from '../../utils/jsonSafe';
+
+export interface StepCacheBackend {
+  name: string;
+  get(cacheKey: string): Promise<StepCacheEntry | null>;
+  set(entry: StepCacheEntry): Promise<void>;
+}
+
+/**
+ * Serialize a value with sorted object keys so logically equal inputs hash identically
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(toJsonSafe(value), (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return val;
+  }) ?? 'null';
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Pick the context fields a step declares as inputs
+ * Falls back to the whole context when the inputSchema is not an object schema
+ */
+export function pickDeclaredInputs(inputSchema: z.ZodSchema, context: PipelineContext): Record<string, unknown> {
+  if (!(inputSchema instanceof z.ZodObject)) {
+    return { ...context };
+  }
+  const declared: Record<string, unknown> = {};
+  for (const key of Object.keys(inputSchema.shape)) {
+    const value = (context as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      declared[key] = value;
+    }
+  }
+  return declared;
+}
+
+/**
+ * Compute the cache key and input hash for a step run
+ */
+export async function computeStepCacheKey(
+  functionName: string,
+  version: number,
+  inputSchema: z.ZodSchema,
+  context: PipelineContext
+): Promise<{ cacheKey: string; inputHash: string }> {
+  const inputHash = await sha256Hex(canonicalJson(pickDeclaredInputs(inputSchema, context)));
+  return { cacheKey: `${functionName}@v${version}:${inputHash}`, inputHash };
+}
+
+/**
+ * Build a validated, JSON-safe cache entry
+ */
+export function createStepCacheEntry(
+  functionName: string,
+  version: number,
+  key: { cacheKey: string; inputHash: string },
+  output: unknown,
+  patch: Partial<PipelineContext>
+): StepCacheEntry {
+  return stepCacheEntrySchema.parse({
+    cache_key: key.cacheKey,
+    function_name: functionName,
+    step_version: version,
+    input_hash: key.inputHash,
+    output: toJsonSafe(output),
+    patch: toJsonSafe(patch),
+    created_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * In-memory backend (per page/process) - oldest entries are evicted beyond maxEntries
+ */
+export function createMemoryStepCache(maxEntries = 5000): StepCacheBackend {
+  const entries = new Map<string, StepCacheEntry>();
+  return {
+    name: 'memory',
+    async get(cacheKey) {
+      return entries.get(cacheKey) ?? null;
+    },
+    async set(entry) {
+      entries.delete(entry.cache_key);
+      entries.set(entry.cache_key, entry);
+      if (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) {
+          entries.delete(oldestKey);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * IndexedDB backend (browser only) - survives reloads
+ * Entries are re-validated on read; invalid entries count as misses
+ */
+export function createIndexedDBStepCache(dbName = 'smartsubs-step-cache', storeName = 'entries'): StepCacheBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, { keyPath: 'cache_key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error(`Failed to open IndexedDB "${dbName}"`));
+      });
+    }
+    return dbPromise;
+  };
+
+  const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  };
+
+  return {
+    name: 'indexeddb',
+    async get(cacheKey) {
+      const row: unknown = await runRequest('readonly', store => store.get(cacheKey));
+      if (row === undefined) {
+        return null;
+      }
+      const validation = stepCacheEntrySchema.safeParse(row);
+      return validation.success ? validation.data : null;
+    },
+    async set(entry) {
+      await runRequest('readwrite', store => store.put({
+        ...entry,
+        output: toJsonSafe(entry.output),
+        patch: toJsonSafe(entry.patch),
+      }));
+    },
+  };
+}
+
+/**
+ * Supabase backend - shared across browsers, the extension and Node scripts
+ */
+export function createSupabaseStepCache(): StepCacheBackend {
+  return {
+    name: 'supabase',
+    get: fetchStepCacheEntry,
+    set: saveStepCacheEntry,
+  };
+}
+
+/**
+ * Stack backends fastest-first
+ * get: first hit wins and is copied into the faster tiers above it
+ * set: written to every tier
+ * A failing tier is logged and skipped - the cache never fails a step
+ */
+export function createTieredStepCache(tiers: StepCacheBackend[]): StepCacheBackend {
+  return {
+    name: tiers.map(t => t.name).join('+'),
+    async get(cacheKey) {
+      for (let i = 0; i < tiers.length; i++) {
+        const tier = tiers[i];
+        if (!tier) {
+          continue;
+        }
+        try {
+          const entry = await tier.get(cacheKey);
+          if (entry) {
+            await Promise.all(tiers.slice(0, i).map(faster => faster.set(entry).catch(() => {})));
+            return entry;
+          }
+        } catch (error) {
+          console.warn(`[Step Cache] ${tier.name} lookup failed for ${cacheKey}:`, error);
+        }
+      }
+      return null;
+    },
+    async set(entry) {
+      await Promise.all(tiers.map(tier => tier.set(entry).catch(error => {
+        console.warn(`[Step Cache] ${tier.name} write failed for ${entry.cache_key}:`, error);
+      })));
+    },
+  };
+}
+
+let defaultStepCache: StepCacheBackend | null = null;
+
+/**
+ * Cache used by executeStepsFromSchema when no cache option is passed
+ * Defaults to memory + IndexedDB (when available); the Supabase tier is opt-in via setDefaultStepCache
+ */
+export function getDefaultStepCache(): StepCacheBackend {
+  if (!defaultStepCache) {
+    const tiers = [createMemoryStepCache()];
+    if (typeof indexedDB !== 'undefined') {
+      tiers.push(createIndexedDBStepCache());
+    }
+    defaultStepCache = createTieredStepCache(tiers);
+  }
+  return defaultStepCache;
+}
+
+/**
+ * Replace the default cache (e.g. createTieredStepCache([memory, indexedDB, supabase]))
+ */
+export function setDefaultStepCache(cache: StepCacheBackend): void {
+  defaultStepCache = cache;
+}
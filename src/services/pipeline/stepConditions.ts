@@ -0,0 +1,69 @@
+/**
+ * Step Conditions
+ * Evaluates declarative runIf predicates (src/schemas/stepConditionSchema.ts) against a step's input context
+ */
+
+import type { PipelineContext } from '../../schemas/processingOrderSchema';
+import type { StepCondition } from '../../schemas/stepConditionSchema';
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length === 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return false;
+}
+
+/**
+ * Evaluate a condition - true means the step runs
+ */
+export function evaluateStepCondition(condition: StepCondition, context: PipelineContext): boolean {
+  if ('all' in condition) {
+    return condition.all.every(c => evaluateStepCondition(c, context));
+  }
+  if ('any' in condition) {
+    return condition.any.some(c => evaluateStepCondition(c, context));
+  }
+  if ('not' in condition) {
+    return !evaluateStepCondition(condition.not, context);
+  }
+
+  const value = (context as Record<string, unknown>)[condition.field];
+  if ('equals' in condition) {
+    return value === condition.equals;
+  }
+  switch (condition.is) {
+    case 'empty':
+      return isEmptyValue(value);
+    case 'notEmpty':
+      return !isEmptyValue(value);
+    case 'present':
+      return value !== undefined && value !== null;
+    case 'absent':
+      return value === undefined || value === null;
+  }
+}
+
+/**
+ * Human-readable form of a condition, e.g. "orstSenses is empty" - used as the skip reason
+ */
+export function describeStepCondition(condition: StepCondition): string {
+  if ('all' in condition) {
+    return condition.all.map(c => `(${describeStepCondition(c)})`).join(' and ');
+  }
+  if ('any' in condition) {
+    return condition.any.map(c => `(${describeStepCondition(c)})`).join(' or ');
+  }
+  if ('not' in condition) {
+    return `not (${describeStepCondition(condition.not)})`;
+  }
+  if ('equals' in condition) {
+    return `${condition.field} equals ${JSON.stringify(condition.equals)}`;
+  }
+  return `${condition.field} is ${condition.is === 'notEmpty' ? 'not empty' : condition.is}`;
+}
@@ -0,0 +1,125 @@
+/**
+ * Step Registry
+ * Maps step function names to typed step definitions (input/output schemas + executor)
+ * The processing pipeline looks steps up here instead of dispatching through a hardcoded switch
+ *
+ * ⚠️ SCHEMA ENFORCEMENT: Every registered step (built-in or runtime-registered) goes through
+ * stepDefinitionSchema on registration, and its context patch is validated against
+ * pipelineContextSchema by the engine after execution - no step can bypass the context contract
+ */
+
+import { z } from 'zod';
+import { type PipelineContext } from '../../schemas/processingOrderSchema';
+import { serviceNameSchema, type ServiceName } from '../../schemas/apiUsageSchema';
+import type { Providers } from '../providers/providers';
+import { builtinSteps } from './builtinSteps';
+
+/**
+ * Result of running a step executor
+ * - output: Raw step output (unknown until validated - kept for StepResult reporting)
+ * - patch: Context fields the step adds or changes (merged into the pipeline context by the engine)
+ */
+export interface StepExecution {
+  output: unknown;
+  patch: Partial<PipelineContext>;
+}
+
+/**
+ * Options passed to a step executor
+ * - signal: Aborted when the run is cancelled - executors pass it to every service call they make
+ * - providers: Tokenizer / G2P / dictionary / LLM the step calls (default getProviders())
+ */
+export interface StepExecutionOptions {
+  signal?: AbortSignal;
+  providers?: Providers;
+}
+
+/**
+ * Step definition
+ * - functionName: Name referenced by ProcessingStep.functionName in workflow definitions
+ * - inputSchema: Zod schema declaring the context fields the step reads
+ * - outputSchema: Zod schema declaring the context shape the step produces
+ * - version: Bump whenever the step's output for the same inputs changes (invalidates its cache entries)
+ * - cacheable: Output depends only on the inputSchema fields - the engine may reuse a cached patch (stepCache.ts)
+ * - service: External service the step calls - the engine checks the usage budget before running it (usageLedger.ts)
+ * - execute: Executor receiving a copy of the current pipeline context (and the run's abort signal)
+ */
+export interface StepDefinition {
+  functionName: string;
+  description?: string;
+  inputSchema: z.ZodSchema;
+  outputSchema: z.ZodSchema;
+  version: number;
+  cacheable?: boolean;
+  service?: ServiceName;
+  execute: (context: PipelineContext, options?: StepExecutionOptions) => Promise<StepExecution>;
+}
+
+/**
+ * Step definition schema - validates definitions at registration time
+ */
+export const stepDefinitionSchema = z.object({
+  functionName: z.string().min(1, 'Step functionName is required'),
+  description: z.string().optional(),
+  inputSchema: z.custom<z.ZodSchema>((val) => val instanceof z.ZodSchema, {
+    message: 'inputSchema must be a Zod schema',
+  }),
+  outputSchema: z.custom<z.ZodSchema>((val) => val instanceof z.ZodSchema, {
+    message: 'outputSchema must be a Zod schema',
+  }),
+  version: z.number().int().min(1, 'Step version must be a positive integer'),
+  cacheable: z.boolean().optional(),
+  service: serviceNameSchema.optional(),
+  execute: z.custom<StepDefinition['execute']>((val) => typeof val === 'function', {
+    message: 'execute must be a function',
+  }),
+}).strict();
+
+const registry = new Map<string, StepDefinition>();
+
+/**
+ * Register a step definition
+ * Throws if the definition is invalid or the functionName is already registered (unless replace is set)
+ * @param definition - Step definition to register
+ * @param options.replace - Allow overriding an existing definition (e.g. experimental variant of a built-in)
+ */
+export function registerStep(definition: StepDefinition, options: { replace?: boolean } = {}): void {
+  const validation = stepDefinitionSchema.safeParse(definition);
+  if (!validation.success) {
+    throw new Error(`Invalid step definition "${definition?.functionName}": ${validation.error.message}`);
+  }
+
+  if (registry.has(definition.functionName) && !options.replace) {
+    throw new Error(`Step "${definition.functionName}" is already registered`);
+  }
+
+  registry.set(definition.functionName, definition);
+}
+
+/**
+ * Remove a step definition from the registry
+ * @returns true if a definition was removed
+ */
+export function unregisterStep(functionName: string): boolean {
+  return registry.delete(functionName);
+}
+
+/**
+ * Look up a step definition by function name
+ * @returns Step definition or undefined if not registered
+ */
+export function getStepDefinition(functionName: string): StepDefinition | undefined {
+  return registry.get(functionName);
+}
+
+/**
+ * List all registered step function names
+ */
+export function getRegisteredStepNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+// Built-in steps are always available
+for (const step of builtinSteps) {
+  registerStep(step);
+}
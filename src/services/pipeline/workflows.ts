@@ -0,0 +1,154 @@
+/**
+ * Workflow Registry
+ * Named processing orders loaded from declarative JSON definitions (src/workflows/*.json)
+ *
+ * ⚠️ SCHEMA ENFORCEMENT: A definition is validated with workflowDefinitionSchema, every functionName
+ * must resolve in the step registry (which supplies the step's input/output schemas), and the resolved
+ * workflow must pass processingOrderSchema (missing dependencies, cycles) before it can be used
+ */
+
+import { processingOrderSchema, type ProcessingOrder, type ProcessingStep } from '../../schemas/processingOrderSchema';
+import { workflowDefinitionSchema } from '../../schemas/workflowDefinitionSchema';
+import { RETRY_POLICY_PRESETS } from '../../schemas/retryPolicySchema';
+import { getStepDefinition } from './stepRegistry';
+import fullWorkflow from '../../workflows/full.json';
+import tokenizeOnlyWorkflow from '../../workflows/tokenize-only.json';
+import phoneticsOnlyWorkflow from '../../workflows/phonetics-only.json';
+import meaningsRefreshWorkflow from '../../workflows/meanings-refresh.json';
+
+export const DEFAULT_WORKFLOW_NAME = 'full';
+
+/**
+ * Names used before workflows were defined in JSON - runs recorded under them still resume
+ */
+const LEGACY_WORKFLOW_NAMES: Record<string, string> = {
+  episode_processing: DEFAULT_WORKFLOW_NAME,
+};
+
+const workflows = new Map<string, { workflow: ProcessingOrder; description?: string }>();
+
+/**
+ * Load a workflow definition (parsed JSON) into a validated processing order
+ * @param source - Where the definition came from (used in error messages)
+ * @throws {Error} If the definition is invalid, references an unregistered step function,
+ *   or the resolved processing order fails validation
+ */
+export function loadWorkflowDefinition(definition: unknown, source = 'workflow definition'): ProcessingOrder {
+  const validation = workflowDefinitionSchema.safeParse(definition);
+  if (!validation.success) {
+    throw new Error(`Invalid ${source}: ${validation.error.message}`);
+  }
+
+  const unknownFunctions: string[] = [];
+  const steps: ProcessingStep[] = [];
+  for (const step of validation.data.steps) {
+    const stepDefinition = getStepDefinition(step.functionName);
+    if (!stepDefinition) {
+      unknownFunctions.push(step.functionName);
+      continue;
+    }
+
+    const resolved: ProcessingStep = {
+      name: step.name,
+      functionName: step.functionName,
+      dependsOn: step.dependsOn,
+      acceptableFailure: step.acceptableFailure ?? false,
+      inputSchema: stepDefinition.inputSchema,
+      outputSchema: stepDefinition.outputSchema,
+    };
+    if (step.description !== undefined) {
+      resolved.description = step.description;
+    }
+    if (step.retryPolicy !== undefined) {
+      resolved.retryPolicy = typeof step.retryPolicy === 'string' ? RETRY_POLICY_PRESETS[step.retryPolicy] : step.retryPolicy;
+    }
+    if (step.runIf !== undefined) {
+      resolved.runIf = step.runIf;
+    }
+    steps.push(resolved);
+  }
+
+  if (unknownFunctions.length > 0) {
+    throw new Error(`Invalid ${source}: unregistered step function(s) ${unknownFunctions.map(f => `"${f}"`).join(', ')}`);
+  }
+
+  const processingOrder = processingOrderSchema.safeParse({ name: validation.data.name, steps });
+  if (!processingOrder.success) {
+    throw new Error(`Invalid ${source}: ${processingOrder.error.message}`);
+  }
+  return processingOrder.data;
+}
+
+/**
+ * Register a workflow from a definition (validated with loadWorkflowDefinition)
+ * Throws if the name is already registered (unless replace is set)
+ * @returns The validated processing order
+ */
+export function registerWorkflow(definition: unknown, options: { replace?: boolean } = {}): ProcessingOrder {
+  const workflow = loadWorkflowDefinition(definition);
+  if (workflows.has(workflow.name) && !options.replace) {
+    throw new Error(`Workflow "${workflow.name}" is already registered`);
+  }
+
+  const description = workflowDefinitionSchema.parse(definition).description;
+  workflows.set(workflow.name, description !== undefined ? { workflow, description } : { workflow });
+  return workflow;
+}
+
+/**
+ * Canonical name for a workflow name (maps legacy names, e.g. from older pipeline runs)
+ */
+export function resolveWorkflowName(name: string): string {
+  return LEGACY_WORKFLOW_NAMES[name] ?? name;
+}
+
+/**
+ * Look up a workflow by name
+ * @throws {Error} If no workflow is registered under the name
+ */
+export function getWorkflow(name: string = DEFAULT_WORKFLOW_NAME): ProcessingOrder {
+  const entry = workflows.get(resolveWorkflowName(name));
+  if (!entry) {
+    throw new Error(`Unknown workflow "${name}" (available: ${getWorkflowNames().join(', ')})`);
+  }
+  return entry.workflow;
+}
+
+/**
+ * List registered workflows (name + description) in registration order
+ */
+export function listWorkflows(): Array<{ name: string; description?: string }> {
+  return Array.from(workflows.values()).map(({ workflow, description }) =>
+    description !== undefined ? { name: workflow.name, description } : { name: workflow.name }
+  );
+}
+
+/**
+ * List registered workflow names in registration order
+ */
+export function getWorkflowNames(): string[] {
+  return Array.from(workflows.keys());
+}
+
+/**
+ * Return the default processing order (the "full" workflow)
+ * Kept for callers written before workflows could be picked by name
+ */
+export function getValidatedProcessingOrder(): ProcessingOrder {
+  return getWorkflow(DEFAULT_WORKFLOW_NAME);
+}
+
+// Built-in workflows are validated once at startup - an invalid JSON file fails loudly here
+for (const [file, definition] of [
+  ['full.json', fullWorkflow],
+  ['tokenize-only.json', tokenizeOnlyWorkflow],
+  ['phonetics-only.json', phoneticsOnlyWorkflow],
+  ['meanings-refresh.json', meaningsRefreshWorkflow],
+] as const) {
+  try {
+    registerWorkflow(definition);
+  } catch (error) {
+    console.error(`[Workflows] ✗ Built-in workflow ${file} failed validation:`, error);
+    throw error;
+  }
+}
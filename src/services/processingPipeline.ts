@@ -2,29 +2,95 @@
  * Processing Pipeline
  * Defines shape and functions to execute using Zod schemas
  * Executes steps directly from Zod schema - no workflow coordinator needed
+ * Step functions are resolved through the step registry (./pipeline/stepRegistry)
  */
 
-import { fetchSubtitles, saveSubtitlesBatch, saveWordData } from '../supabase/index';
+import { fetchSubtitles, saveSubtitlesBatch, saveWordData, type WordDataToSave } from '../supabase/index';
 import { subtitleThSchema } from '../schemas/subtitleThSchema';
-import { meaningThSchema } from '../schemas/meaningThSchema';
-import { getValidatedProcessingOrder, type ProcessingOrder, type ProcessingStep, type PipelineContext, pipelineContextSchema } from '../schemas/processingOrderSchema';
-import { buildThaiTokensFromText } from './tokenization/ai4thaiTokenizer';
-import { getG2P } from './phonetics/ai4thaiG2P';
-import { parsePhoneticToEnglish } from './phonetics/phoneticParser';
-import { fetchOrstMeanings } from './meanings/fetchOrstMeanings';
-import { normalizeSensesWithGPT } from './meanings/gptNormalizeSenses';
-import { createMeaningsWithGPT } from './meanings/gptMeaning';
+import { type ProcessingOrder, type ProcessingStep, type PipelineContext, pipelineContextSchema } from '../schemas/processingOrderSchema';
+import { NO_RETRY_POLICY, type ServiceErrorClass } from '../schemas/retryPolicySchema';
+import { getStepDefinition, type StepExecution } from './pipeline/stepRegistry';
+import { getWorkflow, resolveWorkflowName } from './pipeline/workflows';
+import { isRetryableError, computeRetryDelay } from './pipeline/retry';
+import { getServiceErrorClass } from './serviceErrors';
+import { resolveProviders, usesLiveProviders, type Providers } from './providers/providers';
+import { computeStepCacheKey, createStepCacheEntry, getDefaultStepCache, pickDeclaredInputs, type StepCacheBackend } from './pipeline/stepCache';
+import { abortableSleep, getAbortError, isAbortError, throwIfAborted } from '../utils/abort';
+import { fetchPipelineRun } from '../supabase/pipelineRuns';
+import type { StepStatus } from '../schemas/pipelineRunSchema';
+import { evaluateStepCondition, describeStepCondition } from './pipeline/stepConditions';
+import { diffStepPatch, type ContextFieldChange, type ContextProvenance } from './pipeline/contextDiff';
+import {
+  startPipelineRun,
+  findResumablePipelineRun,
+  getResumePoint,
+  recordStepCheckpoint,
+  markSubjectCheckpoint,
+  finishPipelineRun,
+  subtitleSubjectKey,
+  wordSubjectKey,
+  type PipelineRunHandle,
+} from './pipeline/runCheckpoints';
+import { recordEvent, startSpan, isTelemetryEnabled, summarizeFields, type Span } from './telemetry/telemetry';
+import { fetchUsageForEpisode } from '../supabase/apiUsage';
+import type { UsageBudget } from '../schemas/apiUsageSchema';
+import {
+  activateUsageLedger,
+  createUsageLedger,
+  getDefaultUsageBudget,
+  isBudgetExceededError,
+  type UsageLedger,
+} from './usage/usageLedger';
 
 /**
  * Step execution result
+ * - status: succeeded | failed | skipped (runIf was false - the step did not run and produced no patch)
+ * - success: status === 'succeeded'
+ * - attempts: Number of times the step ran (> 1 when its retry policy kicked in, 0 when skipped)
+ * - errorClass: Classification of the final error (only for classified service errors)
+ * - cached: The patch came from the step cache instead of running the step
+ * - skipReason: Why a skipped step did not run (its runIf condition)
+ * - diff: Context fields the step added, changed or removed (succeeded steps only)
  */
 export interface StepResult {
   stepName: string;
+  status: StepStatus;
   success: boolean;
+  attempts: number;
   output?: unknown; // Must be validated with Zod before use - no any types allowed
   error?: Error;
+  errorClass?: ServiceErrorClass;
+  cached?: boolean;
+  skipReason?: string;
+  diff?: ContextFieldChange[];
 }
 
+/**
+ * Options for executeStepsFromSchema
+ * - concurrency: Maximum number of independent steps running at once (default DEFAULT_STEP_CONCURRENCY)
+ * - onStepSettled: Called after each step succeeds or fails, before dependents are scheduled
+ *   (patch is only present on success). Used to checkpoint progress - if it throws, the workflow stops
+ * - signal: Cancels the workflow - no new steps start, in-flight service calls are aborted, and the
+ *   call rejects with an AbortError once running steps have settled
+ * - cache: Step cache for cacheable steps (default getDefaultStepCache(), null disables caching)
+ * - span: Telemetry span the step spans are nested under (e.g. the word being processed)
+ * - ledger: Usage ledger whose budget is checked before every step that calls a service (StepDefinition.service)
+ *   A BudgetExceededError stops the workflow like a cancellation - it is never retried or an acceptable failure
+ * - providers: Overrides of the default providers (getProviders()) for this run - a run with any non-live
+ *   provider (e.g. fakes) never reads or writes the step cache
+ */
+export interface PipelineExecutionOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  cache?: StepCacheBackend | null;
+  span?: Span;
+  ledger?: UsageLedger;
+  providers?: Partial<Providers>;
+  onStepSettled?: (result: StepResult, patch?: Partial<PipelineContext>) => void | Promise<void>;
+}
+
+export const DEFAULT_STEP_CONCURRENCY = 4;
+
 /**
  * Topologically sort workflow steps based on dependencies
  * Returns steps in execution order (dependencies first)
@@ -61,17 +127,43 @@ function topologicalSortSteps(steps: ProcessingStep[]): ProcessingStep[] {
   return result;
 }
 
+/**
+ * Collect all transitive dependencies of a step (not including the step itself)
+ */
+function collectDependencyClosure(stepName: string, steps: ProcessingStep[]): Set<string> {
+  const stepMap = new Map(steps.map(s => [s.name, s]));
+  const closure = new Set<string>();
+  const stack = [...(stepMap.get(stepName)?.dependsOn ?? [])];
+
+  while (stack.length > 0) {
+    const dep = stack.pop();
+    if (dep === undefined || closure.has(dep)) {
+      continue;
+    }
+    closure.add(dep);
+    stack.push(...(stepMap.get(dep)?.dependsOn ?? []));
+  }
+
+  return closure;
+}
+
 /**
  * Execute workflow steps directly from Zod schema
- * Reads schema, sorts steps, executes functions, validates context with Zod
+ * Reads schema, sorts steps, executes registered step functions, validates context with Zod
+ * Steps whose dependencies have settled run concurrently (up to options.concurrency)
+ * A failing step is retried according to its retryPolicy before it counts as failed
+ * Each step sees the base context plus its dependencies' patches; the final context merges
+ * every step patch in topological order so concurrent runs produce the same result as serial ones
  */
 export async function executeStepsFromSchema(
   workflow: ProcessingOrder,
   context: PipelineContext, // TODO: Change to SeededInput branded type
-  stepFilter?: string[]
+  stepFilter?: string[],
+  options: PipelineExecutionOptions = {}
 ): Promise<{
   results: StepResult[];
   finalContext: PipelineContext; // TODO: Change to ProcessedContext branded type
+  provenance: ContextProvenance; // Fields written by this execution's steps - absent fields came from the initial context
 }> {
   // Safety check: ensure workflow has required properties
   if (!workflow || !workflow.name || !Array.isArray(workflow.steps)) {
@@ -86,13 +178,13 @@ export async function executeStepsFromSchema(
   // ⚠️ CRITICAL: Validate initial context with strict schema - context is unknown until validated
   const validatedContext = pipelineContextSchema.strict().safeParse(context);
   if (!validatedContext.success) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'processingPipeline.ts:executeStepsFromSchema',message:'EJECT - Initial context validation failed, stopping pipeline',data:{workflowName:workflow.name,validationErrors:validatedContext.error.errors,contextKeys:context && typeof context === 'object' ? Object.keys(context) : 'invalid'},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-    // #endregion
+    recordEvent('processingPipeline.ts:executeStepsFromSchema', 'EJECT - Initial context validation failed, stopping pipeline', {workflowName:workflow.name,validationErrors:validatedContext.error.errors,contextKeys:context && typeof context === 'object' ? Object.keys(context) : 'invalid'}, 'warn');
     console.error(`[Processing Pipeline] ✗ Invalid pipeline context:`, validatedContext.error.errors);
     throw new Error(`Invalid pipeline context: ${validatedContext.error.message}`);
   }
 
+  throwIfAborted(options.signal);
+
   // Get steps in execution order (topological sort)
   const orderedSteps = topologicalSortSteps(workflow.steps);
 
@@ -102,296 +194,310 @@ export async function executeStepsFromSchema(
     : orderedSteps;
 
 
-  const results: StepResult[] = [];
-  let executionContext: PipelineContext = { ...validatedContext.data };
-  let previousStepContext: PipelineContext = { ...validatedContext.data }; // Track previous step context for comparison
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_STEP_CONCURRENCY));
+  const baseContext: PipelineContext = { ...validatedContext.data };
+  const scheduledNames = new Set(stepsToExecute.map(s => s.name));
+  const settledResults = new Map<string, StepResult>();
+  const patches = new Map<string, Partial<PipelineContext>>();
+  const settledAt = new Map<string, string>();
+  const running = new Map<string, Promise<void>>();
+  const pending = [...stepsToExecute];
+  const providers = resolveProviders(options.providers);
+  const stepCache = !usesLiveProviders(providers) ? null : (options.cache === undefined ? getDefaultStepCache() : options.cache);
+  let fatalError: unknown = null;
+
+  /**
+   * Build the context a step sees: base context + patches of its (transitive) dependencies,
+   * merged in topological order so the result never depends on completion timing
+   */
+  const buildStepInput = (step: ProcessingStep): PipelineContext => {
+    const dependencyNames = collectDependencyClosure(step.name, workflow.steps);
+    let input: PipelineContext = { ...baseContext };
+    for (const orderedStep of orderedSteps) {
+      const patch = patches.get(orderedStep.name);
+      if (patch && dependencyNames.has(orderedStep.name)) {
+        input = { ...input, ...patch };
+      }
+    }
+    return input;
+  };
 
-  // Execute steps in order
-  for (let i = 0; i < stepsToExecute.length; i++) {
-    const step = stepsToExecute[i];
-    if (!step) {
-      throw new Error(`Step at index ${i} is undefined`);
+  /**
+   * Validate a step patch against the context contract and the step's outputSchema
+   * @returns The patch as parsed by the context schema - cached patches come back JSON-safe (bigint ids as strings)
+   * and are coerced here, so cached and fresh runs hand dependent steps the same values
+   */
+  const validateStepPatch = (step: ProcessingStep, inputContext: PipelineContext, patch: Partial<PipelineContext>): Partial<PipelineContext> => {
+    const stepContext: PipelineContext = { ...inputContext, ...patch };
+
+    // ⚠️ CRITICAL: Validate context after step execution with strict schema
+    // Also validate step output matches outputSchema
+    const stepValidatedContext = pipelineContextSchema.strict().safeParse(stepContext);
+    if (!stepValidatedContext.success) {
+      console.error(`[Processing Pipeline] ✗ Step "${step.name}" produced invalid context:`, stepValidatedContext.error.errors);
+      throw new Error(`Step "${step.name}" produced invalid context: ${stepValidatedContext.error.message}`);
     }
-    // Safety check: ensure executionContext is an object
-    if (!executionContext || typeof executionContext !== 'object') {
-      throw new Error(`Invalid executionContext at step "${step.name}": expected object, got ${typeof executionContext}`);
+    
+    // Validate step output matches outputSchema (if defined)
+    if (step.outputSchema) {
+      const outputValidation = step.outputSchema.safeParse(stepContext);
+      if (!outputValidation.success) {
+        console.error(`[Processing Pipeline] ✗ Step "${step.name}" output validation failed:`, outputValidation.error.errors);
+        throw new Error(`Step "${step.name}" output validation failed: ${outputValidation.error.message}`);
+      }
     }
 
-    try {
-      let output: unknown; // Must be validated with Zod before assigning to context
+    const parsedContext: Partial<PipelineContext> = stepValidatedContext.data;
+    return Object.fromEntries(
+      Object.keys(patch).map(field => [field, parsedContext[field as keyof PipelineContext]])
+    ) as Partial<PipelineContext>;
+  };
 
-      // Execute step based on function name
-      switch (step.functionName) {
-        case 'buildThaiTokensFromText':
-          if (!executionContext.thaiText) {
-            throw new Error('thaiText is required for tokenization');
-          }
-          output = await buildThaiTokensFromText(executionContext.thaiText);
-          // Validate output matches expected schema: { tokens: string[] }
-          if (output && typeof output === 'object' && 'tokens' in output && Array.isArray((output as { tokens: unknown }).tokens)) {
-            executionContext.tokens_th = output as { tokens: Array<{t: string, meaning_id?: bigint}> };
-          } else {
-            throw new Error(`Invalid tokenization output: expected { tokens: Array<{t: string, meaning_id?: bigint}> }, got ${typeof output}`);
-          }
-          break;
+  /**
+   * Run a step once: reuse a cached patch for cacheable steps, otherwise execute the registered
+   * function - either way the resulting context and output are validated
+   * Cache failures are logged and never fail the step
+   */
+  const attemptStep = async (step: ProcessingStep, inputContext: PipelineContext): Promise<{ output: unknown; patch: Partial<PipelineContext>; cached: boolean }> => {
+    // Look up step executor in the registry by function name
+    const definition = getStepDefinition(step.functionName);
+    if (!definition) {
+      throw new Error(`Unknown function: ${step.functionName}`);
+    }
 
-        case 'getG2P':
-          if (!executionContext.word_th) {
-            throw new Error('word_th is required for G2P');
-          }
-          output = await getG2P(executionContext.word_th);
-          // Validate output: G2P is required (not an acceptable failure)
-          // If getG2P returns null, throw error - G2P must succeed
-          if (typeof output === 'string' && output.trim().length > 0) {
-            executionContext.g2p = output;
-          } else {
-            throw new Error(`G2P failed for "${executionContext.word_th}": API returned null or empty string. G2P is required and cannot be skipped.`);
+    let cacheKey: { cacheKey: string; inputHash: string } | null = null;
+    if (stepCache && definition.cacheable) {
+      try {
+        cacheKey = await computeStepCacheKey(definition.functionName, definition.version, definition.inputSchema, inputContext);
+        const entry = await stepCache.get(cacheKey.cacheKey);
+        if (entry) {
+          try {
+            const patch = validateStepPatch(step, inputContext, entry.patch);
+            return { output: entry.output, patch, cached: true };
+          } catch {
+            console.warn(`[Processing Pipeline] Ignoring cached patch for step "${step.name}" that no longer validates (${cacheKey.cacheKey})`);
           }
-          break;
+        }
+      } catch (cacheError) {
+        console.warn(`[Processing Pipeline] Step cache lookup failed for step "${step.name}":`, cacheError);
+      }
+    }
 
-        case 'parsePhoneticToEnglish':
-          if (!executionContext.g2p) {
-            throw new Error('g2p is required for phonetic parsing (dependency not satisfied)');
-          }
-          output = await parsePhoneticToEnglish(executionContext.g2p);
-          // Validate output: string | null -> string | undefined
-          if (typeof output === 'string') {
-            executionContext.phonetic_en = output;
-          } else if (output === null) {
-            executionContext.phonetic_en = undefined;
-          } else {
-            throw new Error(`Invalid phonetic output: expected string | null, got ${typeof output}`);
-          }
-          break;
+    // Cached patches cost nothing - the budget is only checked when the step would call its service
+    const releaseBudget = options.ledger && definition.service ? options.ledger.reserve(definition.service) : null;
+    let execution: StepExecution;
+    try {
+      execution = await definition.execute({ ...inputContext }, { providers, ...(options.signal ? { signal: options.signal } : {}) });
+    } finally {
+      releaseBudget?.();
+    }
+    const output: unknown = execution.output; // Must be validated with Zod before use
+    const patch = validateStepPatch(step, inputContext, execution.patch);
+
+    if (stepCache && cacheKey) {
+      try {
+        await stepCache.set(createStepCacheEntry(definition.functionName, definition.version, cacheKey, output, execution.patch));
+      } catch (cacheError) {
+        console.warn(`[Processing Pipeline] Step cache write failed for step "${step.name}":`, cacheError);
+      }
+    }
 
-        case 'fetchOrstMeanings':
-          if (!executionContext.word_th) {
-            throw new Error('word_th is required for ORST lookup');
-          }
-          output = await fetchOrstMeanings(executionContext.word_th);
-          // Validate output: MeaningTh[] - validate each element
-          if (Array.isArray(output)) {
-            const validatedMeanings = [];
-            for (let idx = 0; idx < output.length; idx++) {
-              const meaning = output[idx];
-              const validation = meaningThSchema.strict().safeParse(meaning);
-              if (validation.success) {
-                validatedMeanings.push(validation.data);
-              } else {
-                console.warn(`[Processing Pipeline] Skipping invalid meaning: ${validation.error.message}`);
-              }
-            }
-            executionContext.orstSenses = validatedMeanings;
-          } else {
-            throw new Error(`Invalid ORST output: expected array, got ${typeof output}`);
-          }
-          break;
-
-        case 'normalizeSensesWithGPT':
-          // Normalize either ORST senses OR GPT-meaning senses (priority: ORST first, then GPT-meaning)
-          const sensesToNormalize = executionContext.orstSenses && executionContext.orstSenses.length > 0
-            ? executionContext.orstSenses
-            : (executionContext.gptMeanings && executionContext.gptMeanings.length > 0
-              ? executionContext.gptMeanings
-              : null);
-          
-          // #region agent log
-          const senseSourcesForPipeline = sensesToNormalize?.map(s => s.source || 'undefined') || [];
-          // Skip logging - routine operation
-          // #endregion
-          
-          if (!sensesToNormalize || sensesToNormalize.length === 0) {
-            // #region agent log
-            // Skip logging - routine skip operation
-            // #endregion
-            executionContext.normalizedSenses = [];
-            break;
-          }
-          if (!executionContext.word_th) {
-            throw new Error('word_th is required for GPT normalization');
-          }
-          const normalizeContext: {
-            textTh: string;
-            fullThaiText?: string;
-            showName?: string;
-            episode?: number;
-            season?: number;
-          } = {
-            textTh: executionContext.word_th,
-          };
-          if (executionContext.fullThaiText !== undefined) {
-            normalizeContext.fullThaiText = executionContext.fullThaiText;
-          }
-          if (executionContext.showName !== undefined) {
-            normalizeContext.showName = executionContext.showName;
-          }
-          if (executionContext.episode !== undefined) {
-            normalizeContext.episode = executionContext.episode;
-          }
-          if (executionContext.season !== undefined) {
-            normalizeContext.season = executionContext.season;
-          }
-          output = await normalizeSensesWithGPT(sensesToNormalize, normalizeContext);
-          // Validate output: MeaningTh[] - validate each element
-          if (Array.isArray(output)) {
-            const validatedMeanings = [];
-            for (let idx = 0; idx < output.length; idx++) {
-              const meaning = output[idx];
-              const validation = meaningThSchema.strict().safeParse(meaning);
-              if (validation.success) {
-                validatedMeanings.push(validation.data);
-              } else {
-                console.warn(`[Processing Pipeline] Skipping invalid normalized meaning: ${validation.error.message}`);
-              }
-            }
-            executionContext.normalizedSenses = validatedMeanings;
-          } else {
-            throw new Error(`Invalid normalized senses output: expected array, got ${typeof output}`);
-          }
-          break;
+    return { output, patch, cached: false };
+  };
 
-        case 'createMeaningsWithGPT':
-          if (!executionContext.word_th) {
-            throw new Error('word_th is required for GPT-meaning');
-          }
-          // Skip gracefully if ORST returned senses (don't need GPT-meaning)
-          if (executionContext.orstSenses && executionContext.orstSenses.length > 0) {
-            executionContext.gptMeanings = [];
-            break;
-          }
-          const gptMeaningContext: {
-            fullThaiText?: string;
-            allTokens?: string[];
-            wordPosition?: number;
-            showName?: string;
-            episode?: number;
-            season?: number;
-            g2p?: string;
-            phonetic_en?: string;
-          } = {};
-          if (executionContext.fullThaiText !== undefined) {
-            gptMeaningContext.fullThaiText = executionContext.fullThaiText;
-          }
-          if (executionContext.allTokens !== undefined) {
-            gptMeaningContext.allTokens = executionContext.allTokens;
-          }
-          if (executionContext.wordPosition !== undefined) {
-            gptMeaningContext.wordPosition = executionContext.wordPosition;
-          }
-          if (executionContext.showName !== undefined) {
-            gptMeaningContext.showName = executionContext.showName;
-          }
-          if (executionContext.episode !== undefined) {
-            gptMeaningContext.episode = executionContext.episode;
-          }
-          if (executionContext.season !== undefined) {
-            gptMeaningContext.season = executionContext.season;
-          }
-          if (executionContext.g2p !== undefined) {
-            gptMeaningContext.g2p = executionContext.g2p;
-          }
-          if (executionContext.phonetic_en !== undefined) {
-            gptMeaningContext.phonetic_en = executionContext.phonetic_en;
-          }
-          output = await createMeaningsWithGPT(executionContext.word_th, gptMeaningContext);
-          // Validate output: MeaningTh[] - validate each element
-          if (Array.isArray(output)) {
-            const validatedMeanings = [];
-            for (let idx = 0; idx < output.length; idx++) {
-              const meaning = output[idx];
-              const validation = meaningThSchema.strict().safeParse(meaning);
-              if (validation.success) {
-                validatedMeanings.push(validation.data);
-              } else {
-                console.warn(`[Processing Pipeline] Skipping invalid GPT meaning: ${validation.error.message}`);
-              }
-            }
-            executionContext.gptMeanings = validatedMeanings;
-          } else {
-            throw new Error(`Invalid GPT-meaning output: expected array, got ${typeof output}`);
-          }
-          break;
+  const runStep = async (step: ProcessingStep): Promise<void> => {
+    const retryPolicy = step.retryPolicy ?? NO_RETRY_POLICY;
+    const spanAttributes = { stepName: step.name, functionName: step.functionName, workflowName: workflow.name };
+    let attempts = 0;
+    let stepSpan: Span | undefined;
 
-        default:
-          throw new Error(`Unknown function: ${step.functionName}`);
+    // Building the input and evaluating runIf can throw too - that settles this step as failed like any step error
+    try {
+      const inputContext = buildStepInput(step);
+
+      // runIf sees the same input as the step - a false condition settles the step as skipped (no patch)
+      if (step.runIf && !evaluateStepCondition(step.runIf, inputContext)) {
+        const skipReason = `runIf not met: ${describeStepCondition(step.runIf)}`;
+        console.log(`[Processing Pipeline] Step "${step.name}" skipped (${skipReason})`);
+        settledResults.set(step.name, { stepName: step.name, status: 'skipped', success: false, attempts: 0, skipReason });
+        startSpan('step', spanAttributes, options.span).end('skipped', { skipReason });
+        return;
       }
 
-      // ⚠️ CRITICAL: Validate context after step execution with strict schema
-      // Also validate step output matches outputSchema
-      // Safety check: ensure executionContext is still an object
-      if (!executionContext || typeof executionContext !== 'object') {
-        throw new Error(`Invalid executionContext after step "${step.name}": expected object, got ${typeof executionContext}`);
-      }
-      const stepValidatedContext = pipelineContextSchema.strict().safeParse(executionContext);
-      if (!stepValidatedContext.success) {
-        console.error(`[Processing Pipeline] ✗ Step "${step.name}" produced invalid context:`, stepValidatedContext.error.errors);
-        throw new Error(`Step "${step.name}" produced invalid context: ${stepValidatedContext.error.message}`);
-      }
-      
-      // Validate step output matches outputSchema (if defined)
-      if (step.outputSchema) {
-        const outputValidation = step.outputSchema.safeParse(executionContext);
-        if (!outputValidation.success) {
-          console.error(`[Processing Pipeline] ✗ Step "${step.name}" output validation failed:`, outputValidation.error.errors);
-          throw new Error(`Step "${step.name}" output validation failed: ${outputValidation.error.message}`);
+      // Step span records declared inputs (summarized), duration and outcome
+      const definition = getStepDefinition(step.functionName);
+      stepSpan = startSpan('step', {
+        ...spanAttributes,
+        ...(isTelemetryEnabled() ? { inputs: summarizeFields(definition ? pickDeclaredInputs(definition.inputSchema, inputContext) : inputContext) } : {}),
+      }, options.span);
+
+      let attemptResult: { output: unknown; patch: Partial<PipelineContext>; cached: boolean } | undefined;
+      while (attemptResult === undefined) {
+        attempts++;
+        try {
+          attemptResult = await attemptStep(step, inputContext);
+        } catch (attemptError) {
+          // Cancellation is never retried (abort errors are not classified service errors)
+          if (attempts >= retryPolicy.maxAttempts || !isRetryableError(retryPolicy, attemptError)) {
+            throw attemptError;
+          }
+          const delay = computeRetryDelay(retryPolicy, attempts, attemptError);
+          console.warn(`[Processing Pipeline] Step "${step.name}" attempt ${attempts}/${retryPolicy.maxAttempts} failed (${getServiceErrorClass(attemptError)}), retrying in ${delay}ms:`, attemptError instanceof Error ? attemptError.message : attemptError);
+          await abortableSleep(delay, options.signal);
         }
       }
-      
-      executionContext = stepValidatedContext.data;
-      previousStepContext = { ...stepValidatedContext.data }; // Update previous step context for next iteration
 
-      results.push({
+      const diff = diffStepPatch(inputContext, attemptResult.patch);
+      patches.set(step.name, attemptResult.patch);
+      settledAt.set(step.name, new Date().toISOString());
+      settledResults.set(step.name, {
         stepName: step.name,
+        status: 'succeeded',
         success: true,
-        output,
+        attempts,
+        output: attemptResult.output,
+        ...(attemptResult.cached ? { cached: true } : {}),
+        diff,
+      });
+      stepSpan.end('ok', {
+        attempts,
+        cached: attemptResult.cached,
+        patch: summarizeFields(attemptResult.patch),
+        changes: diff.map(c => `${c.change}:${c.field}`),
       });
 
     } catch (error) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'processingPipeline.ts:executeStepsFromSchema',message:'STEP ERROR - Step execution failed',data:{stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack : undefined},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-      // #endregion
+      recordEvent('processingPipeline.ts:executeStepsFromSchema', 'STEP ERROR - Step execution failed', {stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack : undefined}, 'warn');
       console.error(`[Processing Pipeline] ✗ Step "${step.name}" failed:`, error);
 
-      // Check if failure is acceptable
-      const stepDef = workflow.steps.find(s => s.name === step.name);
-      if (stepDef?.acceptableFailure) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'processingPipeline.ts:executeStepsFromSchema',message:'ACCEPTABLE FAILURE - Continuing despite step error',data:{stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-        // #endregion
-        results.push({
-          stepName: step.name,
-          success: false,
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
+      const failedResult: StepResult = {
+        stepName: step.name,
+        status: 'failed',
+        success: false,
+        attempts,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+      const errorClass = getServiceErrorClass(error);
+      if (errorClass) {
+        failedResult.errorClass = errorClass;
+      }
+      settledResults.set(step.name, failedResult);
+      (stepSpan ?? startSpan('step', spanAttributes, options.span)).end(isAbortError(error) ? 'cancelled' : 'error', {
+        attempts,
+        error: failedResult.error?.message,
+        errorClass,
+        acceptableFailure: step.acceptableFailure,
+      });
+
+      // Check if failure is acceptable - cancellation and exhausted budgets never are
+      if (step.acceptableFailure && !isAbortError(error) && !isBudgetExceededError(error)) {
+        recordEvent('processingPipeline.ts:executeStepsFromSchema', 'ACCEPTABLE FAILURE - Continuing despite step error', {stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
         // Continue execution even if step failed (acceptable failure)
+        return;
+      }
+
+      const settled = Array.from(settledResults.values());
+      recordEvent('processingPipeline.ts:executeStepsFromSchema', 'EJECT - Unacceptable failure, stopping pipeline', {stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error),completedSteps:settled.filter(r=>r.success).map(r=>r.stepName),failedSteps:settled.filter(r=>r.status === 'failed').map(r=>r.stepName)}, 'warn');
+      // Unacceptable failure - stop scheduling new steps (in-flight steps are allowed to settle)
+      if (fatalError === null) {
+        fatalError = error;
+      }
+    }
+  };
+
+  const runStepAndNotify = async (step: ProcessingStep): Promise<void> => {
+    await runStep(step);
+    const result = settledResults.get(step.name);
+    if (!options.onStepSettled || !result) {
+      return;
+    }
+    try {
+      await options.onStepSettled(result, patches.get(step.name));
+    } catch (error) {
+      console.error(`[Processing Pipeline] ✗ onStepSettled failed for step "${step.name}":`, error);
+      if (fatalError === null) {
+        fatalError = error;
+      }
+    }
+  };
+
+  // Execute steps as soon as their dependencies have settled, up to the concurrency limit
+  // A dependency outside the step filter is treated as already satisfied
+  while (pending.length > 0 || running.size > 0) {
+    if (fatalError === null && options.signal?.aborted) {
+      console.warn(`[Processing Pipeline] Workflow "${workflow.name}" cancelled - waiting for ${running.size} running step(s) to stop`);
+      fatalError = getAbortError(options.signal);
+    }
+    if (fatalError === null) {
+      for (let i = 0; i < pending.length && running.size < concurrency; ) {
+        const step = pending[i];
+        if (!step) {
+          throw new Error(`Step at index ${i} is undefined`);
+        }
+        const ready = step.dependsOn.every(dep => !scheduledNames.has(dep) || settledResults.has(dep));
+        if (!ready) {
+          i++;
+          continue;
+        }
+        pending.splice(i, 1);
+        running.set(step.name, runStepAndNotify(step).finally(() => {
+          running.delete(step.name);
+        }));
+      }
+    }
+
+    if (running.size === 0) {
+      if (fatalError !== null || pending.length === 0) {
+        break;
+      }
+      throw new Error(`Unable to schedule steps: ${pending.map(s => s.name).join(', ')} have unsatisfiable dependencies`);
+    }
+
+    await Promise.race(running.values());
+  }
+
+  // Report results in topological order regardless of completion order
+  const results: StepResult[] = stepsToExecute
+    .map(s => settledResults.get(s.name))
+    .filter((r): r is StepResult => r !== undefined);
+
+  if (fatalError !== null) {
+    throw fatalError;
+  }
+
+  // Merge step patches in topological order - deterministic final context
+  // Provenance follows the same order: a field is attributed to the last step that changed its value
+  // (re-writing an identical value does not take over a field)
+  let executionContext: PipelineContext = { ...baseContext };
+  const provenance: ContextProvenance = {};
+  for (const step of stepsToExecute) {
+    const patch = patches.get(step.name);
+    if (!patch) {
+      continue;
+    }
+    const changes = diffStepPatch(executionContext, patch);
+    executionContext = { ...executionContext, ...patch };
+    const service = getStepDefinition(step.functionName)?.service;
+    for (const { field, change } of changes) {
+      if (change === 'removed') {
+        delete provenance[field];
         continue;
-      } else {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'processingPipeline.ts:executeStepsFromSchema',message:'EJECT - Unacceptable failure, stopping pipeline',data:{stepName:step.name,workflowName:workflow.name,errorMessage:error instanceof Error ? error.message : String(error),completedSteps:results.filter(r=>r.success).map(r=>r.stepName),failedSteps:results.filter(r=>!r.success).map(r=>r.stepName)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-        // #endregion
-        // Unacceptable failure - stop execution
-        results.push({
-          stepName: step.name,
-          success: false,
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
-        throw error;
       }
+      provenance[field] = {
+        stepName: step.name,
+        functionName: step.functionName,
+        ...(service ? { service } : {}),
+        cached: settledResults.get(step.name)?.cached === true,
+        settledAt: settledAt.get(step.name) ?? new Date().toISOString(),
+      };
     }
   }
 
   // ⚠️ CRITICAL: Validate final context with strict schema
-  // Safety check: ensure executionContext is still an object
-  if (!executionContext || typeof executionContext !== 'object') {
-    throw new Error(`Invalid final executionContext: expected object, got ${typeof executionContext}`);
-  }
-  
   const finalValidatedContext = pipelineContextSchema.strict().safeParse(executionContext);
   if (!finalValidatedContext.success) {
-    // #region agent log
     const finalContextKeys = Object.keys(executionContext);
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'processingPipeline.ts:executeStepsFromSchema',message:'EJECT - Final context validation failed, stopping pipeline',data:{workflowName:workflow.name,validationErrors:finalValidatedContext.error.errors,finalContextKeys:finalContextKeys,completedSteps:results.filter(r=>r.success).map(r=>r.stepName),failedSteps:results.filter(r=>!r.success).map(r=>r.stepName)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'EJECT'})}).catch(()=>{});
-    // #endregion
+    recordEvent('processingPipeline.ts:executeStepsFromSchema', 'EJECT - Final context validation failed, stopping pipeline', {workflowName:workflow.name,validationErrors:finalValidatedContext.error.errors,finalContextKeys:finalContextKeys,completedSteps:results.filter(r=>r.success).map(r=>r.stepName),failedSteps:results.filter(r=>r.status === 'failed').map(r=>r.stepName)}, 'warn');
     console.error(`[Processing Pipeline] ✗ Workflow produced invalid final context:`, finalValidatedContext.error.errors);
     throw new Error(`Workflow produced invalid final context: ${finalValidatedContext.error.message}`);
   }
@@ -399,21 +505,238 @@ export async function executeStepsFromSchema(
   return {
     results,
     finalContext: finalValidatedContext.data,
+    provenance,
   };
 }
 
 // Removed generateWordId - word_th is the primary key, not id
 
+/**
+ * Options for processSubtitlesForEpisode
+ * - resumeRunId: Resume this run (skips subjects it completed, continues partial words from their checkpoint)
+ * - resumeLatest: Resume the latest unfinished run for the episode, if any (ignored when resumeRunId is set)
+ * - workflowName: Registered workflow to run (default: the resumed run's workflow, otherwise "full")
+ * - signal: Cancels processing - the run is marked "cancelled" and can be resumed later
+ * - budget: Usage limits for the run / episode (default getDefaultUsageBudget()) - when the next service
+ *   call would exceed a limit the run stops with BudgetExceededError, is marked "failed" and can be resumed
+ *   once the budget is raised
+ */
+export interface ProcessEpisodeOptions {
+  resumeRunId?: string;
+  resumeLatest?: boolean;
+  workflowName?: string;
+  signal?: AbortSignal;
+  budget?: UsageBudget;
+}
+
+/**
+ * Subtitle-level step - every other workflow step runs once per unique token
+ * Full workflow flow: ORST runs first. If ORST fails (empty), GPT-meaning runs. GPT-normalize runs after both and can normalize either ORST or GPT-meaning senses.
+ * The schema enforces that phonetic runs after g2p, gpt-meaning runs after orst, gpt_normalize runs after both orst and gpt-meaning
+ */
+export const TOKENIZE_STEP_NAME = 'tokenize';
+
+/**
+ * Step functions that produce senses - workflows without one (e.g. phonetics-only) save words without meanings
+ */
+export const MEANING_STEP_FUNCTIONS = new Set(['fetchOrstMeanings', 'createMeaningsWithGPT', 'normalizeSensesWithGPT']);
+
+/**
+ * Extract the unique, trimmed token texts of subtitles that have tokens_th
+ * Accepts both the object format {t, meaning_id?} and legacy plain-string tokens
+ */
+export function extractUniqueTokens(subtitles: Array<{ tokens_th?: { tokens: unknown[] } | null | undefined }>): Set<string> {
+  const uniqueTokens = new Set<string>();
+  for (const subtitle of subtitles) {
+    if (subtitle.tokens_th?.tokens) {
+      for (const tokenItem of subtitle.tokens_th.tokens) {
+        // Extract token text from object format {t: string, meaning_id?: bigint}
+        if (tokenItem && typeof tokenItem === 'object' && 't' in tokenItem) {
+          const t = (tokenItem as any).t;
+          if (typeof t === 'string' && t.trim()) {
+            uniqueTokens.add(t.trim());
+          }
+        } else if (typeof tokenItem === 'string' && tokenItem.trim()) {
+          // Legacy format - plain string
+          uniqueTokens.add(tokenItem.trim());
+        }
+      }
+    }
+  }
+  return uniqueTokens;
+}
+
+/**
+ * Build the words_th / meanings_th payload for a word from its final pipeline context
+ * Senses: normalized senses, else GPT-meaning senses, else ORST senses (in priority order)
+ * Optional fields are only set when present (exactOptionalPropertyTypes)
+ */
+export function buildWordDataFromContext(token: string, context: PipelineContext): WordDataToSave {
+  const meanings = context.normalizedSenses || context.gptMeanings || context.orstSenses || [];
+
+  // Note: word_th is the primary key (not id) - matches WordDataToSave interface
+  const wordData: WordDataToSave = {
+    word_th: token,
+    senses: meanings.map(meaning => {
+      const sense: WordDataToSave['senses'][number] = {
+        id: meaning.id,
+        definition_th: meaning.definition_th,
+      };
+      if (meaning.source !== undefined) {
+        sense.source = meaning.source;
+      }
+      if (meaning.created_at !== undefined) {
+        sense.created_at = meaning.created_at;
+      }
+      if (meaning.word_th_id !== undefined) {
+        sense.word_th_id = meaning.word_th_id;
+      }
+      return sense;
+    }),
+  };
+  if (context.g2p !== undefined) {
+    wordData.g2p = context.g2p;
+  }
+  if (context.phonetic_en !== undefined) {
+    wordData.phonetic_en = context.phonetic_en;
+  }
+  return wordData;
+}
+
+/**
+ * Options for processWord
+ * - workflowName: Registered workflow whose word steps run (default "full")
+ * - save: Save the word to words_th / meanings_th - skipped when a workflow that produces meanings found none
+ * - ledger: Usage ledger whose budget is checked before service steps (activate it to record the calls)
+ * - providers: Provider overrides for this word (e.g. fakes - see PipelineExecutionOptions.providers)
+ */
+export interface ProcessWordOptions {
+  workflowName?: string;
+  save?: boolean;
+  signal?: AbortSignal;
+  ledger?: UsageLedger;
+  providers?: Partial<Providers>;
+}
+
+/**
+ * Result of processWord - the step execution plus the word payload built from it
+ */
+export interface ProcessWordResult {
+  workflowName: string;
+  results: StepResult[];
+  finalContext: PipelineContext;
+  provenance: ContextProvenance;
+  wordData: WordDataToSave;
+  saved: boolean;
+}
+
+/**
+ * Process a single word outside an episode run: every workflow step except tokenize
+ * Throws on a step failure that is not an acceptable failure, on budget exhaustion and on cancellation
+ * (no run or checkpoints are recorded - reprocessing the word starts over)
+ */
+export async function processWord(word: string, options: ProcessWordOptions = {}): Promise<ProcessWordResult> {
+  const workflow = getWorkflow(options.workflowName);
+  const wordStepNames = workflow.steps.filter(s => s.name !== TOKENIZE_STEP_NAME).map(s => s.name);
+  if (wordStepNames.length === 0) {
+    throw new Error(`Workflow "${workflow.name}" has no word steps`);
+  }
+
+  const validatedContext = pipelineContextSchema.strict().safeParse({ word_th: word.trim() });
+  if (!validatedContext.success) {
+    throw new Error(`Invalid context for word "${word}": ${validatedContext.error.message}`);
+  }
+
+  const { results, finalContext, provenance } = await executeStepsFromSchema(workflow, validatedContext.data, wordStepNames, {
+    ...(options.signal ? { signal: options.signal } : {}),
+    ...(options.ledger ? { ledger: options.ledger } : {}),
+    ...(options.providers ? { providers: options.providers } : {}),
+  });
+
+  const wordData = buildWordDataFromContext(validatedContext.data.word_th ?? word, finalContext);
+  const producesMeanings = workflow.steps.some(s => MEANING_STEP_FUNCTIONS.has(s.functionName));
+  let saved = false;
+  if (options.save) {
+    if (wordData.senses.length === 0 && producesMeanings) {
+      console.warn(`[Processing Pipeline] ⚠️ No meanings found for "${wordData.word_th}" - not saved`);
+    } else {
+      await saveWordData(wordData);
+      saved = true;
+    }
+  }
+
+  return { workflowName: workflow.name, results, finalContext, provenance, wordData, saved };
+}
+
 /**
  * Process subtitles for an episode
  * 1. Fetch subtitles without tokens_th
  * 2. Tokenize each subtitle → update tokens_th
  * 3. Extract unique tokens
  * 4. Process each token: G2P → phonetic → ORST → save
+ * Steps 2 and 4 only run the steps the selected workflow defines (e.g. tokenize-only skips step 4)
+ *
+ * Progress is checkpointed per subtitle and per word step (pipeline_run_checkpoints)
+ * On cancellation, words that were mid-workflow are NOT saved to words_th - only their checkpoints
+ * record the steps that finished, so the database never holds a half-processed word
+ * @returns Id of the pipeline run - pass it back as options.resumeRunId to resume after an interruption
  */
-export async function processSubtitlesForEpisode(mediaId: string): Promise<void> {
+export async function processSubtitlesForEpisode(mediaId: string, options: ProcessEpisodeOptions = {}): Promise<string> {
   console.log('[Processing Pipeline] Starting processing for mediaId:', mediaId);
 
+  const resumableRun = options.resumeRunId
+    ? await fetchPipelineRun(options.resumeRunId)
+    : (options.resumeLatest ? await findResumablePipelineRun(mediaId) : null);
+  const workflow = getWorkflow(options.workflowName ?? resumableRun?.workflow_name);
+  if (resumableRun && resolveWorkflowName(resumableRun.workflow_name) !== workflow.name) {
+    throw new Error(`Cannot resume run ${resumableRun.id} (workflow "${resumableRun.workflow_name}") with workflow "${workflow.name}"`);
+  }
+  const run = await startPipelineRun(mediaId, workflow.name, options.resumeRunId ?? resumableRun?.id);
+
+  // Usage already recorded for the episode counts towards the episode budget (and the run budget when resuming)
+  const budget = options.budget ?? getDefaultUsageBudget();
+  const ledger = createUsageLedger({
+    runId: run.run.id,
+    mediaId,
+    ...(budget ? { budget, priorUsage: await fetchUsageForEpisode(mediaId) } : {}),
+  });
+  const deactivateLedger = activateUsageLedger(ledger);
+
+  const runSpan = startSpan('run', { mediaId, workflowName: workflow.name, runId: run.run.id, resumed: resumableRun !== null });
+  try {
+    await processEpisodeWithRun(mediaId, workflow, run, runSpan, ledger, options.signal);
+  } catch (error) {
+    const status = isAbortError(error) ? 'cancelled' : 'failed';
+    if (isBudgetExceededError(error)) {
+      console.warn(`[Processing Pipeline] Run ${run.run.id} stopped: ${error.message}`);
+    }
+    await finishPipelineRun(run, status, error);
+    runSpan.end(status === 'cancelled' ? 'cancelled' : 'error', { error: error instanceof Error ? error.message : String(error), usage: ledger.summary('run') });
+    throw error;
+  } finally {
+    deactivateLedger();
+    await ledger.flush();
+  }
+
+  await finishPipelineRun(run, 'completed');
+  runSpan.end('ok', { usage: ledger.summary('run') });
+  return run.run.id;
+}
+
+async function processEpisodeWithRun(
+  mediaId: string,
+  workflow: ProcessingOrder,
+  run: PipelineRunHandle,
+  runSpan: Span,
+  ledger: UsageLedger,
+  signal?: AbortSignal
+): Promise<void> {
+  // Only forward the signal when one was given (exactOptionalPropertyTypes)
+  const signalOption = signal ? { signal } : {};
+  const tokenizes = workflow.steps.some(s => s.name === TOKENIZE_STEP_NAME);
+  const wordStepNames = workflow.steps.filter(s => s.name !== TOKENIZE_STEP_NAME).map(s => s.name);
+  const producesMeanings = workflow.steps.some(s => MEANING_STEP_FUNCTIONS.has(s.functionName));
+
   // 1. Fetch subtitles
   const subtitles = await fetchSubtitles(mediaId);
   if (subtitles.length === 0) {
@@ -424,18 +747,30 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
   console.log('[Processing Pipeline] Found', subtitles.length, 'subtitles');
 
   // 2. Process subtitles: tokenize and update tokens_th using workflow coordinator
-  const workflow = getValidatedProcessingOrder();
   const processedSubtitles = [];
   
   for (const subtitle of subtitles) {
+    throwIfAborted(signal);
+
     // Check if already has tokens_th
     const hasValidThaiTokens = subtitle.tokens_th && subtitle.tokens_th.tokens && subtitle.tokens_th.tokens.length > 0;
     
-    if (hasValidThaiTokens) {
+    if (hasValidThaiTokens || !tokenizes) {
       processedSubtitles.push(subtitle);
       continue;
     }
 
+    // Tokens from an interrupted run may not have reached saveSubtitlesBatch - reuse the checkpointed tokens
+    const subtitleKey = subtitleSubjectKey(subtitle.id);
+    const subtitleResume = getResumePoint(run, subtitleKey, [TOKENIZE_STEP_NAME]);
+    if (subtitleResume.completed && subtitleResume.context?.tokens_th) {
+      const resumedSubtitle = subtitleThSchema.safeParse({ ...subtitle, tokens_th: subtitleResume.context.tokens_th });
+      if (resumedSubtitle.success) {
+        processedSubtitles.push(resumedSubtitle.data);
+        continue;
+      }
+    }
+
     // Execute tokenization directly from schema
     try {
       const context: PipelineContext = {
@@ -449,13 +784,15 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
       }
 
       // Execute only tokenize step
-      const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, ['tokenize']);
+      const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, [TOKENIZE_STEP_NAME], { ...signalOption, span: runSpan, ledger });
       
-      const tokenizeResult = results.find(r => r.stepName === 'tokenize');
+      const tokenizeResult = results.find(r => r.stepName === TOKENIZE_STEP_NAME);
       if (!tokenizeResult || !tokenizeResult.success) {
-        throw new Error(`Tokenization failed: ${tokenizeResult?.error?.message || 'Unknown error'}`);
+        throw new Error(`Tokenization failed: ${tokenizeResult?.error?.message || tokenizeResult?.skipReason || 'Unknown error'}`);
       }
 
+      await markSubjectCheckpoint(run, subtitleKey, 'completed', finalContext);
+
       const updatedSubtitle = {
         ...subtitle,
         tokens_th: finalContext.tokens_th,
@@ -470,6 +807,10 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
         // Skip invalid subtitle - don't push unvalidated data
       }
     } catch (error) {
+      if (isAbortError(error) || isBudgetExceededError(error)) {
+        // Subtitles tokenized so far are checkpointed - a resumed run reuses them without re-tokenizing
+        throw error;
+      }
       console.error('[Processing Pipeline] Tokenization error for subtitle', subtitle.id, ':', error);
       // Validate original subtitle before using as fallback
       const validationResult = subtitleThSchema.safeParse(subtitle);
@@ -483,35 +824,40 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
   }
 
   // Save updated subtitles with tokens_th
-  await saveSubtitlesBatch(processedSubtitles);
-  console.log('[Processing Pipeline] Updated subtitles with tokens_th');
+  if (tokenizes) {
+    await saveSubtitlesBatch(processedSubtitles);
+    console.log('[Processing Pipeline] Updated subtitles with tokens_th');
+  }
 
-  // 3. Extract unique tokens from all subtitles
-  const uniqueTokens = new Set<string>();
-  for (const subtitle of processedSubtitles) {
-    if (subtitle.tokens_th?.tokens) {
-      for (const tokenItem of subtitle.tokens_th.tokens) {
-        // Extract token text from object format {t: string, meaning_id?: bigint}
-        if (tokenItem && typeof tokenItem === 'object' && 't' in tokenItem) {
-          const t = (tokenItem as any).t;
-          if (typeof t === 'string' && t.trim()) {
-            uniqueTokens.add(t.trim());
-          }
-        } else if (typeof tokenItem === 'string' && tokenItem.trim()) {
-          // Legacy format - plain string
-          uniqueTokens.add(tokenItem.trim());
-        }
-      }
-    }
+  if (wordStepNames.length === 0) {
+    console.log(`[Processing Pipeline] Workflow "${workflow.name}" has no word steps - processing complete for mediaId:`, mediaId);
+    return;
   }
 
+  // 3. Extract unique tokens from all subtitles
+  const uniqueTokens = extractUniqueTokens(processedSubtitles);
+
   console.log('[Processing Pipeline] Found', uniqueTokens.size, 'unique tokens');
 
   // 4. Process each unique token using Zod schema execution
   // Schema enforces order: g2p → phonetic, orst → gpt-meaning → gpt_normalize
+  let resumedWordCount = 0;
   for (const token of uniqueTokens) {
+    throwIfAborted(signal);
+    // Persist the previous word's usage before spending more
+    await ledger.flush();
+
+    const wordKey = wordSubjectKey(token);
+    const wordResume = getResumePoint(run, wordKey, wordStepNames);
+    if (wordResume.completed) {
+      resumedWordCount++;
+      continue;
+    }
+
+    const wordSpan = startSpan('word', { word_th: token, remainingSteps: wordResume.remainingSteps }, runSpan);
     try {
-      const context: PipelineContext = {
+      // Resume from the last checkpointed context - steps that already succeeded are not re-run
+      const context: PipelineContext = wordResume.context ?? {
         word_th: token, // NOT textTh - matches wordThSchema.word_th
       };
 
@@ -521,16 +867,19 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
         throw new Error(`Invalid context for token "${token}": ${validatedContext.error.message}`);
       }
 
-      // Execute word processing workflow: g2p, phonetic, orst, gpt-meaning, gpt_normalize
-      // Flow: ORST runs first. If ORST fails (empty), GPT-meaning runs. GPT-normalize runs after both and can normalize either ORST or GPT-meaning senses.
-      // The schema enforces that phonetic runs after g2p, gpt-meaning runs after orst, gpt_normalize runs after both orst and gpt-meaning
-      const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, [
-        'g2p',
-        'phonetic',
-        'orst',
-        'gpt-meaning',
-        'gpt_normalize',
-      ]);
+      // Execute the workflow's word steps, checkpointing after every settled step
+      let snapshot: PipelineContext = validatedContext.data;
+      const { results, finalContext } = await executeStepsFromSchema(workflow, validatedContext.data, wordResume.remainingSteps, {
+        ...signalOption,
+        span: wordSpan,
+        ledger,
+        onStepSettled: (result, patch) => {
+          if (patch) {
+            snapshot = { ...snapshot, ...patch };
+          }
+          return recordStepCheckpoint(run, wordKey, result, snapshot);
+        },
+      });
 
       // ⚠️ CRITICAL: Validate final context with strict schema
       const validatedFinalContext = pipelineContextSchema.strict().safeParse(finalContext);
@@ -539,72 +888,43 @@ export async function processSubtitlesForEpisode(mediaId: string): Promise<void>
       }
 
       // Check for failures
-      const failedSteps = results.filter(r => !r.success);
+      const failedSteps = results.filter(r => r.status === 'failed');
       if (failedSteps.length > 0) {
         console.warn(`[Processing Pipeline] Some steps failed for token "${token}":`, 
           failedSteps.map(s => `${s.stepName}: ${s.error?.message}`).join(', '));
       }
 
-      // Use normalized senses, GPT-meaning, or ORST senses (in priority order)
-      const meanings = validatedFinalContext.data.normalizedSenses || validatedFinalContext.data.gptMeanings || validatedFinalContext.data.orstSenses || [];
+      const wordData = buildWordDataFromContext(token, validatedFinalContext.data);
 
-      if (meanings.length === 0) {
+      if (wordData.senses.length === 0 && producesMeanings) {
         console.warn('[Processing Pipeline] No meanings found for token:', token);
+        await markSubjectCheckpoint(run, wordKey, 'completed', validatedFinalContext.data);
+        wordSpan.end('ok', { saved: false, failedSteps: failedSteps.map(s => s.stepName) });
         continue;
       }
 
-      // Validate word data - ensure optional fields are properly typed for exactOptionalPropertyTypes
-      // Note: word_th is the primary key (not id) - matches WordDataToSave interface
-      const wordData: {
-        word_th: string;
-        g2p?: string;
-        phonetic_en?: string;
-        senses: Array<{
-          id: bigint;
-          definition_th: string;
-          source?: string;
-          created_at?: string;
-          word_th_id?: string;
-        }>;
-      } = {
-        word_th: token,
-        senses: meanings.map(meaning => {
-          const sense: {
-            id: bigint;
-            definition_th: string;
-            source?: string;
-            created_at?: string;
-            word_th_id?: string;
-          } = {
-            id: meaning.id,
-            definition_th: meaning.definition_th,
-          };
-          if (meaning.source !== undefined) {
-            sense.source = meaning.source;
-          }
-          if (meaning.created_at !== undefined) {
-            sense.created_at = meaning.created_at;
-          }
-          if (meaning.word_th_id !== undefined) {
-            sense.word_th_id = meaning.word_th_id;
-          }
-          return sense;
-        }),
-      };
-      if (validatedFinalContext.data.g2p !== undefined) {
-        wordData.g2p = validatedFinalContext.data.g2p;
-      }
-      if (validatedFinalContext.data.phonetic_en !== undefined) {
-        wordData.phonetic_en = validatedFinalContext.data.phonetic_en;
-      }
-
       // Validate with wordSchema (indirectly via saveWordData)
       await saveWordData(wordData);
+      await markSubjectCheckpoint(run, wordKey, 'completed', validatedFinalContext.data);
+      wordSpan.end('ok', { saved: true, senseCount: wordData.senses.length, failedSteps: failedSteps.map(s => s.stepName) });
       console.log('[Processing Pipeline] Saved word:', token);
     } catch (error) {
+      if (isAbortError(error) || isBudgetExceededError(error)) {
+        // Leave the word's checkpoint "in_progress" - nothing was written to words_th for it
+        wordSpan.end(isAbortError(error) ? 'cancelled' : 'error', { error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+      wordSpan.end('error', { error: error instanceof Error ? error.message : String(error) });
       console.error('[Processing Pipeline] Error processing token', token, ':', error);
+      // Failed words keep their step checkpoints - resuming the run retries only the steps that did not succeed
+      await markSubjectCheckpoint(run, wordKey, 'failed').catch(checkpointError => {
+        console.error('[Processing Pipeline] Failed to checkpoint token', token, ':', checkpointError);
+      });
     }
   }
 
+  if (resumedWordCount > 0) {
+    console.log('[Processing Pipeline] Skipped', resumedWordCount, 'words completed in a previous attempt of run', run.run.id);
+  }
   console.log('[Processing Pipeline] Processing complete for mediaId:', mediaId);
 }
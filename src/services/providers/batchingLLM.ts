@@ -0,0 +1,167 @@
+/**
+ * Batching LLM Provider
+ * Wraps an LLM provider so that concurrent createMeanings / normalizeSenses calls are sent as one
+ * many-words request (LLMProvider.createMeaningsBatch / normalizeSensesBatch)
+ *
+ * - Calls are queued until maxBatchSize calls are waiting or maxWaitMs passed since the first one
+ * - A lone call, a provider without the batch method, an item the batch response left out (null) and a
+ *   failed batch request all fall back to the single-word method - batching never loses a word
+ * - The wrapper keeps the wrapped provider's name: its outputs are the provider's outputs (step cache rules,
+ *   provenance)
+ *
+ * Used by batch processing (../batch/batchProcessing.ts), where every word of a batch runs concurrently
+ * and reaches its GPT steps at about the same time
+ */
+
+import type { MeaningTh } from '../../schemas/meaningThSchema';
+import type { GPTMeaningBatchItem, NormalizeSensesBatchItem } from '../meanings/gptBatch';
+import { getAbortError, isAbortError, throwIfAborted } from '../../utils/abort';
+import type { LLMProvider } from './providers';
+
+export const DEFAULT_LLM_BATCH_SIZE = 20;
+export const DEFAULT_LLM_BATCH_WAIT_MS = 1000;
+
+/**
+ * Batching options
+ * - signal: Signal of the batch requests (calls from many words share one request) - a caller whose own
+ *   signal aborts while its call is queued is removed from the queue
+ */
+export interface BatchingLLMOptions {
+  maxBatchSize?: number;
+  maxWaitMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Batching provider - flush sends every queued call now
+ */
+export interface BatchingLLM extends LLMProvider {
+  flush(): void;
+}
+
+interface QueuedCall<TItem, TResult> {
+  item: TItem;
+  signal: AbortSignal | undefined;
+  resolve: (result: TResult) => void;
+  reject: (error: unknown) => void;
+  detach: () => void;
+}
+
+function createCoalescer<TItem, TResult>(
+  label: string,
+  runBatch: ((items: TItem[], signal?: AbortSignal) => Promise<Array<TResult | null>>) | undefined,
+  runSingle: (item: TItem, signal?: AbortSignal) => Promise<TResult>,
+  maxBatchSize: number,
+  maxWaitMs: number,
+  batchSignal: AbortSignal | undefined
+) {
+  const queue: Array<QueuedCall<TItem, TResult>> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const runAlone = (call: QueuedCall<TItem, TResult>) => {
+    runSingle(call.item, call.signal).then(call.resolve, call.reject);
+  };
+
+  const dispatch = async (calls: Array<QueuedCall<TItem, TResult>>) => {
+    if (!runBatch || calls.length === 1) {
+      calls.forEach(runAlone);
+      return;
+    }
+    let results: Array<TResult | null>;
+    try {
+      results = await runBatch(calls.map(call => call.item), batchSignal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        calls.forEach(call => call.reject(error));
+        return;
+      }
+      console.warn(`[Batching LLM] ✗ ${label} batch of ${calls.length} failed - falling back to one request per word:`, error);
+      calls.forEach(runAlone);
+      return;
+    }
+    calls.forEach((call, index) => {
+      const result = results[index];
+      if (result === null || result === undefined) {
+        runAlone(call);
+      } else {
+        call.resolve(result);
+      }
+    });
+  };
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length > 0) {
+      const calls = queue.splice(0, maxBatchSize);
+      calls.forEach(call => call.detach());
+      void dispatch(calls);
+    }
+  };
+
+  const call = (item: TItem, signal?: AbortSignal): Promise<TResult> => {
+    if (!runBatch) {
+      return runSingle(item, signal);
+    }
+    throwIfAborted(signal);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(queued);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(getAbortError(signal as AbortSignal));
+        }
+      };
+      const queued: QueuedCall<TItem, TResult> = {
+        item,
+        signal,
+        resolve,
+        reject,
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(queued);
+      if (queue.length >= maxBatchSize) {
+        flush();
+      } else if (timer === null) {
+        timer = setTimeout(flush, maxWaitMs);
+      }
+    });
+  };
+
+  return { call, flush };
+}
+
+export function createBatchingLLM(base: LLMProvider, options: BatchingLLMOptions = {}): BatchingLLM {
+  const maxBatchSize = Math.max(1, Math.floor(options.maxBatchSize ?? DEFAULT_LLM_BATCH_SIZE));
+  const maxWaitMs = Math.max(0, options.maxWaitMs ?? DEFAULT_LLM_BATCH_WAIT_MS);
+
+  const meanings = createCoalescer<GPTMeaningBatchItem, MeaningTh[]>(
+    'createMeanings',
+    base.createMeaningsBatch?.bind(base),
+    (item, signal) => base.createMeanings(item.word, item.context, signal),
+    maxBatchSize,
+    maxWaitMs,
+    options.signal
+  );
+  const normalize = createCoalescer<NormalizeSensesBatchItem, MeaningTh[]>(
+    'normalizeSenses',
+    base.normalizeSensesBatch?.bind(base),
+    (item, signal) => base.normalizeSenses(item.senses, item.context, signal),
+    maxBatchSize,
+    maxWaitMs,
+    options.signal
+  );
+
+  return {
+    name: base.name,
+    createMeanings: (word, context, signal) => meanings.call({ word, context }, signal),
+    normalizeSenses: (senses, context, signal) => normalize.call({ senses, context }, signal),
+    flush() {
+      meanings.flush();
+      normalize.flush();
+    },
+  };
+}
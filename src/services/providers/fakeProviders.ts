@@ -0,0 +1,141 @@
+/**
+ * Fake Providers
+ * Deterministic, offline implementations of the provider interfaces (./providers.ts) for tests, demos and
+ * offline development - no network, no API keys, same output for the same input every time
+ *
+ * - createDictionaryTokenizer: Longest-match segmentation against a word list
+ * - createTableG2P / createTableDictionary: Lookups in fixed tables
+ * - createFakeLLM: Table-backed meanings; normalization returns the senses unchanged
+ * - createFakeProviders: All four from one lexicon (fakeLexiconSchema)
+ */
+
+import { fakeLexiconSchema, type FakeLexicon } from '../../schemas/fakeLexiconSchema';
+import type { MeaningTh } from '../../schemas/meaningThSchema';
+import { throwIfAborted } from '../../utils/abort';
+import type { DictionaryProvider, G2PProvider, LLMProvider, Providers, Tokenizer } from './providers';
+
+// Same characters the AI4Thai tokenizer output is cleaned of - they separate tokens here
+const SEPARATOR_PATTERN = /[\s()\-.,;:!?"'\[\]{}…—–“”‘’]/;
+
+/**
+ * Tokenizer that segments text by longest match against a word list
+ * Runs of characters not covered by any word become one token each (e.g. a name missing from the list)
+ */
+export function createDictionaryTokenizer(words: Iterable<string>): Tokenizer {
+  const dictionary = new Set(Array.from(words, word => word.trim()).filter(word => word.length > 0));
+  const maxLength = Math.max(0, ...Array.from(dictionary, word => word.length));
+
+  return {
+    name: 'fake-dictionary',
+    async tokenize(text, signal) {
+      throwIfAborted(signal);
+      const tokens: string[] = [];
+      let unknown = '';
+      const flushUnknown = () => {
+        if (unknown) {
+          tokens.push(unknown);
+          unknown = '';
+        }
+      };
+
+      let index = 0;
+      while (index < text.length) {
+        const char = text.charAt(index);
+        if (SEPARATOR_PATTERN.test(char)) {
+          flushUnknown();
+          index++;
+          continue;
+        }
+        let match = '';
+        for (let length = Math.min(maxLength, text.length - index); length > 0; length--) {
+          const candidate = text.slice(index, index + length);
+          if (dictionary.has(candidate)) {
+            match = candidate;
+            break;
+          }
+        }
+        if (match) {
+          flushUnknown();
+          tokens.push(match);
+          index += match.length;
+        } else {
+          unknown += char;
+          index++;
+        }
+      }
+      flushUnknown();
+      return tokens;
+    },
+  };
+}
+
+/**
+ * G2P provider backed by a word → G2P table (null for words not in the table)
+ */
+export function createTableG2P(table: Record<string, string>): G2PProvider {
+  return {
+    name: 'fake-table',
+    async getG2P(textTh, signal) {
+      throwIfAborted(signal);
+      return table[textTh.trim()] ?? null;
+    },
+  };
+}
+
+/**
+ * Dictionary provider backed by a word → senses table (no senses for words not in the table)
+ */
+export function createTableDictionary(entries: Record<string, MeaningTh[]>): DictionaryProvider {
+  return {
+    name: 'fake-table',
+    async lookup(word, signal) {
+      throwIfAborted(signal);
+      return (entries[word.trim()] ?? []).map(sense => ({ ...sense }));
+    },
+  };
+}
+
+/**
+ * LLM provider backed by a word → generated senses table
+ * normalizeSenses returns copies of the senses as they are
+ */
+export function createFakeLLM(meanings: Record<string, MeaningTh[]> = {}): LLMProvider {
+  return {
+    name: 'fake-llm',
+    async createMeanings(word, _context, signal) {
+      throwIfAborted(signal);
+      return (meanings[word.trim()] ?? []).map(sense => ({ ...sense }));
+    },
+    async normalizeSenses(senses, _context, signal) {
+      throwIfAborted(signal);
+      return senses.map(sense => ({ ...sense }));
+    },
+  };
+}
+
+/**
+ * All four fake providers from one lexicon - the tokenizer knows every word of the lexicon
+ */
+export function createFakeProviders(lexicon: FakeLexicon): Providers {
+  const validated = fakeLexiconSchema.parse(lexicon);
+  const g2p: Record<string, string> = {};
+  const senses: Record<string, MeaningTh[]> = {};
+  const gptMeanings: Record<string, MeaningTh[]> = {};
+  for (const [word, entry] of Object.entries(validated)) {
+    if (entry.g2p !== undefined) {
+      g2p[word] = entry.g2p;
+    }
+    if (entry.senses !== undefined) {
+      senses[word] = entry.senses;
+    }
+    if (entry.gptMeanings !== undefined) {
+      gptMeanings[word] = entry.gptMeanings;
+    }
+  }
+  return {
+    tokenizer: createDictionaryTokenizer(Object.keys(validated)),
+    g2p: createTableG2P(g2p),
+    dictionary: createTableDictionary(senses),
+    llm: createFakeLLM(gptMeanings),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Service Providers
+ * Interfaces the built-in pipeline steps call instead of specific APIs
+ *
+ * - Tokenizer: Thai text → word strings (live: AI4Thai longan)
+ * - G2PProvider: Thai word → G2P phonetic string (live: AI4Thai G2P)
+ * - DictionaryProvider: Thai word → dictionary senses (live: ORST)
+ * - LLMProvider: GPT-backed sense generation and normalization (live: OpenAI gpt-4o)
+ *
+ * The live providers are the default; fakes (./fakeProviders.ts) are injected with setProviders or the
+ * providers option of executeStepsFromSchema. A run that uses any non-live provider bypasses the step
+ * cache, so fake outputs never reach (or come from) the cache of real runs
+ */
+
+import type { MeaningTh } from '../../schemas/meaningThSchema';
+import { tokenizeThaiSentence } from '../tokenization/ai4thaiTokenizer';
+import { getG2P } from '../phonetics/ai4thaiG2P';
+import { fetchOrstMeanings } from '../meanings/fetchOrstMeanings';
+import { normalizeSensesWithGPT } from '../meanings/gptNormalizeSenses';
+import { createMeaningsWithGPT, type GPTMeaningContext } from '../meanings/gptMeaning';
+import {
+  createMeaningsWithGPTBatch,
+  normalizeSensesWithGPTBatch,
+  type GPTMeaningBatchItem,
+  type NormalizeSensesBatchItem,
+} from '../meanings/gptBatch';
+
+export interface Tokenizer {
+  name: string;
+  tokenize(text: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+/**
+ * G2P provider - null when no phonetic is known for the text (the getG2P step fails on null)
+ */
+export interface G2PProvider {
+  name: string;
+  getG2P(textTh: string, signal?: AbortSignal): Promise<string | null>;
+}
+
+/**
+ * Dictionary provider - senses must match meaningThSchema (the step skips invalid ones)
+ */
+export interface DictionaryProvider {
+  name: string;
+  lookup(word: string, signal?: AbortSignal): Promise<MeaningTh[]>;
+}
+
+/**
+ * Context passed to LLMProvider.normalizeSenses
+ */
+export interface NormalizeSensesContext {
+  textTh: string;
+  fullThaiText?: string;
+  showName?: string;
+  episode?: number;
+  season?: number;
+}
+
+/**
+ * LLM provider
+ * - createMeanings: Generate senses for a word without dictionary senses
+ * - normalizeSenses: Rewrite senses' definition_th (same senses, same ids)
+ * - createMeaningsBatch / normalizeSensesBatch: Optional many-words-per-request variants used by the batching
+ *   provider (./batchingLLM.ts) - results are aligned with the items, null for an item the
+ *   provider could not answer (it is retried with the single-word method)
+ */
+export interface LLMProvider {
+  name: string;
+  createMeanings(word: string, context: GPTMeaningContext, signal?: AbortSignal): Promise<MeaningTh[]>;
+  normalizeSenses(senses: MeaningTh[], context: NormalizeSensesContext, signal?: AbortSignal): Promise<MeaningTh[]>;
+  createMeaningsBatch?(items: GPTMeaningBatchItem[], signal?: AbortSignal): Promise<Array<MeaningTh[] | null>>;
+  normalizeSensesBatch?(items: NormalizeSensesBatchItem[], signal?: AbortSignal): Promise<Array<MeaningTh[] | null>>;
+}
+
+export interface Providers {
+  tokenizer: Tokenizer;
+  g2p: G2PProvider;
+  dictionary: DictionaryProvider;
+  llm: LLMProvider;
+}
+
+export const ai4thaiTokenizer: Tokenizer = {
+  name: 'ai4thai',
+  tokenize: tokenizeThaiSentence,
+};
+
+export const ai4thaiG2PProvider: G2PProvider = {
+  name: 'ai4thai',
+  getG2P,
+};
+
+export const orstDictionary: DictionaryProvider = {
+  name: 'orst',
+  lookup: fetchOrstMeanings,
+};
+
+export const openaiLLM: LLMProvider = {
+  name: 'openai',
+  createMeanings: createMeaningsWithGPT,
+  normalizeSenses: normalizeSensesWithGPT,
+  createMeaningsBatch: createMeaningsWithGPTBatch,
+  normalizeSensesBatch: normalizeSensesWithGPTBatch,
+};
+
+export const LIVE_PROVIDERS: Readonly<Providers> = Object.freeze({
+  tokenizer: ai4thaiTokenizer,
+  g2p: ai4thaiG2PProvider,
+  dictionary: orstDictionary,
+  llm: openaiLLM,
+});
+
+let defaultProviders: Providers = { ...LIVE_PROVIDERS };
+
+/**
+ * Providers used when executeStepsFromSchema gets no providers option
+ */
+export function getProviders(): Providers {
+  return defaultProviders;
+}
+
+/**
+ * Replace some default providers (the others are kept) - setProviders(LIVE_PROVIDERS) restores the live ones
+ */
+export function setProviders(providers: Partial<Providers>): void {
+  defaultProviders = { ...defaultProviders, ...providers };
+}
+
+/**
+ * Default providers with per-run overrides applied
+ */
+export function resolveProviders(overrides?: Partial<Providers>): Providers {
+  return overrides ? { ...defaultProviders, ...overrides } : defaultProviders;
+}
+
+/**
+ * Whether every provider is a live one
+ * Compared by name - wrappers that return what the provider they wrap returns (e.g. the batching LLM) keep its name
+ */
+export function usesLiveProviders(providers: Providers): boolean {
+  return (Object.keys(LIVE_PROVIDERS) as Array<keyof Providers>).every(kind => providers[kind].name === LIVE_PROVIDERS[kind].name);
+}
+
+/**
+ * Provider names for logs and telemetry (e.g. "tokenizer=fake-dictionary, g2p=ai4thai, ...")
+ */
+export function describeProviders(providers: Providers): string {
+  return (Object.keys(providers) as Array<keyof Providers>).map(kind => `${kind}=${providers[kind].name}`).join(', ');
+}
@@ -0,0 +1,214 @@
+/**
+ * Rate Limiter
+ * Shared token-bucket limiter per external service (src/schemas/rateLimitSchema.ts)
+ *
+ * - acquireRateLimit: Called by every external call site right before fetch() - waits until the service's
+ *   bucket has a token and a concurrency slot is free, and returns a release function to call once fetch()
+ *   has settled. Waiters are served in FIFO order
+ * - getRateLimitStats / subscribeRateLimitStats: Requests in flight and queue depth per service (inspector
+ *   progress UI, CLI)
+ *
+ * Limiters are module-level: every caller in the page or process (Process All, CLI, workers) shares them
+ * Waiting for a slot is not API latency - call sites start their usage timer after acquiring
+ */
+
+import { serviceNameSchema, type ServiceName } from '../../schemas/apiUsageSchema';
+import { rateLimitsSchema, type RateLimitConfig, type RateLimits } from '../../schemas/rateLimitSchema';
+import { getAbortError, throwIfAborted } from '../../utils/abort';
+
+/**
+ * Default limits - conservative for the free AI4Thai tier and ORST (a public dictionary site)
+ */
+export const DEFAULT_RATE_LIMITS: Record<ServiceName, RateLimitConfig> = {
+  'ai4thai-tokenizer': { requestsPerSecond: 5, maxConcurrent: 4 },
+  'ai4thai-g2p': { requestsPerSecond: 5, maxConcurrent: 4 },
+  orst: { requestsPerSecond: 2, maxConcurrent: 2 },
+  openai: { requestsPerSecond: 8, maxConcurrent: 8 },
+};
+
+/**
+ * Current state of a service's limiter
+ * - active: Requests holding a slot (in flight)
+ * - queued: Requests waiting for a slot
+ */
+export interface RateLimiterStats {
+  service: ServiceName;
+  active: number;
+  queued: number;
+  config: RateLimitConfig;
+}
+
+export type RateLimitStats = Record<ServiceName, RateLimiterStats>;
+
+/**
+ * Limiter for one service
+ * - acquire: Wait for a slot - rejects with an AbortError if the signal aborts while waiting
+ * - configure: Replace the limits (waiters are re-evaluated immediately)
+ */
+export interface RateLimiter {
+  service: ServiceName;
+  acquire(signal?: AbortSignal): Promise<() => void>;
+  configure(config: RateLimitConfig): void;
+  stats(): RateLimiterStats;
+}
+
+interface Waiter {
+  grant: (release: () => void) => void;
+  detach: () => void;
+}
+
+type StatsListener = (stats: RateLimitStats) => void;
+
+const listeners = new Set<StatsListener>();
+
+function notifyListeners(): void {
+  if (listeners.size === 0) {
+    return;
+  }
+  const stats = getRateLimitStats();
+  for (const listener of listeners) {
+    try {
+      listener(stats);
+    } catch (error) {
+      console.warn('[Rate Limiter] Stats listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Create a token-bucket limiter
+ * @param now - Clock (injectable for deterministic callers)
+ */
+export function createRateLimiter(service: ServiceName, config: RateLimitConfig, now: () => number = Date.now): RateLimiter {
+  let current = config;
+  const capacity = () => current.burst ?? Math.max(1, Math.ceil(current.requestsPerSecond));
+  let tokens = capacity();
+  let lastRefill = now();
+  let active = 0;
+  const queue: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = () => {
+    const time = now();
+    tokens = Math.min(capacity(), tokens + ((time - lastRefill) / 1000) * current.requestsPerSecond);
+    lastRefill = time;
+  };
+
+  const createRelease = () => {
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        active -= 1;
+        pump();
+      }
+    };
+  };
+
+  // Grant slots to waiters in order while tokens and concurrency allow, then wait for the next token
+  function pump(): void {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    refill();
+    while (queue.length > 0 && active < current.maxConcurrent && tokens >= 1) {
+      const waiter = queue.shift() as Waiter;
+      tokens -= 1;
+      active += 1;
+      waiter.detach();
+      waiter.grant(createRelease());
+    }
+    if (queue.length > 0 && active < current.maxConcurrent) {
+      timer = setTimeout(pump, Math.max(1, Math.ceil(((1 - tokens) / current.requestsPerSecond) * 1000)));
+    }
+    notifyListeners();
+  }
+
+  return {
+    service,
+    acquire(signal) {
+      throwIfAborted(signal);
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          const index = queue.indexOf(waiter);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(getAbortError(signal as AbortSignal));
+            notifyListeners();
+          }
+        };
+        const waiter: Waiter = {
+          grant: resolve,
+          detach: () => signal?.removeEventListener('abort', onAbort),
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(waiter);
+        pump();
+      });
+    },
+    configure(config) {
+      refill();
+      current = config;
+      tokens = Math.min(tokens, capacity());
+      pump();
+    },
+    stats() {
+      return { service, active, queued: queue.length, config: current };
+    },
+  };
+}
+
+const limiters = new Map<ServiceName, RateLimiter>();
+
+/**
+ * Shared limiter of a service (created with DEFAULT_RATE_LIMITS on first use)
+ */
+export function getRateLimiter(service: ServiceName): RateLimiter {
+  let limiter = limiters.get(service);
+  if (!limiter) {
+    limiter = createRateLimiter(service, DEFAULT_RATE_LIMITS[service]);
+    limiters.set(service, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Wait for a slot of a service's shared limiter
+ * @returns Function that frees the slot - call it in a finally block around fetch()
+ */
+export function acquireRateLimit(service: ServiceName, signal?: AbortSignal): Promise<() => void> {
+  return getRateLimiter(service).acquire(signal);
+}
+
+/**
+ * Override the limits of some services (validated with rateLimitsSchema)
+ */
+export function configureRateLimits(limits: RateLimits): void {
+  const validated = rateLimitsSchema.parse(limits);
+  for (const [service, config] of Object.entries(validated) as Array<[ServiceName, RateLimitConfig | undefined]>) {
+    if (config) {
+      getRateLimiter(service).configure(config);
+    }
+  }
+}
+
+/**
+ * Requests in flight and queue depth of every service
+ */
+export function getRateLimitStats(): RateLimitStats {
+  return Object.fromEntries(
+    serviceNameSchema.options.map(service => [service, getRateLimiter(service).stats()])
+  ) as RateLimitStats;
+}
+
+/**
+ * Follow limiter changes (a request queued, started or finished)
+ * @returns Function that unsubscribes the listener
+ */
+export function subscribeRateLimitStats(listener: StatsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Service Error Classification
+ *
+ * External services (AI4Thai tokenizer/G2P, ORST, OpenAI) throw ServiceError so the pipeline
+ * engine can decide whether a failure is worth retrying (see src/schemas/retryPolicySchema.ts)
+ */
+
+import type { ServiceErrorClass } from '../schemas/retryPolicySchema';
+import type { ServiceName } from '../schemas/apiUsageSchema';
+import { isAbortError } from '../utils/abort';
+
+export type { ServiceName } from '../schemas/apiUsageSchema';
+
+/**
+ * Error thrown by an external service call
+ * - errorClass: network | rate_limit | validation | not_found
+ * - status: HTTP status when the service responded
+ * - retryAfterMs: Server-provided Retry-After hint (rate limits)
+ */
+export class ServiceError extends Error {
+  readonly service: ServiceName;
+  readonly errorClass: ServiceErrorClass;
+  readonly status: number | undefined;
+  readonly retryAfterMs: number | undefined;
+  readonly cause: unknown;
+
+  constructor(
+    service: ServiceName,
+    errorClass: ServiceErrorClass,
+    message: string,
+    details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+    this.service = service;
+    this.errorClass = errorClass;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Classify an HTTP status code
+ * 429 → rate_limit, 404/410 → not_found, 408/5xx → network, other 4xx → validation
+ */
+export function classifyHttpStatus(status: number): ServiceErrorClass {
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status === 404 || status === 410) {
+    return 'not_found';
+  }
+  if (status === 408 || status >= 500) {
+    return 'network';
+  }
+  return 'validation';
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build a ServiceError from a non-OK HTTP response
+ * @param bodyText - Response body (already read by the caller, truncated in the message)
+ */
+export function serviceErrorFromResponse(service: ServiceName, response: Response, bodyText: string): ServiceError {
+  const details: { status: number; retryAfterMs?: number } = { status: response.status };
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+  if (retryAfterMs !== undefined) {
+    details.retryAfterMs = retryAfterMs;
+  }
+  return new ServiceError(
+    service,
+    classifyHttpStatus(response.status),
+    `${service} API error: ${response.status} ${response.statusText} - ${bodyText.substring(0, 200)}`,
+    details
+  );
+}
+
+/**
+ * Wrap an error thrown by fetch() itself (DNS, connection reset, CORS, offline) as a network error
+ * ServiceErrors and abort errors (cancellation) pass through unchanged
+ */
+export function toNetworkError(service: ServiceName, error: unknown): Error {
+  if (error instanceof ServiceError || (error instanceof Error && isAbortError(error))) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ServiceError(service, 'network', `${service} request failed: ${message}`, { cause: error });
+}
+
+/**
+ * Get the error class of any thrown value
+ * @returns Error class, or null if the error was not classified by a service
+ */
+export function getServiceErrorClass(error: unknown): ServiceErrorClass | null {
+  return error instanceof ServiceError ? error.errorClass : null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Telemetry Sinks
+ * Destinations for telemetry events (./telemetry.ts)
+ *
+ * - console: Structured console output (warn/error levels use console.warn/console.error)
+ * - memory: Ring buffer of recent events - read by the Supabase Inspector
+ * - http: POSTs each event as JSON to a collector URL (fire-and-forget) - the URL comes from TELEMETRY_HTTP_URL
+ * - none: Drops everything
+ */
+
+import type { TelemetryEvent } from './telemetry';
+
+export interface TelemetrySink {
+  name: string;
+  emit(event: TelemetryEvent): void;
+}
+
+export type TelemetrySinkName = 'console' | 'memory' | 'http' | 'none';
+
+export const DEFAULT_RING_BUFFER_CAPACITY = 500;
+
+/**
+ * Ring buffer sink - also lets a UI subscribe to new events
+ */
+export interface MemoryTelemetrySink extends TelemetrySink {
+  getEvents(): TelemetryEvent[];
+  clear(): void;
+  subscribe(listener: (event: TelemetryEvent) => void): () => void;
+}
+
+export function createConsoleSink(): TelemetrySink {
+  return {
+    name: 'console',
+    emit(event) {
+      const label = `[Telemetry] ${event.type === 'span_end' ? `${event.name} ${event.outcome} ${event.durationMs}ms` : `${event.location}: ${event.name}`}`;
+      if (event.level === 'error') {
+        console.error(label, event.attributes);
+      } else if (event.level === 'warn') {
+        console.warn(label, event.attributes);
+      } else {
+        console.log(label, event.attributes);
+      }
+    },
+  };
+}
+
+export function createMemorySink(capacity = DEFAULT_RING_BUFFER_CAPACITY): MemoryTelemetrySink {
+  const buffer: TelemetryEvent[] = [];
+  const listeners = new Set<(event: TelemetryEvent) => void>();
+  return {
+    name: 'memory',
+    emit(event) {
+      buffer.push(event);
+      if (buffer.length > capacity) {
+        buffer.splice(0, buffer.length - capacity);
+      }
+      for (const listener of listeners) {
+        listener(event);
+      }
+    },
+    getEvents() {
+      return [...buffer];
+    },
+    clear() {
+      buffer.length = 0;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function createHttpSink(url: string): TelemetrySink {
+  if (!url.trim()) {
+    throw new Error('Telemetry http sink requires a collector URL');
+  }
+  return {
+    name: 'http',
+    emit(event) {
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)),
+      }).catch(() => {});
+    },
+  };
+}
+
+export function createNoopSink(): TelemetrySink {
+  return { name: 'none', emit() {} };
+}
+
+let sharedMemorySink: MemoryTelemetrySink | null = null;
+
+/**
+ * The process-wide ring buffer (created on first use) - the "memory" sink name always resolves to it
+ */
+export function getMemorySink(): MemoryTelemetrySink {
+  if (!sharedMemorySink) {
+    sharedMemorySink = createMemorySink();
+  }
+  return sharedMemorySink;
+}
+
+/**
+ * Build sinks from names (unknown names are ignored with a warning; "none" yields no sink)
+ * "http" needs options.httpUrl - without it the sink is ignored with a warning
+ */
+export function createSinksFromNames(names: string[], options: { httpUrl?: string } = {}): TelemetrySink[] {
+  const result: TelemetrySink[] = [];
+  for (const rawName of names) {
+    const name = rawName.trim();
+    if (name === 'console') {
+      result.push(createConsoleSink());
+    } else if (name === 'memory') {
+      result.push(getMemorySink());
+    } else if (name === 'http') {
+      if (options.httpUrl) {
+        result.push(createHttpSink(options.httpUrl));
+      } else {
+        console.warn('[Telemetry] Sink "http" ignored - set TELEMETRY_HTTP_URL to the collector URL');
+      }
+    } else if (name !== 'none' && name !== '') {
+      console.warn(`[Telemetry] Unknown sink "${name}" ignored`);
+    }
+  }
+  return result;
+}
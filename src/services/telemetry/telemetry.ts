@@ -0,0 +1,244 @@
+/**
+ * Telemetry
+ * Structured events and spans (run → word → step) delivered to pluggable sinks (./sinks.ts)
+ *
+ * - recordEvent: One-off structured event (replaces the hand-built debug ingest fetch calls)
+ * - startSpan / withSpan: Timed unit of work - emits span_start and span_end (duration, outcome)
+ * Sinks are chosen once from VITE_TELEMETRY_SINKS / TELEMETRY_SINKS (see resolveDefaultSinks) and can be
+ * replaced at runtime with setTelemetrySinks - with no sinks every call is a cheap no-op (production default)
+ */
+
+import { isAbortError } from '../../utils/abort';
+import { createSinksFromNames, type TelemetrySink } from './sinks';
+
+export type { TelemetrySink } from './sinks';
+
+export type TelemetryLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type SpanOutcome = 'ok' | 'error' | 'cancelled' | 'skipped';
+
+/**
+ * Event delivered to sinks
+ * - location: Emitting code location ("file.ts:function")
+ * - traceId/spanId/parentSpanId: Present for span events and events recorded on a span
+ * - durationMs/outcome: Present on span_end only
+ */
+export interface TelemetryEvent {
+  type: 'event' | 'span_start' | 'span_end';
+  name: string;
+  location: string;
+  level: TelemetryLevel;
+  timestamp: number;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  durationMs?: number;
+  outcome?: SpanOutcome;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Span handle
+ * - event: Record an event attached to this span
+ * - child: Start a nested span (same trace)
+ * - end: Close the span (only the first call emits span_end)
+ */
+export interface Span {
+  traceId: string;
+  spanId: string;
+  name: string;
+  event(message: string, attributes?: Record<string, unknown>, level?: TelemetryLevel): void;
+  child(name: string, attributes?: Record<string, unknown>): Span;
+  end(outcome: SpanOutcome, attributes?: Record<string, unknown>): void;
+}
+
+let sinks: TelemetrySink[] | null = null;
+
+/**
+ * Read a config value from Vite (import.meta.env) or Node (process.env)
+ */
+function readEnv(name: string): string | undefined {
+  const viteEnv = (import.meta as { env?: Record<string, unknown> }).env;
+  const viteValue = viteEnv?.[`VITE_${name}`];
+  if (typeof viteValue === 'string' && viteValue.trim()) {
+    return viteValue.trim();
+  }
+  if (typeof process !== 'undefined') {
+    const nodeValue = process.env?.[`VITE_${name}`] ?? process.env?.[name];
+    if (nodeValue && nodeValue.trim()) {
+      return nodeValue.trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Default sinks
+ * - VITE_TELEMETRY_SINKS / TELEMETRY_SINKS: Comma-separated sink names (console, memory, http, none)
+ * - VITE_TELEMETRY_HTTP_URL / TELEMETRY_HTTP_URL: Collector URL of the http sink (required by it)
+ * - Otherwise: memory in Vite dev builds, none in production builds and Node scripts
+ */
+function resolveDefaultSinks(): TelemetrySink[] {
+  const configured = readEnv('TELEMETRY_SINKS');
+  if (configured) {
+    const httpUrl = readEnv('TELEMETRY_HTTP_URL');
+    return createSinksFromNames(configured.split(','), httpUrl ? { httpUrl } : {});
+  }
+  const viteEnv = (import.meta as { env?: Record<string, unknown> }).env;
+  return viteEnv?.DEV === true ? createSinksFromNames(['memory']) : [];
+}
+
+/**
+ * Active sinks (resolved from the environment on first use)
+ */
+export function getTelemetrySinks(): TelemetrySink[] {
+  if (sinks === null) {
+    sinks = resolveDefaultSinks();
+  }
+  return sinks;
+}
+
+/**
+ * Replace the active sinks - pass [] to switch telemetry off
+ */
+export function setTelemetrySinks(next: TelemetrySink[]): void {
+  sinks = next;
+}
+
+/**
+ * Whether any sink is active - lets callers skip building expensive attributes
+ */
+export function isTelemetryEnabled(): boolean {
+  return getTelemetrySinks().length > 0;
+}
+
+function emit(event: TelemetryEvent): void {
+  for (const sink of getTelemetrySinks()) {
+    try {
+      sink.emit(event);
+    } catch (error) {
+      // A broken sink must never break the code being observed
+      console.warn(`[Telemetry] Sink "${sink.name}" failed:`, error);
+    }
+  }
+}
+
+function createId(): string {
+  return Math.random().toString(16).slice(2, 10) + Date.now().toString(16).slice(-6);
+}
+
+/**
+ * Record a structured event outside of a span
+ * @param location - Emitting code location ("file.ts:function")
+ */
+export function recordEvent(location: string, message: string, attributes: Record<string, unknown> = {}, level: TelemetryLevel = 'debug'): void {
+  if (!isTelemetryEnabled()) {
+    return;
+  }
+  emit({ type: 'event', name: message, location, level, timestamp: Date.now(), attributes });
+}
+
+/**
+ * Start a span (a new trace unless parent is given)
+ * @param name - Span name, e.g. "run", "word", "step"
+ * @param parent - Enclosing span
+ */
+export function startSpan(name: string, attributes: Record<string, unknown> = {}, parent?: Span): Span {
+  const traceId = parent?.traceId ?? createId();
+  const spanId = createId();
+  const startedAt = Date.now();
+  const ids = parent ? { traceId, spanId, parentSpanId: parent.spanId } : { traceId, spanId };
+  let ended = false;
+
+  if (isTelemetryEnabled()) {
+    emit({ type: 'span_start', name, location: name, level: 'debug', timestamp: startedAt, ...ids, attributes });
+  }
+
+  const span: Span = {
+    traceId,
+    spanId,
+    name,
+    event(message, eventAttributes = {}, level = 'debug') {
+      if (isTelemetryEnabled()) {
+        emit({ type: 'event', name: message, location: name, level, timestamp: Date.now(), ...ids, attributes: eventAttributes });
+      }
+    },
+    child(childName, childAttributes = {}) {
+      return startSpan(childName, childAttributes, span);
+    },
+    end(outcome, endAttributes = {}) {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      if (isTelemetryEnabled()) {
+        const now = Date.now();
+        emit({
+          type: 'span_end',
+          name,
+          location: name,
+          level: outcome === 'error' ? 'error' : 'info',
+          timestamp: now,
+          ...ids,
+          durationMs: now - startedAt,
+          outcome,
+          attributes: { ...attributes, ...endAttributes },
+        });
+      }
+    },
+  };
+  return span;
+}
+
+/**
+ * Run fn inside a span - ends "ok" on success, "cancelled" on abort, "error" otherwise (and rethrows)
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, unknown>,
+  parent: Span | undefined,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, attributes, parent);
+  try {
+    const result = await fn(span);
+    span.end('ok');
+    return result;
+  } catch (error) {
+    span.end(isAbortError(error) ? 'cancelled' : 'error', { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Compact summary of a value for span attributes - never copies large payloads
+ * Strings → length, arrays → length, objects → key list, primitives as-is
+ */
+export function summarizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length <= 40 ? value : `string(${value.length})`;
+  }
+  if (Array.isArray(value)) {
+    return `array(${value.length})`;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value && typeof value === 'object') {
+    return `object{${Object.keys(value).join(',')}}`;
+  }
+  return value;
+}
+
+/**
+ * Summarize every field of a context-like object with summarizeValue
+ */
+export function summarizeFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      summary[key] = summarizeValue(value);
+    }
+  }
+  return summary;
+}
@@ -5,17 +5,23 @@
 
 import { getAI4ThaiApiKey, AI4THAI_TOKENIZE_ENDPOINT } from '../../utils/ai4thaiConfig';
 import { sanitizeThaiText } from '../../utils/thaiTextSanitizer';
+import { ServiceError, serviceErrorFromResponse, toNetworkError } from '../serviceErrors';
+import { reportUsage } from '../usage/usageLedger';
+import { acquireRateLimit } from '../rateLimit/rateLimiter';
+import { httpFetch } from '../http/httpTransport';
 
 /**
  * Tokenize Thai sentence into array of tokens
  * @param {string} thaiSentence - Thai sentence to tokenize
+ * @param {AbortSignal} [signal] - Cancels the in-flight request (rejects with an AbortError)
  * @returns {Promise<string[]>} Array of token strings
+ * @throws {ServiceError} On missing API key (validation), HTTP errors (classified by status) or network failures
  */
-export async function tokenizeThaiSentence(thaiSentence: string): Promise<string[]> {
+export async function tokenizeThaiSentence(thaiSentence: string, signal?: AbortSignal): Promise<string[]> {
   try {
     const apiKey = getAI4ThaiApiKey();
     if (!apiKey || !apiKey.trim()) {
-      throw new Error('[Thai Pipeline] ❌ API key is missing. Set it using: setAI4ThaiApiKey("your-key-here") or VITE_AI4THAI_API_KEY environment variable');
+      throw new ServiceError('ai4thai-tokenizer', 'validation', '[Thai Pipeline] ❌ API key is missing. Set it using: setAI4ThaiApiKey("your-key-here") or VITE_AI4THAI_API_KEY environment variable');
     }
     
     const headers = {
@@ -33,17 +39,24 @@ export async function tokenizeThaiSentence(thaiSentence: string): Promise<string
     formData.append('sentseg', 'false');
     
     
+    const releaseRateLimit = await acquireRateLimit('ai4thai-tokenizer', signal);
+    const startedAt = Date.now();
     let response: Response;
     try {
-      response = await fetch(AI4THAI_TOKENIZE_ENDPOINT, {
+      response = await httpFetch('ai4thai-tokenizer', AI4THAI_TOKENIZE_ENDPOINT, {
         method: 'POST',
         headers,
-        body: formData.toString()
+        body: formData.toString(),
+        ...(signal ? { signal } : {})
       });
     } catch (fetchError) {
-      throw fetchError;
+      throw toNetworkError('ai4thai-tokenizer', fetchError);
+    } finally {
+      releaseRateLimit();
     }
     
+    reportUsage({ service: 'ai4thai-tokenizer', operation: 'tokenizeThaiSentence', latencyMs: Date.now() - startedAt, success: response.ok });
+
     if (!response.ok) {
       let errorText = '';
       try {
@@ -51,10 +64,15 @@ export async function tokenizeThaiSentence(thaiSentence: string): Promise<string
       } catch (e) {
         errorText = 'Could not read error response body';
       }
-      throw new Error(`API error: ${response.status} ${response.statusText} - ${errorText.substring(0, 200)}`);
+      throw serviceErrorFromResponse('ai4thai-tokenizer', response, errorText);
     }
     
-    const data = await response.json();
+    let data;
+    try {
+      data = await response.json();
+    } catch (parseError) {
+      throw new ServiceError('ai4thai-tokenizer', 'validation', 'Tokenizer returned invalid JSON', { cause: parseError });
+    }
     
     let tokens: string[] = [];
     
@@ -86,11 +104,12 @@ export async function tokenizeThaiSentence(thaiSentence: string): Promise<string
  * Build tokens_th object from Thai text
  * Converts tokenized text to the format expected by subtitleSchema: { tokens: Array<{t: string, meaning_id?: bigint}> }
  * @param {string} thaiText - Thai text to tokenize
+ * @param {AbortSignal} [signal] - Cancels the tokenizer request
  * @returns {Promise<{ tokens: Array<{t: string, meaning_id?: bigint}> }>} Thai tokens object (for tokens_th field)
  */
-export async function buildThaiTokensFromText(thaiText: string): Promise<{ tokens: Array<{t: string, meaning_id?: bigint}> }> {
+export async function buildThaiTokensFromText(thaiText: string, signal?: AbortSignal): Promise<{ tokens: Array<{t: string, meaning_id?: bigint}> }> {
   try {
-    const tokenStrings = await tokenizeThaiSentence(thaiText);
+    const tokenStrings = await tokenizeThaiSentence(thaiText, signal);
     const tokens = tokenStrings.map(t => ({ t }));
     return { tokens };
   } catch (error) {
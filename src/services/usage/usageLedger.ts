@@ -0,0 +1,262 @@
+/**
+ * Usage Ledger
+ * Accounts for external API usage (calls, tokens, latency) and enforces usage budgets
+ *
+ * - reportUsage: Called by every external call site once the service has responded - records the call
+ *   into every active ledger and emits a telemetry event
+ * - createUsageLedger: Usage of one pipeline run / episode, persisted to api_usage with flush()
+ * - reserve: Called by the pipeline engine before a step that calls a service - throws
+ *   BudgetExceededError when one more call would exceed a call limit or a token limit is already reached
+ *
+ * Active ledgers are module-level: calls made while a ledger is active are attributed to it, so two
+ * episodes processed concurrently in the same page would both see each other's calls
+ * Calls that never reached the service (network errors, aborted before sending) are not recorded
+ */
+
+import {
+  usageBudgetSchema,
+  usageRecordSchema,
+  type ServiceName,
+  type UsageBudget,
+  type UsageLimits,
+  type UsageRecord,
+  type UsageTotals,
+} from '../../schemas/apiUsageSchema';
+import { saveUsageRecords } from '../../supabase/apiUsage';
+import { recordEvent } from '../telemetry/telemetry';
+
+/**
+ * One external call as reported by a call site
+ * - operation: Calling function, e.g. "getG2P"
+ * - success: false when the service responded with an error status
+ */
+export interface UsageReport {
+  service: ServiceName;
+  operation: string;
+  model?: string;
+  tokensIn?: number;
+  tokensOut?: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+export type UsageScope = 'run' | 'episode';
+
+export type UsageSummary = Partial<Record<ServiceName, UsageTotals>>;
+
+/**
+ * Thrown before a call that would exceed a usage budget - the pipeline treats it as fatal
+ * (never retried, never an acceptable failure)
+ */
+export class BudgetExceededError extends Error {
+  readonly scope: UsageScope;
+  readonly service: ServiceName;
+  readonly limit: 'calls' | 'tokens';
+  readonly used: number;
+  readonly max: number;
+
+  constructor(scope: UsageScope, service: ServiceName, limit: 'calls' | 'tokens', used: number, max: number) {
+    super(`Usage budget exceeded: ${scope} ${limit === 'calls' ? `${service} calls` : 'tokens'} ${used}/${max}`);
+    this.name = 'BudgetExceededError';
+    this.scope = scope;
+    this.service = service;
+    this.limit = limit;
+    this.used = used;
+    this.max = max;
+  }
+}
+
+export function isBudgetExceededError(error: unknown): error is BudgetExceededError {
+  return error instanceof BudgetExceededError;
+}
+
+/**
+ * Ledger for one run / episode
+ * - record: Add a call (reportUsage does this for every active ledger)
+ * - summary: Totals per service for the run or the whole episode (including earlier runs)
+ * - reserve: Check the budget for one call to service and hold it until release is called
+ * - flush: Persist records not yet saved to api_usage (failed writes stay pending for the next flush)
+ */
+export interface UsageLedger {
+  runId?: string;
+  mediaId?: string;
+  record(report: UsageReport): void;
+  summary(scope: UsageScope): UsageSummary;
+  reserve(service: ServiceName): () => void;
+  flush(): Promise<void>;
+}
+
+/**
+ * Sum usage records per service
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {};
+  for (const record of records) {
+    const totals = summary[record.service] ?? { calls: 0, tokens_in: 0, tokens_out: 0, latency_ms: 0 };
+    totals.calls += 1;
+    totals.tokens_in += record.tokens_in;
+    totals.tokens_out += record.tokens_out;
+    totals.latency_ms += record.latency_ms;
+    summary[record.service] = totals;
+  }
+  return summary;
+}
+
+/**
+ * Throw BudgetExceededError if one more call to service would break the limits
+ */
+function checkLimits(scope: UsageScope, limits: UsageLimits | undefined, summary: UsageSummary, service: ServiceName, inFlight: number): void {
+  if (!limits) {
+    return;
+  }
+  const maxCalls = limits.maxCalls?.[service];
+  const calls = (summary[service]?.calls ?? 0) + inFlight;
+  if (maxCalls !== undefined && calls + 1 > maxCalls) {
+    throw new BudgetExceededError(scope, service, 'calls', calls, maxCalls);
+  }
+  // Token usage is only known after a call - halt once the limit has been reached
+  if (limits.maxTokens !== undefined) {
+    const tokens = Object.values(summary).reduce((sum, totals) => sum + totals.tokens_in + totals.tokens_out, 0);
+    if (tokens >= limits.maxTokens) {
+      throw new BudgetExceededError(scope, service, 'tokens', tokens, limits.maxTokens);
+    }
+  }
+}
+
+/**
+ * Create a ledger
+ * @param options.priorUsage - Usage already recorded for the episode (fetchUsageForEpisode) - counts
+ *   towards the episode budget, and towards the run budget for records of the same run (resumed runs)
+ * @param options.budget - Limits enforced by reserve (validated with usageBudgetSchema)
+ */
+export function createUsageLedger(options: {
+  runId?: string;
+  mediaId?: string;
+  budget?: UsageBudget;
+  priorUsage?: UsageRecord[];
+} = {}): UsageLedger {
+  const budget = options.budget ? usageBudgetSchema.parse(options.budget) : {};
+  const priorUsage = options.priorUsage ?? [];
+  const records: UsageRecord[] = [];
+  const pending: UsageRecord[] = [];
+  const inFlight = new Map<ServiceName, number>();
+
+  const runRecords = (): UsageRecord[] => [
+    ...(options.runId ? priorUsage.filter(record => record.run_id === options.runId) : []),
+    ...records,
+  ];
+
+  const ledger: UsageLedger = {
+    record(report) {
+      const record = usageRecordSchema.parse({
+        id: crypto.randomUUID(),
+        run_id: options.runId ?? null,
+        media_id: options.mediaId ?? null,
+        service: report.service,
+        operation: report.operation,
+        model: report.model ?? null,
+        tokens_in: Math.max(0, Math.round(report.tokensIn ?? 0)),
+        tokens_out: Math.max(0, Math.round(report.tokensOut ?? 0)),
+        latency_ms: Math.max(0, Math.round(report.latencyMs)),
+        success: report.success,
+        created_at: new Date().toISOString(),
+      });
+      records.push(record);
+      pending.push(record);
+    },
+    summary(scope) {
+      return summarizeUsage(scope === 'run' ? runRecords() : [...priorUsage, ...records]);
+    },
+    reserve(service) {
+      const held = inFlight.get(service) ?? 0;
+      checkLimits('run', budget.perRun, ledger.summary('run'), service, held);
+      checkLimits('episode', budget.perEpisode, ledger.summary('episode'), service, held);
+      inFlight.set(service, held + 1);
+      let released = false;
+      return () => {
+        if (!released) {
+          released = true;
+          inFlight.set(service, Math.max(0, (inFlight.get(service) ?? 1) - 1));
+        }
+      };
+    },
+    async flush() {
+      if (pending.length === 0) {
+        return;
+      }
+      const batch = pending.splice(0, pending.length);
+      try {
+        await saveUsageRecords(batch);
+      } catch (error) {
+        pending.unshift(...batch);
+        console.warn(`[Usage Ledger] Failed to persist ${batch.length} usage record(s), will retry on next flush:`, error);
+      }
+    },
+  };
+  if (options.runId !== undefined) {
+    ledger.runId = options.runId;
+  }
+  if (options.mediaId !== undefined) {
+    ledger.mediaId = options.mediaId;
+  }
+  return ledger;
+}
+
+const activeLedgers = new Set<UsageLedger>();
+
+/**
+ * Attribute subsequent reportUsage calls to ledger
+ * @returns Function that deactivates the ledger
+ */
+export function activateUsageLedger(ledger: UsageLedger): () => void {
+  activeLedgers.add(ledger);
+  return () => {
+    activeLedgers.delete(ledger);
+  };
+}
+
+/**
+ * Report one external call - recorded by every active ledger
+ */
+export function reportUsage(report: UsageReport): void {
+  recordEvent(`usage:${report.service}`, report.operation, { ...report }, report.success ? 'debug' : 'warn');
+  for (const ledger of activeLedgers) {
+    try {
+      ledger.record(report);
+    } catch (error) {
+      // Accounting must never fail the call being accounted
+      console.warn('[Usage Ledger] Failed to record usage:', error);
+    }
+  }
+}
+
+/**
+ * Token counts from an OpenAI chat completion response body (0 when usage is missing)
+ */
+export function extractOpenAIUsage(data: unknown): { tokensIn: number; tokensOut: number } {
+  const usage = data && typeof data === 'object' ? (data as { usage?: unknown }).usage : undefined;
+  if (!usage || typeof usage !== 'object') {
+    return { tokensIn: 0, tokensOut: 0 };
+  }
+  const { prompt_tokens, completion_tokens } = usage as { prompt_tokens?: unknown; completion_tokens?: unknown };
+  return {
+    tokensIn: typeof prompt_tokens === 'number' ? prompt_tokens : 0,
+    tokensOut: typeof completion_tokens === 'number' ? completion_tokens : 0,
+  };
+}
+
+let defaultUsageBudget: UsageBudget | undefined;
+
+/**
+ * Budget used by processSubtitlesForEpisode when options.budget is not given (default: unlimited)
+ */
+export function getDefaultUsageBudget(): UsageBudget | undefined {
+  return defaultUsageBudget;
+}
+
+/**
+ * Replace the default budget - pass undefined to remove all limits
+ */
+export function setDefaultUsageBudget(budget: UsageBudget | undefined): void {
+  defaultUsageBudget = budget === undefined ? undefined : usageBudgetSchema.parse(budget);
+}
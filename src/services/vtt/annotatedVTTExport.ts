@@ -0,0 +1,182 @@
+/**
+ * Annotated VTT Export
+ * Export an episode as "study subtitles": a WebVTT file whose cues carry the Thai line plus per-token
+ * phonetic and/or English gloss lines, loadable in any player (VLC, mpv, browsers)
+ *
+ * Input is the episode data shape of useFullEpisodeData (subtitles_th rows with tokens_th and the
+ * thaiWords loaded from words_th / meanings_th) - loadAnnotatedEpisode loads the same shape outside React
+ *
+ * Cue layout (layers in the order given, default thai → phonetic → gloss):
+ *   สวัสดี ครับ
+ *   sa-wat-dee khrap
+ *   hello polite
+ * Token columns of the phonetic and gloss lines are separated by tokenSeparator. A token without a
+ * phonetic shows the Thai token, a token without a gloss shows missingGloss - so columns stay aligned
+ */
+
+import { fetchSenses, fetchSubtitles, fetchWord } from '../../supabase/index';
+import { subtitleThSchema, type SubtitleAnnotationLayer } from '../../schemas/subtitleThSchema';
+import { wordThSchema } from '../../schemas/wordThSchema';
+import { formatVTTTimestamp } from './vttUtils';
+
+export const DEFAULT_ANNOTATION_LAYERS: SubtitleAnnotationLayer[] = ['thai', 'phonetic', 'gloss'];
+
+/**
+ * Word as loaded by useFullEpisodeData (thaiWords) - senseId is meanings_th.id
+ */
+export interface AnnotatedWord {
+  word_th: string;
+  g2p?: string | null | undefined;
+  phonetic_en?: string | null | undefined;
+  senses?: Array<{ senseId?: bigint | number | string | undefined; label_eng?: string | null | undefined }>;
+}
+
+/**
+ * Subtitle as loaded by useFullEpisodeData
+ */
+export interface AnnotatedSubtitle {
+  thai: string;
+  start_sec_th: number;
+  end_sec_th: number;
+  tokens_th?: { tokens: Array<{ t: string; meaning_id?: bigint | number | string | undefined } | string> } | null | undefined;
+  thaiWords?: AnnotatedWord[] | undefined;
+}
+
+/**
+ * Export options
+ * - layers: Lines of each cue, in order (at least one)
+ * - title: Appended to the WEBVTT signature line
+ * - tokenSeparator: Between token columns (default " ")
+ * - missingGloss: Column text for a token without a gloss (default "?")
+ */
+export interface AnnotatedVTTOptions {
+  layers?: SubtitleAnnotationLayer[];
+  title?: string;
+  tokenSeparator?: string;
+  missingGloss?: string;
+}
+
+/**
+ * Escape text for a WebVTT cue payload ("&", "<" and ">" would be read as markup, "-->" would end the cue)
+ */
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function tokenText(token: { t: string } | string): string {
+  return (typeof token === 'string' ? token : token.t).trim();
+}
+
+/**
+ * Gloss of a token - the label_eng of its tokens_th meaning_id sense, else of the word's first sense with a label
+ */
+function glossForToken(token: { t: string; meaning_id?: bigint | number | string | undefined } | string, word: AnnotatedWord | undefined): string | null {
+  const senses = word?.senses ?? [];
+  const meaningId = typeof token === 'string' ? undefined : token.meaning_id;
+  const chosen = meaningId !== undefined
+    ? senses.find(sense => sense.senseId !== undefined && String(sense.senseId) === String(meaningId))
+    : undefined;
+  const label = chosen?.label_eng?.trim() || senses.find(sense => sense.label_eng?.trim())?.label_eng?.trim();
+  return label || null;
+}
+
+/**
+ * Build an annotated WebVTT file from episode subtitles
+ * Subtitles are written in start time order; phonetic / gloss lines are left out for subtitles without tokens
+ * @returns {string} WebVTT file content
+ * @throws {Error} If no layer is selected or a subtitle has invalid timing
+ */
+export function buildAnnotatedVTT(subtitles: AnnotatedSubtitle[], options: AnnotatedVTTOptions = {}): string {
+  const layers = options.layers ?? DEFAULT_ANNOTATION_LAYERS;
+  if (layers.length === 0) {
+    throw new Error('At least one annotation layer is required');
+  }
+  const separator = options.tokenSeparator ?? ' ';
+  const missingGloss = options.missingGloss ?? '?';
+
+  const sorted = [...subtitles].sort((a, b) => a.start_sec_th - b.start_sec_th);
+  const blocks: string[] = [options.title ? `WEBVTT - ${options.title.replace(/\s+/g, ' ').trim()}` : 'WEBVTT'];
+
+  sorted.forEach((subtitle, index) => {
+    if (!(subtitle.end_sec_th > subtitle.start_sec_th)) {
+      throw new Error(`Subtitle ${index + 1} has invalid timing: ${subtitle.start_sec_th} → ${subtitle.end_sec_th}`);
+    }
+    const words = new Map((subtitle.thaiWords ?? []).map(word => [word.word_th, word]));
+    const tokens = (subtitle.tokens_th?.tokens ?? []).filter(token => tokenText(token).length > 0);
+
+    const lines: string[] = [];
+    for (const layer of layers) {
+      if (layer === 'thai') {
+        lines.push(...subtitle.thai.split('\n').map(line => line.trim()).filter(Boolean));
+      } else if (tokens.length > 0) {
+        const columns = tokens.map(token => layer === 'phonetic'
+          ? words.get(tokenText(token))?.phonetic_en?.trim() || tokenText(token)
+          : glossForToken(token, words.get(tokenText(token))) ?? missingGloss);
+        lines.push(columns.join(separator));
+      }
+    }
+    if (lines.length === 0) {
+      return;
+    }
+
+    blocks.push([
+      String(index + 1),
+      `${formatVTTTimestamp(subtitle.start_sec_th)} --> ${formatVTTTimestamp(subtitle.end_sec_th)}`,
+      ...lines.map(escapeCueText),
+    ].join('\n'));
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Load an episode's subtitles with their words and senses (the useFullEpisodeData shape)
+ * @param {string} mediaId - Media ID of the episode
+ * @returns {Promise<AnnotatedSubtitle[]>} Subtitles with thaiWords - words missing from words_th are left out
+ */
+export async function loadAnnotatedEpisode(mediaId: string): Promise<AnnotatedSubtitle[]> {
+  const subtitles = (await fetchSubtitles(mediaId)).map(subtitle => subtitleThSchema.parse(subtitle));
+
+  const words = new Map<string, AnnotatedWord | null>();
+  for (const subtitle of subtitles) {
+    for (const token of subtitle.tokens_th?.tokens ?? []) {
+      const word_th = token.t.trim();
+      if (!word_th || words.has(word_th)) {
+        continue;
+      }
+      const row = await fetchWord(word_th);
+      if (!row) {
+        words.set(word_th, null);
+        continue;
+      }
+      const word = wordThSchema.parse(row);
+      const senses = await fetchSenses(word_th);
+      words.set(word_th, {
+        word_th,
+        g2p: word.g2p ?? null,
+        phonetic_en: word.phonetic_en ?? null,
+        // fetchSenses returns V3 rows (label_eng) typed as MeaningTh
+        senses: senses.map(sense => ({ senseId: sense.id, label_eng: 'label_eng' in sense && typeof sense.label_eng === 'string' ? sense.label_eng : null })),
+      });
+    }
+  }
+
+  return subtitles.map(subtitle => ({
+    ...subtitle,
+    thaiWords: (subtitle.tokens_th?.tokens ?? [])
+      .map(token => words.get(token.t.trim()))
+      .filter((word): word is AnnotatedWord => !!word),
+  }));
+}
+
+/**
+ * Export an episode as annotated WebVTT (loadAnnotatedEpisode + buildAnnotatedVTT)
+ * @throws {Error} If the episode has no subtitles
+ */
+export async function exportEpisodeAnnotatedVTT(mediaId: string, options: AnnotatedVTTOptions = {}): Promise<string> {
+  const subtitles = await loadAnnotatedEpisode(mediaId);
+  if (subtitles.length === 0) {
+    throw new Error(`No subtitles found for ${mediaId}`);
+  }
+  return buildAnnotatedVTT(subtitles, options);
+}
@@ -0,0 +1,220 @@
+/**
+ * ASS Karaoke Export
+ * Export an episode as an Advanced SubStation Alpha (.ass) file with word-by-word karaoke highlighting,
+ * for desktop players that render ASS (mpv, VLC, Aegisub)
+ *
+ * Input is the same episode shape as the annotated VTT export (loadAnnotatedEpisode) - only stored data is used:
+ * - Each tokens_th token is one karaoke segment ({\kN} - N centiseconds)
+ * - The cue duration is split across the tokens by syllable count (g2p syllables, 1 for a token without g2p)
+ * - Tone colouring: a token highlights in the colour of its last syllable's tone (the stressed syllable in Thai)
+ * - Romanization (optional): phonetic_en of each token on a top line, highlighted in sync with the Thai line
+ *
+ * Untokenized subtitles are written as a plain Thai line without karaoke
+ */
+
+import { parseG2PSyllableTones, type ThaiTone } from '../phonetics/phoneticParser';
+import { loadAnnotatedEpisode, type AnnotatedSubtitle, type AnnotatedWord } from './annotatedVTTExport';
+import { formatASSTimestamp } from './vttUtils';
+
+/**
+ * Highlight colour per tone ("#RRGGBB") - a token without a tone highlights in DEFAULT_HIGHLIGHT_COLOUR
+ */
+export const DEFAULT_TONE_COLOURS: Record<ThaiTone, string> = {
+  mid: '#7FD67F',
+  low: '#6FA8FF',
+  falling: '#FF6B6B',
+  high: '#FFC24D',
+  rising: '#C98BFF',
+};
+
+const DEFAULT_HIGHLIGHT_COLOUR = '#FFE066';
+const UNSUNG_COLOUR = '#FFFFFF';
+
+/**
+ * Export options
+ * - title: [Script Info] Title
+ * - romanization: Add the phonetic_en line above the Thai line (default false)
+ * - toneColours: Highlight each token in its tone colour (default true) - false highlights every token in one colour
+ * - toneColourOverrides: Replace palette entries ("#RRGGBB")
+ */
+export interface ASSKaraokeOptions {
+  title?: string;
+  romanization?: boolean;
+  toneColours?: boolean;
+  toneColourOverrides?: Partial<Record<ThaiTone, string>>;
+}
+
+/**
+ * Karaoke segment: Thai text (with the text between it and the previous token), romanization, duration and tone
+ */
+interface KaraokeSegment {
+  thai: string;
+  romanization: string;
+  centiseconds: number;
+  tone: ThaiTone | null;
+}
+
+/**
+ * "#RRGGBB" → ASS colour "&H00BBGGRR&" (ASS stores alpha + blue-green-red)
+ * @throws {Error} If the colour is not "#RRGGBB"
+ */
+function toASSColour(hex: string): string {
+  const match = hex.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) {
+    throw new Error(`Invalid colour "${hex}" (expected #RRGGBB)`);
+  }
+  return `&H00${match[3]}${match[2]}${match[1]}&`.toUpperCase();
+}
+
+/**
+ * Escape text for a Dialogue line - "{" / "}" would open override blocks and "\" starts tags;
+ * line breaks become the ASS hard break \N
+ */
+function escapeASSText(text: string): string {
+  return text
+    .replace(/\\/g, '＼')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\n/g, '\\N');
+}
+
+function tokenText(token: { t: string } | string): string {
+  return (typeof token === 'string' ? token : token.t).trim();
+}
+
+/**
+ * Split a total duration into integer parts proportional to the weights (largest remainder - the parts sum to total)
+ */
+function distributeCentiseconds(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let remaining = total - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    parts[index] = (parts[index] as number) + 1;
+    remaining--;
+  }
+  return parts;
+}
+
+/**
+ * Karaoke segments of a subtitle - tokens are located in the Thai text in order so spaces, punctuation and
+ * line breaks between them are kept; a token not found in the text is written as-is
+ */
+function buildSegments(subtitle: AnnotatedSubtitle, tokens: string[], words: Map<string, AnnotatedWord>, centiseconds: number): KaraokeSegment[] {
+  const syllables = tokens.map(token => parseG2PSyllableTones(words.get(token)?.g2p ?? ''));
+  const durations = distributeCentiseconds(centiseconds, syllables.map(tones => Math.max(1, tones.length)));
+
+  let cursor = 0;
+  const segments = tokens.map((token, index): KaraokeSegment => {
+    const found = subtitle.thai.indexOf(token, cursor);
+    let thai = token;
+    if (found >= 0) {
+      thai = subtitle.thai.substring(cursor, found + token.length);
+      cursor = found + token.length;
+    }
+    const tones = syllables[index] as Array<ThaiTone | null>;
+    return {
+      thai,
+      romanization: words.get(token)?.phonetic_en?.trim() || token,
+      centiseconds: durations[index] as number,
+      tone: tones[tones.length - 1] ?? tones.find(tone => tone !== null) ?? null,
+    };
+  });
+
+  const tail = subtitle.thai.substring(cursor).trimEnd();
+  const last = segments[segments.length - 1];
+  if (last && tail) {
+    last.thai += tail;
+  }
+  if (segments[0]) {
+    segments[0].thai = segments[0].thai.trimStart();
+  }
+  return segments;
+}
+
+/**
+ * Build an ASS karaoke file from episode subtitles
+ * Subtitles are written in start time order
+ * @returns {string} ASS file content
+ * @throws {Error} If a subtitle has invalid timing or a colour override is not "#RRGGBB"
+ */
+export function buildKaraokeASS(subtitles: AnnotatedSubtitle[], options: ASSKaraokeOptions = {}): string {
+  const toneColours = options.toneColours ?? true;
+  const palette = Object.fromEntries(
+    Object.entries({ ...DEFAULT_TONE_COLOURS, ...options.toneColourOverrides }).map(([tone, hex]) => [tone, toASSColour(hex)])
+  ) as Record<ThaiTone, string>;
+  const highlight = toASSColour(DEFAULT_HIGHLIGHT_COLOUR);
+  const unsung = toASSColour(UNSUNG_COLOUR);
+
+  // Style colours are written without the trailing "&" of override tags
+  const styleColour = (colour: string) => colour.replace(/&$/, '');
+  const styleLine = (name: string, font: string, size: number, alignment: number) =>
+    `Style: ${name},${font},${size},${styleColour(highlight)},${styleColour(unsung)},&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,${alignment},60,60,50,1`;
+
+  const lines: string[] = [
+    '[Script Info]',
+    `Title: ${(options.title ?? 'Thai karaoke subtitles').replace(/\s+/g, ' ').trim()}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    styleLine('Thai', 'Noto Sans Thai', 72, 2),
+    styleLine('Romanization', 'Noto Sans', 48, 8),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const sorted = [...subtitles].sort((a, b) => a.start_sec_th - b.start_sec_th);
+  sorted.forEach((subtitle, index) => {
+    if (!(subtitle.end_sec_th > subtitle.start_sec_th)) {
+      throw new Error(`Subtitle ${index + 1} has invalid timing: ${subtitle.start_sec_th} → ${subtitle.end_sec_th}`);
+    }
+    const start = formatASSTimestamp(subtitle.start_sec_th);
+    const end = formatASSTimestamp(subtitle.end_sec_th);
+    const dialogue = (style: string, text: string) => `Dialogue: 0,${start},${end},${style},,0,0,0,,${text}`;
+
+    const tokens = (subtitle.tokens_th?.tokens ?? []).map(tokenText).filter(token => token.length > 0);
+    if (tokens.length === 0) {
+      lines.push(dialogue('Thai', escapeASSText(subtitle.thai.trim())));
+      return;
+    }
+
+    // Karaoke runs over the written (centisecond-rounded) cue times so the last token ends with the cue
+    const centiseconds = Math.round(subtitle.end_sec_th * 100) - Math.round(subtitle.start_sec_th * 100);
+    const words = new Map((subtitle.thaiWords ?? []).map(word => [word.word_th, word]));
+    const segments = buildSegments(subtitle, tokens, words, centiseconds);
+    const karaoke = (text: (segment: KaraokeSegment, index: number) => string) => segments
+      .map((segment, index) => `{\\k${segment.centiseconds}${toneColours ? `\\1c${segment.tone ? palette[segment.tone] : highlight}` : ''}}${text(segment, index)}`)
+      .join('');
+
+    if (options.romanization) {
+      // Romanized tokens are space separated - the space belongs to the following segment
+      lines.push(dialogue('Romanization', karaoke((segment, index) => `${index > 0 ? ' ' : ''}${escapeASSText(segment.romanization)}`)));
+    }
+    lines.push(dialogue('Thai', karaoke(segment => escapeASSText(segment.thai))));
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Export an episode as ASS karaoke subtitles (loadAnnotatedEpisode + buildKaraokeASS)
+ * @throws {Error} If the episode has no subtitles
+ */
+export async function exportEpisodeKaraokeASS(mediaId: string, options: ASSKaraokeOptions = {}): Promise<string> {
+  const subtitles = await loadAnnotatedEpisode(mediaId);
+  if (subtitles.length === 0) {
+    throw new Error(`No subtitles found for ${mediaId}`);
+  }
+  return buildKaraokeASS(subtitles, options);
+}
@@ -0,0 +1,151 @@
+/**
+ * SRT Parser
+ * Parse SRT (SubRip) subtitle files into structured subtitle data
+ * Produces the same SubtitleTh[] as parseVTTFile - ids are `${mediaId}_${index}` with the SRT cue index
+ * Strict mode (default) throws on the first malformed block, naming it - lenient mode skips it and reports a warning
+ *
+ * SRT specifics handled:
+ * - Comma-millisecond timestamps ("00:00:01,234 --> 00:00:02,345", optional trailing X1/Y1 coordinates ignored)
+ * - Byte order mark and CRLF line endings
+ * - <i>/<b>/<font> tags and ASS override tags ({\an8}) are stripped from the text, character references are decoded
+ * - Cues without an index line are numbered by their position in the file
+ * - Cues whose text is empty after tag stripping are skipped with a warning (subtitleThSchema requires text)
+ */
+
+import { normalizeSubtitleContent, parseSRTTimestamp, stripSubtitleTags } from './vttUtils';
+import { subtitleThSchema, type SubtitleTh } from '../../schemas/subtitleThSchema';
+
+/**
+ * Problem found while parsing
+ * - block: 1-based number of the blank-line separated block
+ */
+export interface SRTParseWarning {
+  block: number;
+  message: string;
+}
+
+/**
+ * Parse options (same shape as VTTParseOptions)
+ * - lenient: Skip malformed blocks (bad index or timestamps, zero-length or duplicate cues) with a warning instead of throwing
+ * - onWarning: Called for every warning (parseSRTFile also logs them)
+ * - trackLabel: Language named in error and warning messages (default 'Thai')
+ */
+export interface SRTParseOptions {
+  lenient?: boolean;
+  onWarning?: (warning: SRTParseWarning) => void;
+  trackLabel?: string;
+}
+
+/**
+ * Parse Thai SRT file into SubtitleTh array
+ * @param {string} thaiContent - Thai SRT file content (required)
+ * @param {string} mediaId - Media ID for generating subtitle IDs (required)
+ * @returns {Promise<SubtitleTh[]>} Array of subtitles matching subtitleThSchema, sorted by cue index
+ * @throws {Error} If SRT content is invalid (strict mode: also if any block is malformed - the message names the block)
+ */
+export async function parseSRTFile(
+  thaiContent: string,
+  mediaId: string,
+  options: SRTParseOptions = {}
+): Promise<SubtitleTh[]> {
+  const { trackLabel = 'Thai' } = options;
+  if (!thaiContent || !thaiContent.trim()) {
+    throw new Error(`${trackLabel} SRT content is required`);
+  }
+  if (!mediaId || !mediaId.trim()) {
+    throw new Error('Media ID is required');
+  }
+
+  const warn = (block: number, message: string) => {
+    const warning = { block, message: `${trackLabel} SRT block ${block} ${message}` };
+    console.warn(`[SRT Parser] ${warning.message}`);
+    options.onWarning?.(warning);
+  };
+  // Malformed block: throws in strict mode, warning in lenient mode
+  const reject = (block: number, message: string) => {
+    if (!options.lenient) {
+      throw new Error(`${trackLabel} SRT block ${block} ${message}`);
+    }
+    warn(block, message);
+  };
+
+  const blocks = normalizeSubtitleContent(thaiContent).trim().split(/\n\s*\n/).filter(block => block.trim());
+  if (blocks.length === 0) {
+    throw new Error(`${trackLabel} SRT content contains no subtitle blocks`);
+  }
+
+  const cues = new Map<number, SubtitleTh>();
+
+  for (let i = 0; i < blocks.length; i++) {
+    const blockNumber = i + 1;
+    const block = (blocks[i] as string).trim();
+    const lines = block.split('\n').map(line => line.trim());
+
+    // Index line is optional - without it the cue is numbered by its position
+    let index = blockNumber;
+    let timeLineIndex = 0;
+    if (!(lines[0] ?? '').includes('-->')) {
+      const indexStr = lines[0] ?? '';
+      if (!/^\d+$/.test(indexStr)) {
+        reject(blockNumber, `has invalid index: "${indexStr}". Block content: "${block.substring(0, 100)}"`);
+        continue;
+      }
+      index = parseInt(indexStr, 10);
+      timeLineIndex = 1;
+    }
+
+    const timeLine = lines[timeLineIndex];
+    if (timeLine === undefined) {
+      reject(blockNumber, `is malformed: must have at least 2 lines (index and timestamp). Block content: "${block.substring(0, 100)}"`);
+      continue;
+    }
+    const timeMatch = timeLine.match(/^(\S+)\s*-->\s*(\S+)/);
+    if (!timeMatch) {
+      reject(blockNumber, `is missing timestamp arrow (-->): "${timeLine}"`);
+      continue;
+    }
+
+    const startSecThai = parseSRTTimestamp(timeMatch[1] as string);
+    const endSecThai = parseSRTTimestamp(timeMatch[2] as string);
+    if (startSecThai === null) {
+      reject(blockNumber, `has invalid start timestamp: "${timeMatch[1]}"`);
+      continue;
+    }
+    if (endSecThai === null) {
+      reject(blockNumber, `has invalid end timestamp: "${timeMatch[2]}"`);
+      continue;
+    }
+
+    const thai = lines.slice(timeLineIndex + 1).map(line => stripSubtitleTags(line)).filter(line => line.trim()).join('\n').trim();
+    if (!thai) {
+      warn(blockNumber, `(index ${index}) has no text after removing tags (skipped)`);
+      continue;
+    }
+
+    if (cues.has(index)) {
+      reject(blockNumber, `has duplicate index: ${index}`);
+      continue;
+    }
+
+    // Validate immediately (same schema and id format as parseVTTFile) - a zero-length cue fails here
+    const validation = subtitleThSchema.safeParse({
+      id: `${mediaId}_${index}`,
+      thai,
+      start_sec_th: startSecThai,
+      end_sec_th: endSecThai,
+    });
+    if (!validation.success) {
+      reject(blockNumber, `(index ${index}) is invalid: ${validation.error.issues.map(issue => issue.message).join('; ')}`);
+      continue;
+    }
+    cues.set(index, validation.data);
+  }
+
+  const subtitles = Array.from(cues.keys()).sort((a, b) => a - b).map(index => cues.get(index) as SubtitleTh);
+
+  if (subtitles.length === 0) {
+    throw new Error('No valid subtitles parsed from SRT file');
+  }
+
+  return subtitles;
+}
@@ -0,0 +1,96 @@
+/**
+ * Subtitle Format Detection
+ * Picks the parser for a subtitle file from its content - file names and MIME types are not reliable
+ *
+ * - vtt: Starts with the WEBVTT signature (strict WebVTT parsing requires it)
+ * - srt: No signature but "HH:MM:SS,mmm -->" cue timings - a "." before the milliseconds is SRT too, some writers use it
+ * - ttml: XML with a <tt> root element (TTML, DFXP, IMSC)
+ */
+
+import { normalizeSubtitleContent } from './vttUtils';
+import { parseVTTFile, type VTTParseOptions } from './vttParser';
+import { parseSRTFile } from './srtParser';
+import { parseTTMLFile } from './ttmlParser';
+import type { SubtitleFormat, SubtitleTh } from '../../schemas/subtitleThSchema';
+import { subtitleEnSchema, type SubtitleEn } from '../../schemas/subtitleEnSchema';
+
+/**
+ * Detect the format of subtitle file content
+ * @returns {SubtitleFormat | null} Detected format, or null when the content is not VTT, SRT or TTML
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat | null {
+  const normalized = normalizeSubtitleContent(content).trimStart();
+  if (/^WEBVTT(\s|$)/.test(normalized)) {
+    return 'vtt';
+  }
+  // XML declaration and comments may precede the root element
+  if (/^(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*)*<([\w-]+:)?tt\b/.test(normalized)) {
+    return 'ttml';
+  }
+  if (/\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(normalized)) {
+    return 'srt';
+  }
+  return null;
+}
+
+/**
+ * Options for parseSubtitleFile
+ * - format: Skip detection and use this parser
+ * - lenient / onWarning: WebVTT and SRT (VTTParseOptions / SRTParseOptions) - TTML parsing is always strict
+ * - trackLabel: Language named in error messages, all formats (default 'Thai')
+ */
+export interface ParseSubtitleFileOptions extends VTTParseOptions {
+  format?: SubtitleFormat;
+}
+
+/**
+ * Parse a Thai subtitle file in any supported format into SubtitleTh array
+ * @param {string} thaiContent - Subtitle file content (required)
+ * @param {string} mediaId - Media ID for generating subtitle IDs (required)
+ * @returns {Promise<SubtitleTh[]>} Array of subtitles matching subtitleThSchema
+ * @throws {Error} If the format cannot be detected or the content is invalid for its format
+ */
+export async function parseSubtitleFile(
+  thaiContent: string,
+  mediaId: string,
+  options: ParseSubtitleFileOptions = {}
+): Promise<SubtitleTh[]> {
+  const { format = detectSubtitleFormat(thaiContent), ...parseOptions } = options;
+  switch (format) {
+    case 'vtt':
+      return parseVTTFile(thaiContent, mediaId, parseOptions);
+    case 'srt':
+      return parseSRTFile(thaiContent, mediaId, parseOptions);
+    case 'ttml':
+      return parseTTMLFile(thaiContent, mediaId, parseOptions);
+    default:
+      throw new Error('Unrecognized subtitle format: expected WebVTT, SRT or TTML content');
+  }
+}
+
+/**
+ * Parse an English subtitle file in any supported format into SubtitleEn array (subtitles_en rows)
+ * Uses the same parsers as the Thai track - ids are `${mediaId}_${index}` numbered the same way
+ * @param {string} englishContent - Subtitle file content (required)
+ * @param {string} mediaId - Media ID for generating subtitle IDs (required)
+ * @returns {Promise<SubtitleEn[]>} Array of subtitles matching subtitleEnSchema
+ * @throws {Error} If the format cannot be detected or the content is invalid for its format
+ */
+export async function parseEnglishSubtitleFile(
+  englishContent: string,
+  mediaId: string,
+  options: ParseSubtitleFileOptions = {}
+): Promise<SubtitleEn[]> {
+  if (!englishContent || !englishContent.trim()) {
+    throw new Error('English subtitle content is required');
+  }
+  const subtitles = await parseSubtitleFile(englishContent, mediaId, { trackLabel: 'English', ...options });
+  return subtitles.map(subtitle => subtitleEnSchema.parse({
+    id: subtitle.id,
+    media_id: mediaId,
+    // The parsers produce subtitles_th rows - their text column is named thai
+    english: subtitle.thai,
+    start_sec_eng: subtitle.start_sec_th,
+    end_sec_eng: subtitle.end_sec_th,
+  }));
+}
@@ -0,0 +1,228 @@
+/**
+ * TTML Parser
+ * Parse TTML subtitle files (DFXP, IMSC, Netflix dfxp-ls-sdh / simplesdh) into structured subtitle data
+ * Produces the same SubtitleTh[] as parseVTTFile - ids are `${mediaId}_${index}` with the 1-based position
+ * of the <p> element in the document
+ * Strict validation - throws errors immediately if data is invalid
+ *
+ * Parsed with regular expressions instead of DOMParser so the same code runs in the extension and in Node (CLI)
+ *
+ * TTML specifics handled:
+ * - Clock times ("00:00:01.234", "00:00:01:12" with frames) and offset times ("12.5s", "1500ms", "3600000t")
+ * - Tick timing uses ttp:tickRate from the <tt> element (Netflix DFXP: 10000000 ticks per second)
+ * - end or dur - a cue with dur ends at begin + dur
+ * - <br/> becomes a line break; nested <span>s (and their style / region attributes) are flattened to text
+ * - <head> (styling, layout / regions, metadata) is ignored
+ * - begin on <body> / <div> offsets the times of the <p>s inside (nested offsets add up) - their end / dur does not clip cues
+ * - Cues whose text is empty are skipped (subtitleThSchema requires text)
+ */
+
+import { decodeHTMLEntities, normalizeSubtitleContent } from './vttUtils';
+import { subtitleThSchema, type SubtitleTh } from '../../schemas/subtitleThSchema';
+
+// Defaults from the TTML spec when the <tt> element declares no rates
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_TICK_RATE = 1;
+
+/**
+ * Timing parameters declared on the <tt> element (ttp:frameRate × ttp:frameRateMultiplier, ttp:tickRate)
+ */
+export interface TTMLTimingParameters {
+  frameRate: number;
+  tickRate: number;
+}
+
+const OFFSET_TIME_UNITS: Record<string, (value: number, parameters: TTMLTimingParameters) => number> = {
+  h: value => value * 3600,
+  m: value => value * 60,
+  s: value => value,
+  ms: value => value / 1000,
+  f: (value, parameters) => value / parameters.frameRate,
+  t: (value, parameters) => value / parameters.tickRate,
+};
+
+/**
+ * Parse a TTML time expression
+ * Converts clock time ("HH:MM:SS.fff", "HH:MM:SS:FF") or offset time ("12.5s", "3600000t") to seconds
+ * @param {string} expression - Time expression (begin, end or dur attribute value)
+ * @returns {number | null} Seconds as float, or null if invalid
+ */
+export function parseTTMLTime(expression: string, parameters: TTMLTimingParameters = { frameRate: DEFAULT_FRAME_RATE, tickRate: DEFAULT_TICK_RATE }): number | null {
+  const value = expression.trim();
+
+  const clock = value.match(/^(\d{1,3}):(\d{2}):(\d{2})(?:\.(\d+)|:(\d{2,}(?:\.\d+)?))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    if (parseInt(minutes as string) > 59 || parseInt(seconds as string) > 59) return null;
+    const base = parseInt(hours as string) * 3600 + parseInt(minutes as string) * 60 + parseInt(seconds as string);
+    if (fraction !== undefined) return base + parseFloat(`0.${fraction}`);
+    if (frames !== undefined) return base + parseFloat(frames) / parameters.frameRate;
+    return base;
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/);
+  if (offset) {
+    const convert = OFFSET_TIME_UNITS[offset[2] as string];
+    return convert ? convert(parseFloat(offset[1] as string), parameters) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Read an attribute from an element's attribute string (namespace prefixes ignored, e.g. ttp:tickRate → tickRate)
+ */
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)(?:[\\w-]+:)?${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Text of a <p> element - <br/> becomes a line break, every other tag (span, style / region markup) is dropped
+ * Source whitespace (indentation, newlines) collapses to single spaces as in TTML rendering
+ */
+function extractCueText(innerXML: string): string {
+  return innerXML
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<(?:[\w-]+:)?br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .map(line => decodeHTMLEntities(line).replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Parse options
+ * - trackLabel: Language named in error messages (default 'Thai')
+ */
+export interface TTMLParseOptions {
+  trackLabel?: string;
+}
+
+/**
+ * Parse Thai TTML / DFXP file into SubtitleTh array
+ * @param {string} thaiContent - Thai TTML file content (required)
+ * @param {string} mediaId - Media ID for generating subtitle IDs (required)
+ * @param {TTMLParseOptions} options - Parse options
+ * @returns {Promise<SubtitleTh[]>} Array of subtitles matching subtitleThSchema, in document order
+ * @throws {Error} If TTML content is invalid, malformed, or missing required fields
+ */
+export async function parseTTMLFile(
+  thaiContent: string,
+  mediaId: string,
+  options: TTMLParseOptions = {}
+): Promise<SubtitleTh[]> {
+  const { trackLabel = 'Thai' } = options;
+  if (!thaiContent || !thaiContent.trim()) {
+    throw new Error(`${trackLabel} TTML content is required`);
+  }
+  if (!mediaId || !mediaId.trim()) {
+    throw new Error('Media ID is required');
+  }
+
+  const content = normalizeSubtitleContent(thaiContent);
+  const root = content.match(/<(?:[\w-]+:)?tt\b([^>]*)>/);
+  if (!root) {
+    throw new Error(`${trackLabel} TTML content has no <tt> root element`);
+  }
+  const rootAttributes = root[1] ?? '';
+  const frameRate = Number(readAttribute(rootAttributes, 'frameRate') ?? DEFAULT_FRAME_RATE);
+  const frameRateMultiplier = (readAttribute(rootAttributes, 'frameRateMultiplier') ?? '1 1').split(/\s+/).map(Number);
+  const effectiveFrameRate = frameRate * ((frameRateMultiplier[0] ?? 1) / (frameRateMultiplier[1] ?? 1));
+  const tickRateAttribute = readAttribute(rootAttributes, 'tickRate');
+  const parameters: TTMLTimingParameters = {
+    frameRate: effectiveFrameRate > 0 ? effectiveFrameRate : DEFAULT_FRAME_RATE,
+    // Without ttp:tickRate the spec derives ticks from the frame rate when one is declared
+    tickRate: tickRateAttribute !== undefined
+      ? Number(tickRateAttribute)
+      : (readAttribute(rootAttributes, 'frameRate') !== undefined ? effectiveFrameRate : DEFAULT_TICK_RATE),
+  };
+  if (!Number.isFinite(parameters.tickRate) || parameters.tickRate <= 0) {
+    throw new Error(`${trackLabel} TTML has invalid ttp:tickRate: "${tickRateAttribute}"`);
+  }
+
+  // Styling / layout (regions) / metadata live in <head> and never hold cues
+  const body = content.replace(/<(?:[\w-]+:)?head\b[\s\S]*?<\/(?:[\w-]+:)?head>/, '');
+
+  const paragraphs = Array.from(body.matchAll(/<((?:[\w-]+:)?p)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g));
+  if (paragraphs.length === 0) {
+    throw new Error(`${trackLabel} TTML content contains no <p> subtitle elements`);
+  }
+
+  // <body> and <div> are time containers - a begin on them shifts every <p> inside
+  const containerTags = Array.from(body.matchAll(/<(\/?)(?:[\w-]+:)?(body|div)\b([^>]*?)(\/?)>/g));
+  const containerOffsets = [0];
+  let nextContainerTag = 0;
+
+  const subtitles: SubtitleTh[] = [];
+  paragraphs.forEach((paragraph, i) => {
+    const index = i + 1;
+    // Open / close the containers that start before this <p>
+    while ((containerTags[nextContainerTag]?.index ?? Infinity) < (paragraph.index ?? 0)) {
+      const [, closing, element, containerAttributes, selfClosing] = containerTags[nextContainerTag++] as RegExpMatchArray;
+      if (closing) {
+        if (containerOffsets.length > 1) containerOffsets.pop();
+        continue;
+      }
+      if (selfClosing) continue;
+      const containerBegin = readAttribute(containerAttributes ?? '', 'begin');
+      const containerOffset = containerBegin === undefined ? 0 : parseTTMLTime(containerBegin, parameters);
+      if (containerOffset === null) {
+        throw new Error(`${trackLabel} TTML <${element}> has invalid begin time: "${containerBegin}"`);
+      }
+      containerOffsets.push((containerOffsets[containerOffsets.length - 1] ?? 0) + containerOffset);
+    }
+    const offset = containerOffsets[containerOffsets.length - 1] ?? 0;
+
+    const attributes = paragraph[2] ?? '';
+    const beginAttribute = readAttribute(attributes, 'begin');
+    const endAttribute = readAttribute(attributes, 'end');
+    const durAttribute = readAttribute(attributes, 'dur');
+
+    if (beginAttribute === undefined) {
+      throw new Error(`${trackLabel} TTML <p> ${index} is missing the begin attribute: "${paragraph[0].substring(0, 100)}"`);
+    }
+    const begin = parseTTMLTime(beginAttribute, parameters);
+    if (begin === null) {
+      throw new Error(`${trackLabel} TTML <p> ${index} has invalid begin time: "${beginAttribute}"`);
+    }
+    const startSecThai = offset + begin;
+
+    let endSecThai: number | null;
+    if (endAttribute !== undefined) {
+      const end = parseTTMLTime(endAttribute, parameters);
+      endSecThai = end === null ? null : offset + end;
+    } else if (durAttribute !== undefined) {
+      const duration = parseTTMLTime(durAttribute, parameters);
+      endSecThai = duration === null ? null : startSecThai + duration;
+    } else {
+      throw new Error(`${trackLabel} TTML <p> ${index} has neither end nor dur attribute`);
+    }
+    if (endSecThai === null) {
+      throw new Error(`${trackLabel} TTML <p> ${index} has invalid end time: "${endAttribute ?? durAttribute}"`);
+    }
+
+    const thai = extractCueText(paragraph[3] ?? '');
+    if (!thai) {
+      console.warn(`[TTML Parser] Skipping <p> ${index}: no text`);
+      return;
+    }
+
+    // Validate immediately - throws if invalid (same schema and id format as parseVTTFile)
+    subtitles.push(subtitleThSchema.parse({
+      id: `${mediaId}_${index}`,
+      thai,
+      // Tick / frame division can leave float noise - keep millisecond precision like VTT and SRT
+      start_sec_th: Math.round(startSecThai * 1000) / 1000,
+      end_sec_th: Math.round(endSecThai * 1000) / 1000,
+    }));
+  });
+
+  if (subtitles.length === 0) {
+    throw new Error('No valid subtitles parsed from TTML file');
+  }
+
+  return subtitles;
+}
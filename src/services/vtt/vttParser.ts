@@ -1,134 +1,257 @@
 /**
  * VTT Parser
- * Parse VTT (WebVTT) subtitle files into structured subtitle data
+ * Parse VTT (WebVTT) subtitle files into structured subtitle data, following the WebVTT spec
  * Uses Zod schema field names directly, no intermediate formats
- * Strict validation - throws errors immediately if data is invalid
+ *
+ * - parseWebVTT: File → VTTCue[] (identifier, cue settings and voices kept - vttCueSchema)
+ * - parseVTTFile: File → SubtitleTh[] for subtitles_th
+ *
+ * Spec handling:
+ * - WEBVTT signature (optionally followed by header text), byte order mark, CRLF / CR line endings
+ * - NOTE comments, STYLE and REGION blocks are skipped
+ * - Cue identifiers are optional and may be any text; timestamps may omit the hours ("MM:SS.mmm")
+ * - Cue settings (vertical, line, position, size, align, region) are kept; invalid or unknown ones are ignored with a warning
+ * - Voice spans (<v Speaker>) give the cue's voices; all markup is removed from the text and character references are decoded
+ *
+ * Strict mode (default) throws on the first malformed cue - lenient mode skips it and reports a warning
  */
 
-import { parseVTTTimestamp, stripHTMLTags } from './vttUtils';
+import { decodeHTMLEntities, normalizeSubtitleContent, parseVTTTimestamp } from './vttUtils';
 import { subtitleThSchema, type SubtitleTh } from '../../schemas/subtitleThSchema';
+import { vttCueSchema, vttCueSettingsSchema, type VTTCue, type VTTCueSettings } from '../../schemas/vttCueSchema';
 
 /**
- * Parse Thai VTT file into SubtitleTh array
- * All fields must be present - throws errors if any required data is missing
- * @param {string} thaiContent - Thai VTT file content (required)
- * @param {string} mediaId - Media ID for generating subtitle IDs (required)
- * @returns {Promise<SubtitleTh[]>} Array of subtitles matching subtitleThSchema
- * @throws {Error} If VTT content is invalid, malformed, or missing required fields
+ * Problem found while parsing
+ * - block: 1-based number of the blank-line separated block (the header is block 1)
  */
-export async function parseVTTFile(
-  thaiContent: string,
-  mediaId: string
-): Promise<SubtitleTh[]> {
-  if (!thaiContent || !thaiContent.trim()) {
-    throw new Error('Thai VTT content is required');
+export interface VTTParseWarning {
+  block: number;
+  message: string;
+}
+
+/**
+ * Parse options
+ * - lenient: Skip malformed cues (and a missing WEBVTT signature) with a warning instead of throwing
+ * - onWarning: Called for every warning (parseVTTFile also logs them)
+ * - trackLabel: Language named in parseVTTFile error messages (default 'Thai')
+ */
+export interface VTTParseOptions {
+  lenient?: boolean;
+  onWarning?: (warning: VTTParseWarning) => void;
+  trackLabel?: string;
+}
+
+export interface VTTParseResult {
+  cues: VTTCue[];
+  warnings: VTTParseWarning[];
+}
+
+/**
+ * Cue settings from the rest of the timing line ("align:start position:10%") - invalid ones are reported and dropped
+ */
+function parseCueSettings(settingsText: string, report: (message: string) => void): VTTCueSettings | undefined {
+  const settings: VTTCueSettings = {};
+  for (const token of settingsText.split(/[ \t]+/).filter(Boolean)) {
+    const separator = token.indexOf(':');
+    const name = separator > 0 ? token.substring(0, separator) : token;
+    const validation = vttCueSettingsSchema.safeParse({ [name]: separator > 0 ? token.substring(separator + 1) : '' });
+    if (validation.success) {
+      Object.assign(settings, validation.data);
+    } else {
+      report(`has invalid cue setting "${token}" (ignored)`);
+    }
   }
-  if (!mediaId || !mediaId.trim()) {
-    throw new Error('Media ID is required');
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Cue text without markup (<v>, <c>, <i>, <b>, <u>, <ruby>, <lang>, timestamp tags) and with character references decoded
+ */
+function extractCueText(textLines: string[]): string {
+  return textLines
+    .map(line => decodeHTMLEntities(line.replace(/<[^>]*>/g, '')).trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Speaker names of <v> spans ("<v Somchai>", "<v.loud Somchai>") in order of first appearance
+ */
+function extractVoices(textLines: string[]): string[] {
+  const voices: string[] = [];
+  for (const match of textLines.join('\n').matchAll(/<v(?:\.[^\s>]*)?[ \t]+([^>]+)>/g)) {
+    const voice = decodeHTMLEntities((match[1] as string).trim());
+    if (voice && !voices.includes(voice)) {
+      voices.push(voice);
+    }
   }
+  return voices;
+}
 
-  const thaiBlocks = thaiContent.trim().split(/\n\s*\n/).filter(block => block.trim());
+/**
+ * Parse WebVTT content into cues
+ * Cues with empty text are kept (they are valid WebVTT) and reported with a warning
+ * @param {string} content - WebVTT file content
+ * @returns {VTTParseResult} Cues in file order and the warnings collected
+ * @throws {Error} In strict mode, if the signature is missing or a cue is malformed
+ */
+export function parseWebVTT(content: string, options: VTTParseOptions = {}): VTTParseResult {
+  const warnings: VTTParseWarning[] = [];
+  const warn = (block: number, message: string) => {
+    const warning = { block, message: `VTT block ${block} ${message}` };
+    warnings.push(warning);
+    options.onWarning?.(warning);
+  };
+  // Malformed input: throws in strict mode, warning in lenient mode
+  const reject = (block: number, message: string) => {
+    if (!options.lenient) {
+      throw new Error(`VTT block ${block} ${message}`);
+    }
+    warn(block, message);
+  };
+
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  for (const line of normalizeSubtitleContent(content).split('\n')) {
+    if (line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current);
+        current = [];
+      }
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) {
+    blocks.push(current);
+  }
 
-  if (thaiBlocks.length === 0) {
-    throw new Error('Thai VTT content contains no subtitle blocks');
+  let firstBlock = 0;
+  if (/^WEBVTT([ \t]|$)/.test(blocks[0]?.[0] ?? '')) {
+    // Header block: signature line plus optional header text
+    firstBlock = 1;
+  } else {
+    reject(1, 'is missing the WEBVTT signature');
   }
 
-  // Parse Thai blocks into map by index
-  const thaiMap = new Map<number, { thai: string; startSecThai: number; endSecThai: number }>();
+  const cues: VTTCue[] = [];
+  for (let i = firstBlock; i < blocks.length; i++) {
+    const lines = blocks[i] as string[];
+    const blockNumber = i + 1;
+    const firstLine = lines[0] as string;
 
-  // Parse Thai blocks - use Zod field names from the start
-  for (let i = 0; i < thaiBlocks.length; i++) {
-    const block = thaiBlocks[i].trim();
-    const lines = block.split('\n').filter(line => line.trim());
-    
-    // Skip WEBVTT header block
-    if (lines.length > 0 && lines[0].trim().toUpperCase() === 'WEBVTT') {
+    if (/^NOTE([ \t]|$)/.test(firstLine)) {
       continue;
     }
-    
-    // Skip NOTE blocks (metadata)
-    if (lines.length > 0 && lines[0].trim().toUpperCase().startsWith('NOTE')) {
+    if (!lines.some(line => line.includes('-->'))) {
+      if (!/^(STYLE|REGION)[ \t]*$/.test(firstLine)) {
+        reject(blockNumber, `has no timing line (-->): "${lines.join(' ').substring(0, 100)}"`);
+      }
       continue;
     }
-    
-    if (lines.length < 2) {
-      throw new Error(`Thai VTT block ${i + 1} is malformed: must have at least 2 lines (index and timestamp). Block content: "${block.substring(0, 100)}"`);
-    }
-    
-    const indexStr = lines[0].trim();
-    const index = parseInt(indexStr, 10);
-    if (isNaN(index)) {
-      throw new Error(`Thai VTT block ${i + 1} has invalid index: "${indexStr}". Block content: "${block.substring(0, 100)}"`);
-    }
-    
-    const timeLine = lines[1].trim();
-    const arrowIndex = timeLine.indexOf('-->');
-    if (arrowIndex === -1) {
-      throw new Error(`Thai VTT block ${i + 1} is missing timestamp arrow (-->): "${timeLine}"`);
-    }
-    
-    const startTimestamp = timeLine.substring(0, arrowIndex).trim();
-    const afterArrow = timeLine.substring(arrowIndex + 3).trim();
-    const endTimestampMatch = afterArrow.match(/^(\d{2}:\d{2}:\d{2}\.\d{3})/);
-    if (!endTimestampMatch) {
-      throw new Error(`Thai VTT block ${i + 1} has invalid end timestamp format: "${afterArrow}"`);
+
+    // Identifier line is optional - any text that does not contain "-->"
+    const timingIndex = firstLine.includes('-->') ? 0 : 1;
+    const identifier = timingIndex === 1 ? firstLine.trim() : undefined;
+    const timingLine = (lines[timingIndex] as string).trim();
+    const timingMatch = timingLine.match(/^(\S+?)[ \t]*-->[ \t]*(\S+)(.*)$/);
+    if (!timingMatch) {
+      reject(blockNumber, `has an invalid timing line: "${timingLine}"`);
+      continue;
     }
-    
-    const startSecThai = parseVTTTimestamp(startTimestamp);
-    const endSecThai = parseVTTTimestamp(endTimestampMatch[1]);
-    if (startSecThai === null) {
-      throw new Error(`Thai VTT block ${i + 1} has invalid start timestamp: "${startTimestamp}"`);
+
+    const startSec = parseVTTTimestamp(timingMatch[1] as string);
+    const endSec = parseVTTTimestamp(timingMatch[2] as string);
+    if (startSec === null) {
+      reject(blockNumber, `has invalid start timestamp: "${timingMatch[1]}"`);
+      continue;
     }
-    if (endSecThai === null) {
-      throw new Error(`Thai VTT block ${i + 1} has invalid end timestamp: "${endTimestampMatch[1]}"`);
+    if (endSec === null) {
+      reject(blockNumber, `has invalid end timestamp: "${timingMatch[2]}"`);
+      continue;
     }
-    
-    const textLines = lines.slice(2);
-    const thai = textLines.map(line => stripHTMLTags(line)).filter(line => line.trim()).join('\n').trim();
-    if (!thai) {
-      throw new Error(`Thai VTT block ${i + 1} has empty text content`);
+    if (endSec <= startSec) {
+      reject(blockNumber, `ends before it starts: "${timingLine}"`);
+      continue;
     }
-    
-    if (thaiMap.has(index)) {
-      throw new Error(`Thai VTT has duplicate index: ${index}`);
+
+    const textLines = lines.slice(timingIndex + 1);
+    const settings = parseCueSettings(timingMatch[3] ?? '', message => warn(blockNumber, message));
+    const voices = extractVoices(textLines);
+    const text = extractCueText(textLines);
+    if (!text) {
+      warn(blockNumber, `has no text after removing markup${identifier ? ` (identifier ${identifier})` : ''}`);
     }
-    
-    thaiMap.set(index, { thai, startSecThai, endSecThai });
+    cues.push(vttCueSchema.parse({
+      ...(identifier ? { identifier } : {}),
+      start_sec: startSec,
+      end_sec: endSec,
+      text,
+      ...(settings ? { settings } : {}),
+      ...(voices.length > 0 ? { voices } : {}),
+    }));
+  }
+
+  return { cues, warnings };
+}
+
+/**
+ * Parse Thai VTT file into SubtitleTh array
+ * Subtitle ids are `${mediaId}_${identifier}` when every cue has a unique numeric identifier (Netflix files),
+ * otherwise `${mediaId}_${position}` with the 1-based cue position
+ * Cues with empty text are skipped - parseWebVTT reports them as warnings (subtitleThSchema requires text)
+ * @param {string} thaiContent - Thai VTT file content (required)
+ * @param {string} mediaId - Media ID for generating subtitle IDs (required)
+ * @returns {Promise<SubtitleTh[]>} Array of subtitles matching subtitleThSchema, sorted by start time
+ * @throws {Error} If VTT content is invalid (strict mode: also if any cue is malformed)
+ */
+export async function parseVTTFile(
+  thaiContent: string,
+  mediaId: string,
+  options: VTTParseOptions = {}
+): Promise<SubtitleTh[]> {
+  const { trackLabel = 'Thai' } = options;
+  if (!thaiContent || !thaiContent.trim()) {
+    throw new Error(`${trackLabel} VTT content is required`);
+  }
+  if (!mediaId || !mediaId.trim()) {
+    throw new Error('Media ID is required');
+  }
+
+  const report = (warning: VTTParseWarning) => {
+    console.warn(`[VTT Parser] ${warning.message}`);
+    options.onWarning?.(warning);
+  };
+  const { cues } = parseWebVTT(thaiContent, { ...options, onWarning: report });
+  if (cues.length === 0) {
+    throw new Error(`${trackLabel} VTT content contains no subtitle cues`);
   }
 
-  // Create SubtitleTh array from Thai map
+  const identifiers = cues.map(cue => cue.identifier ?? '');
+  const useIdentifiers = identifiers.every(identifier => /^\d+$/.test(identifier))
+    && new Set(identifiers.map(identifier => parseInt(identifier, 10))).size === identifiers.length;
+
   const subtitles: SubtitleTh[] = [];
-  const thaiIndices = Array.from(thaiMap.keys()).sort((a, b) => a - b);
-  
-  for (const index of thaiIndices) {
-    const thaiData = thaiMap.get(index);
-    if (!thaiData) {
-      throw new Error(`Thai subtitle data missing for index ${index}`);
+  cues.forEach((cue, i) => {
+    if (!cue.text) {
+      return;
     }
-    
-    // Create SubtitleTh with Zod schema field names directly - no conversions
-    const subtitle: SubtitleTh = {
-      id: `${mediaId}_${index}`,
-      thai: thaiData.thai,
-      start_sec_th: thaiData.startSecThai,
-      end_sec_th: thaiData.endSecThai,
-    };
-    
+    const index = useIdentifiers ? parseInt(cue.identifier as string, 10) : i + 1;
+
     // Validate immediately - throws if invalid
     // This validates shape, data quality (empty strings, ranges), and business rules
-    const validated = subtitleThSchema.parse(subtitle);
-    
-    // Additional parsing success validation: ensure Thai text is meaningful
-    if (!validated.thai || validated.thai.trim().length === 0) {
-      throw new Error(`VTT parsing failed: Subtitle ${index} has empty Thai text. VTT file may be malformed.`);
-    }
-    
-    subtitles.push(validated);
-  }
-  
+    subtitles.push(subtitleThSchema.parse({
+      id: `${mediaId}_${index}`,
+      thai: cue.text,
+      start_sec_th: cue.start_sec,
+      end_sec_th: cue.end_sec,
+    }));
+  });
+
   if (subtitles.length === 0) {
     throw new Error('No valid subtitles parsed from VTT file');
   }
-  
-  return subtitles;
+
+  // WebVTT requires cues in start time order, but files do not always follow it - stable sort keeps ties in file order
+  return subtitles.sort((a, b) => a.start_sec_th - b.start_sec_th);
 }
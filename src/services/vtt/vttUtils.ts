@@ -5,21 +5,46 @@
 
 /**
  * Parse timestamp string from VTT content
- * Converts "HH:MM:SS.mmm" format to seconds
- * @param {string} timestamp - Timestamp string (e.g., "00:00:01.234")
+ * Converts "HH:MM:SS.mmm" or "MM:SS.mmm" (hours are optional in WebVTT) to seconds
+ * @param {string} timestamp - Timestamp string (e.g., "00:00:01.234", "01:02.500")
  * @returns {number | null} Seconds as float, or null if invalid
  */
 export function parseVTTTimestamp(timestamp: string): number | null {
-  const parts = timestamp.trim().split(':');
-  if (parts.length !== 3) return null;
-  
-  const hours = parseInt(parts[0]) || 0;
-  const minutes = parseInt(parts[1]) || 0;
-  const secondsParts = parts[2].split('.');
-  const seconds = parseInt(secondsParts[0]) || 0;
-  const milliseconds = parseInt(secondsParts[1]) || 0;
-  
-  return hours * 3600 + minutes * 60 + seconds + (milliseconds / 1000);
+  const match = timestamp.trim().match(/^(?:(\d{2,}):)?(\d{2}):(\d{2})\.(\d{3})$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, milliseconds] = match;
+  if (parseInt(minutes as string) > 59 || parseInt(seconds as string) > 59) return null;
+
+  return parseInt(hours ?? '0') * 3600 + parseInt(minutes as string) * 60 + parseInt(seconds as string) + parseInt(milliseconds as string) / 1000;
+}
+
+/**
+ * Format seconds as a VTT timestamp ("HH:MM:SS.mmm")
+ * @param {number} seconds - Non-negative time in seconds
+ * @returns {string} Timestamp string (e.g., "00:01:02.500")
+ */
+export function formatVTTTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Format seconds as an ASS / SSA timestamp ("H:MM:SS.cc" - centisecond precision)
+ * @param {number} seconds - Non-negative time in seconds
+ * @returns {string} Timestamp string (e.g., "0:01:02.50")
+ */
+export function formatASSTimestamp(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
 }
 
 /**
@@ -34,3 +59,72 @@ export function stripHTMLTags(text: string): string {
   cleaned = cleaned.replace(/&[a-z]+;/gi, '');
   return cleaned.trim();
 }
+
+/**
+ * Character of a numeric reference - U+FFFD for code points that are not Unicode scalar values
+ * (above U+10FFFF or a surrogate), which String.fromCodePoint rejects or would turn into broken text
+ */
+function codePointToString(codePoint: number): string {
+  if (codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+    return '\uFFFD';
+  }
+  return String.fromCodePoint(codePoint);
+}
+
+/**
+ * Decode the character references that appear in subtitle text (named ones used by WebVTT / TTML, numeric ones)
+ * Invalid numeric references become U+FFFD instead of throwing
+ * @param {string} text - Text without markup
+ * @returns {string} Text with references decoded
+ */
+export function decodeHTMLEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => codePointToString(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => codePointToString(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, '\u00A0')
+    .replace(/&lrm;/g, '\u200E')
+    .replace(/&rlm;/g, '\u200F')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse timestamp string from SRT content
+ * Converts "HH:MM:SS,mmm" format to seconds (a "." separator is accepted too - some SRT writers use it)
+ * @param {string} timestamp - Timestamp string (e.g., "00:00:01,234")
+ * @returns {number | null} Seconds as float, or null if invalid
+ */
+export function parseSRTTimestamp(timestamp: string): number | null {
+  const match = timestamp.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, milliseconds] = match as unknown as [string, string, string, string, string];
+  if (parseInt(minutes) > 59 || parseInt(seconds) > 59) return null;
+
+  // "1,5" means 500ms - pad the fraction to 3 digits
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(milliseconds.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Remove a leading byte order mark and normalize line endings to \n
+ * @param {string} content - Raw subtitle file content
+ * @returns {string} Content without BOM, with \n line endings
+ */
+export function normalizeSubtitleContent(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Text cleaning for SRT cues
+ * Removes ASS-style override tags ({\an8}, {\i1}, ...) that SRT writers embed and HTML tags, then decodes
+ * character references (same text as the WebVTT and TTML parsers give)
+ * @param {string} text - Cue text line
+ * @returns {string} Cleaned text
+ */
+export function stripSubtitleTags(text: string): string {
+  if (!text) return '';
+  return decodeHTMLEntities(text.replace(/\{\\[^}]*\}/g, '').replace(/<[^>]+>/g, '')).trim();
+}
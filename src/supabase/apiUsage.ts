@@ -0,0 +1,54 @@
+/**
+ * API Usage Persistence
+ *
+ * Database operations for api_usage
+ * Table created by: scripts/create-api-usage-table.sql
+ *
+ * 📋 Validates against: src/schemas/apiUsageSchema.ts
+ */
+
+import { supabase } from './index';
+import { usageRecordSchema, type UsageRecord } from '../schemas/apiUsageSchema';
+
+/**
+ * Insert usage records (one row per external API call)
+ */
+export async function saveUsageRecords(records: UsageRecord[]): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+
+  const validated = records.map(record => usageRecordSchema.parse(record));
+  const { error } = await supabase.from('api_usage').insert(validated);
+  if (error) {
+    console.error('[API Usage] ✗ Failed to save usage records:', error);
+    throw new Error(`Failed to save ${validated.length} usage record(s): ${error.message}`);
+  }
+}
+
+async function fetchUsageRecords(column: 'run_id' | 'media_id', value: string): Promise<UsageRecord[]> {
+  const { data, error } = await supabase
+    .from('api_usage')
+    .select('*')
+    .eq(column, value);
+
+  if (error) {
+    throw new Error(`Failed to fetch usage for ${column} ${value}: ${error.message}`);
+  }
+
+  return (data || []).map(row => usageRecordSchema.parse(row));
+}
+
+/**
+ * Fetch every usage record of a pipeline run
+ */
+export async function fetchUsageForRun(runId: string): Promise<UsageRecord[]> {
+  return fetchUsageRecords('run_id', runId);
+}
+
+/**
+ * Fetch every usage record of an episode (all runs)
+ */
+export async function fetchUsageForEpisode(mediaId: string): Promise<UsageRecord[]> {
+  return fetchUsageRecords('media_id', mediaId);
+}
@@ -14,16 +14,19 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { subtitleThSchema } from '../schemas/subtitleThSchema';
+import { subtitleThSchema, type SubtitleTh } from '../schemas/subtitleThSchema';
 import { wordThSchema } from '../schemas/wordThSchema';
 import { meaningThSchema, type MeaningTh } from '../schemas/meaningThSchema';
 import { meaningThSchemaV2, type MeaningThV2 } from '../schemas/meaningThSchemaV2';
 import { meaningThSchemaV3, type MeaningThV3 } from '../schemas/meaningThSchemaV3';
+import { recordEvent } from '../services/telemetry/telemetry';
 
 // Supabase connection
 // ⚠️ Direct database connection - no caching layer
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://gbsopnbovsxlstnmaaga.supabase.co';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '[YOUR-ANON-KEY]';
+// Vite provides import.meta.env; Node scripts run with tsx (scripts/pipeline-cli.ts) fall back to process.env
+const env: Record<string, string | undefined> = import.meta.env ?? (typeof process !== 'undefined' ? process.env : {});
+const supabaseUrl = env.VITE_SUPABASE_URL || 'https://gbsopnbovsxlstnmaaga.supabase.co';
+const supabaseAnonKey = env.VITE_SUPABASE_ANON_KEY || '[YOUR-ANON-KEY]';
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
@@ -32,9 +35,7 @@ export * from './schema';
 
 // Query functions
 export async function fetchEpisodeLookups(limitCount: number = 10) {
-  // #region agent log
   console.log('[DEBUG] fetchEpisodeLookups called with limitCount:', limitCount);
-  // #endregion
   
   // Query episodes table
   // Columns: id (bigint), media_id (text), show_title (text), season_number (numeric), episode_number (numeric), episode_title (text)
@@ -43,9 +44,7 @@ export async function fetchEpisodeLookups(limitCount: number = 10) {
     .select('*')
     .limit(limitCount);
   
-  // #region agent log
   console.log('[DEBUG] fetchEpisodeLookups raw result:', {dataCount: data?.length || 0, error: error?.message, firstEpisode: data?.[0]});
-  // #endregion
   
   if (error) {
     console.error('[DEBUG] fetchEpisodeLookups error:', error);
@@ -69,9 +68,7 @@ export async function fetchEpisodeLookups(limitCount: number = 10) {
     episodeTitle: ep.episode_title || undefined, // camelCase for EpisodeLookup interface
   }));
   
-  // #region agent log
   console.log('[DEBUG] fetchEpisodeLookups mapped result:', {originalCount: data?.length || 0, mappedCount: mapped.length, firstMapped: mapped[0]});
-  // #endregion
   
   return mapped;
 }
@@ -85,9 +82,7 @@ export async function fetchEpisodeLookups(limitCount: number = 10) {
  * Returns data that should be validated with episodeSchema before use
  */
 export async function fetchEpisode(showName: string, mediaId: string) {
-  // #region agent log
   console.log('[DEBUG] fetchEpisode called with:', {showName, mediaId});
-  // #endregion
   
   // Zod schema field names: show_title, media_id
   const { data, error } = await supabase
@@ -97,9 +92,7 @@ export async function fetchEpisode(showName: string, mediaId: string) {
     .eq('media_id', mediaId) // Zod schema: media_id
     .single();
   
-  // #region agent log
   console.log('[DEBUG] fetchEpisode result:', {found: !!data, error: error?.message, data: data ? Object.keys(data) : null});
-  // #endregion
   
   if (error && error.code !== 'PGRST116') throw error;
   return data;
@@ -115,9 +108,7 @@ export async function fetchEpisode(showName: string, mediaId: string) {
  * - No caching, no localStorage, always fresh from database
  */
 export async function fetchSubtitles(mediaId: string) {
-  // #region agent log
   console.log('[DEBUG] fetchSubtitles called with mediaId:', mediaId);
-  // #endregion
   
   // Subtitles_th table columns: id, thai, start_sec_th, end_sec_th, tokens_th (snake_case)
   // Filter subtitles by id pattern: `${mediaId}_${index}`
@@ -126,7 +117,6 @@ export async function fetchSubtitles(mediaId: string) {
     .select('*')
     .order('start_sec_th', { ascending: true });
   
-  // #region agent log
   console.log('[DEBUG] fetchSubtitles - ALL subtitles from DB:', {
     dataCount: data?.length || 0, 
     error: error?.message, 
@@ -134,7 +124,6 @@ export async function fetchSubtitles(mediaId: string) {
     allIds: data?.slice(0, 20).map((s: any) => s.id),
     mediaIdLookingFor: mediaId
   });
-  // #endregion
   
   if (error) {
     console.error('[DEBUG] fetchSubtitles error:', error);
@@ -162,7 +151,6 @@ export async function fetchSubtitles(mediaId: string) {
     return aTime - bTime;
   });
   
-  // #region agent log
   console.log('[DEBUG] fetchSubtitles filtered result:', {
     originalCount: data?.length || 0, 
     filteredCount: sorted.length, 
@@ -171,7 +159,6 @@ export async function fetchSubtitles(mediaId: string) {
     filteredIds: sorted.slice(0, 5).map((s: any) => s.id),
     firstFilteredSubtitle: sorted[0]
   });
-  // #endregion
   
   // If no matches, log for debugging but return empty (don't return all - that's wrong data)
   if (sorted.length === 0 && data.length > 0) {
@@ -195,36 +182,26 @@ export async function saveSubtitlesBatch(subtitles: Array<{
   thai: string;
   start_sec_th?: number;
   end_sec_th?: number;
-  tokens_th?: { tokens: string[] };
+  tokens_th?: SubtitleTh['tokens_th'];
 }>): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Save subtitles batch started',data:{subtitleCount:subtitles?.length || 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Save subtitles batch started', {subtitleCount:subtitles?.length || 0});
   console.log(`[Save] Saving ${subtitles?.length || 0} subtitles to Supabase`);
   
   if (!subtitles || subtitles.length === 0) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'No subtitles to save',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSubtitlesBatch', 'No subtitles to save');
     return;
   }
 
   // Validate all subtitles with Zod schema
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Validating subtitles with Zod',data:{subtitleCount:subtitles.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Validating subtitles with Zod', {subtitleCount:subtitles.length});
   
   const validatedSubtitles = subtitles.map((sub, index) => {
     try {
       const validated = subtitleThSchema.parse(sub);
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Subtitle Zod validation passed',data:{index,subtitleId:validated.id,hasTokens_th:!!validated.tokens_th},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Subtitle Zod validation passed', {index,subtitleId:validated.id,hasTokens_th:!!validated.tokens_th});
       return validated;
     } catch (error) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Subtitle Zod validation failed',data:{index,subtitleId:sub.id,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Subtitle Zod validation failed', {index,subtitleId:sub.id,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
       console.error(`[Save] Subtitle ${sub.id} validation failed:`, error);
       throw error;
     }
@@ -256,9 +233,7 @@ export async function saveSubtitlesBatch(subtitles: Array<{
     };
   });
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Calling Supabase upsert',data:{subtitleCount:subtitleDataArray.length,table:'subtitles_th'},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Calling Supabase upsert', {subtitleCount:subtitleDataArray.length,table:'subtitles_th'});
   console.log(`[Save] Upserting ${subtitleDataArray.length} subtitles to 'subtitles_th' table`);
 
   const { error, data } = await supabase
@@ -267,16 +242,12 @@ export async function saveSubtitlesBatch(subtitles: Array<{
     .select();
 
   if (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSubtitlesBatch',message:'Supabase upsert failed',data:{errorMessage:error.message,errorCode:error.code,subtitleCount:subtitleDataArray.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSubtitlesBatch', 'Supabase upsert failed', {errorMessage:error.message,errorCode:error.code,subtitleCount:subtitleDataArray.length}, 'warn');
     console.error(`[Save] ✗ Failed to save subtitles:`, error);
     throw new Error(`Failed to save subtitles batch: ${error.message}`);
   }
 
-  // #region agent log
   // Skip logging - successful operation
-  // #endregion
   console.log(`[Save] ✓ Successfully saved ${data?.length || subtitleDataArray.length} subtitles to Supabase`);
 }
 
@@ -300,9 +271,7 @@ export async function saveSubtitlesBatch(subtitles: Array<{
  * Since word_th is the primary key, queries are immediate (no retry needed)
  */
 export async function fetchWord(wordTh: string): Promise<any> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'fetchWord called',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWord', 'fetchWord called', {wordTh});
   console.log('[DEBUG] fetchWord called with wordTh:', wordTh);
   
   // Query by word_th (primary key)
@@ -315,55 +284,39 @@ export async function fetchWord(wordTh: string): Promise<any> {
   // Extract first row from array (or null if empty)
   const data = dataArray && dataArray.length > 0 ? dataArray[0] : null;
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'fetchWord query result',data:{wordTh,found:!!data,errorCode:error?.code,errorMessage:error?.message,hasData:!!data,dataKeys:data ? Object.keys(data) : null,hasG2P:!!data?.g2p,hasPhonetic:!!data?.phonetic_en,g2pValue:data?.g2p?.substring(0,30) || (data?.g2p === null ? 'null' : 'undefined'),phoneticValue:data?.phonetic_en?.substring(0,30) || (data?.phonetic_en === null ? 'null' : 'undefined'),rowCount:dataArray?.length || 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWord', 'fetchWord query result', {wordTh,found:!!data,errorCode:error?.code,errorMessage:error?.message,hasData:!!data,dataKeys:data ? Object.keys(data) : null,hasG2P:!!data?.g2p,hasPhonetic:!!data?.phonetic_en,g2pValue:data?.g2p?.substring(0,30) || (data?.g2p === null ? 'null' : 'undefined'),phoneticValue:data?.phonetic_en?.substring(0,30) || (data?.phonetic_en === null ? 'null' : 'undefined'),rowCount:dataArray?.length || 0});
   console.log('[DEBUG] fetchWord result:', {wordTh, found: !!data, error: error?.message, errorCode: error?.code, hasG2P: !!data?.g2p, hasPhonetic: !!data?.phonetic_en, rowCount: dataArray?.length || 0});
   
   // Handle errors (but not PGRST116 since we're not using .single())
   if (error && error.code !== 'PGRST116') {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'fetchWord error',data:{wordTh,errorCode:error.code,errorMessage:error.message},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'fetchWord error', {wordTh,errorCode:error.code,errorMessage:error.message}, 'warn');
     throw error;
   }
   
   if (!data) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Word not found',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'Word not found', {wordTh});
     return null;
   }
   
   // Normalize null to undefined for optional fields (Zod expects undefined, not null)
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Normalizing null values',data:{wordTh,hasG2P:data.g2p !== null && data.g2p !== undefined,g2pIsNull:data.g2p === null,hasPhonetic:data.phonetic_en !== null && data.phonetic_en !== undefined,phoneticIsNull:data.phonetic_en === null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWord', 'Normalizing null values', {wordTh,hasG2P:data.g2p !== null && data.g2p !== undefined,g2pIsNull:data.g2p === null,hasPhonetic:data.phonetic_en !== null && data.phonetic_en !== undefined,phoneticIsNull:data.phonetic_en === null});
   
   if (data.g2p === null) {
     data.g2p = undefined;
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Normalized g2p null to undefined',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'Normalized g2p null to undefined', {wordTh});
   }
   if (data.phonetic_en === null) {
     data.phonetic_en = undefined;
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Normalized phonetic_en null to undefined',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'Normalized phonetic_en null to undefined', {wordTh});
   }
   
   // Validate with Zod schema before returning
   try {
     const validated = wordThSchema.parse(data);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Word Zod validation passed',data:{wordTh:validated.word_th,hasG2P:!!validated.g2p,hasPhonetic:!!validated.phonetic_en},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'Word Zod validation passed', {wordTh:validated.word_th,hasG2P:!!validated.g2p,hasPhonetic:!!validated.phonetic_en});
     return validated;
   } catch (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWord',message:'Word Zod validation failed',data:{wordTh,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWord', 'Word Zod validation failed', {wordTh,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
     console.error(`[Fetch] Word validation failed for "${wordTh}":`, error);
     throw error;
   }
@@ -409,10 +362,8 @@ function generateSenseId(textTh: string, index: number): bigint {
  * @returns Array of MeaningTh (may include V2 fields if present in database)
  */
 export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
-  // #region agent log
   console.log('[DEBUG] fetchSenses called with wordTh:', wordTh);
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'FETCH SENSES START',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'FETCH SENSES START', {wordTh});
   
   // Method 1: Generate possible sense IDs for this word (indices 0-20, reasonable max)
   // Use the same hash function as fetchOrstMeanings to ensure we can find saved meanings
@@ -429,26 +380,20 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
   );
   
   // Method 2: Query by word_th_id (for meanings linked via word_th_id after patching)
-  // #region agent log - QUERY BY WORD_TH_ID
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'QUERY BY WORD_TH_ID',data:{wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'QUERY BY WORD_TH_ID', {wordTh});
   const { data: dataByWordThId, error: errorByWordThId } = await supabase
     .from('meanings_th')
     .select('*')
     .eq('word_th_id', wordTh);
   
-  // #region agent log - AFTER QUERY BY WORD_TH_ID
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'AFTER QUERY BY WORD_TH_ID',data:{wordTh,meaningsFoundByWordThId:dataByWordThId?.length || 0,hasError:!!errorByWordThId,error:errorByWordThId?.message},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'AFTER QUERY BY WORD_TH_ID', {wordTh,meaningsFoundByWordThId:dataByWordThId?.length || 0,hasError:!!errorByWordThId,error:errorByWordThId?.message});
   
   // Query meanings by exact IDs (much more efficient than fetching all and filtering)
   // CRITICAL: Uses EXACT same query format as patchWordMeanings: .in('id', possibleIdsForQuery)
-  // #region agent log - QUERY BY IDS
   console.log(`[fetchSenses] Querying meanings_th WHERE id IN [${possibleIdsForQuery.length} possible IDs] for wordTh: "${wordTh}"`);
   console.log(`[fetchSenses] First 3 IDs as bigint:`, possibleIds.slice(0, 3).map(id => id.toString()));
   console.log(`[fetchSenses] First 3 IDs for query:`, possibleIdsForQuery.slice(0, 3));
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'QUERY BY IDS',data:{wordTh,possibleIdsCount:possibleIdsForQuery.length,possibleIdsForQuery:possibleIdsForQuery.slice(0,5)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'QUERY BY IDS', {wordTh,possibleIdsCount:possibleIdsForQuery.length,possibleIdsForQuery:possibleIdsForQuery.slice(0,5)});
   const { data: dataByIds, error: errorByIds } = await supabase
     .from('meanings_th')
     .select('*')
@@ -461,9 +406,7 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
     meaningIds: dataByIds?.map(m => ({ id: m.id, idType: typeof m.id, word_th_id: m.word_th_id })) || []
   });
   
-  // #region agent log - AFTER QUERY BY IDS
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'AFTER QUERY BY IDS',data:{wordTh,meaningsFoundByIds:dataByIds?.length || 0,hasError:!!errorByIds,error:errorByIds?.message,meaningIds:dataByIds?.map((m:any)=>({id:m.id,idType:typeof m.id,word_th_id:m.word_th_id}))},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'AFTER QUERY BY IDS', {wordTh,meaningsFoundByIds:dataByIds?.length || 0,hasError:!!errorByIds,error:errorByIds?.message,meaningIds:dataByIds?.map((m:any)=>({id:m.id,idType:typeof m.id,word_th_id:m.word_th_id}))});
   
   // Combine results from both queries and deduplicate by ID
   const combinedData: any[] = [];
@@ -491,7 +434,6 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
     }
   }
   
-  // #region agent log - COMBINED RESULTS
   const sampleCombined = combinedData.slice(0, 3).map((m: any) => ({
     id: m.id?.toString(),
     hasDefinitionTh: !!m.definition_th,
@@ -503,14 +445,11 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
     wordThId: m.word_th_id,
     definitionThPreview: m.definition_th?.substring(0, 30)
   }));
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'COMBINED RESULTS',data:{wordTh,meaningsByWordThId:dataByWordThId?.length || 0,meaningsByIds:dataByIds?.length || 0,combinedCount:combinedData.length,uniqueIds:seenIds.size,sampleCombined},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'COMBINED RESULTS', {wordTh,meaningsByWordThId:dataByWordThId?.length || 0,meaningsByIds:dataByIds?.length || 0,combinedCount:combinedData.length,uniqueIds:seenIds.size,sampleCombined});
   
-  // #region agent log - RAW DATA CHECK
   if (combinedData.length === 0) {
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'NO MEANINGS FOUND',data:{wordTh,dataByWordThIdCount:dataByWordThId?.length || 0,dataByIdsCount:dataByIds?.length || 0,errorByWordThId:errorByWordThId?.message,errorByIds:errorByIds?.message},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
+    recordEvent('supabase/index.ts:fetchSenses', 'NO MEANINGS FOUND', {wordTh,dataByWordThIdCount:dataByWordThId?.length || 0,dataByIdsCount:dataByIds?.length || 0,errorByWordThId:errorByWordThId?.message,errorByIds:errorByIds?.message});
   }
-  // #endregion
   
   // Handle errors - if both queries fail, throw error
   if (errorByWordThId && errorByIds) {
@@ -519,23 +458,15 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
   
   const data = combinedData;
   
-  // #region agent log
   console.log('[DEBUG] fetchSenses fetched:', {wordTh, dataCount: data?.length || 0, byWordThId: dataByWordThId?.length || 0, byIds: dataByIds?.length || 0, combined: combinedData.length});
-  // #endregion
   
-  // #region agent log - BEFORE VALIDATION
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'BEFORE VALIDATION',data:{wordTh,combinedDataCount:combinedData.length,firstSenseKeys:combinedData[0] ? Object.keys(combinedData[0]) : [],firstSenseSample:combinedData[0] ? {id:combinedData[0].id?.toString(),hasDefinitionTh:!!combinedData[0].definition_th,hasPosTh:!!combinedData[0].pos_th,hasPosEng:!!combinedData[0].pos_eng,hasDefinitionEng:!!combinedData[0].definition_eng,definitionThPreview:combinedData[0].definition_th?.substring(0,30)} : null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'BEFORE VALIDATION', {wordTh,combinedDataCount:combinedData.length,firstSenseKeys:combinedData[0] ? Object.keys(combinedData[0]) : [],firstSenseSample:combinedData[0] ? {id:combinedData[0].id?.toString(),hasDefinitionTh:!!combinedData[0].definition_th,hasPosTh:!!combinedData[0].pos_th,hasPosEng:!!combinedData[0].pos_eng,hasDefinitionEng:!!combinedData[0].definition_eng,definitionThPreview:combinedData[0].definition_th?.substring(0,30)} : null});
   
   // Normalize null to undefined and fix datetime format for optional fields (Zod expects undefined, not null)
   // Then validate each sense with Zod schema before returning
   const normalizedData = (data || []).map((sense, index) => {
-    // #region agent log - PROCESSING SENSE
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'PROCESSING SENSE',data:{wordTh,index,senseId:sense.id?.toString(),senseWordThId:sense.word_th_id,hasWordThId:!!sense.word_th_id,hasDefinitionTh:!!sense.definition_th,hasPosTh:!!sense.pos_th,hasPosEng:!!sense.pos_eng,hasDefinitionEng:!!sense.definition_eng,rawKeys:Object.keys(sense)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-    // #endregion
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'Normalizing sense data',data:{index,senseId:sense.id?.toString(),created_atType:typeof sense.created_at,created_atValue:sense.created_at,created_atIsNull:sense.created_at === null,created_atIsDate:sense.created_at instanceof Date},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchSenses', 'PROCESSING SENSE', {wordTh,index,senseId:sense.id?.toString(),senseWordThId:sense.word_th_id,hasWordThId:!!sense.word_th_id,hasDefinitionTh:!!sense.definition_th,hasPosTh:!!sense.pos_th,hasPosEng:!!sense.pos_eng,hasDefinitionEng:!!sense.definition_eng,rawKeys:Object.keys(sense)});
+    recordEvent('supabase/index.ts:fetchSenses', 'Normalizing sense data', {index,senseId:sense.id?.toString(),created_atType:typeof sense.created_at,created_atValue:sense.created_at,created_atIsNull:sense.created_at === null,created_atIsDate:sense.created_at instanceof Date});
     
     if (sense.word_th_id === null) sense.word_th_id = undefined;
     if (sense.source === null) sense.source = undefined;
@@ -551,15 +482,11 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
     // Normalize created_at: convert Date objects to ISO string, null to undefined, invalid strings to undefined
     if (sense.created_at === null) {
       sense.created_at = undefined;
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'Normalized created_at null to undefined',data:{index,senseId:sense.id?.toString()},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'Normalized created_at null to undefined', {index,senseId:sense.id?.toString()});
     } else if (sense.created_at instanceof Date) {
       // Convert Date object to ISO string
       sense.created_at = sense.created_at.toISOString();
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'Converted created_at Date to ISO string',data:{index,senseId:sense.id?.toString(),isoString:sense.created_at},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'Converted created_at Date to ISO string', {index,senseId:sense.id?.toString(),isoString:sense.created_at});
     } else if (typeof sense.created_at === 'string') {
       // Validate datetime string format - if invalid, set to undefined
       try {
@@ -567,18 +494,14 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
         const date = new Date(sense.created_at);
         if (isNaN(date.getTime())) {
           // Invalid date string
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'Invalid created_at string - setting to undefined',data:{index,senseId:sense.id?.toString(),invalidString:sense.created_at},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-          // #endregion
+          recordEvent('supabase/index.ts:fetchSenses', 'Invalid created_at string - setting to undefined', {index,senseId:sense.id?.toString(),invalidString:sense.created_at}, 'warn');
           sense.created_at = undefined;
         } else {
           // Valid date - ensure it's in ISO format
           sense.created_at = date.toISOString();
         }
       } catch (e) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'Error parsing created_at - setting to undefined',data:{index,senseId:sense.id?.toString(),created_atValue:sense.created_at,error:String(e)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:fetchSenses', 'Error parsing created_at - setting to undefined', {index,senseId:sense.id?.toString(),created_atValue:sense.created_at,error:String(e)}, 'warn');
         sense.created_at = undefined;
       }
     }
@@ -586,9 +509,7 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
     // Validate with Zod schema before returning
     // ⚠️ CRITICAL: Handle both V1 and V2 schemas - database may have V1-only or V2 meanings
     try {
-      // #region agent log - VALIDATION START
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'VALIDATION START',data:{index,senseId:sense.id?.toString(),senseKeys:Object.keys(sense),hasDefinitionTh:!!sense.definition_th,hasPosTh:!!sense.pos_th,hasPosEng:!!sense.pos_eng,hasDefinitionEng:!!sense.definition_eng},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'VALIDATION START', {index,senseId:sense.id?.toString(),senseKeys:Object.keys(sense),hasDefinitionTh:!!sense.definition_th,hasPosTh:!!sense.pos_th,hasPosEng:!!sense.pos_eng,hasDefinitionEng:!!sense.definition_eng});
       
       // Try V3 schema first (accepts V3 fields, backward compatible with V1/V2 data)
       // V3 schema has V3 fields as optional, so it accepts V1, V2, and V3 data
@@ -596,36 +517,28 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
       if (v3Result.success) {
         const hasV3Fields = !!(v3Result.data.label_eng);
         const hasV2Fields = !!(v3Result.data.pos_th || v3Result.data.pos_eng || v3Result.data.definition_eng);
-        // #region agent log - V3 VALIDATION SUCCESS
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'V3 VALIDATION SUCCESS',data:{index,senseId:v3Result.data.id?.toString(),hasDefinition:!!v3Result.data.definition_th,hasV2Fields,hasV3Fields,isV1:!hasV2Fields,isV2:hasV2Fields && !hasV3Fields,isV3:hasV3Fields,definitionTh:v3Result.data.definition_th?.substring(0,30)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:fetchSenses', 'V3 VALIDATION SUCCESS', {index,senseId:v3Result.data.id?.toString(),hasDefinition:!!v3Result.data.definition_th,hasV2Fields,hasV3Fields,isV1:!hasV2Fields,isV2:hasV2Fields && !hasV3Fields,isV3:hasV3Fields,definitionTh:v3Result.data.definition_th?.substring(0,30)});
         // Return V3 data - it includes all V1/V2 fields plus optional V3 fields
         // TypeScript will allow V3 fields to be accessed even though return type is MeaningTh[]
         // The component can check for and display V3 fields if present
         return v3Result.data as any as MeaningTh; // Cast to MeaningTh[] return type, but preserve V3 fields
       }
       
-      // #region agent log - V3 VALIDATION FAILED, TRYING V2
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'V3 VALIDATION FAILED, TRYING V2',data:{index,senseId:sense.id?.toString(),v3Error:v3Result.error.message,v3Errors:v3Result.error.errors},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'V3 VALIDATION FAILED, TRYING V2', {index,senseId:sense.id?.toString(),v3Error:v3Result.error.message,v3Errors:v3Result.error.errors}, 'warn');
       
       // Try V2 schema (accepts V2 fields, backward compatible with V1-only data)
       // V2 schema has V2 fields as optional, so it accepts both V1 and V2 data
       const v2Result = meaningThSchemaV2.safeParse(sense);
       if (v2Result.success) {
         const hasV2Fields = !!(v2Result.data.pos_th || v2Result.data.pos_eng || v2Result.data.definition_eng);
-        // #region agent log - V2 VALIDATION SUCCESS
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'V2 VALIDATION SUCCESS',data:{index,senseId:v2Result.data.id?.toString(),hasDefinition:!!v2Result.data.definition_th,hasV2Fields,isV1:!hasV2Fields,isV2:hasV2Fields,definitionTh:v2Result.data.definition_th?.substring(0,30)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:fetchSenses', 'V2 VALIDATION SUCCESS', {index,senseId:v2Result.data.id?.toString(),hasDefinition:!!v2Result.data.definition_th,hasV2Fields,isV1:!hasV2Fields,isV2:hasV2Fields,definitionTh:v2Result.data.definition_th?.substring(0,30)});
         // Return V2 data - it includes all V1 fields plus optional V2 fields
         // TypeScript will allow V2 fields to be accessed even though return type is MeaningTh[]
         // The component can check for and display V2 fields if present
         return v2Result.data as any as MeaningTh; // Cast to MeaningTh[] return type, but preserve V2 fields
       }
       
-      // #region agent log - V2 VALIDATION FAILED, TRYING V1
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'V2 VALIDATION FAILED, TRYING V1',data:{index,senseId:sense.id?.toString(),v2Error:v2Result.error.message,v2Errors:v2Result.error.errors},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'V2 VALIDATION FAILED, TRYING V1', {index,senseId:sense.id?.toString(),v2Error:v2Result.error.message,v2Errors:v2Result.error.errors}, 'warn');
       
       // Fall back to V1 schema if V2/V3 fails (defensive - shouldn't happen but handles edge cases)
       // Remove V2/V3 fields before V1 validation (V1 schema is strict and rejects unknown keys)
@@ -641,41 +554,31 @@ export async function fetchSenses(wordTh: string): Promise<MeaningTh[]> {
       delete senseForV1.definition_eng;
       const v1Result = meaningThSchema.safeParse(senseForV1);
       if (v1Result.success) {
-        // #region agent log - V1 VALIDATION SUCCESS
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'V1 VALIDATION SUCCESS',data:{index,senseId:v1Result.data.id?.toString(),hasDefinition:!!v1Result.data.definition_th,isV1:true,definitionTh:v1Result.data.definition_th?.substring(0,30)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:fetchSenses', 'V1 VALIDATION SUCCESS', {index,senseId:v1Result.data.id?.toString(),hasDefinition:!!v1Result.data.definition_th,isV1:true,definitionTh:v1Result.data.definition_th?.substring(0,30)});
         return v1Result.data;
       }
       
-      // #region agent log - ALL VALIDATIONS FAILED
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'ALL VALIDATIONS FAILED',data:{index,senseId:sense.id?.toString(),v3Error:v3Result.error.message,v2Error:v2Result.error.message,v1Error:v1Result.error.message,v3Errors:v3Result.error.errors,v2Errors:v2Result.error.errors,v1Errors:v1Result.error.errors},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'ALL VALIDATIONS FAILED', {index,senseId:sense.id?.toString(),v3Error:v3Result.error.message,v2Error:v2Result.error.message,v1Error:v1Result.error.message,v3Errors:v3Result.error.errors,v2Errors:v2Result.error.errors,v1Errors:v1Result.error.errors}, 'warn');
       
       // All validations failed
       throw new Error(`V3 validation failed: ${v3Result.error.message}; V2 validation failed: ${v2Result.error.message}; V1 validation failed: ${v1Result.error.message}`);
     } catch (error) {
-      // #region agent log - VALIDATION ERROR
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'VALIDATION ERROR',data:{index,senseId:sense.id?.toString(),errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,200) : undefined,rawSenseKeys:Object.keys(sense)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:fetchSenses', 'VALIDATION ERROR', {index,senseId:sense.id?.toString(),errorMessage:error instanceof Error ? error.message : String(error),errorStack:error instanceof Error ? error.stack?.substring(0,200) : undefined,rawSenseKeys:Object.keys(sense)}, 'warn');
       console.error(`[Fetch] Sense ${index} validation failed for "${wordTh}":`, error);
       // Skip invalid senses instead of throwing - return null to filter out
       return null;
     }
   });
   
-  // #region agent log - FINAL RESULTS
   const validSenses = normalizedData.filter((s): s is NonNullable<typeof s> => s !== null);
   const invalidCount = normalizedData.length - validSenses.length;
   const v1Count = validSenses.filter((s: any) => !(s.pos_th || s.pos_eng || s.definition_eng)).length;
   const v2Count = validSenses.filter((s: any) => !!(s.pos_th || s.pos_eng || s.definition_eng) && !s.label_eng).length;
   const v3Count = validSenses.filter((s: any) => !!(s.label_eng)).length;
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'FINAL RESULTS',data:{wordTh,totalSenses:normalizedData.length,validSenses:validSenses.length,invalidCount,v1Count,v2Count,v3Count,firstValidSense:validSenses[0] ? {id:validSenses[0].id?.toString(),hasDefinition:!!validSenses[0].definition_th,hasV2Fields:!!(validSenses[0].pos_th || validSenses[0].pos_eng || validSenses[0].definition_eng),hasV3Fields:!!(validSenses[0] as any).label_eng,definitionThPreview:validSenses[0].definition_th?.substring(0,30)} : null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchSenses', 'FINAL RESULTS', {wordTh,totalSenses:normalizedData.length,validSenses:validSenses.length,invalidCount,v1Count,v2Count,v3Count,firstValidSense:validSenses[0] ? {id:validSenses[0].id?.toString(),hasDefinition:!!validSenses[0].definition_th,hasV2Fields:!!(validSenses[0].pos_th || validSenses[0].pos_eng || validSenses[0].definition_eng),hasV3Fields:!!(validSenses[0] as any).label_eng,definitionThPreview:validSenses[0].definition_th?.substring(0,30)} : null});
   
   if (validSenses.length === 0 && combinedData.length > 0) {
-    // #region agent log - ALL SENSES FILTERED OUT
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchSenses',message:'ALL SENSES FILTERED OUT',data:{wordTh,combinedDataCount:combinedData.length,validSensesCount:validSenses.length,invalidCount,rawSample:combinedData[0]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_SENSES'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchSenses', 'ALL SENSES FILTERED OUT', {wordTh,combinedDataCount:combinedData.length,validSensesCount:validSenses.length,invalidCount,rawSample:combinedData[0]});
   }
   
   return validSenses;
@@ -803,6 +706,45 @@ export async function wordHasCompleteData(wordTh: string): Promise<boolean> {
   return hasCompleteData;
 }
 
+/**
+ * Words per words_th lookup in fetchCompleteWords - keeps the `in` filter well under URL length limits
+ */
+const COMPLETE_WORDS_CHUNK_SIZE = 150;
+
+/**
+ * Find which of the given words already have complete data - bulk version of wordHasCompleteData
+ * One query per COMPLETE_WORDS_CHUNK_SIZE words instead of one query per word
+ * @param options.requireMeanings - Also require at least one meanings_th row (embedded select over the word_th_id FK)
+ * @returns Subset of wordThs that are complete
+ */
+export async function fetchCompleteWords(wordThs: string[], options: { requireMeanings?: boolean } = {}): Promise<Set<string>> {
+  const uniqueWords = Array.from(new Set(wordThs.map(word => word.trim()).filter(word => word.length > 0)));
+  const complete = new Set<string>();
+
+  for (let start = 0; start < uniqueWords.length; start += COMPLETE_WORDS_CHUNK_SIZE) {
+    const chunk = uniqueWords.slice(start, start + COMPLETE_WORDS_CHUNK_SIZE);
+    const query = options.requireMeanings
+      ? supabase.from('words_th').select('word_th, g2p, phonetic_en, meanings_th(id)').in('word_th', chunk).limit(1, { referencedTable: 'meanings_th' })
+      : supabase.from('words_th').select('word_th, g2p, phonetic_en').in('word_th', chunk);
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to look up complete words: ${error.message}`);
+    }
+
+    for (const row of (data || []) as Array<{ word_th: string | null; g2p: string | null; phonetic_en: string | null; meanings_th?: unknown[] }>) {
+      // Same rule as wordHasCompleteData: word_th plus g2p or phonetic_en
+      const hasPhonetics = !!row.g2p?.trim() || !!row.phonetic_en?.trim();
+      const hasMeanings = !options.requireMeanings || (Array.isArray(row.meanings_th) && row.meanings_th.length > 0);
+      if (row.word_th?.trim() && hasPhonetics && hasMeanings) {
+        complete.add(row.word_th);
+      }
+    }
+  }
+
+  return complete;
+}
+
 /**
  * Delete a phonetic G2P rule by g2p_code
  * CRITICAL: Never deletes seeded vowels (IDs 1-31)
@@ -877,9 +819,7 @@ export async function savePhoneticG2PRule(rule: {
  * @param evidence - The evidence JSON string
  */
 export async function updatePhoneticG2PRuleEvidence(g2p_code: string, evidence: string): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:updatePhoneticG2PRuleEvidence',message:'ENTRY - Updating evidence',data:{g2pCode:g2p_code,evidenceLength:evidence.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPDATE_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:updatePhoneticG2PRuleEvidence', 'ENTRY - Updating evidence', {g2pCode:g2p_code,evidenceLength:evidence.length});
   
   // First check if row exists and get current values (including ID to check if it's a seeded vowel)
   const { data: existingRow, error: fetchError } = await supabase
@@ -888,9 +828,7 @@ export async function updatePhoneticG2PRuleEvidence(g2p_code: string, evidence:
     .eq('g2p_code', g2p_code)
     .single();
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:updatePhoneticG2PRuleEvidence',message:'AFTER fetch existing row',data:{g2pCode:g2p_code,hasError:!!fetchError,error:fetchError?.message,rowExists:!!existingRow,englishVowel:existingRow?.english_vowel,thaiVowel:existingRow?.thai_vowel},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPDATE_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:updatePhoneticG2PRuleEvidence', 'AFTER fetch existing row', {g2pCode:g2p_code,hasError:!!fetchError,error:fetchError?.message,rowExists:!!existingRow,englishVowel:existingRow?.english_vowel,thaiVowel:existingRow?.thai_vowel});
 
   if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 = no rows returned
     throw new Error(`Failed to fetch existing rule: ${fetchError.message}`);
@@ -928,9 +866,7 @@ export async function updatePhoneticG2PRuleEvidence(g2p_code: string, evidence:
     .upsert(updateData, { onConflict: 'g2p_code' })
     .select();
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:updatePhoneticG2PRuleEvidence',message:'AFTER upsert',data:{g2pCode:g2p_code,hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,updatedRows:data?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPDATE_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:updatePhoneticG2PRuleEvidence', 'AFTER upsert', {g2pCode:g2p_code,hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,updatedRows:data?.length||0});
 
   if (error) {
     throw new Error(`Failed to update phonetic G2P rule evidence: ${error.message}`);
@@ -946,28 +882,20 @@ export async function fetchWordsTh(): Promise<Array<{
   g2p: string | null;
   phonetic_en: string | null;
 }>> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWordsTh',message:'ENTRY',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_WORDS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWordsTh', 'ENTRY');
   const { data, error } = await supabase
     .from('words_th')
     .select('word_th, g2p, phonetic_en');
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWordsTh',message:'AFTER query',data:{hasError:!!error,error:error?.message,errorCode:error?.code,dataLength:data?.length||0,firstWord:data?.[0]?.word_th||null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_WORDS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWordsTh', 'AFTER query', {hasError:!!error,error:error?.message,errorCode:error?.code,dataLength:data?.length||0,firstWord:data?.[0]?.word_th||null});
 
   if (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWordsTh',message:'ERROR - throwing',data:{error:error.message,errorCode:error.code},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_WORDS'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchWordsTh', 'ERROR - throwing', {error:error.message,errorCode:error.code}, 'warn');
     throw new Error(`Failed to fetch words: ${error.message}`);
   }
 
   const result = data || [];
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchWordsTh',message:'RETURN',data:{resultCount:result.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_WORDS'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchWordsTh', 'RETURN', {resultCount:result.length});
   return result;
 }
 
@@ -983,26 +911,20 @@ export async function fetchPhoneticG2PRules(): Promise<Array<{
   phonetic_output: string | null;
   evidence: string | null;
 }>> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PRules',message:'ENTRY',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_RULES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PRules', 'ENTRY');
   const { data, error } = await supabase
     .from('phonetic_g2p_rules')
     .select('id, english_vowel, thai_vowel, g2p_code, phonetic_output, evidence')
     .order('id', { ascending: true });
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PRules',message:'AFTER query',data:{hasError:!!error,error:error?.message,dataLength:data?.length||0,seededCount:data?.filter(r=>r.g2p_code.startsWith('SEED_')).length||0,seededIds:data?.filter(r=>r.g2p_code.startsWith('SEED_')).map(r=>`${r.g2p_code}:id=${r.id}`).slice(0,10)||[],allIds:data?.map(r=>r.id).slice(0,10)||[]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_RULES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PRules', 'AFTER query', {hasError:!!error,error:error?.message,dataLength:data?.length||0,seededCount:data?.filter(r=>r.g2p_code.startsWith('SEED_')).length||0,seededIds:data?.filter(r=>r.g2p_code.startsWith('SEED_')).map(r=>`${r.g2p_code}:id=${r.id}`).slice(0,10)||[],allIds:data?.map(r=>r.id).slice(0,10)||[]});
 
   if (error) {
     throw new Error(`Failed to fetch phonetic G2P rules: ${error.message}`);
   }
 
   const result = data || [];
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PRules',message:'RETURN',data:{resultCount:result.length,seededInResult:result.filter(r=>r.g2p_code.startsWith('SEED_')).length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_RULES'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PRules', 'RETURN', {resultCount:result.length,seededInResult:result.filter(r=>r.g2p_code.startsWith('SEED_')).length});
   return result;
 }
 
@@ -1019,21 +941,15 @@ export async function savePhoneticG2PRulesBatch(
     evidence: string;
   }>
 ): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PRulesBatch',message:'ENTRY',data:{rulesCount:rules.length,firstRule:rules[0]?{g2pCode:rules[0].g2p_code,hasEnglishVowel:!!rules[0].english_vowel,hasThaiVowel:!!rules[0].thai_vowel,englishVowel:rules[0].english_vowel,thaiVowel:rules[0].thai_vowel}:null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_RULES_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PRulesBatch', 'ENTRY', {rulesCount:rules.length,firstRule:rules[0]?{g2pCode:rules[0].g2p_code,hasEnglishVowel:!!rules[0].english_vowel,hasThaiVowel:!!rules[0].thai_vowel,englishVowel:rules[0].english_vowel,thaiVowel:rules[0].thai_vowel}:null});
   
   if (rules.length === 0) {
-    // #region agent log
     // Skip logging - routine skip operation
-    // #endregion
     return;
   }
 
   // CRITICAL: Fetch existing seeded vowels (IDs 1-31) to preserve their thai_vowel
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PRulesBatch',message:'BEFORE fetch seeded vowels',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_RULES_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PRulesBatch', 'BEFORE fetch seeded vowels');
   const { data: existingSeededVowels } = await supabase
     .from('phonetic_g2p_rules')
     .select('id, g2p_code, thai_vowel')
@@ -1044,9 +960,7 @@ export async function savePhoneticG2PRulesBatch(
     seededVowelsMap.set(v.id, v);
   });
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PRulesBatch',message:'AFTER fetch seeded vowels',data:{seededCount:seededVowelsMap.size,seededIds:Array.from(seededVowelsMap.keys()).sort((a,b)=>a-b)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_RULES_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PRulesBatch', 'AFTER fetch seeded vowels', {seededCount:seededVowelsMap.size,seededIds:Array.from(seededVowelsMap.keys()).sort((a,b)=>a-b)});
 
   // Separate seeded vowels (IDs 1-31) from other rules
   const seededRules: Array<{ id: number; g2p_code: string; english_vowel: string | null; thai_vowel: string; phonetic_output: string; evidence: string }> = [];
@@ -1093,9 +1007,7 @@ export async function savePhoneticG2PRulesBatch(
     }
   }
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PRulesBatch',message:'BEFORE separate saves',data:{seededCount:seededRules.length,otherCount:otherRules.length,seededIds:seededRules.map(r=>r.id).sort((a,b)=>a-b)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_RULES_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PRulesBatch', 'BEFORE separate saves', {seededCount:seededRules.length,otherCount:otherRules.length,seededIds:seededRules.map(r=>r.id).sort((a,b)=>a-b)});
 
   // Update seeded vowels by ID (preserves IDs 1-31 and thai_vowel)
   // CRITICAL: Fetch hardcoded thai_vowel values to ensure they're never overwritten
@@ -1125,9 +1037,7 @@ export async function savePhoneticG2PRulesBatch(
       .eq('id', seededRule.id);
     
     if (updateError) {
-      // #region agent log
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PRulesBatch',message:'ERROR updating seeded vowel',data:{id:seededRule.id,g2pCode:seededRule.g2p_code,hardcodedThaiVowel,error:updateError.message},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_RULES_BATCH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:savePhoneticG2PRulesBatch', 'ERROR updating seeded vowel', {id:seededRule.id,g2pCode:seededRule.g2p_code,hardcodedThaiVowel,error:updateError.message}, 'warn');
       throw new Error(`Failed to update seeded vowel ID ${seededRule.id}: ${updateError.message}`);
     }
   }
@@ -1136,14 +1046,10 @@ export async function savePhoneticG2PRulesBatch(
   // Skip saving any rules that are not seeded vowels (IDs 1-31)
   if (otherRules.length > 0) {
     console.log(`[savePhoneticG2PRulesBatch] SKIPPING ${otherRules.length} non-seeded rules - only 31 seeded vowels allowed`);
-    // #region agent log
     // Skip logging - routine skip operation
-    // #endregion
   }
   
-  // #region agent log
   // Skip logging - successful operation
-  // #endregion
 }
 
 /**
@@ -1152,9 +1058,7 @@ export async function savePhoneticG2PRulesBatch(
  * @returns Number of records with IDs 1-31 that have thai_vowel set
  */
 export async function checkSeededVowelsCount(): Promise<number> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:checkSeededVowelsCount',message:'ENTRY',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SEED_COUNT'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:checkSeededVowelsCount', 'ENTRY');
   // Check by ID (1-31) instead of g2p_code prefix, since g2p_code can change
   const { data, error } = await supabase
     .from('phonetic_g2p_rules')
@@ -1162,18 +1066,14 @@ export async function checkSeededVowelsCount(): Promise<number> {
     .in('id', Array.from({ length: 31 }, (_, i) => i + 1))
     .not('thai_vowel', 'is', null);
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:checkSeededVowelsCount',message:'AFTER query',data:{hasError:!!error,error:error?.message,dataLength:data?.length||0,idsWithThaiVowel:data?.map(r=>r.id).sort((a,b)=>a-b)||[]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SEED_COUNT'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:checkSeededVowelsCount', 'AFTER query', {hasError:!!error,error:error?.message,dataLength:data?.length||0,idsWithThaiVowel:data?.map(r=>r.id).sort((a,b)=>a-b)||[]});
 
   if (error) {
     throw new Error(`Failed to check seeded vowels count: ${error.message}`);
   }
 
   const count = data?.length || 0;
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:checkSeededVowelsCount',message:'RETURN',data:{count,ids:data?.map(r=>r.id).sort((a,b)=>a-b)||[]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SEED_COUNT'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:checkSeededVowelsCount', 'RETURN', {count,ids:data?.map(r=>r.id).sort((a,b)=>a-b)||[]});
   return count;
 }
 
@@ -1367,9 +1267,7 @@ export async function savePhoneticG2PEvidence(evidence: {
   thai_vowel_label?: string | null;
   gpt_phonetic?: string | null;
 }): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidence',message:'ENTRY',data:{g2pCode:evidence.g2p_code,wordId:evidence.word_id,textTh:evidence.text_th,hasThaiVowelLabel:!!evidence.thai_vowel_label,hasGptPhonetic:!!evidence.gpt_phonetic,thaiVowelLabel:evidence.thai_vowel_label,gptPhonetic:evidence.gpt_phonetic},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_SINGLE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PEvidence', 'ENTRY', {g2pCode:evidence.g2p_code,wordId:evidence.word_id,textTh:evidence.text_th,hasThaiVowelLabel:!!evidence.thai_vowel_label,hasGptPhonetic:!!evidence.gpt_phonetic,thaiVowelLabel:evidence.thai_vowel_label,gptPhonetic:evidence.gpt_phonetic});
   
   const { error, data } = await supabase
     .from('phonetic_g2p_evidence')
@@ -1384,20 +1282,14 @@ export async function savePhoneticG2PEvidence(evidence: {
     }, { onConflict: 'g2p_code,word_id' })
     .select();
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidence',message:'AFTER upsert',data:{hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,savedCount:data?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_SINGLE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PEvidence', 'AFTER upsert', {hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,savedCount:data?.length||0});
 
   if (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidence',message:'ERROR - Save failed',data:{error:error.message,errorCode:error.code,errorDetails:error.details,g2pCode:evidence.g2p_code,wordId:evidence.word_id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_SINGLE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:savePhoneticG2PEvidence', 'ERROR - Save failed', {error:error.message,errorCode:error.code,errorDetails:error.details,g2pCode:evidence.g2p_code,wordId:evidence.word_id}, 'warn');
     throw new Error(`Failed to save phonetic G2P evidence: ${error.message}`);
   }
   
-  // #region agent log
   // Skip logging - successful operation
-  // #endregion
 }
 
 /**
@@ -1415,14 +1307,10 @@ export async function savePhoneticG2PEvidenceBatch(
     gpt_phonetic?: string | null;
   }>
 ): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidenceBatch',message:'ENTRY',data:{evidenceCount:evidenceArray.length,firstEvidence:evidenceArray[0]?{g2pCode:evidenceArray[0].g2p_code,wordId:evidenceArray[0].word_id,textTh:evidenceArray[0].text_th,hasThaiVowelLabel:!!evidenceArray[0].thai_vowel_label,hasGptPhonetic:!!evidenceArray[0].gpt_phonetic}:null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PEvidenceBatch', 'ENTRY', {evidenceCount:evidenceArray.length,firstEvidence:evidenceArray[0]?{g2pCode:evidenceArray[0].g2p_code,wordId:evidenceArray[0].word_id,textTh:evidenceArray[0].text_th,hasThaiVowelLabel:!!evidenceArray[0].thai_vowel_label,hasGptPhonetic:!!evidenceArray[0].gpt_phonetic}:null});
   
   if (evidenceArray.length === 0) {
-    // #region agent log
     // Skip logging - routine skip operation
-    // #endregion
     return;
   }
 
@@ -1436,29 +1324,21 @@ export async function savePhoneticG2PEvidenceBatch(
     gpt_phonetic: evidence.gpt_phonetic || null,
   }));
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidenceBatch',message:'BEFORE upsert',data:{evidenceToSaveCount:evidenceToSave.length,withGPT:evidenceToSave.filter(e=>e.thai_vowel_label&&e.gpt_phonetic).length,withoutGPT:evidenceToSave.filter(e=>!e.thai_vowel_label||!e.gpt_phonetic).length,firstRecord:evidenceToSave[0]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PEvidenceBatch', 'BEFORE upsert', {evidenceToSaveCount:evidenceToSave.length,withGPT:evidenceToSave.filter(e=>e.thai_vowel_label&&e.gpt_phonetic).length,withoutGPT:evidenceToSave.filter(e=>!e.thai_vowel_label||!e.gpt_phonetic).length,firstRecord:evidenceToSave[0]});
 
   const { error, data } = await supabase
     .from('phonetic_g2p_evidence')
     .upsert(evidenceToSave, { onConflict: 'g2p_code,word_id' })
     .select();
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidenceBatch',message:'AFTER upsert',data:{hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,savedCount:data?.length||0,requestedCount:evidenceToSave.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_BATCH'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:savePhoneticG2PEvidenceBatch', 'AFTER upsert', {hasError:!!error,error:error?.message,errorCode:error?.code,errorDetails:error?.details,savedCount:data?.length||0,requestedCount:evidenceToSave.length});
 
   if (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:savePhoneticG2PEvidenceBatch',message:'ERROR - Save failed',data:{error:error.message,errorCode:error.code,errorDetails:error.details,evidenceCount:evidenceToSave.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'SAVE_EVIDENCE_BATCH'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:savePhoneticG2PEvidenceBatch', 'ERROR - Save failed', {error:error.message,errorCode:error.code,errorDetails:error.details,evidenceCount:evidenceToSave.length}, 'warn');
     throw new Error(`Failed to save phonetic G2P evidence batch: ${error.message}`);
   }
   
-  // #region agent log
   // Skip logging - successful operation
-  // #endregion
 }
 
 /**
@@ -1476,9 +1356,7 @@ export async function fetchPhoneticG2PEvidence(g2pCode?: string): Promise<Array<
   thai_vowel_label: string | null;
   gpt_phonetic: string | null;
 }>> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PEvidence',message:'ENTRY',data:{hasG2pCode:!!g2pCode,g2pCode:g2pCode||null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PEvidence', 'ENTRY', {hasG2pCode:!!g2pCode,g2pCode:g2pCode||null});
   let query = supabase
     .from('phonetic_g2p_evidence')
     .select('id, g2p_code, word_id, text_th, g2p, parser_phonetic, thai_vowel_label, gpt_phonetic')
@@ -1490,21 +1368,15 @@ export async function fetchPhoneticG2PEvidence(g2pCode?: string): Promise<Array<
 
   const { data, error } = await query;
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PEvidence',message:'AFTER query',data:{hasError:!!error,error:error?.message,errorCode:error?.code,dataLength:data?.length||0,g2pCode:g2pCode||null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PEvidence', 'AFTER query', {hasError:!!error,error:error?.message,errorCode:error?.code,dataLength:data?.length||0,g2pCode:g2pCode||null});
 
   if (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PEvidence',message:'ERROR - throwing',data:{error:error.message,errorCode:error.code,g2pCode:g2pCode||null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_EVIDENCE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:fetchPhoneticG2PEvidence', 'ERROR - throwing', {error:error.message,errorCode:error.code,g2pCode:g2pCode||null}, 'warn');
     throw new Error(`Failed to fetch phonetic G2P evidence: ${error.message}`);
   }
 
   const result = data || [];
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:fetchPhoneticG2PEvidence',message:'RETURN',data:{resultCount:result.length,g2pCode:g2pCode||null},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'FETCH_EVIDENCE'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:fetchPhoneticG2PEvidence', 'RETURN', {resultCount:result.length,g2pCode:g2pCode||null});
   return result;
 }
 
@@ -1546,9 +1418,7 @@ export async function saveWordOnly(wordData: {
   g2p?: string;
   phonetic_en?: string;
 }): Promise<{ word_th: string; g2p?: string; phonetic_en?: string }> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Save word only started',data:{wordTh:wordData.word_th,hasG2P:!!wordData.g2p,hasPhonetic:!!wordData.phonetic_en},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveWordOnly', 'Save word only started', {wordTh:wordData.word_th,hasG2P:!!wordData.g2p,hasPhonetic:!!wordData.phonetic_en});
   console.log(`[Save] Saving word "${wordData.word_th}" to words_th (without senses)`);
   
   if (!wordData.word_th) {
@@ -1566,13 +1436,9 @@ export async function saveWordOnly(wordData: {
   let validatedWord: { word_th: string; g2p?: string; phonetic_en?: string };
   try {
     validatedWord = wordThSchema.parse(wordToValidate);
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Word Zod validation passed',data:{wordTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveWordOnly', 'Word Zod validation passed', {wordTh:validatedWord.word_th,hasG2P:!!validatedWord.g2p,hasPhonetic:!!validatedWord.phonetic_en});
   } catch (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Word Zod validation failed',data:{wordTh:wordData.word_th,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveWordOnly', 'Word Zod validation failed', {wordTh:wordData.word_th,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
     console.error(`[Save] Word validation failed for "${wordData.word_th}":`, error);
     throw error;
   }
@@ -1589,9 +1455,7 @@ export async function saveWordOnly(wordData: {
     ...(validatedWord.phonetic_en !== undefined && { phonetic_en: validatedWord.phonetic_en }),
   };
 
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Upserting word to words_th',data:{wordTh:wordRowData.word_th,hasG2P:!!wordRowData.g2p,g2pValue:wordRowData.g2p?.substring(0,50) || 'null/undefined',hasPhonetic:!!wordRowData.phonetic_en,phoneticValue:wordRowData.phonetic_en?.substring(0,50) || 'null/undefined',wordRowDataKeys:Object.keys(wordRowData)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveWordOnly', 'Upserting word to words_th', {wordTh:wordRowData.word_th,hasG2P:!!wordRowData.g2p,g2pValue:wordRowData.g2p?.substring(0,50) || 'null/undefined',hasPhonetic:!!wordRowData.phonetic_en,phoneticValue:wordRowData.phonetic_en?.substring(0,50) || 'null/undefined',wordRowDataKeys:Object.keys(wordRowData)});
   
   // Try upsert with word_th as conflict target (primary key)
   let { error: wordError, data: savedWordData } = await supabase
@@ -1601,9 +1465,7 @@ export async function saveWordOnly(wordData: {
   
   // If upsert fails due to missing constraint (42P10), fall back to manual insert/update
   if (wordError && wordError.code === '42P10') {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'word_th constraint not found, falling back to manual insert/update',data:{wordTh:wordData.word_th},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveWordOnly', 'word_th constraint not found, falling back to manual insert/update', {wordTh:wordData.word_th});
     
     // Check if word exists (query by word_th)
     const { data: existingWord } = await supabase
@@ -1633,21 +1495,15 @@ export async function saveWordOnly(wordData: {
     }
   }
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Upsert response received',data:{wordTh:wordData.word_th,hasError:!!wordError,errorCode:wordError?.code,errorMessage:wordError?.message,hasData:!!savedWordData,dataLength:savedWordData?.length,firstItemWordTh:savedWordData?.[0]?.word_th},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveWordOnly', 'Upsert response received', {wordTh:wordData.word_th,hasError:!!wordError,errorCode:wordError?.code,errorMessage:wordError?.message,hasData:!!savedWordData,dataLength:savedWordData?.length,firstItemWordTh:savedWordData?.[0]?.word_th});
   
   if (wordError) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordOnly',message:'Word upsert failed',data:{wordTh:wordData.word_th,errorMessage:wordError.message,errorCode:wordError.code,errorDetails:wordError.details,errorHint:wordError.hint},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveWordOnly', 'Word upsert failed', {wordTh:wordData.word_th,errorMessage:wordError.message,errorCode:wordError.code,errorDetails:wordError.details,errorHint:wordError.hint}, 'warn');
     console.error(`[Save] ✗ Failed to save word:`, wordError);
     throw new Error(`Failed to save word: ${wordError.message}`);
   }
   
-  // #region agent log
   // Skip logging - successful operation
-  // #endregion
   console.log(`[Save] ✓ Successfully saved word "${wordData.word_th}" to words_th table (without senses)`);
   
   // Return saved word data for integrity checks
@@ -1674,12 +1530,12 @@ export async function saveWordOnly(wordData: {
 export async function saveSenses(senses: Array<{
   id: bigint;
   definition_th: string;
-  source?: string;
-  created_at?: string;
-  word_th_id?: string;
-  pos_th?: string;
-  pos_eng?: string;
-  definition_eng?: string;
+  source?: string | undefined;
+  created_at?: string | undefined;
+  word_th_id?: string | undefined;
+  pos_th?: string | undefined;
+  pos_eng?: string | undefined;
+  definition_eng?: string | undefined;
   [key: string]: any;
 }>, wordTh: string): Promise<void> {
   // CRITICAL: wordTh is required - word_th_id must never be null
@@ -1687,15 +1543,11 @@ export async function saveSenses(senses: Array<{
     throw new Error('wordTh is required when saving senses - word_th_id must never be null');
   }
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Save senses started',data:{senseCount:senses.length,wordTh},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSenses', 'Save senses started', {senseCount:senses.length,wordTh});
   console.log(`[Save] Saving ${senses.length} senses to meanings_th table with wordTh="${wordTh}"`);
   
   if (!senses || senses.length === 0) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'No senses to save',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'No senses to save');
     return; // No senses to save, that's fine
   }
 
@@ -1710,15 +1562,11 @@ export async function saveSenses(senses: Array<{
       if (hasV3Fields) {
         // Validate with V3 schema
         validated = meaningThSchemaV3.strict().parse(sense);
-        // #region agent log - V3 SCHEMA VALIDATION
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'V3 SCHEMA VALIDATION PASSED',data:{index,senseId:validated.id?.toString(),hasLabelEng:!!validated.label_eng,hasPosTh:!!validated.pos_th,hasPosEng:!!validated.pos_eng,hasDefinitionEng:!!validated.definition_eng,isV3Complete:!!(validated.label_eng && validated.pos_th && validated.pos_eng && validated.definition_eng)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'V3 SCHEMA VALIDATION PASSED', {index,senseId:validated.id?.toString(),hasLabelEng:!!validated.label_eng,hasPosTh:!!validated.pos_th,hasPosEng:!!validated.pos_eng,hasDefinitionEng:!!validated.definition_eng,isV3Complete:!!(validated.label_eng && validated.pos_th && validated.pos_eng && validated.definition_eng)});
       } else if (hasV2Fields) {
         // Validate with V2 schema
         validated = meaningThSchemaV2.strict().parse(sense);
-        // #region agent log - V2 SCHEMA VALIDATION
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'V2 SCHEMA VALIDATION PASSED',data:{index,senseId:validated.id?.toString(),hasPosTh:!!validated.pos_th,hasPosEng:!!validated.pos_eng,hasDefinitionEng:!!validated.definition_eng,isV2Complete:!!(validated.pos_th && validated.pos_eng && validated.definition_eng)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V2_ENRICH'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'V2 SCHEMA VALIDATION PASSED', {index,senseId:validated.id?.toString(),hasPosTh:!!validated.pos_th,hasPosEng:!!validated.pos_eng,hasDefinitionEng:!!validated.definition_eng,isV2Complete:!!(validated.pos_th && validated.pos_eng && validated.definition_eng)});
       } else {
         // Validate with V1 schema
         validated = meaningThSchema.strict().parse(sense);
@@ -1726,11 +1574,9 @@ export async function saveSenses(senses: Array<{
       
       return validated;
     } catch (error) {
-      // #region agent log - SCHEMA VALIDATION ERROR
       const hasV3Fields = !!(sense.label_eng);
       const hasV2Fields = !!(sense.pos_th || sense.pos_eng || sense.definition_eng);
-      fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'SCHEMA VALIDATION FAILED',data:{index,senseId:sense.id?.toString(),hasV3Fields,hasV2Fields,errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'V3_ENRICH'})}).catch(()=>{});
-      // #endregion
+      recordEvent('supabase/index.ts:saveSenses', 'SCHEMA VALIDATION FAILED', {index,senseId:sense.id?.toString(),hasV3Fields,hasV2Fields,errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
       console.error(`[Save] Sense ${index} validation failed:`, error);
       throw error;
     }
@@ -1818,9 +1664,7 @@ export async function saveSenses(senses: Array<{
 
   // Check which meanings already exist in the database
   const meaningIds = meaningData.map(m => m.id);
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Checking for existing meanings',data:{meaningIdsCount:meaningIds.length,meaningIds:meaningIds.slice(0,5)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSenses', 'Checking for existing meanings', {meaningIdsCount:meaningIds.length,meaningIds:meaningIds.slice(0,5)});
   
   const { data: existingMeanings, error: checkError } = await supabase
     .from('meanings_th')
@@ -1828,9 +1672,7 @@ export async function saveSenses(senses: Array<{
     .in('id', meaningIds);
   
   if (checkError) {
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Error checking existing meanings',data:{errorMessage:checkError.message,errorCode:checkError.code},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'Error checking existing meanings', {errorMessage:checkError.message,errorCode:checkError.code}, 'warn');
     console.warn(`[Save] ⚠ Warning: Failed to check existing meanings: ${checkError.message}. Proceeding with upsert.`);
   }
   
@@ -1838,9 +1680,7 @@ export async function saveSenses(senses: Array<{
   const newMeanings = meaningData.filter(m => !existingIdSet.has(m.id));
   const existingCount = existingIdSet.size;
   
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Existence check complete',data:{totalMeanings:meaningData.length,existingCount,newCount:newMeanings.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSenses', 'Existence check complete', {totalMeanings:meaningData.length,existingCount,newCount:newMeanings.length});
   
   if (existingCount > 0) {
     console.log(`[Save] ⚡ ${existingCount} meanings already exist - will update them with upsert`);
@@ -1848,15 +1688,12 @@ export async function saveSenses(senses: Array<{
   
   // Use upsert to update existing meanings (e.g., when normalizing changes source from "orst" to "gpt-normalized")
   // This ensures that normalized senses update the source field even if they already exist
-  // #region agent log
   const sourcesToUpsert = meaningData.map(m => m.source).filter(Boolean);
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Upserting meanings to meanings_th (will update existing)',data:{totalMeanings:meaningData.length,existingCount,newCount:newMeanings.length,sourcesToUpsert:sourcesToUpsert.slice(0,5),firstMeaningSource:meaningData[0]?.source,firstMeaningId:meaningData[0]?.id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveSenses', 'Upserting meanings to meanings_th (will update existing)', {totalMeanings:meaningData.length,existingCount,newCount:newMeanings.length,sourcesToUpsert:sourcesToUpsert.slice(0,5),firstMeaningSource:meaningData[0]?.source,firstMeaningId:meaningData[0]?.id});
   
   try {
     // CRITICAL: Supabase upsert with select() may only return inserted rows, not updated ones
     // We need to explicitly request all rows to be returned, or fetch separately after upsert
-    // #region agent log
     const sampleMeaningData = meaningData.slice(0, 2).map(m => ({ 
       id: m.id, 
       idType: typeof m.id,
@@ -1864,24 +1701,19 @@ export async function saveSenses(senses: Array<{
       source: m.source, 
       definition_th: m.definition_th?.substring(0, 30) 
     }));
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'BEFORE upsert - Data being sent',data:{totalMeanings:meaningData.length,sampleData:sampleMeaningData,firstMeaningId:meaningData[0]?.id,firstMeaningIdType:typeof meaningData[0]?.id,firstMeaningSource:meaningData[0]?.source,onConflictTarget:'id'},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'BEFORE upsert - Data being sent', {totalMeanings:meaningData.length,sampleData:sampleMeaningData,firstMeaningId:meaningData[0]?.id,firstMeaningIdType:typeof meaningData[0]?.id,firstMeaningSource:meaningData[0]?.source,onConflictTarget:'id'});
     const { error: meaningsError, data: meaningsData } = await supabase
       .from('meanings_th')
       .upsert(meaningData, { onConflict: 'id' })
       .select('*');
     
-    // #region agent log
     const returnedData = meaningsData?.slice(0, 2).map(m => ({ id: m.id, source: m.source, definition_th: m.definition_th?.substring(0, 30) }));
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'AFTER upsert - Data returned',data:{hasError:!!meaningsError,errorMessage:meaningsError?.message,errorCode:meaningsError?.code,returnedCount:meaningsData?.length || 0,returnedData,firstReturnedId:meaningsData?.[0]?.id,firstReturnedSource:meaningsData?.[0]?.source},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'AFTER upsert - Data returned', {hasError:!!meaningsError,errorMessage:meaningsError?.message,errorCode:meaningsError?.code,returnedCount:meaningsData?.length || 0,returnedData,firstReturnedId:meaningsData?.[0]?.id,firstReturnedSource:meaningsData?.[0]?.source});
     
     if (meaningsError) {
       // If upsert fails due to missing constraint (42P10), fall back to manual update/insert
       if (meaningsError.code === '42P10' || meaningsError.message.includes('no unique or exclusion constraint')) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Upsert failed - falling back to manual update/insert',data:{errorMessage:meaningsError.message,errorCode:meaningsError.code,existingCount,newCount:newMeanings.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Upsert failed - falling back to manual update/insert', {errorMessage:meaningsError.message,errorCode:meaningsError.code,existingCount,newCount:newMeanings.length}, 'warn');
         console.warn(`[Save] ⚠ Upsert failed (missing constraint) - falling back to manual update/insert`);
         
         // Manual update for existing meanings
@@ -1916,9 +1748,7 @@ export async function saveSenses(senses: Array<{
             .insert(newMeanings);
           
           if (insertError) {
-            // #region agent log
-            fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Manual insert failed',data:{errorMessage:insertError.message,errorCode:insertError.code,newMeaningsCount:newMeanings.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-            // #endregion
+            recordEvent('supabase/index.ts:saveSenses', 'Manual insert failed', {errorMessage:insertError.message,errorCode:insertError.code,newMeaningsCount:newMeanings.length}, 'warn');
             console.error(`[Save] ✗ Failed to insert new meanings:`, insertError);
             throw new Error(`Failed to insert new meanings: ${insertError.message}`);
           }
@@ -1928,24 +1758,18 @@ export async function saveSenses(senses: Array<{
         // Skip the rest of the upsert success path since we handled it manually
         meaningsData = meaningData; // Set for post-save validation
       } else if (meaningsError.code === '23505' || meaningsError.message.includes('duplicate') || meaningsError.message.includes('unique')) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Duplicate key violation (meanings already exist)',data:{errorMessage:meaningsError.message,errorCode:meaningsError.code,newMeaningsCount:newMeanings.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Duplicate key violation (meanings already exist)', {errorMessage:meaningsError.message,errorCode:meaningsError.code,newMeaningsCount:newMeanings.length}, 'warn');
         console.warn(`[Save] ⚠ Duplicate key violation - meanings already exist. This is expected if meanings were inserted between check and insert. Skipping.`);
         return; // Don't throw - meanings already exist, which is fine
       } else {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Meanings upsert failed',data:{errorMessage:meaningsError.message,errorCode:meaningsError.code,newMeaningsCount:newMeanings.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Meanings upsert failed', {errorMessage:meaningsError.message,errorCode:meaningsError.code,newMeaningsCount:newMeanings.length}, 'warn');
         console.error(`[Save] ✗ Failed to save meanings:`, meaningsError);
         throw new Error(`Failed to save meanings: ${meaningsError.message}`);
       }
     }
     
-    // #region agent log
     const returnedSources = meaningsData?.map(m => m.source).filter(Boolean) || [];
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Save senses complete',data:{savedMeaningsCount:meaningsData?.length || meaningData.length,totalMeanings:meaningData.length,updatedCount:existingCount,insertedCount:newMeanings.length,returnedSources:returnedSources.slice(0,5),firstReturnedSource:meaningsData?.[0]?.source},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'Save senses complete', {savedMeaningsCount:meaningsData?.length || meaningData.length,totalMeanings:meaningData.length,updatedCount:existingCount,insertedCount:newMeanings.length,returnedSources:returnedSources.slice(0,5),firstReturnedSource:meaningsData?.[0]?.source});
     console.log(`[Save] ✓ Successfully upserted ${meaningsData?.length || meaningData.length} meanings to meanings_th table (${newMeanings.length} inserted, ${existingCount} updated)`);
     
     // CRITICAL: Verify database was actually updated by fetching immediately after upsert
@@ -1953,11 +1777,9 @@ export async function saveSenses(senses: Array<{
     // So we need to fetch separately to verify the update worked
     if (wordTh && meaningData.length > 0 && existingCount > 0) {
       try {
-        // #region agent log
         const expectedSources = meaningData.map(m => m.source).filter(Boolean);
         const updatedIds = Array.from(existingIdSet);
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-upsert verification: Fetching meanings to verify update',data:{wordTh,totalMeanings:meaningData.length,existingCount,expectedSources:expectedSources.slice(0,5),firstExpectedId:meaningData[0]?.id,firstExpectedSource:expectedSources[0],updatedIdsCount:updatedIds.length,firstUpdatedId:updatedIds[0]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-upsert verification: Fetching meanings to verify update', {wordTh,totalMeanings:meaningData.length,existingCount,expectedSources:expectedSources.slice(0,5),firstExpectedId:meaningData[0]?.id,firstExpectedSource:expectedSources[0],updatedIdsCount:updatedIds.length,firstUpdatedId:updatedIds[0]});
         
         // Small delay to ensure database write is complete
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -1980,9 +1802,7 @@ export async function saveSenses(senses: Array<{
           return expected && fetched && fetched.source === expected.source;
         });
         
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-upsert verification: Source field check',data:{wordTh,fetchedCount:fetchedMeanings.length,expectedSources:expectedSources.slice(0,5),fetchedSources:fetchedSources.slice(0,5),sourcesMatch,updatedIdsCount:updatedIds.length,firstExpectedSource:expectedSources[0],firstFetchedSource:fetchedSources[0],firstUpdatedId:updatedIds[0]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-upsert verification: Source field check', {wordTh,fetchedCount:fetchedMeanings.length,expectedSources:expectedSources.slice(0,5),fetchedSources:fetchedSources.slice(0,5),sourcesMatch,updatedIdsCount:updatedIds.length,firstExpectedSource:expectedSources[0],firstFetchedSource:fetchedSources[0],firstUpdatedId:updatedIds[0]});
         
         if (!sourcesMatch) {
           console.error(`[Save] ✗ CRITICAL: Upsert did not update source fields in database! Expected: ${expectedSources.slice(0,3).join(', ')}, Got: ${fetchedSources.slice(0,3).join(', ')}`);
@@ -1990,9 +1810,7 @@ export async function saveSenses(senses: Array<{
           console.log(`[Save] ✓ Post-upsert verification: Source fields updated correctly in database`);
         }
       } catch (verificationError) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-upsert verification error',data:{wordTh,errorMessage:verificationError instanceof Error ? verificationError.message : String(verificationError)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'UPSERT_UPDATE'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-upsert verification error', {wordTh,errorMessage:verificationError instanceof Error ? verificationError.message : String(verificationError)}, 'warn');
         console.warn(`[Save] ⚠ Post-upsert verification failed for "${wordTh}":`, verificationError);
       }
     }
@@ -2001,9 +1819,7 @@ export async function saveSenses(senses: Array<{
     // Check all meanings (both new and updated) since upsert updates existing ones
     if (wordTh && meaningData.length > 0) {
       try {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-save validation: Fetching meanings back',data:{wordTh,totalMeanings:meaningData.length,expectedSources:meaningData.map(m=>m.source).filter(Boolean).slice(0,5)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-save validation: Fetching meanings back', {wordTh,totalMeanings:meaningData.length,expectedSources:meaningData.map(m=>m.source).filter(Boolean).slice(0,5)});
         
         const fetchedMeanings = await fetchSenses(wordTh);
         const fetchedSources = fetchedMeanings.map(m => m.source).filter(Boolean);
@@ -2015,9 +1831,7 @@ export async function saveSenses(senses: Array<{
           return fetched && fetched.source === meaning.source;
         });
         
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-save validation: Source field check',data:{wordTh,fetchedCount:fetchedMeanings.length,expectedSources:expectedSources.slice(0,5),fetchedSources:fetchedSources.slice(0,5),sourcesMatch,firstExpectedSource:expectedSources[0],firstFetchedSource:fetchedSources[0]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-save validation: Source field check', {wordTh,fetchedCount:fetchedMeanings.length,expectedSources:expectedSources.slice(0,5),fetchedSources:fetchedSources.slice(0,5),sourcesMatch,firstExpectedSource:expectedSources[0],firstFetchedSource:fetchedSources[0]});
         
         if (!sourcesMatch) {
           console.warn(`[Save] ⚠ Post-save validation: Source fields don't match expected values after upsert. Expected: ${expectedSources.slice(0,3).join(', ')}, Got: ${fetchedSources.slice(0,3).join(', ')}`);
@@ -2030,29 +1844,21 @@ export async function saveSenses(senses: Array<{
         const missingIds = meaningData.filter(m => !fetchedIds.has(m.id.toString())).map(m => m.id);
         
         if (missingIds.length > 0) {
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-save validation WARNING: Some meanings not found after save',data:{wordTh,savedCount:meaningData.length,fetchedCount:fetchedMeanings.length,missingCount:missingIds.length,missingIds:missingIds.slice(0,5)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-          // #endregion
+          recordEvent('supabase/index.ts:saveSenses', 'Post-save validation WARNING: Some meanings not found after save', {wordTh,savedCount:meaningData.length,fetchedCount:fetchedMeanings.length,missingCount:missingIds.length,missingIds:missingIds.slice(0,5)});
           console.warn(`[Save] ⚠ Post-save validation: ${missingIds.length} of ${meaningData.length} saved meanings not found when fetching for "${wordTh}". This may indicate an ID generation mismatch.`);
         } else {
-          // #region agent log
-          fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-save validation PASSED: All meanings found after save',data:{wordTh,savedCount:meaningData.length,fetchedCount:fetchedMeanings.length,sourcesMatch},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-          // #endregion
+          recordEvent('supabase/index.ts:saveSenses', 'Post-save validation PASSED: All meanings found after save', {wordTh,savedCount:meaningData.length,fetchedCount:fetchedMeanings.length,sourcesMatch});
           console.log(`[Save] ✓ Post-save validation passed: All ${meaningData.length} meanings found when fetching for "${wordTh}"`);
         }
       } catch (validationError) {
-        // #region agent log
-        fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Post-save validation error',data:{wordTh,errorMessage:validationError instanceof Error ? validationError.message : String(validationError)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-        // #endregion
+        recordEvent('supabase/index.ts:saveSenses', 'Post-save validation error', {wordTh,errorMessage:validationError instanceof Error ? validationError.message : String(validationError)}, 'warn');
         console.warn(`[Save] ⚠ Post-save validation failed for "${wordTh}":`, validationError);
         // Don't throw - validation failure doesn't mean save failed, just log warning
       }
     }
   } catch (error) {
     // Handle any unexpected errors
-    // #region agent log
-    fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveSenses',message:'Unexpected error during upsert',data:{errorMessage:error instanceof Error ? error.message : String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-    // #endregion
+    recordEvent('supabase/index.ts:saveSenses', 'Unexpected error during upsert', {errorMessage:error instanceof Error ? error.message : String(error)}, 'warn');
     throw error;
   }
 }
@@ -2064,9 +1870,9 @@ export interface WordDataToSave {
   senses: Array<{
     id: bigint; // Matches meaningThSchema.id
     definition_th: string; // Matches meaningThSchema.definition_th
-    source?: string; // Matches meaningThSchema.source
-    created_at?: string; // Matches meaningThSchema.created_at
-    word_th_id?: string; // Matches meaningThSchema.word_th_id (Thai word string)
+    source?: string | undefined; // Matches meaningThSchema.source
+    created_at?: string | undefined; // Matches meaningThSchema.created_at
+    word_th_id?: string | undefined; // Matches meaningThSchema.word_th_id (Thai word string)
     [key: string]: any;
   }>;
   g2p?: string; // Matches wordThSchema.g2p
@@ -2083,9 +1889,7 @@ export interface WordDataToSave {
  * Both are validated with their respective Zod schemas before saving.
  */
 export async function saveWordData(wordData: WordDataToSave): Promise<void> {
-  // #region agent log
-  fetch('http://127.0.0.1:7243/ingest/ff5c1228-ebe7-472a-94e0-c5e01b8b7ee3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'supabase/index.ts:saveWordData',message:'Save word data started',data:{wordTh:wordData.word_th,hasG2P:!!wordData.g2p,hasPhonetic:!!wordData.phonetic_en,senseCount:wordData.senses?.length || 0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'H6'})}).catch(()=>{});
-  // #endregion
+  recordEvent('supabase/index.ts:saveWordData', 'Save word data started', {wordTh:wordData.word_th,hasG2P:!!wordData.g2p,hasPhonetic:!!wordData.phonetic_en,senseCount:wordData.senses?.length || 0});
   console.log(`[Save] Saving word "${wordData.word_th}" to Supabase`);
   
   // Use Zod schema field names consistently
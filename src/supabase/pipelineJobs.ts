@@ -0,0 +1,209 @@
+/**
+ * Pipeline Job Persistence
+ *
+ * Database operations for pipeline_jobs (the worker queue)
+ * Table and claim_pipeline_job function created by: scripts/create-pipeline-jobs-table.sql
+ *
+ * 📋 Validates against: src/schemas/pipelineJobSchema.ts
+ *
+ * Updates of a claimed job are fenced by lease_owner: a worker whose lease expired (and whose job was
+ * claimed by another worker) can no longer complete, fail or extend it - those calls return false
+ */
+
+import { supabase } from './index';
+import {
+  buildPipelineJob,
+  pipelineJobSchema,
+  type PipelineJob,
+  type PipelineJobRequest,
+  type PipelineJobStatus,
+} from '../schemas/pipelineJobSchema';
+import { toJsonSafe } from '../utils/jsonSafe';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Enqueue a job
+ * If a queued or running job with the same dedupe_key exists, that job is returned instead
+ * @returns The queued job and whether it was created by this call
+ */
+export async function enqueuePipelineJob(request: PipelineJobRequest): Promise<{ job: PipelineJob; created: boolean }> {
+  const job = buildPipelineJob(request);
+
+  const { error } = await supabase.from('pipeline_jobs').insert(job);
+  if (!error) {
+    return { job, created: true };
+  }
+
+  if (error.code === UNIQUE_VIOLATION && job.dedupe_key) {
+    const existing = await fetchActivePipelineJob(job.dedupe_key);
+    if (existing) {
+      return { job: existing, created: false };
+    }
+  }
+  console.error('[Pipeline Jobs] ✗ Failed to enqueue job:', error);
+  throw new Error(`Failed to enqueue ${job.kind} job: ${error.message}`);
+}
+
+/**
+ * Fetch the queued or running job holding a dedupe_key
+ */
+export async function fetchActivePipelineJob(dedupeKey: string): Promise<PipelineJob | null> {
+  const { data, error } = await supabase
+    .from('pipeline_jobs')
+    .select('*')
+    .eq('dedupe_key', dedupeKey)
+    .in('status', ['queued', 'running'])
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch job ${dedupeKey}: ${error.message}`);
+  }
+
+  const row = data && data.length > 0 ? data[0] : null;
+  return row ? pipelineJobSchema.parse(row) : null;
+}
+
+/**
+ * Fetch jobs, most recent first
+ * @param filter.status - Only jobs with this status
+ * @param filter.kind - Only jobs of this kind
+ */
+export async function fetchPipelineJobs(filter: { status?: PipelineJobStatus; kind?: string; limit?: number } = {}): Promise<PipelineJob[]> {
+  let query = supabase.from('pipeline_jobs').select('*');
+  if (filter.status) {
+    query = query.eq('status', filter.status);
+  }
+  if (filter.kind) {
+    query = query.eq('kind', filter.kind);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(filter.limit ?? 50);
+
+  if (error) {
+    throw new Error(`Failed to fetch jobs: ${error.message}`);
+  }
+
+  return (data || []).map(row => pipelineJobSchema.parse(row));
+}
+
+/**
+ * Atomically claim the next due job (claim_pipeline_job RPC)
+ * @param workerId - Lease owner recorded on the job
+ * @param leaseMs - Lease duration - extend it with extendPipelineJobLease while the job runs
+ * @param kinds - Only claim jobs of these kinds (default: any kind)
+ * @returns The claimed job (status "running", attempts incremented) or null when nothing is due
+ */
+export async function claimPipelineJob(workerId: string, leaseMs: number, kinds?: string[]): Promise<PipelineJob | null> {
+  const { data, error } = await supabase.rpc('claim_pipeline_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: Math.max(1, Math.ceil(leaseMs / 1000)),
+    p_kinds: kinds && kinds.length > 0 ? kinds : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  const rows = Array.isArray(data) ? data : (data ? [data] : []);
+  return rows.length > 0 ? pipelineJobSchema.parse(rows[0]) : null;
+}
+
+/**
+ * Update a running job the worker still holds
+ * @returns false when the lease was lost (job reclaimed by another worker or no longer running)
+ */
+async function updateLeasedJob(jobId: string, workerId: string, fields: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('pipeline_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('lease_owner', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Extend the lease of a running job (heartbeat)
+ */
+export async function extendPipelineJobLease(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+  return updateLeasedJob(jobId, workerId, {
+    lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+  });
+}
+
+/**
+ * Mark a running job completed
+ */
+export async function completePipelineJob(jobId: string, workerId: string, result: Record<string, unknown> = {}): Promise<boolean> {
+  return updateLeasedJob(jobId, workerId, {
+    status: 'completed',
+    result: toJsonSafe(result),
+    last_error: null,
+    lease_owner: null,
+    lease_expires_at: null,
+  });
+}
+
+/**
+ * Return a failed job to the queue, due again at runAfter
+ */
+export async function retryPipelineJob(jobId: string, workerId: string, errorMessage: string, runAfter: Date): Promise<boolean> {
+  return updateLeasedJob(jobId, workerId, {
+    status: 'queued',
+    last_error: errorMessage,
+    run_after: runAfter.toISOString(),
+    lease_owner: null,
+    lease_expires_at: null,
+  });
+}
+
+/**
+ * Mark a running job permanently failed
+ */
+export async function failPipelineJob(jobId: string, workerId: string, errorMessage: string): Promise<boolean> {
+  return updateLeasedJob(jobId, workerId, {
+    status: 'failed',
+    last_error: errorMessage,
+    lease_owner: null,
+    lease_expires_at: null,
+  });
+}
+
+/**
+ * Return a running job to the queue without consuming its attempt (worker shutting down)
+ */
+export async function releasePipelineJob(job: PipelineJob, workerId: string): Promise<boolean> {
+  return updateLeasedJob(job.id, workerId, {
+    status: 'queued',
+    attempts: Math.max(0, job.attempts - 1),
+    run_after: new Date().toISOString(),
+    lease_owner: null,
+    lease_expires_at: null,
+  });
+}
+
+/**
+ * Cancel a job that has not been claimed yet
+ * @returns false when the job is not queued (already running or finished)
+ */
+export async function cancelPipelineJob(jobId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('pipeline_jobs')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel job ${jobId}: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
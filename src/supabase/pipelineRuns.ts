@@ -0,0 +1,154 @@
+/**
+ * Pipeline Run Persistence
+ *
+ * Database operations for pipeline_runs and pipeline_run_checkpoints
+ * Tables created by: scripts/create-pipeline-runs-table.sql
+ *
+ * 📋 Validates against: src/schemas/pipelineRunSchema.ts
+ *
+ * ⚠️ DATA INTEGRITY: Direct database queries - no caching, always fresh from Supabase
+ */
+
+import { supabase } from './index';
+import {
+  pipelineRunSchema,
+  pipelineCheckpointSchema,
+  type PipelineRun,
+  type PipelineRunStatus,
+  type PipelineCheckpoint,
+} from '../schemas/pipelineRunSchema';
+import { toJsonSafe } from '../utils/jsonSafe';
+
+/**
+ * Create a new pipeline run
+ * @param mediaId - Episode mediaId the run processes
+ * @param workflowName - ProcessingOrder.name of the workflow being executed
+ */
+export async function createPipelineRun(mediaId: string, workflowName: string): Promise<PipelineRun> {
+  const now = new Date().toISOString();
+  const run = pipelineRunSchema.parse({
+    id: crypto.randomUUID(),
+    media_id: mediaId,
+    workflow_name: workflowName,
+    status: 'running',
+    created_at: now,
+    updated_at: now,
+  });
+
+  const { error } = await supabase.from('pipeline_runs').insert(run);
+  if (error) {
+    console.error('[Pipeline Runs] ✗ Failed to create run:', error);
+    throw new Error(`Failed to create pipeline run: ${error.message}`);
+  }
+
+  return run;
+}
+
+/**
+ * Fetch a pipeline run by id
+ * @returns Validated run or null if not found
+ */
+export async function fetchPipelineRun(runId: string): Promise<PipelineRun | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('*')
+    .eq('id', runId)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch pipeline run ${runId}: ${error.message}`);
+  }
+
+  const row = data && data.length > 0 ? data[0] : null;
+  return row ? pipelineRunSchema.parse(row) : null;
+}
+
+/**
+ * Fetch the most recent pipeline run for an episode
+ * @param status - Optional status filter (e.g. 'failed' or 'running' to find resumable runs)
+ */
+export async function fetchLatestPipelineRun(mediaId: string, status?: PipelineRunStatus): Promise<PipelineRun | null> {
+  let query = supabase
+    .from('pipeline_runs')
+    .select('*')
+    .eq('media_id', mediaId);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch latest pipeline run for ${mediaId}: ${error.message}`);
+  }
+
+  const row = data && data.length > 0 ? data[0] : null;
+  return row ? pipelineRunSchema.parse(row) : null;
+}
+
+/**
+ * Update a pipeline run's status (and error message when failing)
+ */
+export async function updatePipelineRunStatus(runId: string, status: PipelineRunStatus, errorMessage?: string): Promise<void> {
+  const { error } = await supabase
+    .from('pipeline_runs')
+    .update({
+      status,
+      error: errorMessage ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+
+  if (error) {
+    throw new Error(`Failed to update pipeline run ${runId}: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch all checkpoints of a run
+ * Context snapshots are re-validated with pipelineContextSchema (bigint ids restored)
+ */
+export async function fetchPipelineCheckpoints(runId: string): Promise<PipelineCheckpoint[]> {
+  const { data, error } = await supabase
+    .from('pipeline_run_checkpoints')
+    .select('*')
+    .eq('run_id', runId);
+
+  if (error) {
+    throw new Error(`Failed to fetch checkpoints for run ${runId}: ${error.message}`);
+  }
+
+  const checkpoints: PipelineCheckpoint[] = [];
+  for (const row of data || []) {
+    const validation = pipelineCheckpointSchema.safeParse(row);
+    if (validation.success) {
+      checkpoints.push(validation.data);
+    } else {
+      // Invalid checkpoint is treated as missing - the subject is simply reprocessed
+      console.warn(`[Pipeline Runs] Ignoring invalid checkpoint ${row?.subject_key}:`, validation.error.errors);
+    }
+  }
+  return checkpoints;
+}
+
+/**
+ * Insert or update a checkpoint (one row per run + subject)
+ */
+export async function savePipelineCheckpoint(checkpoint: PipelineCheckpoint): Promise<void> {
+  const validated = pipelineCheckpointSchema.parse(checkpoint);
+
+  const { error } = await supabase
+    .from('pipeline_run_checkpoints')
+    .upsert({
+      ...validated,
+      context: validated.context ? toJsonSafe(validated.context) : null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'run_id,subject_key' });
+
+  if (error) {
+    throw new Error(`Failed to save checkpoint ${validated.subject_key}: ${error.message}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, integer, jsonb, timestamp, primaryKey, numeric, bigint, unique } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, jsonb, timestamp, primaryKey, numeric, bigint, unique, boolean } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 /**
@@ -66,6 +66,22 @@ export const subtitleTh = pgTable('subtitles_th', {
   tokens_th: jsonb('tokens_th'), // Maps to subtitleThSchema.tokens_th (optional)
 });
 
+/**
+ * Subtitle English Table
+ *
+ * 📋 SOURCE OF TRUTH: src/schemas/subtitleEnSchema.ts
+ *
+ * Official English track of an episode with its own cue timing - paired with subtitles_th by time overlap
+ * (src/services/alignment/subtitleAlignment.ts)
+ */
+export const subtitleEn = pgTable('subtitles_en', {
+  id: text('id').primaryKey(), // `${mediaId}_${index}`
+  media_id: text('media_id').notNull(), // Episode the track belongs to
+  english: text('english').notNull(), // Maps to subtitleEnSchema.english (required)
+  start_sec_eng: numeric('start_sec_eng').notNull(), // Maps to subtitleEnSchema.start_sec_eng (required)
+  end_sec_eng: numeric('end_sec_eng').notNull(), // Maps to subtitleEnSchema.end_sec_eng (required, validated > start_sec_eng)
+});
+
 /**
  * Words Table
  * 
@@ -221,3 +237,106 @@ export const phoneticG2PEvidence = pgTable('phonetic_g2p_evidence', {
 }, (table) => ({
   uniqueG2pCodeWordId: unique().on(table.g2p_code, table.word_id),
 }));
+
+/**
+ * Pipeline Runs Table
+ * 
+ * 📋 SOURCE OF TRUTH: src/schemas/pipelineRunSchema.ts
+ * 
+ * One row per processing run of an episode through a workflow
+ * - status: 'running' | 'completed' | 'failed' | 'cancelled'
+ * - error: Message of the error that stopped the run (nullable)
+ */
+export const pipelineRuns = pgTable('pipeline_runs', {
+  id: text('id').primaryKey(), // uuid - generated client-side
+  media_id: text('media_id').notNull(), // Episode mediaId the run processes
+  workflow_name: text('workflow_name').notNull(), // ProcessingOrder.name
+  status: text('status').notNull(), // Maps to pipelineRunSchema.status
+  error: text('error'), // Maps to pipelineRunSchema.error (optional)
+  created_at: timestamp('created_at'),
+  updated_at: timestamp('updated_at'),
+});
+
+/**
+ * Pipeline Run Checkpoints Table
+ * 
+ * 📋 SOURCE OF TRUTH: src/schemas/pipelineRunSchema.ts
+ * 
+ * One row per run subject ("subtitle:<id>" or "word:<word_th>") with per-step status
+ * and the last validated PipelineContext snapshot (bigints serialized as strings)
+ */
+export const pipelineRunCheckpoints = pgTable('pipeline_run_checkpoints', {
+  run_id: text('run_id').notNull().references(() => pipelineRuns.id, { onDelete: 'cascade' }),
+  subject_key: text('subject_key').notNull(), // "subtitle:<id>" or "word:<word_th>"
+  status: text('status').notNull(), // Maps to pipelineCheckpointSchema.status
+  step_results: jsonb('step_results'), // Maps to pipelineCheckpointSchema.step_results
+  context: jsonb('context'), // Maps to pipelineCheckpointSchema.context (PipelineContext snapshot)
+  updated_at: timestamp('updated_at'),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.run_id, table.subject_key] }),
+}));
+
+/**
+ * Step Cache Table
+ * 
+ * 📋 SOURCE OF TRUTH: src/schemas/stepCacheSchema.ts
+ * 
+ * Content-addressed cache of step outputs - cache_key is "<functionName>@v<version>:<inputHash>"
+ * - patch: PipelineContext fields the step produced (bigints serialized as strings)
+ */
+export const stepCache = pgTable('step_cache', {
+  cache_key: text('cache_key').primaryKey(),
+  function_name: text('function_name').notNull(), // StepDefinition.functionName
+  step_version: integer('step_version').notNull(), // StepDefinition.version
+  input_hash: text('input_hash').notNull(), // SHA-256 of the step's declared inputs
+  output: jsonb('output'), // Raw step output (reported in StepResult)
+  patch: jsonb('patch').notNull(), // Context patch applied by the engine
+  created_at: timestamp('created_at'),
+});
+
+/**
+ * API Usage Table
+ * 
+ * 📋 SOURCE OF TRUTH: src/schemas/apiUsageSchema.ts
+ * 
+ * One row per external API call - summed per run_id / media_id to enforce usage budgets
+ */
+export const apiUsage = pgTable('api_usage', {
+  id: text('id').primaryKey(), // uuid - generated client-side
+  run_id: text('run_id').references(() => pipelineRuns.id, { onDelete: 'set null' }), // Pipeline run that made the call (nullable)
+  media_id: text('media_id'), // Episode the call was made for (nullable)
+  service: text('service').notNull(), // Maps to usageRecordSchema.service
+  operation: text('operation').notNull(), // Calling function
+  model: text('model'), // OpenAI model (nullable)
+  tokens_in: integer('tokens_in').notNull().default(0),
+  tokens_out: integer('tokens_out').notNull().default(0),
+  latency_ms: integer('latency_ms').notNull().default(0),
+  success: boolean('success').notNull().default(true),
+  created_at: timestamp('created_at'),
+});
+
+/**
+ * Pipeline Jobs Table
+ * 
+ * 📋 SOURCE OF TRUTH: src/schemas/pipelineJobSchema.ts
+ * 
+ * Work queue for pipeline workers - claimed atomically by the claim_pipeline_job function
+ * (scripts/create-pipeline-jobs-table.sql), which also defines the unique partial index on dedupe_key
+ */
+export const pipelineJobs = pgTable('pipeline_jobs', {
+  id: text('id').primaryKey(), // uuid - generated client-side
+  kind: text('kind').notNull(), // Job handler name, e.g. "process_episode"
+  payload: jsonb('payload').notNull(), // Validated by the job handler's payloadSchema
+  status: text('status').notNull(), // Maps to pipelineJobSchema.status
+  priority: integer('priority').notNull().default(0), // Higher runs first
+  attempts: integer('attempts').notNull().default(0), // Claims so far
+  max_attempts: integer('max_attempts').notNull().default(3),
+  run_after: timestamp('run_after').notNull(), // Earliest claim time (retry backoff)
+  lease_owner: text('lease_owner'), // Worker holding the job (nullable)
+  lease_expires_at: timestamp('lease_expires_at'), // Lease expiry (nullable)
+  dedupe_key: text('dedupe_key'), // At most one queued/running job per key (nullable)
+  last_error: text('last_error'), // Error of the last failed attempt (nullable)
+  result: jsonb('result'), // Handler result once completed (nullable)
+  created_at: timestamp('created_at'),
+  updated_at: timestamp('updated_at'),
+});
@@ -0,0 +1,60 @@
+/**
+ * Step Cache Persistence
+ *
+ * Database operations for step_cache
+ * Table created by: scripts/create-step-cache-table.sql
+ *
+ * 📋 Validates against: src/schemas/stepCacheSchema.ts
+ */
+
+import { supabase } from './index';
+import { stepCacheEntrySchema, type StepCacheEntry } from '../schemas/stepCacheSchema';
+import { toJsonSafe } from '../utils/jsonSafe';
+
+/**
+ * Fetch a cache entry by key
+ * @returns Validated entry, or null if missing or invalid (an invalid entry is treated as a miss)
+ */
+export async function fetchStepCacheEntry(cacheKey: string): Promise<StepCacheEntry | null> {
+  const { data, error } = await supabase
+    .from('step_cache')
+    .select('*')
+    .eq('cache_key', cacheKey)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch step cache entry ${cacheKey}: ${error.message}`);
+  }
+
+  const row = data && data.length > 0 ? data[0] : null;
+  if (!row) {
+    return null;
+  }
+
+  const validation = stepCacheEntrySchema.safeParse(row);
+  if (!validation.success) {
+    console.warn(`[Step Cache] Ignoring invalid cache entry ${cacheKey}:`, validation.error.errors);
+    return null;
+  }
+  return validation.data;
+}
+
+/**
+ * Insert or replace a cache entry
+ */
+export async function saveStepCacheEntry(entry: StepCacheEntry): Promise<void> {
+  const validated = stepCacheEntrySchema.parse(entry);
+
+  const { error } = await supabase
+    .from('step_cache')
+    .upsert({
+      ...validated,
+      output: toJsonSafe(validated.output) ?? null,
+      patch: toJsonSafe(validated.patch),
+      created_at: validated.created_at ?? new Date().toISOString(),
+    }, { onConflict: 'cache_key' });
+
+  if (error) {
+    throw new Error(`Failed to save step cache entry ${validated.cache_key}: ${error.message}`);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * English Subtitle Persistence
+ *
+ * Database operations for subtitles_en (the official English track of an episode)
+ * Table created by: scripts/create-subtitles-en-table.sql
+ *
+ * 📋 Validates against: src/schemas/subtitleEnSchema.ts
+ */
+
+import { supabase } from './index';
+import { subtitleEnSchema, type SubtitleEn } from '../schemas/subtitleEnSchema';
+
+/**
+ * Fetch the English track of an episode in start time order
+ * @returns Validated subtitles - empty when the episode has no English track
+ */
+export async function fetchEnglishSubtitles(mediaId: string): Promise<SubtitleEn[]> {
+  const { data, error } = await supabase
+    .from('subtitles_en')
+    .select('*')
+    .eq('media_id', mediaId)
+    .order('start_sec_eng', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch English subtitles for ${mediaId}: ${error.message}`);
+  }
+
+  return (data ?? []).map(row => subtitleEnSchema.parse(row));
+}
+
+/**
+ * Replace the English track of an episode
+ * Upserts the new rows, then deletes rows of the previous track that are not in it - a re-extracted track can have fewer cues
+ * @throws {Error} If a subtitle is invalid or belongs to another episode
+ */
+export async function replaceEnglishSubtitles(mediaId: string, subtitles: SubtitleEn[]): Promise<void> {
+  const validated = subtitles.map(subtitle => subtitleEnSchema.parse(subtitle));
+  const foreign = validated.find(subtitle => subtitle.media_id !== mediaId);
+  if (foreign) {
+    throw new Error(`English subtitle ${foreign.id} belongs to ${foreign.media_id}, not ${mediaId}`);
+  }
+
+  if (validated.length > 0) {
+    const { error } = await supabase
+      .from('subtitles_en')
+      .upsert(validated, { onConflict: 'id' });
+
+    if (error) {
+      throw new Error(`Failed to save English subtitles for ${mediaId}: ${error.message}`);
+    }
+  }
+
+  // Remove cues of the previous track only after the new one is stored - a failed upsert leaves the old track intact
+  let staleQuery = supabase
+    .from('subtitles_en')
+    .delete()
+    .eq('media_id', mediaId);
+  if (validated.length > 0) {
+    staleQuery = staleQuery.not('id', 'in', `(${validated.map(subtitle => `"${subtitle.id}"`).join(',')})`);
+  }
+  const { error: deleteError } = await staleQuery;
+
+  if (deleteError) {
+    throw new Error(`Failed to clear English subtitles for ${mediaId}: ${deleteError.message}`);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * AbortSignal Utilities
+ * Shared cancellation helpers for the processing pipeline and the services it calls
+ *
+ * Cancellation surfaces as an error named "AbortError" (what fetch() throws for an aborted signal).
+ * Services must rethrow it as-is - never swallow it, retry it or classify it as a network error
+ */
+
+/**
+ * Whether an error represents cancellation (fetch abort, signal.reason, or createAbortError)
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Create the error thrown when an operation is cancelled
+ */
+export function createAbortError(message = 'The operation was aborted'): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Error describing why a signal aborted - signal.reason when it is an abort error, otherwise a new AbortError
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  return isAbortError(signal.reason) ? signal.reason : createAbortError();
+}
+
+/**
+ * Throw if the signal has been aborted (no-op without a signal)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Sleep that rejects with an AbortError as soon as the signal aborts
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal ? getAbortError(signal) : createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
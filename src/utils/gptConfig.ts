@@ -3,6 +3,11 @@
  * Shared utilities for all GPT API calls
  */
 
+import { ServiceError, serviceErrorFromResponse, toNetworkError } from '../services/serviceErrors';
+import { reportUsage, extractOpenAIUsage } from '../services/usage/usageLedger';
+import { acquireRateLimit } from '../services/rateLimit/rateLimiter';
+import { httpFetch } from '../services/http/httpTransport';
+
 /**
  * Get OpenAI API key from various sources
  * @returns API key or empty string if not found
@@ -64,28 +69,37 @@ export async function testGPTConnection(): Promise<string> {
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'user', content: 'Give me a random inspiring quote.' }
-        ],
-        temperature: 0.7,
-        max_tokens: 150
-      })
-    });
+    const releaseRateLimit = await acquireRateLimit('openai');
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: 'gpt-4o',
+          messages: [
+            { role: 'user', content: 'Give me a random inspiring quote.' }
+          ],
+          temperature: 0.7,
+          max_tokens: 150
+        })
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'testGPTConnection', model: 'gpt-4o', latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
       throw new Error(`GPT API error ${response.status}: ${errorText}`);
     }
 
     const data = await response.json();
+    reportUsage({ service: 'openai', operation: 'testGPTConnection', model: 'gpt-4o', ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     const quote = data.choices?.[0]?.message?.content?.trim() || '';
 
     return quote;
@@ -104,12 +118,14 @@ export interface CallGPTAPIOptions {
   maxTokens?: number; // Deprecated, use maxCompletionTokens
   maxCompletionTokens?: number;
   responseFormat?: { type: 'json_object' | 'text' };
+  signal?: AbortSignal; // Cancels the in-flight request (rejects with an AbortError)
 }
 
 /**
  * Generic GPT API call utility
  * @param options - API call options
  * @returns API response object
+ * @throws {ServiceError} On missing API key/parameters (validation), HTTP errors (classified by status) or network failures
  */
 export async function callGPTAPI(options: CallGPTAPIOptions): Promise<any> {
   console.log('[GPT Config] callGPTAPI called', { model: options.model, messageCount: options.messages?.length });
@@ -118,7 +134,7 @@ export async function callGPTAPI(options: CallGPTAPIOptions): Promise<any> {
 
   if (!apiKey) {
     console.error('[GPT Config] API key not found');
-    throw new Error('OpenAI API key not found. Set VITE_OPENAI_API_KEY in .env or localStorage.smartSubs_openaiApiKey');
+    throw new ServiceError('openai', 'validation', 'OpenAI API key not found. Set VITE_OPENAI_API_KEY in .env or localStorage.smartSubs_openaiApiKey');
   }
 
   console.log('[GPT Config] API key found', { keyLength: apiKey.length, keyPrefix: apiKey.substring(0, 7) + '...' });
@@ -129,12 +145,13 @@ export async function callGPTAPI(options: CallGPTAPIOptions): Promise<any> {
     temperature = 0.7,
     maxTokens,
     maxCompletionTokens,
-    responseFormat
+    responseFormat,
+    signal
   } = options;
 
   if (!model || !messages) {
     console.error('[GPT Config] Missing required parameters', { model, hasMessages: !!messages });
-    throw new Error('Model and messages are required');
+    throw new ServiceError('openai', 'validation', 'Model and messages are required');
   }
 
   try {
@@ -163,24 +180,40 @@ export async function callGPTAPI(options: CallGPTAPIOptions): Promise<any> {
       maxCompletionTokens: body.max_completion_tokens || body.max_tokens 
     });
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
+    const releaseRateLimit = await acquireRateLimit('openai', signal);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await httpFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body),
+        ...(signal ? { signal } : {})
+      });
+    } finally {
+      releaseRateLimit();
+    }
 
     console.log('[GPT Config] API response status', { status: response.status, ok: response.ok });
 
     if (!response.ok) {
+      reportUsage({ service: 'openai', operation: 'callGPTAPI', model, latencyMs: Date.now() - startedAt, success: false });
       const errorText = await response.text();
       console.error('[GPT Config] API error response', { status: response.status, errorText });
-      throw new Error(`GPT API error ${response.status}: ${errorText}`);
+      throw serviceErrorFromResponse('openai', response, errorText);
     }
 
-    const data = await response.json();
+    let data;
+    try {
+      data = await response.json();
+    } catch (parseError) {
+      reportUsage({ service: 'openai', operation: 'callGPTAPI', model, latencyMs: Date.now() - startedAt, success: false });
+      throw new ServiceError('openai', 'validation', 'GPT API returned invalid JSON', { cause: parseError });
+    }
+    reportUsage({ service: 'openai', operation: 'callGPTAPI', model, ...extractOpenAIUsage(data), latencyMs: Date.now() - startedAt, success: true });
     console.log('[GPT Config] API success', { 
       hasChoices: !!data.choices, 
       choiceCount: data.choices?.length,
@@ -190,6 +223,7 @@ export async function callGPTAPI(options: CallGPTAPIOptions): Promise<any> {
     return data;
   } catch (error) {
     console.error('[GPT Config] API call exception', { error: error instanceof Error ? error.message : String(error) });
-    throw error;
+    // Anything that is not already classified came from fetch() itself (offline, DNS, CORS)
+    throw toNetworkError('openai', error);
   }
 }
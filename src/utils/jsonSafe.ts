@@ -0,0 +1,10 @@
+/**
+ * Convert a value to JSON-safe form (bigint → string) for jsonb columns and IndexedDB/JSON storage
+ * Same convention as saveSubtitlesBatch for tokens_th.meaning_id - Zod bigintCoerce restores the bigints on read
+ */
+export function toJsonSafe(value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+  return JSON.parse(JSON.stringify(value, (_key, val) => typeof val === 'bigint' ? val.toString() : val));
+}